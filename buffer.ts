@@ -0,0 +1,109 @@
+/**
+ * This module provides the buffer that is searched by
+ * {@linkcode VimRegExp.execBuffer} without joining the lines by the caller.
+ *
+ * @module
+ */
+
+/**
+ * A lazy line provider, like a buffer of Vim.
+ *
+ * @example
+ * ```ts
+ * import type { TextBuffer } from "@milly/vimregexp/buffer";
+ * import { VimRegExp } from "@milly/vimregexp/regexp";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const buffer: TextBuffer = {
+ *   lineCount: 1000,
+ *   getLine: (lnum) => `line ${lnum}`,
+ * };
+ * const match = new VimRegExp("e 12\\d").execBuffer(buffer);
+ * assertEquals(match, {
+ *   lnum: 120,
+ *   col: 4,
+ *   endLnum: 120,
+ *   endCol: 9,
+ *   submatches: ["e 120", "", "", "", "", "", "", "", "", ""],
+ *   matched: [true, false, false, false, false, false, false, false, false, false],
+ * });
+ * ```
+ */
+export type TextBuffer = {
+  /** Number of lines in the buffer. */
+  readonly lineCount: number;
+  /**
+   * Returns the text of the line without the newline.
+   *
+   * @param lnum - Line number, 1-based.
+   */
+  getLine(lnum: number): string;
+};
+
+/**
+ * A buffer searched by {@linkcode VimRegExp}, that is an array of lines or
+ * a {@linkcode TextBuffer}.
+ */
+export type VimBuffer = readonly string[] | TextBuffer;
+
+/**
+ * A match in a buffer.  Columns are byte indices of the lines encoded in
+ * UTF-8, 1-based, like Vim.
+ */
+export type VimBufferMatch = {
+  /** Line number of the start of the match. */
+  lnum: number;
+  /** Column of the start of the match. */
+  col: number;
+  /** Line number of the end of the match. */
+  endLnum: number;
+  /**
+   * Column of the end of the match, exclusive.  If the match ends with the
+   * newline, it is the first column of the next line.
+   */
+  endCol: number;
+  /**
+   * The whole match and the sub-expressions "\1" ... "\9".  The list always
+   * has 10 items, an unmatched sub-expression is the empty string.
+   */
+  submatches: string[];
+  /**
+   * Whether the whole match and the sub-expressions "\1" ... "\9" took part
+   * in the match.  The list always has 10 items.  Unlike `submatches`, it
+   * tells a sub-expression that matched the empty string from an unmatched
+   * one.
+   */
+  matched: boolean[];
+};
+
+/**
+ * Returns the {@linkcode TextBuffer} of the buffer.
+ *
+ * @param buffer - An array of lines or a {@linkcode TextBuffer}.
+ * @returns The {@linkcode TextBuffer}.
+ *
+ * @example
+ * ```ts
+ * import { toTextBuffer } from "@milly/vimregexp/buffer";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const buffer = toTextBuffer(["foo", "bar"]);
+ * assertEquals(buffer.lineCount, 2);
+ * assertEquals(buffer.getLine(2), "bar");
+ * ```
+ */
+export function toTextBuffer(buffer: VimBuffer): TextBuffer {
+  if (!isLineArray(buffer)) {
+    return buffer;
+  }
+  return {
+    get lineCount() {
+      return buffer.length;
+    },
+    getLine: (lnum) => buffer[lnum - 1],
+  };
+}
+
+function isLineArray(buffer: VimBuffer): buffer is readonly string[] {
+  return Array.isArray(buffer);
+}
@@ -0,0 +1,25 @@
+import { assertEquals } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+
+import { type TextBuffer, toTextBuffer } from "./buffer.ts";
+
+describe("toTextBuffer", () => {
+  it("returns the TextBuffer of the array of lines.", () => {
+    const lines = ["foo", "bar"];
+    const buffer = toTextBuffer(lines);
+    assertEquals(buffer.lineCount, 2);
+    assertEquals(buffer.getLine(1), "foo");
+    assertEquals(buffer.getLine(2), "bar");
+  });
+  it("reflects the changes of the array.", () => {
+    const lines = ["foo"];
+    const buffer = toTextBuffer(lines);
+    lines.push("bar");
+    assertEquals(buffer.lineCount, 2);
+    assertEquals(buffer.getLine(2), "bar");
+  });
+  it("returns the TextBuffer as is.", () => {
+    const textBuffer: TextBuffer = { lineCount: 1, getLine: () => "foo" };
+    assertEquals(toTextBuffer(textBuffer), textBuffer);
+  });
+});
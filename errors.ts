@@ -74,3 +74,49 @@ export class CharClassSyntaxError extends SyntaxError implements SourceSyntaxErr
     this.index = index;
   }
 }
+
+/**
+ * Represents the error when a Vim script expression is invalid or fails to
+ * evaluate.
+ */
+export class VimExpressionError extends Error implements SourceSyntaxError {
+  static {
+    this.prototype.name = "VimExpressionError";
+  }
+  source?: string;
+  index?: number;
+  /**
+   * Creates a new `VimExpressionError` object.
+   */
+  constructor(message?: string, options: SourceSyntaxErrorOptions = {}) {
+    const { source, index, ...rest } = options;
+    const at = index !== undefined ? `:${index}` : "";
+    const src = source ? `: "${source}"${at}` : "";
+    const suffix = message ? `: ${message}` : "";
+    message = `Invalid Vim expression${src}${suffix}`;
+    super(message, rest);
+    this.source = source;
+    this.index = index;
+  }
+}
+
+/**
+ * Represents the error of an Ex command, that has Vim's error number like
+ * "E486: Pattern not found: foo".
+ */
+export class VimCommandError extends Error {
+  static {
+    this.prototype.name = "VimCommandError";
+  }
+  /**
+   * Vim's error number, e.g. `"E486"`.
+   */
+  code: string;
+  /**
+   * Creates a new `VimCommandError` object.
+   */
+  constructor(code: string, message: string, options?: ErrorOptions) {
+    super(`${code}: ${message}`, options);
+    this.code = code;
+  }
+}
@@ -1,7 +1,12 @@
 import { assertEquals } from "jsr:@std/assert";
 import { describe, it } from "jsr:@std/testing/bdd";
 
-import { CharClassSyntaxError, VimRegExpSyntaxError } from "./errors.ts";
+import {
+  CharClassSyntaxError,
+  VimCommandError,
+  VimExpressionError,
+  VimRegExpSyntaxError,
+} from "./errors.ts";
 
 describe("VimRegExpSyntaxError", () => {
   describe("constructor", () => {
@@ -72,3 +77,49 @@ describe("CharClassSyntaxError", () => {
     });
   });
 });
+
+describe("VimExpressionError", () => {
+  describe("constructor", () => {
+    it("can omit 'message'", () => {
+      const error = new VimExpressionError();
+      assertEquals(error.message, "Invalid Vim expression");
+      assertEquals(error.source, undefined);
+      assertEquals(error.index, undefined);
+    });
+    it("can omit 'options'", () => {
+      const error = new VimExpressionError("foobar");
+      assertEquals(error.message, "Invalid Vim expression: foobar");
+      assertEquals(error.source, undefined);
+      assertEquals(error.index, undefined);
+    });
+    it("stores value of 'source' option into the message.", () => {
+      const error = new VimExpressionError("foobar", { source: "1 +" });
+      assertEquals(error.message, 'Invalid Vim expression: "1 +": foobar');
+      assertEquals(error.source, "1 +");
+      assertEquals(error.index, undefined);
+    });
+    it("stores value of 'source' and 'index' option into the message.", () => {
+      const error = new VimExpressionError("foobar", { source: "1 +", index: 3 });
+      assertEquals(error.message, 'Invalid Vim expression: "1 +":3: foobar');
+      assertEquals(error.source, "1 +");
+      assertEquals(error.index, 3);
+    });
+    it("does not stores value of 'index' option into the message.", () => {
+      const error = new VimExpressionError("foobar", { index: 3 });
+      assertEquals(error.message, "Invalid Vim expression: foobar");
+      assertEquals(error.source, undefined);
+      assertEquals(error.index, 3);
+    });
+  });
+});
+
+describe("VimCommandError", () => {
+  describe("constructor", () => {
+    it("stores the error number into the message.", () => {
+      const error = new VimCommandError("E486", "Pattern not found: foo");
+      assertEquals(error.message, "E486: Pattern not found: foo");
+      assertEquals(error.code, "E486");
+      assertEquals(error.name, "VimCommandError");
+    });
+  });
+});
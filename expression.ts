@@ -0,0 +1,596 @@
+/**
+ * This module provides the evaluator of a small subset of Vim script
+ * expressions, that is used by the replacement string starting with "\=".
+ *
+ * @module
+ */
+
+import { VimExpressionError } from "./errors.ts";
+import { utf8Length } from "./offset.ts";
+
+/**
+ * A value of the expression.  A Vim's Number is a 64-bit signed integer, so
+ * it is represented as `bigint`.
+ */
+export type VimValue = string | bigint;
+
+/**
+ * Optional parameters of {@linkcode evaluate}.
+ */
+export type EvaluateOptions = {
+  /**
+   * The whole match and the sub-expressions returned by `submatch()`.
+   * Missing ones are the empty string.
+   *
+   * @default {[]}
+   */
+  submatches?: readonly (string | undefined)[];
+};
+
+/**
+ * Evaluates a Vim script expression in a sandbox.
+ *
+ * Only Numbers and Strings are supported, no variables are available and
+ * only the following functions can be called:
+ *
+ * - `submatch({nr})`
+ * - `toupper({expr})`, `tolower({expr})`
+ * - `printf({fmt}, {expr1} ...)`
+ * - `str2nr({string} [, {base}])`
+ * - `repeat({expr}, {count})`
+ * - `string({expr})`
+ * - `strlen({string})`, `len({expr})`, `strchars({string})`
+ * - `nr2char({expr})`, `char2nr({string})`
+ * - `abs({expr})`
+ *
+ * The operators are the ternary "?:", logical "||" and "&&", comparison
+ * like "==", "!=", "<" and ">" with or without "#" and "?", concatenation
+ * "." and "..", arithmetic "+", "-", "*", "/" and "%", and unary "!", "-"
+ * and "+".
+ *
+ * The strings made by `repeat()` and `printf()`, and the field width and
+ * the precision of `printf()`, are limited to {@linkcode MAX_STRING_LENGTH}
+ * characters.
+ *
+ * @param expression - Vim script expression.
+ * @param options - Optional parameters.
+ * @returns The result value.
+ *
+ * @throws {VimExpressionError}
+ * Thrown if `expression` is invalid format or fails to evaluate, or a
+ * string is too long (E1510).
+ *
+ * @example
+ * ```ts
+ * import { evaluate } from "@milly/vimregexp/expression";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(evaluate("submatch(1) * 2 + 1", { submatches: ["x12", "12"] }), 25n);
+ * assertEquals(evaluate('printf("%03d", 7) .. toupper("x")'), "007X");
+ * ```
+ */
+export function evaluate(expression: string, options: EvaluateOptions = {}): VimValue {
+  const { submatches = [] } = options;
+  const node = parseExpression(expression);
+  return evaluateNode(node, { expression, submatches });
+}
+
+/**
+ * Converts the value into a String, like Vim's `string()` for a String used
+ * as a text.
+ */
+export function toVimString(value: VimValue): string {
+  return typeof value === "string" ? value : `${value}`;
+}
+
+/**
+ * Converts the value into a Number, like Vim's automatic conversion.
+ */
+export function toVimNumber(value: VimValue): bigint {
+  return typeof value === "string" ? str2nr(value, 0) : value;
+}
+
+type Token = {
+  type: "number" | "string" | "name" | "op";
+  value: string;
+  index: number;
+};
+
+type Node =
+  | { type: "value"; value: VimValue; index: number }
+  | { type: "call"; name: string; args: Node[]; index: number }
+  | { type: "unary"; op: string; operand: Node; index: number }
+  | { type: "binary"; op: string; left: Node; right: Node; index: number }
+  | { type: "ternary"; cond: Node; then: Node; else: Node; index: number };
+
+type Context = {
+  expression: string;
+  submatches: readonly (string | undefined)[];
+};
+
+/** Matches a token, or whitespace before it. */
+const reToken = new RegExp(
+  [
+    /(?<space>\s+)/.source,
+    /(?<float>[0-9]+\.[0-9])/.source,
+    /(?<number>0[xX][0-9a-fA-F]+|0[bB][01]+|0[oO][0-7]+|[0-9]+)/.source,
+    /(?<string>'(?:''|[^'])*'|"(?:\\.|[^"\\])*")/.source,
+    /(?<name>[a-zA-Z_][a-zA-Z0-9_]*(?::[a-zA-Z0-9_]+)?)/.source,
+    /(?<op>\|\||&&|[=!]~[#?]?|[=!<>]=[#?]?|[<>][#?]?|\.\.|[-+*\/%.!?:(),])/.source,
+  ].join("|"),
+  "uy",
+);
+
+const INT64_MAX = (1n << 63n) - 1n;
+const INT64_MIN = -(1n << 63n);
+
+/**
+ * The maximum length of the strings made by {@linkcode evaluate}, that
+ * keeps a sandboxed expression from allocating too much memory.
+ */
+export const MAX_STRING_LENGTH = 0x100000;
+
+/** Double quoted string escapes. */
+const STRING_ESCAPES: Record<string, string> = {
+  b: "\b",
+  e: "\x1b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  "\\": "\\",
+  '"': '"',
+};
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  reToken.lastIndex = 0;
+  while (reToken.lastIndex < expression.length) {
+    const index = reToken.lastIndex;
+    const m = reToken.exec(expression);
+    if (!m) {
+      throw new VimExpressionError(`E15: Invalid expression: "${expression.slice(index)}"`, {
+        source: expression,
+        index,
+      });
+    }
+    const { space, float, number, string, name, op } = m.groups!;
+    if (float) {
+      throw new VimExpressionError("Float is not supported", { source: expression, index });
+    }
+    if (space === undefined) {
+      const [type, value] = number !== undefined
+        ? ["number", number] as const
+        : string !== undefined
+        ? ["string", string] as const
+        : name !== undefined
+        ? ["name", name] as const
+        : ["op", op] as const;
+      tokens.push({ type, value, index });
+    }
+  }
+  return tokens;
+}
+
+function parseExpression(expression: string): Node {
+  const tokens = tokenize(expression);
+  let pos = 0;
+  const peek = (): Token | undefined => tokens[pos];
+  const fail = (message: string, index = peek()?.index ?? expression.length): never => {
+    throw new VimExpressionError(message, { source: expression, index });
+  };
+  const maybeOp = (...ops: string[]): Token | undefined => {
+    const token = peek();
+    if (token?.type === "op" && ops.includes(token.value)) {
+      ++pos;
+      return token;
+    }
+  };
+  const ensureOp = (op: string) =>
+    maybeOp(op) ?? fail(`E15: Missing '${op}': "${expression.slice(peek()?.index)}"`);
+
+  /** expr1: expr2 ? expr1 : expr1 */
+  const expr1 = (): Node => {
+    const cond = expr2();
+    const q = maybeOp("?");
+    if (!q) {
+      return cond;
+    }
+    const then = expr1();
+    ensureOp(":");
+    return { type: "ternary", cond, then, else: expr1(), index: q.index };
+  };
+  /** Parses left-associative binary operators. */
+  const binary = (next: () => Node, ops: string[]) => (): Node => {
+    let left = next();
+    for (let op; (op = maybeOp(...ops));) {
+      left = { type: "binary", op: op.value, left, right: next(), index: op.index };
+    }
+    return left;
+  };
+  /** expr4: expr5 {cmp} expr5 */
+  const expr4 = (): Node => {
+    const left = expr5();
+    const token = peek();
+    if (token?.type === "op" && /^(?:[=!]=|[<>]=?|[=!]~)[#?]?$/.test(token.value)) {
+      ++pos;
+      return { type: "binary", op: token.value, left, right: expr5(), index: token.index };
+    }
+    return left;
+  };
+  /** expr7: ! expr7, - expr7, + expr7 */
+  const expr7 = (): Node => {
+    const op = maybeOp("!", "-", "+");
+    if (op) {
+      return { type: "unary", op: op.value, operand: expr7(), index: op.index };
+    }
+    return expr9();
+  };
+  /** expr9: number, string, function call or nested expression */
+  const expr9 = (): Node => {
+    const token = peek() ?? fail(`E15: Invalid expression: "${expression}"`);
+    ++pos;
+    const { index } = token;
+    switch (token.type) {
+      case "number":
+        return { type: "value", value: str2nr(token.value, 0), index };
+      case "string":
+        return { type: "value", value: parseString(token.value), index };
+      case "name": {
+        if (!maybeOp("(")) {
+          return fail(`E121: Undefined variable: ${token.value}`, index);
+        }
+        const args: Node[] = [];
+        if (!maybeOp(")")) {
+          do {
+            args.push(expr1());
+          } while (maybeOp(","));
+          ensureOp(")");
+        }
+        return { type: "call", name: token.value, args, index };
+      }
+      case "op":
+        if (token.value === "(") {
+          const node = expr1();
+          ensureOp(")");
+          return node;
+        }
+    }
+    return fail(`E15: Invalid expression: "${expression.slice(index)}"`, index);
+  };
+  const expr6 = binary(expr7, ["*", "/", "%"]);
+  const expr5 = binary(expr6, ["+", "-", ".", ".."]);
+  const expr3 = binary(expr4, ["&&"]);
+  const expr2 = binary(expr3, ["||"]);
+
+  const node = expr1();
+  if (pos < tokens.length) {
+    fail(`E488: Trailing characters: ${expression.slice(peek()!.index)}`);
+  }
+  return node;
+}
+
+function parseString(literal: string): string {
+  const body = literal.slice(1, -1);
+  if (literal[0] === "'") {
+    return body.replaceAll("''", "'");
+  }
+  return body.replace(
+    /\\(?:([0-7]{1,3})|[xX]([0-9a-fA-F]{1,2})|u([0-9a-fA-F]{1,4})|U([0-9a-fA-F]{1,8})|(.))/gsu,
+    (_, oct?: string, hex?: string, u?: string, longU?: string, c?: string) => {
+      if (c !== undefined) {
+        return STRING_ESCAPES[c] ?? c;
+      }
+      const code = oct ? parseInt(oct, 8) : parseInt((hex ?? u ?? longU)!, 16);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : "";
+    },
+  );
+}
+
+function evaluateNode(node: Node, ctx: Context): VimValue {
+  const fail = (message: string): never => {
+    throw new VimExpressionError(message, { source: ctx.expression, index: node.index });
+  };
+  switch (node.type) {
+    case "value":
+      return node.value;
+    case "ternary":
+      return isTruthy(evaluateNode(node.cond, ctx))
+        ? evaluateNode(node.then, ctx)
+        : evaluateNode(node.else, ctx);
+    case "unary": {
+      const value = evaluateNode(node.operand, ctx);
+      switch (node.op) {
+        case "!":
+          return isTruthy(value) ? 0n : 1n;
+        case "-":
+          return BigInt.asIntN(64, -toVimNumber(value));
+        default:
+          return toVimNumber(value);
+      }
+    }
+    case "binary": {
+      const { op } = node;
+      const left = evaluateNode(node.left, ctx);
+      // "||" and "&&" do not evaluate the right side if not needed.
+      if (op === "||" || op === "&&") {
+        if (isTruthy(left) === (op === "||")) {
+          return op === "||" ? 1n : 0n;
+        }
+        return isTruthy(evaluateNode(node.right, ctx)) ? 1n : 0n;
+      }
+      const right = evaluateNode(node.right, ctx);
+      if (op === "." || op === "..") {
+        return toVimString(left) + toVimString(right);
+      }
+      if (/^[=!<>]/.test(op)) {
+        return compare(op, left, right) ?? fail(`Operator is not supported: ${op}`);
+      }
+      const [a, b] = [toVimNumber(left), toVimNumber(right)];
+      switch (op) {
+        case "+":
+          return BigInt.asIntN(64, a + b);
+        case "-":
+          return BigInt.asIntN(64, a - b);
+        case "*":
+          return BigInt.asIntN(64, a * b);
+        case "/":
+          // Like Vim, division by zero results in the maximum or minimum.
+          return b === 0n
+            ? (a > 0n ? INT64_MAX : a < 0n ? -INT64_MAX : INT64_MIN)
+            : BigInt.asIntN(64, a / b);
+        default:
+          return b === 0n ? 0n : a % b;
+      }
+    }
+    case "call": {
+      const func = (Object.hasOwn(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined) ??
+        fail(`E117: Unknown function: ${node.name}`);
+      const [min, max, impl] = func;
+      if (node.args.length < min) {
+        fail(`E119: Not enough arguments for function: ${node.name}`);
+      }
+      if (node.args.length > max) {
+        fail(`E118: Too many arguments for function: ${node.name}`);
+      }
+      const args = node.args.map((arg) => evaluateNode(arg, ctx));
+      return impl(args, ctx, fail);
+    }
+  }
+}
+
+function isTruthy(value: VimValue): boolean {
+  return toVimNumber(value) !== 0n;
+}
+
+/** Compares the values, returns `undefined` if the operator is not supported. */
+function compare(op: string, left: VimValue, right: VimValue): bigint | undefined {
+  const ic = op.endsWith("?");
+  const base = op.replace(/[#?]$/, "");
+  let cmp: number;
+  if (typeof left === "string" && typeof right === "string") {
+    const [a, b] = ic ? [left.toLowerCase(), right.toLowerCase()] : [left, right];
+    cmp = a < b ? -1 : a > b ? 1 : 0;
+  } else {
+    const [a, b] = [toVimNumber(left), toVimNumber(right)];
+    cmp = a < b ? -1 : a > b ? 1 : 0;
+  }
+  const result = ({
+    "==": cmp === 0,
+    "!=": cmp !== 0,
+    "<": cmp < 0,
+    "<=": cmp <= 0,
+    ">": cmp > 0,
+    ">=": cmp >= 0,
+  } as Record<string, boolean | undefined>)[base];
+  return result === undefined ? undefined : result ? 1n : 0n;
+}
+
+/**
+ * Converts the String into a Number, like Vim's `str2nr()`.
+ * If `base` is 0, all of the prefixes "0x", "0b", "0o" and "0" are
+ * recognized like the automatic conversion.
+ */
+function str2nr(s: string, base: 0 | 2 | 8 | 10 | 16): bigint {
+  const [, sign, rest] = /^(-?)(.*)$/su.exec(s)!;
+  let radix: number = base;
+  let digits = rest;
+  const prefix = /^0([xXbBoO]?)/u.exec(rest)?.[1];
+  if (prefix !== undefined) {
+    const prefixRadix = { x: 16, b: 2, o: 8, "": 8 }[prefix.toLowerCase() as "x"];
+    const allowed = base === 0 || base === prefixRadix;
+    const body = rest.slice(1 + prefix.length);
+    const valid = prefix === ""
+      ? /^[0-7]+(?![89])/u.test(body)
+      : new RegExp(`^[${"0123456789abcdef".slice(0, prefixRadix)}]`, "iu").test(body);
+    if (allowed && valid) {
+      radix = prefixRadix;
+      digits = body;
+    }
+  }
+  radix ||= 10;
+  const [valid] = new RegExp(`^[${"0123456789abcdef".slice(0, radix)}]*`, "iu").exec(digits)!;
+  let n = 0n;
+  for (const c of valid) {
+    n = n * BigInt(radix) + BigInt(parseInt(c, 16));
+    if (n > INT64_MAX) {
+      // Like Vim, the overflowed value is clamped.
+      return sign ? INT64_MIN : INT64_MAX;
+    }
+  }
+  return sign ? -n : n;
+}
+
+type VimFunction = [
+  min: number,
+  max: number,
+  impl: (args: VimValue[], ctx: Context, fail: (message: string) => never) => VimValue,
+];
+
+const FUNCTIONS: Record<string, VimFunction | undefined> = {
+  abs: [1, 1, ([n]) => {
+    const value = toVimNumber(n);
+    return value < 0n ? BigInt.asIntN(64, -value) : value;
+  }],
+  char2nr: [1, 1, ([s]) => BigInt(toVimString(s).codePointAt(0) ?? 0)],
+  len: [1, 1, ([s]) => BigInt(utf8Length(toVimString(s)))],
+  nr2char: [1, 1, ([n], _, fail) => {
+    const code = toVimNumber(n);
+    if (code < 0n || code > 0x10ffffn) {
+      fail(`E1510: Value too large: ${code}`);
+    }
+    return code === 0n ? "" : String.fromCodePoint(Number(code));
+  }],
+  printf: [1, 19, ([fmt, ...args], _, fail) => printf(toVimString(fmt), args, fail)],
+  repeat: [2, 2, ([s, count], _, fail) => {
+    const n = toVimNumber(count);
+    const str = toVimString(s);
+    if (n <= 0n || str === "") {
+      return "";
+    }
+    if (n * BigInt(str.length) > MAX_STRING_LENGTH) {
+      fail(`E1510: Value too large: ${n}`);
+    }
+    return str.repeat(Number(n));
+  }],
+  str2nr: [1, 2, ([s, base = 10n], _, fail) => {
+    const b = Number(toVimNumber(base));
+    if (b !== 2 && b !== 8 && b !== 10 && b !== 16) {
+      fail("E474: Invalid argument");
+    }
+    return str2nr(toVimString(s).replace(/^\s+/u, ""), b as 2 | 8 | 10 | 16);
+  }],
+  strchars: [1, 1, ([s]) => BigInt([...toVimString(s)].length)],
+  string: [1, 1, ([v]) => typeof v === "string" ? `'${v.replaceAll("'", "''")}'` : `${v}`],
+  strlen: [1, 1, ([s]) => BigInt(utf8Length(toVimString(s)))],
+  submatch: [1, 1, ([n], { submatches }, fail) => {
+    const nr = toVimNumber(n);
+    if (nr < 0n || nr > 9n) {
+      fail(`E935: Invalid submatch number: ${nr}`);
+    }
+    return submatches[Number(nr)] ?? "";
+  }],
+  tolower: [1, 1, ([s]) => mapChars(toVimString(s), "toLowerCase")],
+  toupper: [1, 1, ([s]) => mapChars(toVimString(s), "toUpperCase")],
+};
+
+/** Changes the case of each character that stays a single character. */
+function mapChars(s: string, method: "toUpperCase" | "toLowerCase"): string {
+  return [...s].map((c) => {
+    const converted = c[method]();
+    return [...converted].length === 1 ? converted : c;
+  }).join("");
+}
+
+/** Formats the arguments like Vim's `printf()`. */
+function printf(fmt: string, args: VimValue[], fail: (message: string) => never): string {
+  let argIndex = 0;
+  const nextArg = (): VimValue => {
+    if (argIndex >= args.length) {
+      fail("E766: Insufficient arguments for printf()");
+    }
+    return args[argIndex++];
+  };
+  const result = fmt.replace(
+    /%([-+ 0#]*)(\*|[0-9]+)?(?:\.(\*|[0-9]*))?(.?)/gsu,
+    (spec, flags: string, widthSpec?: string, precSpec?: string, conv?: string) => {
+      if (conv === "%") {
+        return "%";
+      }
+      /** Returns the field width or the precision, that is limited. */
+      const toSize = (value: bigint): number => {
+        if (value > MAX_STRING_LENGTH || value < -MAX_STRING_LENGTH) {
+          fail(`E1510: Value too large: ${value}`);
+        }
+        return Number(value);
+      };
+      const width = toSize(widthSpec === "*" ? toVimNumber(nextArg()) : BigInt(widthSpec ?? 0));
+      const prec = precSpec === "*"
+        ? toSize(toVimNumber(nextArg()))
+        : precSpec === undefined
+        ? undefined
+        : toSize(BigInt(precSpec));
+      const left = flags.includes("-") || width < 0;
+      const pad = (s: string, size: number, zero = false) => {
+        const fill = Math.abs(width) - size;
+        if (fill <= 0) {
+          return s;
+        }
+        if (left) {
+          return s + " ".repeat(fill);
+        }
+        if (zero) {
+          const sign = /^[-+ ]|^0[xXbBo]?(?=.)/.exec(s)?.[0] ?? "";
+          return sign + "0".repeat(fill) + s.slice(sign.length);
+        }
+        return " ".repeat(fill) + s;
+      };
+      switch (conv) {
+        case "s": { // %s counts bytes
+          let s = toVimString(nextArg());
+          if (prec !== undefined) {
+            let size = 0;
+            s = [...s].filter((c) => (size += utf8Length(c)) <= prec).join("");
+          }
+          return pad(s, utf8Length(s));
+        }
+        case "S": { // %S counts characters
+          let chars = [...toVimString(nextArg())];
+          if (prec !== undefined) {
+            chars = chars.slice(0, prec);
+          }
+          return pad(chars.join(""), chars.length);
+        }
+        case "c": {
+          const code = toVimNumber(nextArg());
+          const s = code > 0n && code <= 0x10ffffn ? String.fromCodePoint(Number(code)) : "";
+          return pad(s, utf8Length(s));
+        }
+        case "d":
+        case "i":
+        case "u":
+        case "x":
+        case "X":
+        case "o":
+        case "b":
+        case "B": {
+          const n = toVimNumber(nextArg());
+          const radix = { x: 16, X: 16, o: 8, b: 2, B: 2 }[conv as "x"] ?? 10;
+          let abs = (n < 0n && radix === 10 ? -n : BigInt.asUintN(64, n)).toString(radix);
+          if (prec !== undefined) {
+            abs = abs.padStart(prec, "0");
+          }
+          if (conv === "X") {
+            abs = abs.toUpperCase();
+          }
+          let prefix = "";
+          if (radix === 10) {
+            prefix = n < 0n ? "-" : flags.includes("+") ? "+" : flags.includes(" ") ? " " : "";
+          } else if (flags.includes("#") && n !== 0n) {
+            prefix = { x: "0x", X: "0X", o: abs.startsWith("0") ? "" : "0", b: "0b", B: "0B" }[
+              conv as "x"
+            ];
+          }
+          const s = prefix + abs;
+          return pad(s, s.length, flags.includes("0") && prec === undefined);
+        }
+        case "f":
+        case "F":
+        case "e":
+        case "E":
+        case "g":
+        case "G":
+          return fail("Float is not supported");
+        default:
+          return fail(`E767: Invalid format: ${spec}`);
+      }
+    },
+  );
+  if (argIndex < args.length) {
+    fail("E767: Too many arguments for printf()");
+  }
+  if (result.length > MAX_STRING_LENGTH) {
+    fail(`E1510: Value too large: ${result.length}`);
+  }
+  return result;
+}
@@ -0,0 +1,175 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+
+import { VimExpressionError } from "./errors.ts";
+import { evaluate, MAX_STRING_LENGTH, toVimNumber, toVimString } from "./expression.ts";
+
+describe("evaluate", () => {
+  describe("literals", () => {
+    it("evaluates the decimal, hexadecimal, binary and octal numbers.", () => {
+      assertEquals(evaluate("42"), 42n);
+      assertEquals(evaluate("0x1F"), 31n);
+      assertEquals(evaluate("0b101"), 5n);
+      assertEquals(evaluate("0o17"), 15n);
+      assertEquals(evaluate("017"), 15n);
+      assertEquals(evaluate("019"), 19n);
+    });
+    it("evaluates the single quoted string.", () => {
+      assertEquals(evaluate("'it''s \\n'"), "it's \\n");
+    });
+    it("evaluates the double quoted string with escapes.", () => {
+      assertEquals(evaluate('"a\\tb\\"\\\\\\x41\\101\\u00e9"'), 'a\tb"\\AA\u00e9');
+    });
+    it("throws VimExpressionError for a Float.", () => {
+      assertThrows(() => evaluate("1.5"), VimExpressionError, "Float is not supported");
+    });
+  });
+  describe("operators", () => {
+    it("evaluates the arithmetic operators with precedence.", () => {
+      assertEquals(evaluate("1 + 2 * 3 - -4"), 11n);
+      assertEquals(evaluate("(1 + 2) * 3"), 9n);
+      assertEquals(evaluate("-7 / 2"), -3n);
+      assertEquals(evaluate("-7 % 2"), -1n);
+    });
+    it("returns the limit values for division by zero like Vim.", () => {
+      assertEquals(evaluate("1 / 0"), 0x7fffffffffffffffn);
+      assertEquals(evaluate("-1 / 0"), -0x7fffffffffffffffn);
+      assertEquals(evaluate("0 / 0"), -0x8000000000000000n);
+      assertEquals(evaluate("5 % 0"), 0n);
+    });
+    it("wraps around the overflowed value.", () => {
+      assertEquals(evaluate("0x7fffffffffffffff + 1"), -0x8000000000000000n);
+    });
+    it("converts Strings into Numbers for the arithmetic operators.", () => {
+      assertEquals(evaluate("'0x10' + '010' + '12abc' + ' 3'"), 16n + 8n + 12n);
+    });
+    it("concatenates the values with '.' and '..'.", () => {
+      assertEquals(evaluate("1 . 2 .. 'x'"), "12x");
+    });
+    it("evaluates the comparison operators.", () => {
+      assertEquals(evaluate("'abc' < 'abd'"), 1n);
+      assertEquals(evaluate("'A' ==? 'a'"), 1n);
+      assertEquals(evaluate("'A' ==# 'a'"), 0n);
+      assertEquals(evaluate("'10' == 10"), 1n);
+      assertEquals(evaluate("2 >= 3"), 0n);
+    });
+    it("evaluates the logical and ternary operators.", () => {
+      assertEquals(evaluate("!0 && (0 || 'x')"), 0n);
+      assertEquals(evaluate("1 ? 'yes' : 'no'"), "yes");
+      assertEquals(evaluate("0 ? 'a' : 0 ? 'b' : 'c'"), "c");
+    });
+    it("does not evaluate the right side if not needed.", () => {
+      assertEquals(evaluate("1 || submatch(99)"), 1n);
+      assertEquals(evaluate("0 && submatch(99)"), 0n);
+      assertEquals(evaluate("1 ? 'a' : submatch(99)"), "a");
+    });
+    it("throws VimExpressionError for the unsupported operator.", () => {
+      assertThrows(() => evaluate("'a' =~ 'a'"), VimExpressionError, "Operator is not supported");
+    });
+  });
+  describe("functions", () => {
+    it("returns the submatches with submatch().", () => {
+      const submatches = ["foo bar", "foo", undefined];
+      assertEquals(evaluate("submatch(0) . submatch(1)", { submatches }), "foo barfoo");
+      assertEquals(evaluate("submatch(2) . submatch(9)", { submatches }), "");
+      assertThrows(() => evaluate("submatch(10)"), VimExpressionError, "E935:");
+    });
+    it("formats the values with printf().", () => {
+      assertEquals(
+        evaluate("printf('%5s|%-3d|%03x|%#o|%%', 'ab', 7, 10, 8)"),
+        "   ab|7  |00a|010|%",
+      );
+      assertEquals(evaluate("printf('%+d %.3d %*d %c', 1, 2, 3, 4, 65)"), "+1 002   4 A");
+      assertEquals(evaluate("printf('%.2S|%.2s', 'abc', 'xyz')"), "ab|xy");
+      assertThrows(() => evaluate("printf('%d')"), VimExpressionError, "E766:");
+      assertThrows(() => evaluate("printf('%f', 1)"), VimExpressionError, "Float");
+    });
+    it("converts the values with other functions.", () => {
+      assertEquals(evaluate("toupper('abc') . tolower('DEF')"), "ABCdef");
+      assertEquals(evaluate("str2nr('  ff', 16) + str2nr('0b11', 2) + str2nr('12')"), 270n);
+      assertEquals(evaluate("repeat('ab', 3)"), "ababab");
+      assertEquals(evaluate("string('it''s') . string(-1)"), "'it''s'-1");
+      assertEquals(evaluate("strlen('\u00e9') . len(12) . strchars('\u00e9')"), "221");
+      assertEquals(evaluate("nr2char(0x3042) . char2nr('a')"), "\u304297");
+      assertEquals(evaluate("abs(-3)"), 3n);
+    });
+    it("limits the length of the strings made by repeat() and printf().", () => {
+      assertEquals(evaluate(`len(repeat('x', ${MAX_STRING_LENGTH}))`), BigInt(MAX_STRING_LENGTH));
+      assertEquals(evaluate("repeat('', 99999999999)"), "");
+      assertThrows(
+        () => evaluate("repeat('x', 99999999999)"),
+        VimExpressionError,
+        "E1510: Value too large: 99999999999",
+      );
+      assertThrows(
+        () => evaluate(`repeat('xy', ${MAX_STRING_LENGTH / 2 + 1})`),
+        VimExpressionError,
+        "E1510:",
+      );
+      assertEquals(
+        evaluate(`len(printf('%${MAX_STRING_LENGTH}d', 1))`),
+        BigInt(MAX_STRING_LENGTH),
+      );
+      assertThrows(
+        () => evaluate("printf('%9999999999d', 1)"),
+        VimExpressionError,
+        "E1510: Value too large: 9999999999",
+      );
+      assertThrows(
+        () => evaluate("printf('%.9999999999d', 1)"),
+        VimExpressionError,
+        "E1510: Value too large: 9999999999",
+      );
+      assertThrows(
+        () => evaluate("printf('%*d', -99999999999, 1)"),
+        VimExpressionError,
+        "E1510: Value too large: -99999999999",
+      );
+      assertThrows(
+        () => evaluate(`printf('%${MAX_STRING_LENGTH}s%s', 'a', 'b')`),
+        VimExpressionError,
+        "E1510:",
+      );
+    });
+    it("throws VimExpressionError for the wrong call.", () => {
+      assertThrows(() => evaluate("system('ls')"), VimExpressionError, "E117:");
+      for (const name of ["constructor", "toString", "valueOf", "hasOwnProperty", "__proto__"]) {
+        assertThrows(
+          () => evaluate(`${name}(1)`),
+          VimExpressionError,
+          `E117: Unknown function: ${name}`,
+        );
+      }
+      assertThrows(() => evaluate("abs()"), VimExpressionError, "E119:");
+      assertThrows(() => evaluate("abs(1, 2)"), VimExpressionError, "E118:");
+    });
+  });
+  it("throws VimExpressionError for a variable.", () => {
+    assertThrows(() => evaluate("g:foo"), VimExpressionError, "E121: Undefined variable: g:foo");
+  });
+  it("throws VimExpressionError with the index for an invalid expression.", () => {
+    const error = assertThrows(() => evaluate("1 + 2 3"), VimExpressionError);
+    assertEquals(
+      error.message,
+      'Invalid Vim expression: "1 + 2 3":6: E488: Trailing characters: 3',
+    );
+    assertThrows(() => evaluate("(1 + 2"), VimExpressionError, "E15:");
+    assertThrows(() => evaluate(""), VimExpressionError, "E15:");
+  });
+});
+
+describe("toVimString", () => {
+  it("converts the Number into the decimal string.", () => {
+    assertEquals(toVimString(-12n), "-12");
+    assertEquals(toVimString("abc"), "abc");
+  });
+});
+
+describe("toVimNumber", () => {
+  it("converts the String like Vim's automatic conversion.", () => {
+    assertEquals(toVimNumber("0x1f"), 31n);
+    assertEquals(toVimNumber("-010"), -8n);
+    assertEquals(toVimNumber("abc"), 0n);
+    assertEquals(toVimNumber(7n), 7n);
+  });
+});
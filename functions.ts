@@ -0,0 +1,583 @@
+/**
+ * This module provides the ports of Vim's builtin functions that use a
+ * regular expression on Strings, like `match()`, `substitute()` and
+ * `split()`.
+ *
+ * Like Vim, the indices are byte indices of the string encoded in UTF-8,
+ * the pattern is always used as if 'magic' is set, and the matching is
+ * done like {@linkcode VimRegExpOptions.stringMatch} is `true`.
+ *
+ * @module
+ */
+
+import { convertOffset, utf8Length } from "./offset.ts";
+import { expandReplacement } from "./replacement.ts";
+import { VimRegExp, type VimRegExpExecArray, type VimRegExpOptions } from "./regexp.ts";
+
+/**
+ * Optional parameters of the functions in this module.
+ *
+ * {@linkcode VimRegExpOptions.magic} is always `true` and
+ * {@linkcode VimRegExpOptions.smartcase} is not used, like Vim.
+ * An empty pattern matches the empty string, the last search pattern of
+ * {@linkcode VimRegExpOptions.session} is not used.
+ */
+export type VimFunctionOptions = Omit<
+  VimRegExpOptions,
+  "flags" | "magic" | "smartcase" | "stringMatch"
+>;
+
+/**
+ * Optional parameters of {@linkcode match}, {@linkcode matchend},
+ * {@linkcode matchstr}, {@linkcode matchstrpos} and {@linkcode matchlist}.
+ */
+export type MatchOptions = VimFunctionOptions & {
+  /**
+   * The search starts from byte index `start` in a String or item `start`
+   * in a list.  The result is still the index counted from the first
+   * character or item.
+   *
+   * For a String, if `start` > 0 then it is like the string starts `start`
+   * bytes later, thus "^" will match at `start`.  Except when
+   * {@linkcode MatchOptions.count} is given, then it's like matches before
+   * the `start` byte are ignored.  If `start` < 0, it will be set to 0.
+   * For a list the index is counted from the end if `start` < 0.
+   *
+   * If `start` is out of range, there is no match.
+   *
+   * @default {0}
+   */
+  start?: number;
+
+  /**
+   * Use the `count`'th match.  When a match is found in a String the search
+   * for the next one starts one character further.  In a list the search
+   * continues in the next item.
+   *
+   * @default {1}
+   */
+  count?: number;
+};
+
+/**
+ * Optional parameters of {@linkcode matchstrlist}.
+ */
+export type MatchStrListOptions = VimFunctionOptions & {
+  /**
+   * If `true`, the sub-expressions are returned in
+   * {@linkcode MatchStrListItem.submatches}.
+   *
+   * @default {false}
+   */
+  submatches?: boolean;
+};
+
+/**
+ * An item of the result of {@linkcode matchstrlist}.
+ */
+export type MatchStrListItem = {
+  /** Index of the list item where the match is found. */
+  idx: number;
+  /** Byte index of the match in the item. */
+  byteidx: number;
+  /** The matched text. */
+  text: string;
+  /**
+   * The sub-expressions "\1" ... "\9", if
+   * {@linkcode MatchStrListOptions.submatches} is `true`.
+   */
+  submatches?: string[];
+};
+
+/**
+ * Optional parameters of {@linkcode split}.
+ *
+ * {@linkcode VimRegExpOptions.ignorecase} is not used, like Vim.
+ */
+export type SplitOptions = VimFunctionOptions & {
+  /**
+   * If `true`, the first or last item is kept even if it is empty.
+   * Otherwise, an empty item is kept only when the pattern matches at least
+   * one character.
+   *
+   * @default {false}
+   */
+  keepempty?: boolean;
+};
+
+/**
+ * Returns the byte index where `pattern` matches in `expr`, like Vim's
+ * `match()`.  When `expr` is a list, returns the index of the first item
+ * where `pattern` matches.  Returns -1 if there is no match.
+ *
+ * @param expr - The String or the list of Strings.
+ * @param pattern - Vim's regular expression pattern.
+ * @param options - Optional parameters.
+ * @returns The index of the match, or -1.
+ *
+ * @throws {VimRegExpSyntaxError}
+ * Thrown if `pattern` is invalid format.
+ *
+ * @example
+ * ```ts
+ * import { match } from "@milly/vimregexp/functions";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(match("testing", "ing"), 4);
+ * assertEquals(match("testing", "t", { start: 2 }), 3);
+ * assertEquals(match("testing", "..", { count: 2 }), 1);
+ * assertEquals(match(["a", "b", "c"], "b"), 1);
+ * ```
+ */
+export function match(
+  expr: string | readonly string[],
+  pattern: string,
+  options: MatchOptions = {},
+): number {
+  const found = findMatch(expr, pattern, options);
+  if (!found) {
+    return -1;
+  }
+  return found.idx >= 0 ? found.idx : utf8Length(found.text.slice(0, found.match.index));
+}
+
+/**
+ * Same as {@linkcode match}, but returns the byte index of the first
+ * character after the match, like Vim's `matchend()`.  When `expr` is a
+ * list, the result is equal to {@linkcode match}.
+ *
+ * @param expr - The String or the list of Strings.
+ * @param pattern - Vim's regular expression pattern.
+ * @param options - Optional parameters.
+ * @returns The index after the match, or -1.
+ *
+ * @throws {VimRegExpSyntaxError}
+ * Thrown if `pattern` is invalid format.
+ *
+ * @example
+ * ```ts
+ * import { matchend } from "@milly/vimregexp/functions";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(matchend("testing", "ing"), 7);
+ * assertEquals(matchend("testing", "..", { count: 2 }), 3);
+ * ```
+ */
+export function matchend(
+  expr: string | readonly string[],
+  pattern: string,
+  options: MatchOptions = {},
+): number {
+  const found = findMatch(expr, pattern, options);
+  if (!found) {
+    return -1;
+  }
+  const { idx, text, match } = found;
+  return idx >= 0 ? idx : utf8Length(text.slice(0, match.index + match[0].length));
+}
+
+/**
+ * Same as {@linkcode match}, but returns the matched string, like Vim's
+ * `matchstr()`.  Returns the empty string if there is no match.
+ *
+ * @param expr - The String or the list of Strings.
+ * @param pattern - Vim's regular expression pattern.
+ * @param options - Optional parameters.
+ * @returns The matched string.
+ *
+ * @throws {VimRegExpSyntaxError}
+ * Thrown if `pattern` is invalid format.
+ *
+ * @example
+ * ```ts
+ * import { matchstr } from "@milly/vimregexp/functions";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(matchstr("testing", "ing"), "ing");
+ * assertEquals(matchstr("testing", "ing", { start: 5 }), "");
+ * ```
+ */
+export function matchstr(
+  expr: string | readonly string[],
+  pattern: string,
+  options: MatchOptions = {},
+): string {
+  return findMatch(expr, pattern, options)?.match[0] ?? "";
+}
+
+/**
+ * Same as {@linkcode matchstr}, but returns the matched string and the byte
+ * indices of the start and end of the match, like Vim's `matchstrpos()`.
+ * When `expr` is a list, the index of the item is inserted after the
+ * matched string.
+ *
+ * If there is no match, the string is empty and the indices are -1.
+ *
+ * @param expr - The String or the list of Strings.
+ * @param pattern - Vim's regular expression pattern.
+ * @param options - Optional parameters.
+ * @returns The matched string and the indices.
+ *
+ * @throws {VimRegExpSyntaxError}
+ * Thrown if `pattern` is invalid format.
+ *
+ * @example
+ * ```ts
+ * import { matchstrpos } from "@milly/vimregexp/functions";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(matchstrpos("testing", "ing"), ["ing", 4, 7]);
+ * assertEquals(matchstrpos("testing", "ing", { start: 5 }), ["", -1, -1]);
+ * assertEquals(matchstrpos(["1", "__x"], "\\a"), ["x", 1, 2, 3]);
+ * ```
+ */
+export function matchstrpos(
+  expr: string,
+  pattern: string,
+  options?: MatchOptions,
+): [string, number, number];
+export function matchstrpos(
+  expr: readonly string[],
+  pattern: string,
+  options?: MatchOptions,
+): [string, number, number, number];
+export function matchstrpos(
+  expr: string | readonly string[],
+  pattern: string,
+  options: MatchOptions = {},
+): [string, number, number] | [string, number, number, number] {
+  const found = findMatch(expr, pattern, options);
+  let result: [string, number, number, number] = ["", -1, -1, -1];
+  if (found) {
+    const { idx, text, match } = found;
+    const start = utf8Length(text.slice(0, match.index));
+    result = [match[0], idx, start, start + utf8Length(match[0])];
+  }
+  if (typeof expr === "string") {
+    const [str, , start, end] = result;
+    return [str, start, end];
+  }
+  return result;
+}
+
+/**
+ * Same as {@linkcode matchstr}, but returns a list of the match and the
+ * sub-expressions, like Vim's `matchlist()`.  The first item is the whole
+ * match, the second one is "\1" and so on up to "\9".  The list always has
+ * 10 items, an unmatched sub-expression is the empty string.
+ *
+ * Returns an empty list if there is no match.
+ *
+ * @param expr - The String or the list of Strings.
+ * @param pattern - Vim's regular expression pattern.
+ * @param options - Optional parameters.
+ * @returns The match and the sub-expressions.
+ *
+ * @throws {VimRegExpSyntaxError}
+ * Thrown if `pattern` is invalid format.
+ *
+ * @example
+ * ```ts
+ * import { matchlist } from "@milly/vimregexp/functions";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(matchlist("acd", "\\(a\\)\\?\\(b\\)\\?\\(c\\)"), [
+ *   "ac", "a", "", "c", "", "", "", "", "", "",
+ * ]);
+ * assertEquals(matchlist("acd", "x"), []);
+ * ```
+ */
+export function matchlist(
+  expr: string | readonly string[],
+  pattern: string,
+  options: MatchOptions = {},
+): string[] {
+  const found = findMatch(expr, pattern, options);
+  if (!found) {
+    return [];
+  }
+  return Array.from({ length: 10 }, (_, i) => found.match[i] ?? "");
+}
+
+/**
+ * Returns all the matches of `pattern` in the Strings of `list`, like Vim's
+ * `matchstrlist()`.  The search in each item stops at an empty match.
+ *
+ * @param list - The list of Strings.
+ * @param pattern - Vim's regular expression pattern.
+ * @param options - Optional parameters.
+ * @returns The list of the matches.
+ *
+ * @throws {VimRegExpSyntaxError}
+ * Thrown if `pattern` is invalid format.
+ *
+ * @example
+ * ```ts
+ * import { matchstrlist } from "@milly/vimregexp/functions";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(matchstrlist(["tik tok"], "\\<\\k"), [
+ *   { idx: 0, byteidx: 0, text: "t" },
+ *   { idx: 0, byteidx: 4, text: "t" },
+ * ]);
+ * ```
+ */
+export function matchstrlist(
+  list: readonly string[],
+  pattern: string,
+  options: MatchStrListOptions = {},
+): MatchStrListItem[] {
+  const { submatches = false, ...regexOptions } = options;
+  const regex = compile(pattern, regexOptions, "g");
+  const result: MatchStrListItem[] = [];
+  list.forEach((text, idx) => {
+    regex.lastIndex = 0;
+    for (let match; (match = regex.exec(text));) {
+      const item: MatchStrListItem = {
+        idx,
+        byteidx: utf8Length(text.slice(0, match.index)),
+        text: match[0],
+      };
+      if (submatches) {
+        item.submatches = Array.from({ length: 9 }, (_, i) => match![i + 1] ?? "");
+      }
+      result.push(item);
+      const end = match.index + match[0].length;
+      if (end >= text.length || match[0] === "") {
+        break;
+      }
+      regex.lastIndex = end;
+    }
+  });
+  return result;
+}
+
+/**
+ * Returns a copy of `string` with the first match of `pattern` replaced with
+ * `sub`, like Vim's `substitute()`.  When `flags` is "g", all matches are
+ * replaced.
+ *
+ * `sub` is a replacement string like the `:substitute` command, see
+ * {@linkcode expandReplacement}.  Like Vim, "~" is literal.  When `sub` is
+ * a function, it is called with a list of the match and the
+ * sub-expressions "\1" ... "\9", and the returned text is used as is.
+ *
+ * @param string - The String.
+ * @param pattern - Vim's regular expression pattern.
+ * @param sub - Vim's replacement string, or a function.
+ * @param flags - "g" to replace all matches.
+ * @param options - Optional parameters.
+ * @returns The new string.
+ *
+ * @throws {VimRegExpSyntaxError}
+ * Thrown if `pattern` is invalid format.
+ * @throws {VimExpressionError}
+ * Thrown if the expression of "\=" in `sub` is invalid.
+ *
+ * @example
+ * ```ts
+ * import { substitute } from "@milly/vimregexp/functions";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(substitute("aaaa", "a", "b", "g"), "bbbb");
+ * assertEquals(substitute("abc", "\\(.\\)", "\\u\\1-", ""), "A-bc");
+ * assertEquals(substitute("a1b22", "\\d\\+", "\\=submatch(0) * 2", "g"), "a2b44");
+ * assertEquals(substitute("abc", ".", (m) => `<${m[0]}>`, "g"), "<a><b><c>");
+ * ```
+ */
+export function substitute(
+  string: string,
+  pattern: string,
+  sub: string | ((submatches: string[]) => string),
+  flags: string,
+  options: VimFunctionOptions = {},
+): string {
+  const regex = compile(pattern, options, "g");
+  const replace = typeof sub === "function"
+    ? sub
+    : (submatches: string[]) => expandReplacement(sub, submatches);
+  const global = flags.startsWith("g");
+  let result = "";
+  let tail = 0;
+  /** Position of the last empty match. */
+  let zeroWidth: number | undefined;
+  for (;;) {
+    regex.lastIndex = tail;
+    const match = regex.exec(string);
+    if (!match) {
+      break;
+    }
+    const end = match.index + match[0].length;
+    if (match[0] === "") {
+      if (zeroWidth === match.index) {
+        // Avoid getting stuck on a match with an empty string.
+        const next = advanceIndex(string, tail);
+        result += string.slice(tail, next);
+        tail = next;
+        continue;
+      }
+      zeroWidth = match.index;
+    }
+    result += string.slice(tail, match.index);
+    result += replace(Array.from({ length: 10 }, (_, i) => match[i] ?? ""));
+    tail = end;
+    if (tail >= string.length || !global) {
+      break;
+    }
+  }
+  return result + string.slice(tail);
+}
+
+/**
+ * Makes a list from `string`, like Vim's `split()`.  The string is split
+ * where `pattern` matches, and the matched characters are removed.
+ *
+ * When `pattern` is omitted or empty, the string is split at white space,
+ * and leading and trailing white space is removed.
+ *
+ * Like Vim, the search after a match is done as if the string starts at
+ * the end of the match, thus "^" matches there.
+ *
+ * @param string - The String.
+ * @param pattern - Vim's regular expression pattern.
+ * @param options - Optional parameters.
+ * @returns The list of the split items.
+ *
+ * @throws {VimRegExpSyntaxError}
+ * Thrown if `pattern` is invalid format.
+ *
+ * @example
+ * ```ts
+ * import { split } from "@milly/vimregexp/functions";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(split(" a  b "), ["a", "b"]);
+ * assertEquals(split("abc", "\\zs"), ["a", "b", "c"]);
+ * assertEquals(split("a,,b,", ","), ["a", "", "b"]);
+ * assertEquals(split("a,,b,", ",", { keepempty: true }), ["a", "", "b", ""]);
+ * ```
+ */
+export function split(
+  string: string,
+  pattern = "",
+  options: SplitOptions = {},
+): string[] {
+  const { keepempty = false, ...regexOptions } = options;
+  const regex = compile(pattern || "[\\x01- ]\\+", { ...regexOptions, ignorecase: false }, "g");
+  const result: string[] = [];
+  let str = string;
+  let col = 0;
+  while (str !== "" || keepempty) {
+    let match: VimRegExpExecArray | null = null;
+    if (str !== "") {
+      regex.lastIndex = col;
+      match = regex.exec(str);
+    }
+    const end = match ? match.index : str.length;
+    const matchEnd = match ? end + match[0].length : end;
+    if (keepempty || end > 0 || (result.length > 0 && str !== "" && match && end < matchEnd)) {
+      result.push(str.slice(0, end));
+    }
+    if (!match) {
+      break;
+    }
+    // Don't get stuck at the same match.
+    col = matchEnd > 0 ? 0 : advanceIndex(str, matchEnd) - matchEnd;
+    str = str.slice(matchEnd);
+  }
+  return result;
+}
+
+/**
+ * The match found by {@linkcode findMatch}.
+ */
+type FoundMatch = {
+  /** The result of {@linkcode VimRegExp.exec}. */
+  match: VimRegExpExecArray;
+  /** The String where the match is found. */
+  text: string;
+  /** Index of the list item, or -1 for a String. */
+  idx: number;
+};
+
+/**
+ * Finds the match like `find_some_match()` of Vim.
+ */
+function findMatch(
+  expr: string | readonly string[],
+  pattern: string,
+  options: MatchOptions,
+): FoundMatch | undefined {
+  const { start, count, ...regexOptions } = options;
+  const regex = compile(pattern, regexOptions, "g");
+  let nth = count ?? 1;
+  if (typeof expr !== "string") {
+    let idx = start ?? 0;
+    if (idx < 0) {
+      idx += expr.length;
+    }
+    if (idx < 0) {
+      return;
+    }
+    for (; idx < expr.length; ++idx) {
+      regex.lastIndex = 0;
+      const match = regex.exec(expr[idx]);
+      if (match && --nth <= 0) {
+        return { match, text: expr[idx], idx };
+      }
+    }
+    return;
+  }
+  let str = expr;
+  let startcol = 0;
+  if (start !== undefined && start > 0) {
+    if (start > utf8Length(expr)) {
+      return;
+    }
+    const index = convertOffset(expr, start, "byte", "utf16");
+    if (count !== undefined) {
+      // Ignore matches before "start", otherwise skip part of the string.
+      // Differs when the pattern is "^" or "\<".
+      startcol = index;
+    } else {
+      str = expr.slice(index);
+    }
+  }
+  const offset = expr.length - str.length;
+  for (;;) {
+    regex.lastIndex = startcol;
+    const match = regex.exec(str);
+    if (!match) {
+      return;
+    }
+    if (--nth <= 0) {
+      if (offset > 0) {
+        match.index += offset;
+        match.input = expr;
+      }
+      return { match, text: expr, idx: -1 };
+    }
+    // Advance to just after the start of the match.
+    if (match.index >= str.length) {
+      return;
+    }
+    startcol = advanceIndex(str, match.index);
+  }
+}
+
+/** Creates a {@linkcode VimRegExp} used by Vim's builtin functions. */
+function compile(pattern: string, options: VimFunctionOptions, flags: string): VimRegExp {
+  return new VimRegExp(pattern, {
+    ...options,
+    ...(pattern === "" && { session: null }),
+    magic: true,
+    smartcase: false,
+    stringMatch: true,
+    flags,
+  });
+}
+
+/** Returns the index of the next character, like `AdvanceStringIndex`. */
+function advanceIndex(s: string, index: number): number {
+  return index + (s.codePointAt(index)! > 0xffff ? 2 : 1);
+}
@@ -0,0 +1,240 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+
+import { VimRegExpSyntaxError } from "./errors.ts";
+import {
+  match,
+  matchend,
+  matchlist,
+  matchstr,
+  matchstrlist,
+  matchstrpos,
+  split,
+  substitute,
+} from "./functions.ts";
+import { VimSearchSession } from "./session.ts";
+
+describe("match", () => {
+  it("returns the byte index of the match.", () => {
+    assertEquals(match("testing", "ing"), 4);
+    assertEquals(match("\u00e9x", "x"), 2);
+    assertEquals(match("\u{1f600}x", "x"), 4);
+  });
+  it("returns -1 if there is no match.", () => {
+    assertEquals(match("testing", "x"), -1);
+  });
+  it("matches the empty pattern at the start.", () => {
+    const session = new VimSearchSession();
+    session.setLastSearchPattern("i");
+    assertEquals(match("abc", "", { session }), 0);
+  });
+  it("uses 'magic' and ignores 'smartcase'.", () => {
+    assertEquals(match("xAx", "a\\+", { ignorecase: true }), 1);
+  });
+  it("uses 'ignorecase'.", () => {
+    assertEquals(match("A", "a", { ignorecase: true }), 0);
+  });
+  it("does not handle the newline as a line break.", () => {
+    assertEquals(match("a\nb", "^b"), -1);
+    assertEquals(match("a\nb", "a.b"), 0);
+  });
+  describe("with 'start'", () => {
+    it("starts the search from the byte index.", () => {
+      assertEquals(match("testing", "ing", { start: 2 }), 4);
+      assertEquals(match("testing", "ing", { start: 4 }), 4);
+      assertEquals(match("testing", "t", { start: 2 }), 3);
+      assertEquals(match("\u00e9xx", "x", { start: 2 }), 2);
+      assertEquals(match("\u00e9xx", "x", { start: 3 }), 3);
+    });
+    it("matches '^' and '\\<' at 'start'.", () => {
+      assertEquals(match("testing", "^t", { start: 3 }), 3);
+      assertEquals(match("ab", "\\<b", { start: 1 }), 1);
+    });
+    it("sets negative 'start' to 0.", () => {
+      assertEquals(match("testing", "t", { start: -3 }), 0);
+    });
+    it("returns -1 if 'start' is out of range.", () => {
+      assertEquals(match("testing", "$", { start: 7 }), 7);
+      assertEquals(match("testing", "$", { start: 8 }), -1);
+    });
+  });
+  describe("with 'count'", () => {
+    it("returns the 'count'th match, searching from the next character.", () => {
+      assertEquals(match("testing", "..", { count: 2 }), 1);
+      assertEquals(match("testing", "t", { count: 3 }), -1);
+      assertEquals(match("testing", "t", { count: 2 }), 3);
+    });
+    it("ignores the matches before 'start'.", () => {
+      assertEquals(match("testing", "^t", { start: 3, count: 1 }), -1);
+      assertEquals(match("ab", "\\<b", { start: 1, count: 1 }), -1);
+      assertEquals(match("abc", "b", { start: 1, count: 0 }), 1);
+    });
+    it("counts the empty match at the end only once.", () => {
+      assertEquals(match("ab", "$", { count: 1 }), 2);
+      assertEquals(match("ab", "$", { count: 2 }), -1);
+    });
+  });
+  describe("with a list", () => {
+    it("returns the index of the item.", () => {
+      assertEquals(match(["a", "b", "c"], "[bc]"), 1);
+      assertEquals(match(["a", "b", "c"], "x"), -1);
+    });
+    it("counts the matches in the items.", () => {
+      assertEquals(match(["aa", "b", "a"], "a", { count: 2 }), 2);
+    });
+    it("counts 'start' from the end if negative.", () => {
+      assertEquals(match(["a", "b", "c"], "c", { start: -1 }), 2);
+      assertEquals(match(["a", "b", "c"], "a", { start: -3 }), 0);
+      assertEquals(match(["a", "b", "c"], "a", { start: -4 }), -1);
+      assertEquals(match(["a", "b", "c"], "a", { start: 3 }), -1);
+    });
+  });
+  it("throws VimRegExpSyntaxError if the pattern is invalid.", () => {
+    assertThrows(() => match("a", "\\("), VimRegExpSyntaxError);
+  });
+});
+
+describe("matchend", () => {
+  it("returns the byte index after the match.", () => {
+    assertEquals(matchend("testing", "ing"), 7);
+    assertEquals(matchend("x\u00e9y", "\u00e9"), 3);
+    assertEquals(matchend("testing", "t", { start: 2 }), 4);
+    assertEquals(matchend("testing", "x"), -1);
+  });
+  it("returns the index of the item for a list.", () => {
+    assertEquals(matchend(["a", "xb"], "b"), 1);
+  });
+});
+
+describe("matchstr", () => {
+  it("returns the matched string.", () => {
+    assertEquals(matchstr("testing", "ing"), "ing");
+    assertEquals(matchstr("testing", "t\\zse"), "e");
+    assertEquals(matchstr("testing", "x"), "");
+    assertEquals(matchstr(["a", "xb"], "x."), "xb");
+  });
+});
+
+describe("matchstrpos", () => {
+  it("returns the matched string and the byte indices.", () => {
+    assertEquals(matchstrpos("testing", "ing"), ["ing", 4, 7]);
+    assertEquals(matchstrpos("\u00e9ing", "ing", { start: 2 }), ["ing", 2, 5]);
+  });
+  it("returns the empty string and -1 if there is no match.", () => {
+    assertEquals(matchstrpos("testing", "ing", { start: 7 }), ["", -1, -1]);
+    assertEquals(matchstrpos("testing", "ing", { start: 8 }), ["", -1, -1]);
+  });
+  it("inserts the index of the item for a list.", () => {
+    assertEquals(matchstrpos(["1", "__x"], "\\a"), ["x", 1, 2, 3]);
+    assertEquals(matchstrpos(["1"], "\\a"), ["", -1, -1, -1]);
+  });
+});
+
+describe("matchlist", () => {
+  it("returns 10 items of the match and the sub-expressions.", () => {
+    assertEquals(matchlist("acd", "\\(a\\)\\?\\(b\\)\\?\\(c\\)"), [
+      "ac",
+      "a",
+      "",
+      "c",
+      "",
+      "",
+      "",
+      "",
+      "",
+      "",
+    ]);
+  });
+  it("returns an empty list if there is no match.", () => {
+    assertEquals(matchlist("acd", "x"), []);
+  });
+});
+
+describe("matchstrlist", () => {
+  it("returns all the matches in the items.", () => {
+    assertEquals(matchstrlist(["tik tok", "x", "\u00e9t"], "\\<\\k"), [
+      { idx: 0, byteidx: 0, text: "t" },
+      { idx: 0, byteidx: 4, text: "t" },
+      { idx: 1, byteidx: 0, text: "x" },
+      { idx: 2, byteidx: 0, text: "\u00e9" },
+    ]);
+  });
+  it("returns the sub-expressions if 'submatches' is `true`.", () => {
+    assertEquals(matchstrlist(["abc"], "a\\(.\\)", { submatches: true }), [
+      { idx: 0, byteidx: 0, text: "ab", submatches: ["b", "", "", "", "", "", "", "", ""] },
+    ]);
+  });
+  it("stops the search in the item at an empty match.", () => {
+    assertEquals(matchstrlist(["aab", "b"], "a*"), [
+      { idx: 0, byteidx: 0, text: "aa" },
+      { idx: 0, byteidx: 2, text: "" },
+      { idx: 1, byteidx: 0, text: "" },
+    ]);
+  });
+});
+
+describe("substitute", () => {
+  it("replaces the first match.", () => {
+    assertEquals(substitute("aaaa", "a", "b", ""), "baaa");
+  });
+  it("replaces all matches with 'g' flag.", () => {
+    assertEquals(substitute("aaaa", "a", "b", "g"), "bbbb");
+  });
+  it("expands the special characters of the replacement string.", () => {
+    assertEquals(substitute("foo bar", "\\(\\w\\+\\)", "\\u\\1[&]", "g"), "Foo[foo] Bar[bar]");
+  });
+  it("keeps '~' literal.", () => {
+    const session = new VimSearchSession();
+    session.setLastSubstituteString("x");
+    assertEquals(substitute("abc", "b", "[~\\~]", "", { session }), "a[~~]c");
+  });
+  it("evaluates the expression of '\\='.", () => {
+    assertEquals(substitute("a1b22", "\\d\\+", "\\=submatch(0) * 2", "g"), "a2b44");
+  });
+  it("calls the function with the submatches.", () => {
+    assertEquals(
+      substitute("ab", "\\(.\\)", (m) => `${m.length}${m[1]}&`, "g"),
+      "10a&10b&",
+    );
+  });
+  it("handles the empty matches like Vim.", () => {
+    assertEquals(substitute("abc", "x*", "-", "g"), "-a-b-c-");
+    assertEquals(substitute("aab", "a*", "-", "g"), "--b-");
+    assertEquals(substitute("aa", "a*", "-", "g"), "-");
+    assertEquals(substitute("\u{1f600}", "x*", "-", "g"), "-\u{1f600}-");
+  });
+  it("uses 'ignorecase'.", () => {
+    assertEquals(substitute("A", "a", "x", "", { ignorecase: true }), "x");
+  });
+});
+
+describe("split", () => {
+  it("splits at white space if the pattern is omitted or empty.", () => {
+    assertEquals(split(" a  b "), ["a", "b"]);
+    assertEquals(split(" a\tb\n", ""), ["a", "b"]);
+  });
+  it("splits the string where the pattern matches.", () => {
+    assertEquals(split(" a  b ", " "), ["a", "", "b"]);
+    assertEquals(split("a b", "\\zs \\ze"), ["a", "b"]);
+  });
+  it("removes the first and last empty items.", () => {
+    assertEquals(split(",a,,b,", ","), ["a", "", "b"]);
+  });
+  it("keeps the empty items if 'keepempty' is `true`.", () => {
+    assertEquals(split(",a,,b,", ",", { keepempty: true }), ["", "a", "", "b", ""]);
+    assertEquals(split("", ",", { keepempty: true }), [""]);
+    assertEquals(split("", ","), []);
+  });
+  it("splits each character with the empty match.", () => {
+    assertEquals(split("abc", "\\zs"), ["a", "b", "c"]);
+    assertEquals(split("abc", "x*"), ["a", "b", "c"]);
+    assertEquals(split("\u{1f600}\u00e9", ""), ["\u{1f600}\u00e9"]);
+    assertEquals(split("\u{1f600}\u00e9", "\\zs"), ["\u{1f600}", "\u00e9"]);
+  });
+  it("matches '^' after the previous match.", () => {
+    assertEquals(split("abc", "^."), []);
+  });
+  it("does not use 'ignorecase'.", () => {
+    assertEquals(split("aAb", "a", { ignorecase: true }), ["Ab"]);
+  });
+});
@@ -0,0 +1,494 @@
+/**
+ * This module provides the parser and the executor of Vim's global
+ * command, like ":g/foo/d" and ":v/bar/d", over the lines of a buffer.
+ *
+ * Like Vim, the columns are byte indices of the lines encoded in UTF-8,
+ * 1-based.
+ *
+ * @module
+ */
+
+import { type TextBuffer, toTextBuffer, type VimBuffer, type VimBufferMatch } from "./buffer.ts";
+import { VimCommandError } from "./errors.ts";
+import { utf8Length } from "./offset.ts";
+import { type ParseOptions, skipPattern } from "./parser.ts";
+import { type ExAddress, parseRange, resolveRange } from "./range.ts";
+import { type VimPosition, VimRegExp, type VimRegExpOptions } from "./regexp.ts";
+import type { VimLastSearchPattern } from "./session.ts";
+
+/**
+ * The global command parsed by {@linkcode parseGlobal}.
+ */
+export type GlobalCommand = {
+  /** The addresses of the range, see {@linkcode parseRange}. */
+  addresses: ExAddress[];
+  /**
+   * The command name.  ":vglobal" and ":global!" select the lines that do
+   * not match.
+   */
+  name: "global" | "vglobal";
+  /** Whether "!" follows ":global". */
+  bang: boolean;
+  /**
+   * The pattern, the empty string uses the last used pattern.  `undefined`
+   * if the previous pattern is used.
+   */
+  pattern?: string;
+  /**
+   * The previous pattern used instead of the pattern, by "\/" and "\?"
+   * (`"search"`) and by "\&" (`"substitute"`).
+   */
+  previousPattern?: "search" | "substitute";
+  /**
+   * The command executed for each line, as typed.  Vim prints the line if
+   * it is empty.
+   */
+  command: string;
+};
+
+/**
+ * The buffer passed to {@linkcode GlobalCallback}, that can be changed.
+ *
+ * The lines selected by the global command follow the changes, a deleted
+ * line is not visited, and an inserted line is not selected.
+ * {@linkcode VimRegExpOptions.cursor} and {@linkcode VimRegExpOptions.marks}
+ * are also moved, like Vim's functions of the same names.
+ */
+export type GlobalBuffer = TextBuffer & {
+  /**
+   * Replaces the text of the line, like Vim's `setline()`.
+   *
+   * @param lnum - Line number, 1-based.
+   * @param text - The text without the newline.
+   */
+  setLine(lnum: number, text: string): void;
+  /**
+   * Inserts the lines below the line, like Vim's `append()`.
+   *
+   * @param lnum - Line number, 0 inserts the lines above the first line.
+   * @param lines - The lines to insert.
+   */
+  append(lnum: number, lines: readonly string[]): void;
+  /**
+   * Deletes the lines, like Vim's `deletebufline()`.  Like Vim, one empty
+   * line is left if all lines are deleted.
+   *
+   * @param first - The first line to delete.
+   * @param last - The last line to delete, the default is `first`.
+   */
+  deleteLines(first: number, last?: number): void;
+  /**
+   * Moves the lines below the line, like Vim's ":move".  The marks in the
+   * lines are moved with them, and the cursor is moved to the last of them.
+   *
+   * @param first - The first line to move.
+   * @param last - The last line to move.
+   * @param dest - The line below which the lines are moved, 0 moves them
+   *   above the first line.
+   * @throws {VimCommandError}
+   * Thrown if `dest` is in the lines, except for the last line (E134).
+   */
+  moveLines(first: number, last: number, dest: number): void;
+};
+
+/**
+ * Called for each line selected by the global command.
+ *
+ * @param lnum - The line number in the current buffer.
+ * @param buffer - The buffer with the changes made before.
+ * @param command - {@linkcode GlobalCommand.command}.
+ */
+export type GlobalCallback = (lnum: number, buffer: GlobalBuffer, command: string) => void;
+
+/**
+ * Optional parameters of {@linkcode executeGlobal}.
+ *
+ * The options of {@linkcode VimRegExpOptions} are used to compile the
+ * pattern.  {@linkcode VimRegExpOptions.cursor} is moved to each selected
+ * line before the callback, and the "'" mark is set in
+ * {@linkcode VimRegExpOptions.marks} at the previous position of the cursor.
+ *
+ * {@linkcode VimRegExpOptions.session} holds the last patterns, that are
+ * used by the empty pattern, "\/", "\?" and "\&".  The pattern of the
+ * command becomes the last search pattern and the last substitute pattern.
+ */
+export type GlobalOptions = Omit<VimRegExpOptions, "flags" | "stringMatch" | "firstLine"> & {
+  /**
+   * Whether the search of a pattern address in the range wraps around the
+   * end of the buffer, like Vim's 'wrapscan' option.
+   *
+   * @default {true}
+   */
+  wrapscan?: boolean;
+};
+
+/**
+ * The result of {@linkcode executeGlobal}.
+ */
+export type GlobalResult = {
+  /** The lines of the buffer after the commands. */
+  lines: string[];
+  /**
+   * The number of the selected lines.  If it is 0, Vim shows "Pattern not
+   * found" or "Pattern found in every line".
+   */
+  count: number;
+  /**
+   * The error thrown by the callback, that stopped the command.  Like Vim,
+   * the lines have the changes made before the error.
+   */
+  error?: unknown;
+};
+
+/** The command names and the minimum length of their abbreviations. */
+const COMMAND_NAMES = [["global", 1], ["vglobal", 1]] as const;
+
+/**
+ * Parses the global command, like ":g/foo/s/bar/baz/".
+ *
+ * The range and the pattern are not evaluated here.  The pattern ends at
+ * the delimiter that is not in a collection, and the rest of the command
+ * line is the command executed for each line.
+ *
+ * @param command - The command line, the leading ":" is optional.
+ * @param options - Optional parameters, `magic` is used to find the end of
+ *   the pattern.
+ * @returns The parsed command.
+ *
+ * @throws {VimCommandError}
+ * Thrown if the command is not a global command (E492), "!" follows
+ * ":vglobal" (E477), the pattern is missing (E148), or the delimiter is a
+ * letter (E146) or an invalid backslash (E10).
+ *
+ * @example
+ * ```ts
+ * import { parseGlobal } from "@milly/vimregexp/global";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(parseGlobal(":.,$g!/^#/s/^/# /"), {
+ *   addresses: [
+ *     { line: { type: "current" }, offset: 0, separator: "," },
+ *     { line: { type: "last" }, offset: 0 },
+ *   ],
+ *   name: "global",
+ *   bang: true,
+ *   pattern: "^#",
+ *   command: "s/^/# /",
+ * });
+ * ```
+ */
+export function parseGlobal(command: string, options: ParseOptions = {}): GlobalCommand {
+  const commandLine = command.replace(/^[ \t:]*/, "");
+  const { addresses, rest: afterRange } = parseRange(commandLine, options);
+  let rest = afterRange.trimStart();
+
+  const word = /^[a-zA-Z]*/.exec(rest)![0];
+  const found = COMMAND_NAMES.find(([full, min]) => word.length >= min && full.startsWith(word));
+  if (!found) {
+    throw new VimCommandError("E492", `Not an editor command: ${commandLine}`);
+  }
+  const name = found[0];
+  rest = rest.slice(word.length);
+  const bang = rest[0] === "!";
+  if (bang) {
+    if (name === "vglobal") {
+      throw new VimCommandError("E477", `No ! allowed: ${commandLine}`);
+    }
+    rest = rest.slice(1);
+  }
+  rest = rest.trimStart();
+  const result: GlobalCommand = { addresses, name, bang, command: "" };
+
+  const c = rest[0];
+  if (c === undefined) {
+    throw new VimCommandError("E148", "Regular expression missing from :global");
+  }
+  if (/^[a-zA-Z]/.test(c)) {
+    throw new VimCommandError("E146", "Regular expressions can't be delimited by letters");
+  }
+  if (c === "\\") {
+    const delimiter = rest[1];
+    if (delimiter !== "/" && delimiter !== "?" && delimiter !== "&") {
+      throw new VimCommandError("E10", "\\ should be followed by /, ? or &");
+    }
+    result.previousPattern = delimiter === "&" ? "substitute" : "search";
+    rest = rest.slice(2);
+  } else {
+    const delimiter = [...rest][0];
+    const skipped = skipPattern(rest.slice(delimiter.length), delimiter, options);
+    result.pattern = skipped.pattern;
+    rest = skipped.rest.slice(delimiter.length);
+  }
+  result.command = rest;
+  return result;
+}
+
+/**
+ * Executes the global command on the lines of the buffer, like Vim.
+ *
+ * First the lines in the range that match the pattern are selected, or the
+ * lines that do not match with ":vglobal" and ":global!".  The range is the
+ * whole buffer by default.  A match of a multi-line pattern selects the
+ * line where it starts to match.  The newline at the end of the last line is
+ * matched like {@linkcode VimRegExp.execBuffer}.
+ *
+ * Then `callback` is called for each selected line from the top, it runs
+ * the command and may change the buffer through {@linkcode GlobalBuffer}.
+ *
+ * @param buffer - An array of lines or a {@linkcode TextBuffer}, that is not
+ *   modified.
+ * @param command - The command parsed by {@linkcode parseGlobal}, or the
+ *   command line.
+ * @param callback - Called for each selected line.
+ * @param options - Optional parameters.
+ * @returns The lines after the commands, the number of the selected lines
+ *   and the error thrown by `callback`, that stops the command.
+ *
+ * @throws {VimCommandError}
+ * Thrown if the command is invalid, see {@linkcode parseGlobal} and
+ * {@linkcode resolveRange}, or there is no previous pattern (E35 and E33).
+ *
+ * @example
+ * ```ts
+ * import { executeGlobal, type GlobalBuffer } from "@milly/vimregexp/global";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const lines = ["foo", "bar", "foo", "baz"];
+ * assertEquals(executeGlobal(lines, "g/foo/d", (lnum, buffer) => buffer.deleteLines(lnum)), {
+ *   lines: ["bar", "baz"],
+ *   count: 2,
+ * });
+ *
+ * // Like ":g/^/m0", that reverses the lines.
+ * const moveToTop = (lnum: number, buffer: GlobalBuffer) => buffer.moveLines(lnum, lnum, 0);
+ * assertEquals(executeGlobal(lines, "g/^/m0", moveToTop).lines, ["baz", "foo", "bar", "foo"]);
+ * ```
+ */
+export function executeGlobal(
+  buffer: VimBuffer,
+  command: GlobalCommand | string,
+  callback: GlobalCallback,
+  options: GlobalOptions = {},
+): GlobalResult {
+  const { wrapscan, session, cursor, marks, ...regexOptions } = options;
+  const parsed = typeof command === "string"
+    ? parseGlobal(command, { magic: options.magic })
+    : command;
+  const textBuffer = toTextBuffer(buffer);
+  let { line1, line2 } = parsed.addresses.length === 0
+    ? { line1: 1, line2: textBuffer.lineCount }
+    : resolveRange(textBuffer, parsed, { ...regexOptions, wrapscan, cursor, marks, session });
+  line1 ||= 1;
+  line2 ||= 1;
+
+  let source: VimLastSearchPattern | undefined;
+  if (parsed.pattern) {
+    source = { pattern: parsed.pattern, typed: true };
+  } else {
+    const which = parsed.previousPattern ?? "last";
+    source = which === "search"
+      ? session?.lastSearchPattern
+      : which === "substitute"
+      ? session?.lastSubstitutePattern
+      : session?.lastPattern;
+    if (!source) {
+      throw which === "substitute"
+        ? new VimCommandError("E33", "No previous substitute regular expression")
+        : new VimCommandError("E35", "No previous regular expression");
+    }
+  }
+  const regex = new VimRegExp(source.pattern, {
+    ...regexOptions,
+    cursor,
+    marks,
+    session,
+    ...(source.typed ? {} : { smartcase: false }),
+  });
+  session?.setLastSearchPattern(source.pattern, source.typed);
+  session?.setLastSubstitutePattern(source.pattern, source.typed);
+
+  const lines = Array.from({ length: textBuffer.lineCount }, (_, i) => textBuffer.getLine(i + 1));
+  const selected = lines.map(() => false);
+  const invert = parsed.name === "vglobal" || parsed.bang;
+  let count = 0;
+  for (let lnum = line1; lnum <= line2;) {
+    const matched = matchedLine(regex, lines, lnum);
+    const end = matched > 0 ? Math.min(matched - 1, line2) : line2;
+    if (invert) {
+      for (let l = lnum; l <= end; ++l) {
+        selected[l - 1] = true;
+      }
+      count += end - lnum + 1;
+    }
+    if (matched === 0 || matched > line2) {
+      break;
+    }
+    if (!invert) {
+      selected[matched - 1] = true;
+      ++count;
+    }
+    lnum = matched + 1;
+  }
+  const result: GlobalResult = { lines, count };
+  if (count === 0) {
+    return result;
+  }
+
+  if (cursor && marks) {
+    marks["'"] = { lnum: cursor.lnum, col: cursor.col };
+  }
+  /** The index of the first line that may be selected. */
+  let next = 0;
+  const globalBuffer = createGlobalBuffer(lines, selected, cursor, marks, (index) => {
+    next = Math.min(next, index);
+  });
+  for (;;) {
+    next = selected.indexOf(true, next);
+    if (next < 0) {
+      break;
+    }
+    selected[next] = false;
+    const lnum = next + 1;
+    if (cursor) {
+      Object.assign(cursor, { lnum, col: 1 });
+    }
+    try {
+      callback(lnum, globalBuffer, parsed.command);
+    } catch (error) {
+      result.error = error;
+      break;
+    }
+  }
+  if (cursor) {
+    // Like Vim, the cursor is kept in the buffer.
+    cursor.lnum = Math.min(Math.max(cursor.lnum, 1), lines.length);
+    cursor.col = Math.min(
+      Math.max(cursor.col, 1),
+      Math.max(utf8Length(lines[cursor.lnum - 1]), 1),
+    );
+  }
+  return result;
+}
+
+/**
+ * Returns the first line at or after `lnum` where the pattern starts to
+ * match, or 0 if not found.
+ */
+function matchedLine(regex: VimRegExp, lines: readonly string[], lnum: number): number {
+  const exec = (lnum: number) => regex.execBuffer(lines, { lnum, col: 1 });
+  const match = exec(lnum);
+  if (!match || match.lnum === lnum) {
+    return match?.lnum ?? 0;
+  }
+  // "\zs" after a line break moves the start of the match to the next
+  // line, then Vim selects the line where the pattern starts to match.  It
+  // is the last line where the search finds the same match.
+  for (let l = match.lnum; l > lnum; --l) {
+    if (isSameMatch(exec(l), match)) {
+      return l;
+    }
+  }
+  return lnum;
+}
+
+function isSameMatch(a: VimBufferMatch | null, b: VimBufferMatch): boolean {
+  return a !== null && a.lnum === b.lnum && a.col === b.col && a.endLnum === b.endLnum &&
+    a.endCol === b.endCol;
+}
+
+/**
+ * Returns the {@linkcode GlobalBuffer} that changes `lines` and `selected`
+ * together.  `changed` is called with the index of the first changed line.
+ */
+function createGlobalBuffer(
+  lines: string[],
+  selected: boolean[],
+  cursor: VimPosition | undefined,
+  marks: Record<string, VimPosition> | undefined,
+  changed: (index: number) => void,
+): GlobalBuffer {
+  const checkLine = (lnum: number, min: number, max: number) => {
+    if (!Number.isInteger(lnum) || lnum < min || lnum > max) {
+      throw new RangeError(`Invalid line number: ${lnum}`);
+    }
+  };
+  return {
+    get lineCount() {
+      return lines.length;
+    },
+    getLine: (lnum) => lines[lnum - 1],
+    setLine(lnum, text) {
+      checkLine(lnum, 1, lines.length);
+      lines[lnum - 1] = text;
+    },
+    append(lnum, added) {
+      checkLine(lnum, 0, lines.length);
+      if (added.length === 0) {
+        return;
+      }
+      lines.splice(lnum, 0, ...added);
+      selected.splice(lnum, 0, ...added.map(() => false));
+      changed(lnum);
+      for (const pos of [cursor, ...Object.values(marks ?? {})]) {
+        if (pos && pos.lnum > lnum) {
+          pos.lnum += added.length;
+        }
+      }
+    },
+    deleteLines(first, last = first) {
+      checkLine(first, 1, lines.length);
+      checkLine(last, first, lines.length);
+      const count = last - first + 1;
+      lines.splice(first - 1, count);
+      selected.splice(first - 1, count);
+      if (lines.length === 0) {
+        lines.push("");
+        selected.push(false);
+      }
+      changed(first - 1);
+      for (const [name, pos] of Object.entries(marks ?? {})) {
+        if (pos.lnum > last) {
+          pos.lnum -= count;
+        } else if (pos.lnum >= first) {
+          delete marks![name];
+        }
+      }
+      if (cursor) {
+        if (cursor.lnum > last) {
+          cursor.lnum -= count;
+        } else if (cursor.lnum > first) {
+          cursor.lnum = first;
+        }
+        cursor.lnum = Math.min(cursor.lnum, lines.length);
+      }
+    },
+    moveLines(first, last, dest) {
+      checkLine(first, 1, lines.length);
+      checkLine(last, first, lines.length);
+      checkLine(dest, 0, lines.length);
+      if (dest >= first && dest < last) {
+        throw new VimCommandError("E134", "Cannot move a range of lines into itself");
+      }
+      const count = last - first + 1;
+      /** The index of the first moved line after the move. */
+      const to = dest > last ? dest - count : dest;
+      if (to !== first - 1) {
+        lines.splice(to, 0, ...lines.splice(first - 1, count));
+        selected.splice(to, 0, ...selected.splice(first - 1, count));
+        changed(Math.min(first - 1, to));
+        for (const pos of Object.values(marks ?? {})) {
+          if (pos.lnum >= first && pos.lnum <= last) {
+            pos.lnum += to - first + 1;
+          } else if (pos.lnum > last && pos.lnum <= dest) {
+            pos.lnum -= count;
+          } else if (pos.lnum > dest && pos.lnum < first) {
+            pos.lnum += count;
+          }
+        }
+      }
+      if (cursor) {
+        cursor.lnum = to + count;
+      }
+    },
+  };
+}
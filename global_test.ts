@@ -0,0 +1,385 @@
+import { assertEquals, assertIsError, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+
+import { VimCommandError } from "./errors.ts";
+import {
+  executeGlobal,
+  type GlobalBuffer,
+  type GlobalCallback,
+  type GlobalOptions,
+  parseGlobal,
+} from "./global.ts";
+import { VimSearchSession } from "./session.ts";
+
+describe("parseGlobal", () => {
+  it("parses the range, the pattern and the command.", () => {
+    assertEquals(parseGlobal(":2,$g/a\\/[/]/s/x/y/"), {
+      addresses: [
+        { line: { type: "number", lnum: 2 }, offset: 0, separator: "," },
+        { line: { type: "last" }, offset: 0 },
+      ],
+      name: "global",
+      bang: false,
+      pattern: "a\\/[/]",
+      command: "s/x/y/",
+    });
+  });
+  it("parses the command names.", () => {
+    assertEquals(parseGlobal("glo/a/").name, "global");
+    assertEquals(parseGlobal("global!/a/"), {
+      addresses: [],
+      name: "global",
+      bang: true,
+      pattern: "a",
+      command: "",
+    });
+    assertEquals(parseGlobal("v/a/d").name, "vglobal");
+    assertEquals(parseGlobal("vg/a/d").name, "vglobal");
+  });
+  it("skips the white space before the delimiter.", () => {
+    assertEquals(parseGlobal("g /b/d").pattern, "b");
+    assertEquals(parseGlobal("g!  /b/d").pattern, "b");
+  });
+  it("accepts the delimiters that are not letters.", () => {
+    assertEquals(parseGlobal("g#b#d").pattern, "b");
+    assertEquals(parseGlobal('g"b"d').pattern, "b");
+    assertEquals(parseGlobal("g|b|d").pattern, "b");
+    assertEquals(parseGlobal("g?a\\??d").pattern, "a?");
+  });
+  it("uses the rest of the line if the delimiter is not found.", () => {
+    assertEquals(parseGlobal("g/b d"), {
+      addresses: [],
+      name: "global",
+      bang: false,
+      pattern: "b d",
+      command: "",
+    });
+  });
+  it("parses the previous patterns.", () => {
+    assertEquals(parseGlobal("g\\/d"), {
+      addresses: [],
+      name: "global",
+      bang: false,
+      previousPattern: "search",
+      command: "d",
+    });
+    assertEquals(parseGlobal("v\\&d").previousPattern, "substitute");
+  });
+  it("finds the end of the pattern with 'magic'.", () => {
+    assertEquals(parseGlobal("g/[/]/d", { magic: false }).pattern, "[");
+  });
+  it("throws if the command is invalid.", () => {
+    assertThrows(
+      () => parseGlobal("gx/a/"),
+      VimCommandError,
+      "E492: Not an editor command: gx/a/",
+    );
+    assertThrows(() => parseGlobal("v!/a/d"), VimCommandError, "E477: No ! allowed: v!/a/d");
+    assertThrows(
+      () => parseGlobal("g"),
+      VimCommandError,
+      "E148: Regular expression missing from :global",
+    );
+    assertThrows(
+      () => parseGlobal("g a"),
+      VimCommandError,
+      "E146: Regular expressions can't be delimited by letters",
+    );
+    assertThrows(
+      () => parseGlobal("g\\x"),
+      VimCommandError,
+      "E10: \\ should be followed by /, ? or &",
+    );
+  });
+});
+
+describe("executeGlobal", () => {
+  const deleteLine: GlobalCallback = (lnum, buffer) => buffer.deleteLines(lnum);
+  const copyBelow: GlobalCallback = (lnum, buffer) => buffer.append(lnum, [buffer.getLine(lnum)]);
+  const moveToTop: GlobalCallback = (lnum, buffer) => {
+    const line = buffer.getLine(lnum);
+    buffer.deleteLines(lnum);
+    buffer.append(0, [line]);
+  };
+  const addBang: GlobalCallback = (lnum, buffer) =>
+    buffer.setLine(lnum, `${buffer.getLine(lnum)}!`);
+  /** Returns the line numbers passed to the callback. */
+  const visited = (lines: string[], command: string, options: GlobalOptions = {}) => {
+    const result: number[] = [];
+    executeGlobal(lines, command, (lnum) => result.push(lnum), options);
+    return result;
+  };
+
+  it("runs the callback for each matched line.", () => {
+    assertEquals(executeGlobal(["a", "b", "a", "a", "c"], "g/a/d", deleteLine), {
+      lines: ["b", "c"],
+      count: 3,
+    });
+  });
+  it("runs the callback for each line that does not match with ':v' and ':g!'.", () => {
+    assertEquals(executeGlobal(["a", "b", "a", "a", "c"], "v/a/d", deleteLine), {
+      lines: ["a", "a", "a"],
+      count: 2,
+    });
+    assertEquals(visited(["a", "b", "a", "a", "c"], "g!/a/"), [2, 5]);
+  });
+  it("passes the command to the callback.", () => {
+    const commands: string[] = [];
+    executeGlobal(["a", "b"], "g/^/ s/x/y/", (_lnum, _buffer, command) => commands.push(command));
+    assertEquals(commands, [" s/x/y/", " s/x/y/"]);
+  });
+  it("does not modify the buffer.", () => {
+    const lines = ["a", "b"];
+    executeGlobal(lines, "g/a/d", deleteLine);
+    assertEquals(lines, ["a", "b"]);
+  });
+  it("selects the lines in the range.", () => {
+    const lines = ["a", "b", "a", "a", "c"];
+    const cursor = { lnum: 3, col: 1 };
+    assertEquals(visited(lines, "2,4g/a/"), [3, 4]);
+    assertEquals(visited(lines, ".,$v/a/", { cursor: { ...cursor } }), [5]);
+    assertEquals(visited(lines, "/b/,$g/./", { cursor: { ...cursor } }), [2, 3, 4, 5]);
+    assertEquals(visited(lines, "0,2g/./"), [1, 2]);
+  });
+  it("selects the line where a multi-line match starts.", () => {
+    const lines = ["x", "y", "x", "z", "x", "y"];
+    assertEquals(visited(lines, "g/x\\ny/"), [1, 5]);
+    assertEquals(visited(lines, "v/x\\ny/"), [2, 3, 4, 6]);
+    assertEquals(visited(["a", "b", "c"], "g/.\\n./"), [1, 2]);
+    assertEquals(visited(["a", "", "", "b"], "g/\\n\\n/"), [1, 2]);
+  });
+  it("selects the line where the pattern starts to match with '\\zs'.", () => {
+    const lines = ["x", "y", "x", "z", "x", "y"];
+    assertEquals(visited(lines, "g/x\\n\\zsy/"), [1, 5]);
+    assertEquals(visited(lines, "1g/x\\n\\zsy/"), [1]);
+  });
+  it("matches the newline at the end of the last line like Vim.", () => {
+    assertEquals(visited(["a", "b", "c"], "g/\\n/"), [1, 2, 3]);
+    assertEquals(visited(["a", "b", "c"], "g/\\n\\zs/"), [1, 2, 3]);
+    assertEquals(visited(["a", "b", "c"], "v/\\n\\n/"), [1, 2, 3]);
+  });
+  it("skips the selected lines that are deleted.", () => {
+    const deleteNext: GlobalCallback = (lnum, buffer) => buffer.deleteLines(lnum + 1);
+    assertEquals(executeGlobal(["1", "2", "3", "4"], "g/[1-3]/", deleteNext).lines, ["1", "3"]);
+    const deleteAbove: GlobalCallback = (lnum, buffer) => buffer.deleteLines(1, lnum - 1);
+    assertEquals(executeGlobal(["1", "2", "3", "4"], "g/[34]/", deleteAbove).lines, ["4"]);
+  });
+  it("does not select the inserted lines.", () => {
+    assertEquals(executeGlobal(["a", "b", "a"], "g/a/", copyBelow), {
+      lines: ["a", "a", "b", "a", "a"],
+      count: 2,
+    });
+    const insertAbove: GlobalCallback = (lnum, buffer) => buffer.append(lnum - 1, ["a"]);
+    assertEquals(executeGlobal(["a", "b", "a"], "g/a/", insertAbove).lines, [
+      "a",
+      "a",
+      "b",
+      "a",
+      "a",
+    ]);
+  });
+  it("moves the lines like ':g/^/m0'.", () => {
+    assertEquals(executeGlobal(["1", "2", "3"], "g/^/m0", moveToTop).lines, ["3", "2", "1"]);
+    assertEquals(executeGlobal(["a", "b", "a"], "g/a/m0", moveToTop).lines, ["a", "a", "b"]);
+    const moveLines: GlobalCallback = (lnum, buffer) => buffer.moveLines(lnum, lnum + 1, 4);
+    assertEquals(executeGlobal(["a", "b", "c", "a", "d"], "g/a/", moveLines), {
+      lines: ["c", "b", "a", "a", "d"],
+      count: 2,
+    });
+  });
+  it("changes the lines.", () => {
+    assertEquals(executeGlobal(["a", "b", "c"], "g/[ac]/", addBang).lines, ["a!", "b", "c!"]);
+  });
+  it("leaves an empty line if all lines are deleted.", () => {
+    assertEquals(executeGlobal(["a", "b"], "g/./d", deleteLine), { lines: [""], count: 2 });
+  });
+  it("returns 0 if no line is selected.", () => {
+    const callback = () => {
+      throw new Error("not called");
+    };
+    assertEquals(executeGlobal(["a", "b"], "g/x/d", callback), { lines: ["a", "b"], count: 0 });
+    assertEquals(executeGlobal(["a", "b"], "v/./d", callback), { lines: ["a", "b"], count: 0 });
+  });
+  it("stops at the error thrown by the callback and returns the changed lines.", () => {
+    const lines: number[] = [];
+    const result = executeGlobal(["a", "b", "a"], "g/./", (lnum, buffer) => {
+      lines.push(lnum);
+      if (lnum === 2) {
+        throw new VimCommandError("E16", "Invalid range");
+      }
+      addBang(lnum, buffer, "");
+    });
+    assertEquals(lines, [1, 2]);
+    assertEquals(result.lines, ["a!", "b", "a"]);
+    assertEquals(result.count, 3);
+    assertIsError(result.error, VimCommandError, "E16: Invalid range");
+  });
+  it("returns the error if the line number is invalid.", () => {
+    const error = (lines: string[], f: (buffer: GlobalBuffer) => void) =>
+      executeGlobal(lines, "g/a/", (_lnum, buffer) => f(buffer)).error;
+    assertIsError(
+      error(["a"], (buffer) => buffer.setLine(2, "x")),
+      RangeError,
+      "Invalid line number: 2",
+    );
+    assertIsError(
+      error(["a"], (buffer) => buffer.append(-1, ["x"])),
+      RangeError,
+      "Invalid line number: -1",
+    );
+    assertIsError(
+      error(["a", "b"], (buffer) => buffer.deleteLines(2, 1)),
+      RangeError,
+      "Invalid line number: 1",
+    );
+    assertIsError(
+      error(["a", "b"], (buffer) => buffer.moveLines(1, 1, 3)),
+      RangeError,
+      "Invalid line number: 3",
+    );
+    assertIsError(
+      error(["a", "b", "c"], (buffer) => buffer.moveLines(1, 3, 2)),
+      VimCommandError,
+      "E134: Cannot move a range of lines into itself",
+    );
+  });
+  it("compiles the pattern with the options.", () => {
+    assertEquals(visited(["a", "A"], "g/a/", { ignorecase: true }), [1, 2]);
+    assertEquals(visited(["a", "A"], "g/A/", { ignorecase: true, smartcase: true }), [2]);
+    assertEquals(visited(["a.c", "abc"], "g/a.c/", { magic: false }), [1]);
+  });
+
+  describe("with cursor and marks", () => {
+    it("moves the cursor to each selected line.", () => {
+      const cursor = { lnum: 2, col: 3 };
+      const positions: number[][] = [];
+      executeGlobal(
+        ["abc", "bcd", "cde"],
+        "g/c/",
+        () => positions.push([cursor.lnum, cursor.col]),
+        {
+          cursor,
+        },
+      );
+      assertEquals(positions, [[1, 1], [2, 1], [3, 1]]);
+      assertEquals(cursor, { lnum: 3, col: 1 });
+    });
+    it('sets the "\'" mark at the previous position of the cursor.', () => {
+      const cursor = { lnum: 2, col: 3 };
+      const marks = {};
+      executeGlobal(["abc", "bcd", "cde"], "g/a/", () => {}, { cursor, marks });
+      assertEquals(marks, { "'": { lnum: 2, col: 3 } });
+    });
+    it("does not move the cursor if no line is selected.", () => {
+      const cursor = { lnum: 2, col: 3 };
+      const marks = {};
+      executeGlobal(["abc", "bcd", "cde"], "g/x/", () => {}, { cursor, marks });
+      assertEquals(cursor, { lnum: 2, col: 3 });
+      assertEquals(marks, {});
+    });
+    it("moves the marks with the changes.", () => {
+      const marks: Record<string, { lnum: number; col: number }> = {
+        a: { lnum: 1, col: 1 },
+        b: { lnum: 2, col: 2 },
+        c: { lnum: 4, col: 1 },
+      };
+      const result = executeGlobal(["a", "b", "x", "c"], "g/x/", (lnum, buffer) => {
+        buffer.deleteLines(lnum - 1);
+        buffer.append(0, ["y", "z"]);
+      }, { marks });
+      assertEquals(result.lines, ["y", "z", "a", "x", "c"]);
+      assertEquals(marks, { a: { lnum: 3, col: 1 }, c: { lnum: 5, col: 1 } });
+    });
+    it("moves the marks with the moved lines like ':move'.", () => {
+      /** Runs ":{range}g/{pattern}/{range}m{dest}" with the marks "a" to "e" in the lines. */
+      const move = (command: string, lnum: number) => {
+        const cursor = { lnum, col: 1 };
+        const marks: Record<string, { lnum: number; col: number }> = {};
+        for (const [i, name] of [..."abcde"].entries()) {
+          marks[name] = { lnum: i + 1, col: 1 };
+        }
+        const { lines } = executeGlobal(
+          ["a1", "b", "a2", "c", "a3"],
+          command,
+          (lnum, buffer, command) => {
+            const [, range, dest] = /^(\.,\+1)?m(\d+|\$)$/.exec(command)!;
+            const last = range ? lnum + 1 : lnum;
+            buffer.moveLines(lnum, last, dest === "$" ? buffer.lineCount : Number(dest));
+          },
+          { cursor, marks },
+        );
+        return [lines, [..."abcde"].map((name) => marks[name].lnum), cursor.lnum];
+      };
+      // The results of Vim.
+      assertEquals(move("g/a/m0", 2), [["a3", "a2", "a1", "b", "c"], [3, 4, 2, 5, 1], 1]);
+      assertEquals(move("g/a/m$", 2), [["b", "c", "a1", "a2", "a3"], [3, 1, 4, 2, 5], 5]);
+      assertEquals(move("g/b/.,+1m0", 1), [["b", "a2", "a1", "c", "a3"], [3, 1, 2, 4, 5], 2]);
+      assertEquals(move("g/a/m2", 4), [["b", "a1", "a3", "a2", "c"], [2, 1, 4, 5, 3], 3]);
+      assertEquals(move("2,3g/./m4", 1), [["a1", "c", "b", "a2", "a3"], [1, 3, 4, 2, 5], 4]);
+    });
+    it("moves the cursor with the changes and keeps it in the buffer.", () => {
+      const cursor = { lnum: 1, col: 1 };
+      executeGlobal(["a", "b", "c"], "g/b/", (_lnum, buffer) => {
+        buffer.append(0, ["x"]);
+        assertEquals(cursor, { lnum: 3, col: 1 });
+        buffer.deleteLines(2, 3);
+        assertEquals(cursor, { lnum: 2, col: 1 });
+        buffer.deleteLines(2);
+        assertEquals(cursor, { lnum: 1, col: 1 });
+      }, { cursor });
+    });
+    it("keeps the cursor in the line.", () => {
+      const cursor = { lnum: 1, col: 1 };
+      executeGlobal(["abc", "d"], "g/a/", () => {
+        cursor.col = 3;
+        cursor.lnum = 2;
+      }, { cursor });
+      assertEquals(cursor, { lnum: 2, col: 1 });
+    });
+  });
+
+  describe("with session", () => {
+    it("saves the pattern as the last search and substitute pattern.", () => {
+      const session = new VimSearchSession();
+      executeGlobal(["a"], "g/a/", () => {}, { session });
+      assertEquals(session.lastSearchPattern, { pattern: "a", typed: true });
+      assertEquals(session.lastSubstitutePattern, { pattern: "a", typed: true });
+    });
+    it("uses the last used pattern for the empty pattern.", () => {
+      const session = new VimSearchSession();
+      session.setLastSearchPattern("b");
+      assertEquals(visited(["a", "b", "c"], "g//", { session }), [2]);
+      session.setLastSubstitutePattern("c", false);
+      assertEquals(visited(["a", "b", "c"], "g//", { session }), [3]);
+      assertEquals(session.lastSearchPattern, { pattern: "c", typed: false });
+    });
+    it("uses the previous patterns.", () => {
+      const session = new VimSearchSession();
+      session.setLastSubstitutePattern("c");
+      session.setLastSearchPattern("b");
+      assertEquals(visited(["a", "b", "c"], "g\\&", { session }), [3]);
+      assertEquals(session.lastSearchPattern, { pattern: "c", typed: true });
+      session.setLastSearchPattern("b");
+      assertEquals(visited(["a", "b", "c"], "g\\/", { session }), [2]);
+      assertEquals(session.lastSubstitutePattern, { pattern: "b", typed: true });
+    });
+    it("throws if there is no previous pattern.", () => {
+      const session = new VimSearchSession();
+      assertThrows(
+        () => executeGlobal(["a"], "g//d", deleteLine, { session }),
+        VimCommandError,
+        "E35: No previous regular expression",
+      );
+      assertThrows(
+        () => executeGlobal(["a"], "g\\/d", deleteLine),
+        VimCommandError,
+        "E35: No previous regular expression",
+      );
+      assertThrows(
+        () => executeGlobal(["a"], "g\\&d", deleteLine, { session }),
+        VimCommandError,
+        "E33: No previous substitute regular expression",
+      );
+    });
+  });
+});
@@ -1,4 +1,19 @@
+export * from "./buffer.ts";
 export * from "./charclass.ts";
 export * from "./errors.ts";
+export * from "./expression.ts";
+export * from "./functions.ts";
+export * from "./global.ts";
+export * from "./offset.ts";
+export * from "./parser.ts";
 export * from "./pattern.ts";
+export * from "./range.ts";
 export * from "./regexp.ts";
+export * from "./region.ts";
+export * from "./replacement.ts";
+export * from "./rewrite.ts";
+export * from "./search.ts";
+export * from "./searchcommand.ts";
+export * from "./session.ts";
+export * from "./sort.ts";
+export * from "./substitute.ts";
@@ -0,0 +1,382 @@
+/**
+ * This module provides the conversion of the offsets in a string between
+ * UTF-16 code units, code points and UTF-8 bytes, and Vim's line and
+ * columns.
+ *
+ * JavaScript's `RegExpExecArray.index` is an offset in UTF-16 code units,
+ * while Vim reports positions as 1-based lines and UTF-8 byte columns.
+ *
+ * @module
+ */
+
+import type { VimPosition, VimRegExpOptions } from "./regexp.ts";
+
+/**
+ * A unit of the offset in a string.
+ *
+ * - `"utf16"`: UTF-16 code units, like the indices of JavaScript's strings.
+ * - `"codepoint"`: Unicode code points, like the indices of `[...string]`.
+ * - `"byte"`: Bytes of the string encoded in UTF-8, like Vim's byte index.
+ */
+export type OffsetUnit = "utf16" | "codepoint" | "byte";
+
+/**
+ * The offsets of a match in a specific {@linkcode OffsetUnit}.
+ */
+export type MatchOffsets = {
+  /** Start offset of the match. */
+  index: number;
+  /** End offset of the match, exclusive. */
+  end: number;
+  /**
+   * The start and end offsets of the match and the sub-expressions, if the
+   * match has `indices` of the "d" flag.  An unmatched sub-expression is
+   * `undefined`.
+   */
+  indices?: ([start: number, end: number] | undefined)[];
+};
+
+/**
+ * A position in Vim's coordinates.
+ */
+export type VimColumnPosition = VimPosition & {
+  /**
+   * Screen column of the first cell of the character, 1-based.  It is the
+   * column used by "\%23v" in a pattern and is same as
+   * `virtcol(".", 1)[0]` of Vim.  Note that `virtcol()` without the
+   * argument returns the last cell.
+   */
+  virtcol: number;
+};
+
+/**
+ * The positions of a match in Vim's coordinates.
+ */
+export type MatchPositions = {
+  /** Start position of the match. */
+  start: VimColumnPosition;
+  /** End position of the match, exclusive. */
+  end: VimColumnPosition;
+  /**
+   * The start and end positions of the match and the sub-expressions, if
+   * the match has `indices` of the "d" flag.  An unmatched sub-expression
+   * is `undefined`.
+   */
+  indices?: ([start: VimColumnPosition, end: VimColumnPosition] | undefined)[];
+};
+
+/**
+ * Optional parameters of {@linkcode toVimPosition} and
+ * {@linkcode getMatchPositions}.
+ *
+ * The text is split into lines at "\n", unless
+ * {@linkcode VimRegExpOptions.stringMatch} is `true`.
+ */
+export type VimPositionOptions = Pick<VimRegExpOptions, "firstLine" | "stringMatch" | "tabstop">;
+
+/**
+ * Returns the number of bytes of the string encoded in UTF-8, like Vim's
+ * `strlen()`.
+ *
+ * @param text - The string.
+ * @returns The number of bytes.
+ *
+ * @example
+ * ```ts
+ * import { utf8Length } from "@milly/vimregexp/offset";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(utf8Length("a\u00e9\u3042\u{1f600}"), 10);
+ * ```
+ */
+export function utf8Length(text: string): number {
+  let length = 0;
+  for (const c of text) {
+    length += charLength(c, "byte");
+  }
+  return length;
+}
+
+/**
+ * Returns the number of cells the character occupies at the virtual column
+ * `vcol` (0-based) on the screen, like Vim.
+ *
+ * @param char - The character.
+ * @param vcol - The virtual column where the character is, 0-based.
+ * @param tabstop - Number of spaces that a tab counts for.
+ * @returns The number of cells.
+ *
+ * @example
+ * ```ts
+ * import { charWidth } from "@milly/vimregexp/offset";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(charWidth("a", 0), 1);
+ * assertEquals(charWidth("\u3042", 0), 2);
+ * assertEquals(charWidth("\t", 3, 4), 1);
+ * ```
+ */
+export function charWidth(char: string, vcol: number, tabstop = 8): number {
+  const code = char.codePointAt(0)!;
+  if (char === "\t") {
+    return tabstop - vcol % tabstop;
+  } else if (code < 0x20 || code === 0x7f) { // ^@
+    return 2;
+  } else if (code >= 0x80 && code <= 0x9f) { // <80>
+    return 4;
+  } else if (reCombiningChar.test(char)) {
+    return 0;
+  } else if (reWideChar.test(char)) {
+    return 2;
+  }
+  return 1;
+}
+
+/**
+ * Converts the offset in the string from a unit to another unit.
+ *
+ * An offset in the middle of a character, like the one between a surrogate
+ * pair, is moved to the start of the character.
+ *
+ * @param text - The string.
+ * @param offset - The offset in `from` unit.
+ * @param from - The unit of `offset`.
+ * @param to - The unit of the result.
+ * @returns The offset in `to` unit.
+ *
+ * @throws {RangeError}
+ * Thrown if `offset` is negative or greater than the length of `text`.
+ *
+ * @example
+ * ```ts
+ * import { convertOffset } from "@milly/vimregexp/offset";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const text = "\u{1f600}\u00e9x";
+ * assertEquals(convertOffset(text, 3, "utf16", "byte"), 6);
+ * assertEquals(convertOffset(text, 6, "byte", "codepoint"), 2);
+ * assertEquals(convertOffset(text, 1, "utf16", "codepoint"), 0);
+ * ```
+ */
+export function convertOffset(
+  text: string,
+  offset: number,
+  from: OffsetUnit,
+  to: OffsetUnit,
+): number {
+  return convertOffsets(text, [offset], from, to)[0];
+}
+
+/**
+ * Returns the offsets of the match in the specified unit.
+ *
+ * The match is the result of `RegExp.exec()` or `VimRegExp.exec()`, and
+ * its `input` is used as the string.
+ *
+ * @param match - The result array.
+ * @param unit - The unit of the result offsets.
+ * @returns The offsets of the match.
+ *
+ * @example
+ * ```ts
+ * import { getMatchOffsets } from "@milly/vimregexp/offset";
+ * import { VimRegExp } from "@milly/vimregexp/regexp";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const match = new VimRegExp("\\(b\\)c", "d").exec("\u{1f600}\u00e9bc")!;
+ * assertEquals(getMatchOffsets(match, "utf16"), {
+ *   index: 3,
+ *   end: 5,
+ *   indices: [[3, 5], [3, 4]],
+ * });
+ * assertEquals(getMatchOffsets(match, "byte"), {
+ *   index: 6,
+ *   end: 8,
+ *   indices: [[6, 8], [6, 7]],
+ * });
+ * ```
+ */
+export function getMatchOffsets(match: RegExpExecArray, unit: OffsetUnit): MatchOffsets {
+  const [index, end, ...rest] = convertOffsets(
+    match.input,
+    matchBoundaries(match),
+    "utf16",
+    unit,
+  );
+  const result: MatchOffsets = { index, end };
+  if (match.indices) {
+    result.indices = match.indices.map((pair) => pair && [rest.shift()!, rest.shift()!]);
+  }
+  return result;
+}
+
+/**
+ * Returns the position in Vim's coordinates of the UTF-16 offset in the
+ * string.
+ *
+ * @param text - The string.
+ * @param index - The offset in UTF-16 code units.
+ * @param options - Optional parameters.
+ * @returns The position.
+ *
+ * @throws {RangeError}
+ * Thrown if `index` is negative or greater than the length of `text`.
+ *
+ * @example
+ * ```ts
+ * import { toVimPosition } from "@milly/vimregexp/offset";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const text = "foo\n\t\u00e9x";
+ * assertEquals(toVimPosition(text, 6), { lnum: 2, col: 4, virtcol: 10 });
+ * assertEquals(toVimPosition(text, 6, { firstLine: 10, tabstop: 4 }), {
+ *   lnum: 11,
+ *   col: 4,
+ *   virtcol: 6,
+ * });
+ * ```
+ */
+export function toVimPosition(
+  text: string,
+  index: number,
+  options: VimPositionOptions = {},
+): VimColumnPosition {
+  return toVimPositions(text, [index], options)[0];
+}
+
+/**
+ * Returns the positions of the match in Vim's coordinates.
+ *
+ * The match is the result of `RegExp.exec()` or `VimRegExp.exec()`, and
+ * its `input` is used as the string.
+ *
+ * @param match - The result array.
+ * @param options - Optional parameters.
+ * @returns The positions of the match.
+ *
+ * @example
+ * ```ts
+ * import { getMatchPositions } from "@milly/vimregexp/offset";
+ * import { VimRegExp } from "@milly/vimregexp/regexp";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const match = new VimRegExp("x\\nb").exec("a\u3042x\nbc")!;
+ * assertEquals(getMatchPositions(match), {
+ *   start: { lnum: 1, col: 5, virtcol: 4 },
+ *   end: { lnum: 2, col: 2, virtcol: 2 },
+ * });
+ * ```
+ */
+export function getMatchPositions(
+  match: RegExpExecArray,
+  options: VimPositionOptions = {},
+): MatchPositions {
+  const [start, end, ...rest] = toVimPositions(match.input, matchBoundaries(match), options);
+  const result: MatchPositions = { start, end };
+  if (match.indices) {
+    result.indices = match.indices.map((pair) => pair && [rest.shift()!, rest.shift()!]);
+  }
+  return result;
+}
+
+/** Returns the start and end of the match, followed by the flattened `indices`. */
+function matchBoundaries(match: RegExpExecArray): number[] {
+  return [
+    match.index,
+    match.index + match[0].length,
+    ...(match.indices ?? []).flatMap((pair) => pair ?? []),
+  ];
+}
+
+/** Returns the length of the character in the unit. */
+function charLength(c: string, unit: OffsetUnit): number {
+  if (unit === "utf16") {
+    return c.length;
+  } else if (unit === "codepoint") {
+    return 1;
+  }
+  const code = c.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+/**
+ * Calls `callback` with the character at each offset, in a single pass over
+ * the string.  The offsets are in `unit` and returned in the same order.
+ */
+function scanOffsets<T>(
+  text: string,
+  offsets: readonly number[],
+  unit: OffsetUnit,
+  step: (c: string) => void,
+  current: () => T,
+): T[] {
+  const order = offsets.map((_, i) => i).sort((a, b) => offsets[a] - offsets[b]);
+  const results: T[] = Array(offsets.length);
+  let k = 0;
+  let measure = 0;
+  for (const c of text) {
+    if (k >= order.length) {
+      break;
+    }
+    const next = measure + charLength(c, unit);
+    for (; k < order.length && offsets[order[k]] < next; ++k) {
+      if (offsets[order[k]] < 0) {
+        throw new RangeError(`Offset is out of range: ${offsets[order[k]]}`);
+      }
+      results[order[k]] = current();
+    }
+    step(c);
+    measure = next;
+  }
+  for (; k < order.length; ++k) {
+    if (offsets[order[k]] !== measure) {
+      throw new RangeError(`Offset is out of range: ${offsets[order[k]]}`);
+    }
+    results[order[k]] = current();
+  }
+  return results;
+}
+
+/** Converts the offsets in the string from a unit to another unit. */
+function convertOffsets(
+  text: string,
+  offsets: readonly number[],
+  from: OffsetUnit,
+  to: OffsetUnit,
+): number[] {
+  let measure = 0;
+  return scanOffsets(text, offsets, from, (c) => {
+    measure += charLength(c, to);
+  }, () => measure);
+}
+
+/** Returns the positions in Vim's coordinates of the UTF-16 offsets. */
+function toVimPositions(
+  text: string,
+  indices: readonly number[],
+  options: VimPositionOptions,
+): VimColumnPosition[] {
+  const { firstLine = 1, stringMatch = false, tabstop = 8 } = options;
+  let lnum = firstLine;
+  let col = 0;
+  let vcol = 0;
+  return scanOffsets(text, indices, "utf16", (c) => {
+    if (c === "\n" && !stringMatch) {
+      ++lnum;
+      col = vcol = 0;
+    } else {
+      col += charLength(c, "byte");
+      vcol += charWidth(c, vcol, tabstop);
+    }
+  }, () => ({ lnum, col: col + 1, virtcol: vcol + 1 }));
+}
+
+/** Matches a combining character. */
+const reCombiningChar = /^[\p{Mn}\p{Me}]$/u;
+/** Matches a double-width character. */
+const reWideChar = new RegExp(
+  "^[\\u1100-\\u115f\\u2e80-\\u303e\\u3041-\\u33ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\ua000-\\ua4cf" +
+    "\\uac00-\\ud7a3\\uf900-\\ufaff\\ufe30-\\ufe4f\\uff00-\\uff60\\uffe0-\\uffe6\\u{1f300}-\\u{1f64f}" +
+    "\\u{1f900}-\\u{1f9ff}\\u{20000}-\\u{2fffd}\\u{30000}-\\u{3fffd}]$",
+  "u",
+);
@@ -0,0 +1,131 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+
+import {
+  charWidth,
+  convertOffset,
+  getMatchOffsets,
+  getMatchPositions,
+  toVimPosition,
+  utf8Length,
+} from "./offset.ts";
+import { VimRegExp } from "./regexp.ts";
+
+describe("utf8Length", () => {
+  it("returns the number of bytes encoded in UTF-8.", () => {
+    assertEquals(utf8Length(""), 0);
+    assertEquals(utf8Length("a\u00e9\u3042\u{1f600}"), 1 + 2 + 3 + 4);
+  });
+});
+
+describe("charWidth", () => {
+  it("returns the number of cells like Vim.", () => {
+    assertEquals(charWidth("a", 0), 1);
+    assertEquals(charWidth("\u3042", 0), 2);
+    assertEquals(charWidth("\u{1f600}", 0), 2);
+    assertEquals(charWidth("\u0301", 0), 0);
+    assertEquals(charWidth("\x01", 0), 2);
+    assertEquals(charWidth("\x80", 0), 4);
+  });
+  it("returns the width of a tab by the column and 'tabstop'.", () => {
+    assertEquals(charWidth("\t", 0), 8);
+    assertEquals(charWidth("\t", 5), 3);
+    assertEquals(charWidth("\t", 5, 4), 3);
+    assertEquals(charWidth("\t", 8, 4), 4);
+  });
+});
+
+describe("convertOffset", () => {
+  const text = "a\u{1f600}\u00e9x";
+  it("converts between UTF-16, code points and UTF-8 bytes.", () => {
+    const offsets = [
+      { utf16: 0, codepoint: 0, byte: 0 },
+      { utf16: 1, codepoint: 1, byte: 1 },
+      { utf16: 3, codepoint: 2, byte: 5 },
+      { utf16: 4, codepoint: 3, byte: 7 },
+      { utf16: 5, codepoint: 4, byte: 8 },
+    ] as const;
+    for (const offset of offsets) {
+      for (const from of ["utf16", "codepoint", "byte"] as const) {
+        for (const to of ["utf16", "codepoint", "byte"] as const) {
+          assertEquals(
+            convertOffset(text, offset[from], from, to),
+            offset[to],
+            `${from} to ${to}`,
+          );
+        }
+      }
+    }
+  });
+  it("moves the offset in the middle of a character to the start of it.", () => {
+    assertEquals(convertOffset(text, 2, "utf16", "byte"), 1);
+    assertEquals(convertOffset(text, 4, "byte", "utf16"), 1);
+    assertEquals(convertOffset(text, 6, "byte", "codepoint"), 2);
+  });
+  it("throws RangeError if the offset is out of range.", () => {
+    assertThrows(() => convertOffset(text, -1, "utf16", "byte"), RangeError);
+    assertThrows(() => convertOffset(text, 6, "utf16", "byte"), RangeError);
+    assertThrows(() => convertOffset("", 1, "byte", "utf16"), RangeError);
+  });
+});
+
+describe("getMatchOffsets", () => {
+  it("returns the offsets of the match.", () => {
+    const match = new VimRegExp("\u00e9\\zsx").exec("\u{1f600}\u00e9xy")!;
+    assertEquals(getMatchOffsets(match, "utf16"), { index: 3, end: 4 });
+    assertEquals(getMatchOffsets(match, "codepoint"), { index: 2, end: 3 });
+    assertEquals(getMatchOffsets(match, "byte"), { index: 6, end: 7 });
+  });
+  it("returns the offsets of the indices of 'd' flag.", () => {
+    const match = new VimRegExp("\\(\u00e9\\)\\|\\(x\\)\\(y\\)", "d").exec("\u{1f600}xy")!;
+    assertEquals(getMatchOffsets(match, "byte"), {
+      index: 4,
+      end: 6,
+      indices: [[4, 6], undefined, [4, 5], [5, 6]],
+    });
+  });
+});
+
+describe("toVimPosition", () => {
+  const text = "a\u3042\n\tb\u{1f600}c\n";
+  it("returns the line, byte column and virtual column.", () => {
+    assertEquals(toVimPosition(text, 0), { lnum: 1, col: 1, virtcol: 1 });
+    assertEquals(toVimPosition(text, 2), { lnum: 1, col: 5, virtcol: 4 });
+    assertEquals(toVimPosition(text, 3), { lnum: 2, col: 1, virtcol: 1 });
+    assertEquals(toVimPosition(text, 4), { lnum: 2, col: 2, virtcol: 9 });
+    assertEquals(toVimPosition(text, 7), { lnum: 2, col: 7, virtcol: 12 });
+    assertEquals(toVimPosition(text, 9), { lnum: 3, col: 1, virtcol: 1 });
+  });
+  it("uses 'firstLine' and 'tabstop'.", () => {
+    assertEquals(toVimPosition(text, 4, { firstLine: 5, tabstop: 4 }), {
+      lnum: 6,
+      col: 2,
+      virtcol: 5,
+    });
+  });
+  it("does not split lines if 'stringMatch' is `true`.", () => {
+    assertEquals(toVimPosition(text, 4, { stringMatch: true }), {
+      lnum: 1,
+      col: 7,
+      virtcol: 9,
+    });
+  });
+  it("throws RangeError if the index is out of range.", () => {
+    assertThrows(() => toVimPosition(text, 10), RangeError);
+  });
+});
+
+describe("getMatchPositions", () => {
+  it("returns the positions of the match and the indices of 'd' flag.", () => {
+    const match = new VimRegExp("\\(x\\)\\n\\(y\\)\\?", "d").exec("\u3042x\nz")!;
+    assertEquals(getMatchPositions(match), {
+      start: { lnum: 1, col: 4, virtcol: 3 },
+      end: { lnum: 2, col: 1, virtcol: 1 },
+      indices: [
+        [{ lnum: 1, col: 4, virtcol: 3 }, { lnum: 2, col: 1, virtcol: 1 }],
+        [{ lnum: 1, col: 4, virtcol: 3 }, { lnum: 1, col: 5, virtcol: 4 }],
+        undefined,
+      ],
+    });
+  });
+});
@@ -0,0 +1,1221 @@
+/**
+ * This module provides the parser of Vim's regular expression, that returns
+ * the abstract syntax tree of the pattern.
+ *
+ * @module
+ */
+
+import { UnsupportedSyntaxError, VimRegExpSyntaxError } from "./errors.ts";
+
+/**
+ * Optional parameters of {@linkcode parse}.
+ */
+export type ParseOptions = {
+  /**
+   * Changes the special characters that can be used in search patterns.
+   *
+   * @default {true}
+   */
+  magic?: boolean;
+};
+
+/**
+ * The position of a node in the pattern.
+ *
+ * The indices are counted in code points, like
+ * {@linkcode VimRegExpSyntaxError.index}.
+ */
+export type SourceSpan = {
+  /** The starting index, inclusive. */
+  start: number;
+  /** The ending index, exclusive. */
+  end: number;
+};
+
+/**
+ * Any node of the abstract syntax tree.
+ */
+export type VimPatternNode =
+  | PatternNode
+  | BranchNode
+  | ConcatNode
+  | TermNode
+  | CollectionItem;
+
+/**
+ * The root node of the pattern.  It contains the branches separated by "\|".
+ */
+export type PatternNode = {
+  type: "pattern";
+  branches: BranchNode[];
+  span: SourceSpan;
+};
+
+/**
+ * A branch.  It contains the concats separated by "\&".
+ * It matches the last concat, but only if all the preceding concats also
+ * match at the same position.
+ */
+export type BranchNode = {
+  type: "branch";
+  concats: ConcatNode[];
+  span: SourceSpan;
+};
+
+/**
+ * A concat.  It contains the pieces that are matched in sequence.
+ */
+export type ConcatNode = {
+  type: "concat";
+  items: TermNode[];
+  span: SourceSpan;
+};
+
+/**
+ * An item of a concat.
+ */
+export type TermNode = AtomNode | MultiNode | SwitchNode;
+
+/**
+ * An atom.
+ */
+export type AtomNode =
+  | CharNode
+  | CharClassNode
+  | CollectionNode
+  | AnchorNode
+  | GroupNode
+  | OptionalSequenceNode
+  | BackReferenceNode
+  | MatchBoundaryNode
+  | PositionNode
+  | LastSubstituteNode
+  | SkipComposingNode;
+
+/**
+ * A character, like "a", "\." or "\%d123".
+ */
+export type CharNode = {
+  type: "char";
+  /** The code point.  It may be greater than 0x10ffff, that is never matched. */
+  codePoint: number;
+  /**
+   * How the character is written.
+   *
+   * - `"literal"`: The character itself, like "a" or "." in 'nomagic'.
+   * - `"escaped"`: Backslash followed by the character, like "\." or "\/".
+   * - `"code"`: The character code, like "\e", "\n" or "\%d123".
+   */
+  syntax: "literal" | "escaped" | "code";
+  span: SourceSpan;
+};
+
+/**
+ * A character class, like ".", "\s", "\k" or "\_s".
+ */
+export type CharClassNode = {
+  type: "charClass";
+  /** The name of the class, "." or the character after the backslash. */
+  name: CharClassName;
+  /** `true` if the class also matches an end-of-line, like "\_s". */
+  newline: boolean;
+  span: SourceSpan;
+};
+
+/**
+ * The name of {@linkcode CharClassNode}.
+ */
+export type CharClassName = typeof CHAR_CLASS_NAMES[number];
+
+const CHAR_CLASS_NAMES = [
+  ".",
+  "i",
+  "I",
+  "k",
+  "K",
+  "f",
+  "F",
+  "p",
+  "P",
+  "s",
+  "S",
+  "d",
+  "D",
+  "x",
+  "X",
+  "o",
+  "O",
+  "w",
+  "W",
+  "h",
+  "H",
+  "a",
+  "A",
+  "l",
+  "L",
+  "u",
+  "U",
+] as const;
+
+/**
+ * A collection, like "[abc]" or "\_[^a-z]".
+ */
+export type CollectionNode = {
+  type: "collection";
+  /** `true` if the collection starts with "^". */
+  negated: boolean;
+  /** `true` if the collection also matches an end-of-line, like "\_[]". */
+  newline: boolean;
+  items: CollectionItem[];
+  span: SourceSpan;
+};
+
+/**
+ * An item of a collection.
+ */
+export type CollectionItem =
+  | CharNode
+  | RangeNode
+  | NamedClassNode
+  | EquivalenceNode
+  | CollationNode;
+
+/**
+ * A character range in a collection, like "a-z".
+ */
+export type RangeNode = {
+  type: "range";
+  from: CharNode;
+  to: CharNode;
+  span: SourceSpan;
+};
+
+/**
+ * A character class expression in a collection, like "[:alpha:]".
+ */
+export type NamedClassNode = {
+  type: "namedClass";
+  name: NamedClassName;
+  span: SourceSpan;
+};
+
+/**
+ * The name of {@linkcode NamedClassNode}.
+ */
+export type NamedClassName = typeof NAMED_CLASS_NAMES[number];
+
+/** The names of the character class expressions in a collection. */
+const NAMED_CLASS_NAMES = [
+  "alnum",
+  "alpha",
+  "backspace",
+  "blank",
+  "cntrl",
+  "digit",
+  "escape",
+  "fname",
+  "graph",
+  "ident",
+  "keyword",
+  "lower",
+  "print",
+  "punct",
+  "return",
+  "space",
+  "tab",
+  "upper",
+  "xdigit",
+] as const;
+
+/**
+ * An equivalence class in a collection, like "[=a=]".
+ */
+export type EquivalenceNode = {
+  type: "equivalence";
+  codePoint: number;
+  span: SourceSpan;
+};
+
+/**
+ * A collation element in a collection, like "[.a.]".
+ */
+export type CollationNode = {
+  type: "collation";
+  codePoint: number;
+  span: SourceSpan;
+};
+
+/**
+ * A zero-width anchor.
+ *
+ * - `"bol"`: Start-of-line "^" or "\_^".
+ * - `"eol"`: End-of-line "$" or "\_$".
+ * - `"bof"`: Start-of-file "\%^".
+ * - `"eof"`: End-of-file "\%$".
+ * - `"bow"`: Beginning of a word "\<".
+ * - `"eow"`: End of a word "\>".
+ */
+export type AnchorNode = {
+  type: "anchor";
+  anchor: "bol" | "eol" | "bof" | "eof" | "bow" | "eow";
+  span: SourceSpan;
+};
+
+/**
+ * A group.
+ *
+ * - `"capture"`: Sub-expression "\(\)".
+ * - `"noncapture"`: Non-capturing group "\%(\)".
+ * - `"external"`: External sub-expression "\z(\)".
+ */
+export type GroupNode = {
+  type: "group";
+  kind: "capture" | "noncapture" | "external";
+  branches: BranchNode[];
+  span: SourceSpan;
+};
+
+/**
+ * An optionally matched sequence, like "\%[abc]".
+ */
+export type OptionalSequenceNode = {
+  type: "optionalSequence";
+  items: TermNode[];
+  span: SourceSpan;
+};
+
+/**
+ * A back reference, like "\1" or "\z1".
+ */
+export type BackReferenceNode = {
+  type: "backReference";
+  /** The number of the sub-expression, 1 to 9. */
+  group: number;
+  /** `true` if it refers to the external sub-expression, like "\z1". */
+  external: boolean;
+  span: SourceSpan;
+};
+
+/**
+ * The start or end of the match, "\zs" or "\ze".
+ */
+export type MatchBoundaryNode = {
+  type: "matchBoundary";
+  boundary: "start" | "end";
+  span: SourceSpan;
+};
+
+/**
+ * A position atom, like "\%23l", "\%#" or "\%V".
+ */
+export type PositionNode = {
+  type: "position";
+  position: PositionAtom;
+  span: SourceSpan;
+};
+
+/**
+ * A position atom.
+ *
+ * - `"l"`, `"c"`, `"v"`: Line number, byte column or virtual column like
+ *   `\%23l`, `\%<23c` or `\%>.v`.  The `value` is 1-based, or "." for the
+ *   cursor position.
+ * - `"#"`: Cursor position `\%#`.
+ * - `"'"`: Mark position like `\%'m`, `\%<'m` or `\%>'m`.
+ * - `"V"`: Visual area `\%V`.
+ */
+export type PositionAtom =
+  | { type: "l" | "c" | "v"; cmp: PositionCmp; value: number | "." }
+  | { type: "#" | "V" }
+  | { type: "'"; cmp: PositionCmp; mark: string };
+
+/** Comparison of a position atom, equal "", less than "<" or greater than ">". */
+export type PositionCmp = "" | "<" | ">";
+
+/**
+ * The last substitute string "~".
+ */
+export type LastSubstituteNode = {
+  type: "lastSubstitute";
+  span: SourceSpan;
+};
+
+/**
+ * Skip composing characters "\%C".
+ */
+export type SkipComposingNode = {
+  type: "skipComposing";
+  span: SourceSpan;
+};
+
+/**
+ * An atom followed by a multi, like "a*" or "\(a\)\@=".
+ */
+export type MultiNode = {
+  type: "multi";
+  multi: Multi;
+  atom: Exclude<TermNode, SwitchNode>;
+  span: SourceSpan;
+  /** The position of the multi. */
+  multiSpan: SourceSpan;
+};
+
+/**
+ * A multi.
+ *
+ * - `"*"`: "*", 0 or more.
+ * - `"+"`: "\+", 1 or more.
+ * - `"="`, `"?"`: "\=" or "\?", 0 or 1.
+ * - `"{"`: "\{n,m}", n to m.  `lazy` is `true` for "\{-n,m}".
+ * - `"@"`: "\@=", "\@!", "\@<=", "\@<!" or "\@>".  `limit` is the number of
+ *   bytes to look behind like "\@123<=", or 0 for no limit.
+ */
+export type Multi =
+  | { type: "*" | "+" | "=" | "?" }
+  | {
+    type: "{";
+    min: number | undefined;
+    max: number | undefined;
+    comma: boolean;
+    lazy: boolean;
+  }
+  | { type: "@"; assertion: "=" | "!" | "<=" | "<!" | ">"; limit: number };
+
+/**
+ * A switch that changes the state of the pattern.
+ *
+ * - `"v"`, `"m"`, `"M"`, `"V"`: Magic level "\v", "\m", "\M" or "\V", that
+ *   applies to the pattern after it.
+ * - `"c"`, `"C"`: Ignore case "\c" or match case "\C", that applies to the
+ *   whole pattern.
+ * - `"Z"`: Ignore composing characters "\Z", that applies to the whole
+ *   pattern.
+ */
+export type SwitchNode = {
+  type: "switch";
+  name: "v" | "m" | "M" | "V" | "c" | "C" | "Z";
+  span: SourceSpan;
+};
+
+/** Character codes of the escaped characters like '\e'. */
+const ESCAPE_CHAR_CODES = {
+  e: 0x1b,
+  t: 0x09,
+  r: 0x0d,
+  b: 0x08,
+  n: 0x0a,
+} as const;
+
+type EscapeChar = keyof typeof ESCAPE_CHAR_CODES;
+
+/** Matches the numeric part of '\d123' */
+const reDecimalChar = /^[0-9]+/u;
+/** Matches the numeric part of '\o40' */
+const reOctalChar = /^(?:[0-3][0-7]{0,2}|[4-7][0-7]?)/u;
+/** Matches the numeric part of '\x20' */
+const reHexadecimalChar = /^[0-9a-fA-F]{1,2}/u;
+/** Matches the numeric part of '\u20AC' */
+const reUnicodeChar = /^[0-9a-fA-F]{1,4}/u;
+/** Matches the numeric part of '\U1234abcd' */
+const reLongUnicodeChar = /^[0-9a-fA-F]{1,8}/u;
+/** Matches a character class '[:alnum:]' */
+const reNamedCharClass = new RegExp(`\\[:(?:${NAMED_CLASS_NAMES.join("|")}):\\]`);
+/** Matches a equivalence class '[=a=]' */
+const reEquivalenceClass = /\[=.=\]/u;
+/** Matches a collation element '[.a.]' */
+const reCollationElement = /\[\..\.\]/u;
+/** Matches a character class, a equivalence class or a collation element at the start. */
+const reCollectionClass = new RegExp(
+  `^(?:${reNamedCharClass.source}|${reEquivalenceClass.source}|${reCollationElement.source})`,
+  "u",
+);
+/** Matches characters that need to be escaped in collection when using `v` flag. */
+const reUnicodeSetSpecialChars = /[-!#$%&()*+,./:;<=>?@\[\]^`{|}~]/u;
+/** Matches a escaped character in collection. */
+const reEscapedChar = new RegExp(
+  `\\\\(?:d${reDecimalChar.source.slice(1 /* remove '^' */) // \d123
+  }|o${reOctalChar.source.slice(1 /* remove '^' */) // \o40
+  }|x${reHexadecimalChar.source.slice(1 /* remove '^' */) // \x20
+  }|u${reUnicodeChar.source.slice(1 /* remove '^' */) // \u20AC
+  }|U${reLongUnicodeChar.source.slice(1 /* remove '^' */) // \U1234abcd
+  }|.)`, // \x
+  "u",
+);
+/** Matches a character range in collection. */
+const reCharacterRange = new RegExp(
+  `(?<start>${/^[-\]]/.source // '-' or ']' is allowed at beginning of sequence
+  }|${/[^-\]\\]/.source // any single character except '-', ']' or '\'
+  }|${reEscapedChar.source})-(?<end>${reEscapedChar.source}|.)`,
+  "u",
+);
+/** Matches a collection range. No contains beginning '['. Contains trailing ']'. */
+const reCollection = new RegExp(
+  `^\\^?\\]?(?:\\\\.|${reNamedCharClass.source // '[:' CharClass ':]'
+  }|${reEquivalenceClass.source // '[=' char '=]'
+  }|${reCollationElement.source // '[.' char '.]'
+  }|[^\\]])*\\]`,
+  "u",
+);
+/** Matches a set of normal and special part in collection. */
+const reCollectionYield = new RegExp(
+  `(?<normal>.*?)(?<special>${reCharacterRange.source // <start> '-' <end>
+  }|${reEscapedChar.source // backslash ...
+  }|${reNamedCharClass.source // '[:' CharClass ':]'
+  }|${reEquivalenceClass.source // '[=' char '=]'
+  }|${reCollationElement.source // '[.' char '.]'
+  }|${reUnicodeSetSpecialChars.source}|$)`,
+  "gyu",
+);
+
+/**
+ * Parses a Vim's regular expression pattern, and returns the abstract syntax
+ * tree.
+ *
+ * The options that only affect how the pattern matches, like `ignorecase`,
+ * are not needed.  The switches like "\c" and "\v" are kept in the tree, so
+ * that the tree represents the pattern as it is written.
+ *
+ * @param pattern - Vim's regular expression pattern.
+ * @param options - Optional parameters.
+ * @returns The root node of the tree.
+ *
+ * @throws {VimRegExpSyntaxError}
+ * Thrown if `pattern` is invalid format.
+ *
+ * @example
+ * ```ts
+ * import { parse } from "@milly/vimregexp/parser";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const ast = parse("a\\+");
+ * const [multi] = ast.branches[0].concats[0].items;
+ * assertEquals(multi, {
+ *   type: "multi",
+ *   multi: { type: "+" },
+ *   atom: { type: "char", codePoint: 0x61, syntax: "literal", span: { start: 0, end: 1 } },
+ *   span: { start: 0, end: 3 },
+ *   multiSpan: { start: 1, end: 3 },
+ * });
+ * ```
+ */
+export function parse(pattern: string, options: ParseOptions = {}): PatternNode {
+  const source = pattern;
+  const [VERY_MAGIC, MAGIC, NOMAGIC, VERY_NOMAGIC] = [1, 2, 3, 4];
+  /** Current `magic` state. */
+  let magic = options.magic ?? true ? MAGIC : NOMAGIC;
+
+  /** Input pattern buffer. */
+  const vimPattern = [...source];
+  /** The index to parse next in the input buffer. */
+  let index = 0;
+  /** The starting index of the current atom in the input buffer. */
+  let atomIndex = 0;
+  type Match = RegExpMatchArray & { index: number };
+  const maybeNext: {
+    (r: RegExp): Match | undefined;
+    <T>(r: RegExp, parser: (m: Match) => T): T | undefined;
+  } = <T>(r: RegExp, parser?: (m: Match) => T): T | Match | undefined => {
+    const m = vimPattern.slice(index).join("").match(r);
+    if (m) {
+      const res = parser ? parser(m as Match) : m as Match;
+      index += [...m[0]].length;
+      return res;
+    }
+  };
+  const ensureNext: {
+    (r: RegExp): Match;
+    <T>(r: RegExp, parser: (m: Match) => T): T;
+  } = <T>(r: RegExp, parser?: (m: Match) => T): T | Match => {
+    const res = parser ? maybeNext(r, parser) : maybeNext(r);
+    if (res === undefined) {
+      throw new VimRegExpSyntaxError(
+        `Invalid keyword: ${getAtom()}`,
+        { source, index: atomIndex },
+      );
+    }
+    return res;
+  };
+  const getAtom = () => vimPattern.slice(atomIndex, index).join("");
+  const getSpan = (): SourceSpan => ({ start: atomIndex, end: index });
+
+  const newConcat = (start: number): ConcatNode => ({
+    type: "concat",
+    items: [],
+    span: { start, end: start },
+  });
+  const newBranch = (start: number): BranchNode => ({
+    type: "branch",
+    concats: [newConcat(start)],
+    span: { start, end: start },
+  });
+
+  /** The group being parsed, and its current branch and concat. */
+  type Frame = {
+    node: PatternNode | GroupNode;
+    branch: BranchNode;
+    concat: ConcatNode;
+  };
+  const root: PatternNode = {
+    type: "pattern",
+    branches: [newBranch(0)],
+    span: { start: 0, end: vimPattern.length },
+  };
+  /** The stack of the groups being parsed.
+   *
+   * - Push stack when new group is started.
+   * - Pop stack when current group is closed.
+   */
+  const frames: Frame[] = [];
+  let frame: Frame = {
+    node: root,
+    branch: root.branches[0],
+    concat: root.branches[0].concats[0],
+  };
+
+  /** The current optionally matched sequence '\%[]'. */
+  let optionalSequence: OptionalSequenceNode | undefined;
+  const assertNotInOptionalSequence = () => {
+    if (optionalSequence) {
+      throw new VimRegExpSyntaxError(
+        `Invalid item in '\\%[]': ${getAtom()}`,
+        { source, index: atomIndex },
+      );
+    }
+  };
+
+  /** Returns the list to which the next item is added. */
+  const currentItems = () => optionalSequence?.items ?? frame.concat.items;
+  /** Returns the last item that matches something. */
+  const lastAtom = () =>
+    optionalSequence?.items.findLast(isAtom) ?? frame.concat.items.findLast(isAtom);
+  const hasAtom = () => lastAtom() !== undefined;
+
+  /** The undetermined '$' that is EOL or literal.
+   *
+   * It is EOL if it is at the end of the concat or followed by '\n',
+   * otherwise it is literal.
+   */
+  let maybeEol: { items: TermNode[]; index: number } | undefined;
+  const correctEolToLiteral = () => {
+    if (maybeEol) {
+      const { items, index } = maybeEol;
+      items[index] = {
+        type: "char",
+        codePoint: 0x24,
+        syntax: "literal",
+        span: items[index].span,
+      };
+      maybeEol = undefined;
+    }
+  };
+
+  const add = (node: TermNode) => {
+    if (isAtom(node)) {
+      correctEolToLiteral();
+    }
+    currentItems().push(node);
+  };
+  const addChar = (codePoint: number, syntax: CharNode["syntax"]) => {
+    add({ type: "char", codePoint, syntax, span: getSpan() });
+  };
+  const addMulti = (multi: Multi, multiStart: number) => {
+    const items = currentItems();
+    const i = items.findLastIndex(isAtom);
+    correctEolToLiteral();
+    const atom = items[i] as MultiNode["atom"];
+    items[i] = {
+      type: "multi",
+      multi,
+      atom,
+      span: { start: atom.span.start, end: index },
+      multiSpan: { start: multiStart, end: index },
+    };
+  };
+
+  const openGroup = (kind: GroupNode["kind"]) => {
+    assertNotInOptionalSequence();
+    const node: GroupNode = {
+      type: "group",
+      kind,
+      branches: [newBranch(index)],
+      span: getSpan(),
+    };
+    add(node);
+    frames.push(frame);
+    frame = { node, branch: node.branches[0], concat: node.branches[0].concats[0] };
+  };
+  const closeConcat = () => {
+    frame.concat.span.end = frame.branch.span.end = atomIndex;
+    maybeEol = undefined;
+  };
+
+  const assertRepeatable = () => {
+    assertNotInOptionalSequence();
+    if (!hasAtom()) {
+      throw new VimRegExpSyntaxError(
+        `Nothing to repeat: ${getAtom()}`,
+        { source, index: atomIndex },
+      );
+    }
+  };
+
+  const parseCollection = (collection: string, newline: boolean): CollectionNode => {
+    const negated = collection.startsWith("^");
+    /** The index of the collection body in the input buffer. */
+    const bodyIndex = atomIndex + (newline ? 3 : 1) + (negated ? 1 : 0);
+    const body = negated ? collection.slice(1) : collection;
+    const items: CollectionItem[] = [];
+    let offset = bodyIndex;
+    const charNode = (s: string, start: number): CharNode => {
+      const span = { start, end: start + [...s].length };
+      if (s[0] !== "\\" || s.length === 1) {
+        return { type: "char", codePoint: s.codePointAt(0)!, syntax: "literal", span };
+      }
+      const code = ESCAPE_CHAR_CODES[s.slice(1) as EscapeChar];
+      if (code !== undefined) {
+        return { type: "char", codePoint: code, syntax: "code", span };
+      }
+      const radix = ({ d: 10, o: 8, x: 16, u: 16, U: 16 } as Record<string, number>)[s[1]];
+      if (radix && s.length > 2) { // \d123 \o40 \x20 \u20AC \U1234abcd
+        return { type: "char", codePoint: parseInt(s.slice(2), radix), syntax: "code", span };
+      }
+      return { type: "char", codePoint: s.codePointAt(1)!, syntax: "escaped", span };
+    };
+    for (const m of body.matchAll(reCollectionYield)) {
+      const { normal, special, start, end } = m.groups!;
+      for (const c of normal) {
+        items.push(charNode(c, offset++));
+      }
+      if (special === "") { // sequence closed
+        break;
+      }
+      const span = { start: offset, end: offset + [...special].length };
+      if (start && end) { // character range
+        const from = charNode(start, offset);
+        const to = charNode(end, span.end - [...end].length);
+        items.push({ type: "range", from, to, span });
+      } else if (special[0] === "[" && special[1] === ":") { // named class '[:alnum:]'
+        items.push({ type: "namedClass", name: special.slice(2, -2) as NamedClassName, span });
+      } else if (special[0] === "[" && special[1] === "=") { // equivalence class '[=a=]'
+        items.push({ type: "equivalence", codePoint: special.codePointAt(2)!, span });
+      } else if (special[0] === "[" && special[1] === ".") { // collation element '[.a.]'
+        items.push({ type: "collation", codePoint: special.codePointAt(2)!, span });
+      } else {
+        items.push(charNode(special, offset));
+      }
+      offset = span.end;
+    }
+    return { type: "collection", negated, newline, items, span: getSpan() };
+  };
+
+  const addCollection = (newline: boolean) => {
+    const collection = maybeNext(reCollection);
+    if (!collection) { // literal '['
+      // When the ']' is not there assume no collection is used.
+      addChar(0x5b, "literal");
+    } else if (collection[0] === "]") { // literal '[]'
+      // When the inside of '[]' is empty assume no collection is used.
+      const end = index;
+      index = atomIndex + (newline ? 3 : 1);
+      addChar(0x5b, "literal");
+      atomIndex = index;
+      index = end;
+      addChar(0x5d, "literal");
+    } else { // /[]
+      add(parseCollection(collection[0].slice(0, -1), newline));
+    }
+  };
+
+  while (index < vimPattern.length) {
+    // Save the starting index of the current atom.
+    atomIndex = index;
+
+    if (optionalSequence && vimPattern[index] === "]") { // end of /\%[]
+      ++index;
+      if (!optionalSequence.items.some(isAtom)) {
+        throw new VimRegExpSyntaxError(
+          "Empty '\\%[]'",
+          { source, index: optionalSequence.span.start },
+        );
+      }
+      // The sequence is followed by the closing of the optional groups.
+      correctEolToLiteral();
+      optionalSequence.span.end = index;
+      optionalSequence = undefined;
+      continue;
+    }
+
+    // If backslash exists increment index.
+    const backslash = vimPattern[index] === "\\";
+    backslash && ++index;
+    const syntax = backslash ? "escaped" : "literal";
+
+    // Parse quantifier.
+    const quantifier = maybeNext(/^[*+=?{@]/);
+    if (quantifier) {
+      const c = quantifier[0];
+      switch (c) {
+        case "*":
+          if (backslash ? magic >= NOMAGIC : (magic <= MAGIC && hasAtom())) { // /star
+            assertRepeatable();
+            addMulti({ type: "*" }, atomIndex);
+          } else { // literal '*'
+            addChar(0x2a, syntax);
+          }
+          break;
+        case "+":
+        case "=":
+        case "?":
+          if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\+ /\= /\?
+            assertRepeatable();
+            addMulti({ type: c }, atomIndex);
+          } else { // literal '+', '=' or '?'
+            addChar(c.charCodeAt(0), syntax);
+          }
+          break;
+        case "{":
+          if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\{
+            assertRepeatable();
+            const p = maybeNext(/^(?<ng>-)?(?<min>[0-9]+)?(?<comma>,)?(?<max>[0-9]+)?}/);
+            if (!p) {
+              throw new VimRegExpSyntaxError(
+                "Incomplete quantifier: '\\{...}'",
+                { source, index: atomIndex },
+              );
+            }
+            const { ng, min, comma, max } = p.groups!;
+            addMulti({
+              type: "{",
+              min: min === undefined ? undefined : parseInt(min),
+              max: max === undefined ? undefined : parseInt(max),
+              comma: comma !== undefined,
+              lazy: ng !== undefined,
+            }, atomIndex);
+          } else { // literal '{'
+            addChar(0x7b, syntax);
+          }
+          break;
+        case "@":
+          if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\@= etc...
+            assertRepeatable();
+            if (vimPattern[index] === ">") { // /\@>
+              ++index;
+              addMulti({ type: "@", assertion: ">", limit: 0 }, atomIndex);
+              break;
+            }
+            const n = maybeNext(/^[0-9]+/, ([s]) => parseInt(s));
+            const p = ensureNext(/^<?[=!]/)[0] as "=" | "!" | "<=" | "<!";
+            addMulti({ type: "@", assertion: p, limit: n ?? 0 }, atomIndex);
+          } else { // literal '@'
+            addChar(0x40, syntax);
+          }
+          break;
+      }
+      continue;
+    }
+
+    if (index >= vimPattern.length) { // trailing '\'
+      addChar(0x5c, "literal");
+      break;
+    }
+
+    const c = vimPattern[index++];
+    switch (c) {
+      case "}": // literal '}'
+      case "]": // literal ']'
+      case "\\": // literal '\'
+        addChar(c.charCodeAt(0), syntax);
+        break;
+      case "^":
+        if (backslash ? magic >= VERY_NOMAGIC : magic <= NOMAGIC) { // /^
+          // It is literal unless at the start of the concat or after '\n'.
+          const last = lastAtom();
+          if (!last || (last.type === "char" && last.codePoint === 0x0a)) {
+            add({ type: "anchor", anchor: "bol", span: getSpan() });
+          } else { // literal '^'
+            addChar(0x5e, syntax);
+          }
+        } else { // literal '^'
+          addChar(0x5e, syntax);
+        }
+        break;
+      case "$":
+        if (backslash ? magic >= VERY_NOMAGIC : magic <= NOMAGIC) { // /$
+          // It is determined when the concat is closed or an item is added.
+          add({ type: "anchor", anchor: "eol", span: getSpan() });
+          maybeEol = { items: currentItems(), index: currentItems().length - 1 };
+        } else { // literal '$'
+          addChar(0x24, syntax);
+        }
+        break;
+      case ".":
+        if (backslash ? magic >= NOMAGIC : magic <= MAGIC) { // /.
+          add({ type: "charClass", name: ".", newline: false, span: getSpan() });
+        } else { // literal '.'
+          addChar(0x2e, syntax);
+        }
+        break;
+      case "<":
+      case ">":
+        if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\< /\>
+          add({ type: "anchor", anchor: c === "<" ? "bow" : "eow", span: getSpan() });
+        } else { // literal '<' or '>'
+          addChar(c.charCodeAt(0), syntax);
+        }
+        break;
+      case "~":
+        if (backslash ? magic >= NOMAGIC : magic <= MAGIC) { // /~
+          add({ type: "lastSubstitute", span: getSpan() });
+        } else { // literal '~'
+          addChar(0x7e, syntax);
+        }
+        break;
+      case "(":
+        if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\(
+          openGroup("capture");
+        } else { // literal '('
+          addChar(0x28, syntax);
+        }
+        break;
+      case ")":
+        if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\)
+          assertNotInOptionalSequence();
+          const parent = frames.pop();
+          if (!parent) {
+            throw new VimRegExpSyntaxError("Unmatched '\\)'", { source, index: atomIndex });
+          }
+          closeConcat();
+          frame.node.span.end = index;
+          frame = parent;
+        } else { // literal ')'
+          addChar(0x29, syntax);
+        }
+        break;
+      case "|":
+        if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\|
+          assertNotInOptionalSequence();
+          closeConcat();
+          frame.branch = newBranch(index);
+          frame.concat = frame.branch.concats[0];
+          frame.node.branches.push(frame.branch);
+        } else { // literal '|'
+          addChar(0x7c, syntax);
+        }
+        break;
+      case "&":
+        if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\&
+          assertNotInOptionalSequence();
+          closeConcat();
+          frame.concat = newConcat(index);
+          frame.branch.concats.push(frame.concat);
+        } else { // literal '&'
+          addChar(0x26, syntax);
+        }
+        break;
+      case "%":
+        if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) {
+          switch (vimPattern[index++]) {
+            case "(": // /\%(
+              openGroup("noncapture");
+              break;
+            case "^": // /\%^
+              add({ type: "anchor", anchor: "bof", span: getSpan() });
+              break;
+            case "$": // /\%$
+              add({ type: "anchor", anchor: "eof", span: getSpan() });
+              break;
+            case "d": // /\%d123
+              addChar(ensureNext(reDecimalChar, ([s]) => parseInt(s)), "code");
+              break;
+            case "o": // /\%o40
+              addChar(ensureNext(reOctalChar, ([s]) => parseInt(s, 8)), "code");
+              break;
+            case "x": // /\%x2a
+              addChar(ensureNext(reHexadecimalChar, ([s]) => parseInt(s, 16)), "code");
+              break;
+            case "u": // /\%u20AC
+              addChar(ensureNext(reUnicodeChar, ([s]) => parseInt(s, 16)), "code");
+              break;
+            case "U": // /\%U1234abcd
+              addChar(ensureNext(reLongUnicodeChar, ([s]) => parseInt(s, 16)), "code");
+              break;
+            case "[": { // /\%[]
+              assertNotInOptionalSequence();
+              const node: OptionalSequenceNode = {
+                type: "optionalSequence",
+                items: [],
+                span: getSpan(),
+              };
+              add(node);
+              optionalSequence = node;
+              break;
+            }
+            case "C": // /\%C
+              add({ type: "skipComposing", span: getSpan() });
+              break;
+            default: { // /\%23l /\%<23c /\%>.v /\%V /\%# etc...
+              --index;
+              if (maybeNext(/^[<>]?\.[0-9]+[lcv]/)) {
+                throw new VimRegExpSyntaxError(
+                  `No number allowed after '.': ${getAtom()}`,
+                  { source, index: atomIndex },
+                );
+              }
+              const position = maybeNext(
+                /^([<>]?)(?:(\.|[0-9]*)([lcv])|'(.))|^#(?!=)|^V/,
+                ([p, cmp, value, type, mark]): PositionAtom =>
+                  mark !== undefined
+                    ? { type: "'", cmp: cmp as PositionCmp, mark }
+                    : type !== undefined
+                    ? {
+                      type: type as "l" | "c" | "v",
+                      cmp: cmp as PositionCmp,
+                      value: value === "." ? "." : Number(value),
+                    }
+                    : { type: p as "#" | "V" },
+              );
+              if (position) {
+                add({ type: "position", position, span: getSpan() });
+                break;
+              }
+              const p = maybeNext(/^#=/);
+              if (p) {
+                throw new UnsupportedSyntaxError(`\\%${p[0]}`, { source, index: atomIndex });
+              }
+              ++index;
+              throw new VimRegExpSyntaxError(
+                `Invalid keyword: ${getAtom()}`,
+                { source, index: atomIndex },
+              );
+            }
+          }
+        } else { // literal '%'
+          addChar(0x25, syntax);
+        }
+        break;
+      case "[":
+        if (backslash ? magic >= NOMAGIC : magic <= MAGIC) { // /[]
+          addCollection(false);
+        } else { // literal '['
+          addChar(0x5b, syntax);
+        }
+        break;
+      case "_":
+        if (backslash) {
+          const key = vimPattern[index++];
+          switch (key) {
+            case "^": // /\_^
+              add({ type: "anchor", anchor: "bol", span: getSpan() });
+              break;
+            case "$": // /\_$
+              add({ type: "anchor", anchor: "eol", span: getSpan() });
+              break;
+            case "[": // /\_[
+              addCollection(true);
+              break;
+            default:
+              if (key !== undefined && isCharClassName(key)) { // /\_s /\_. etc...
+                add({ type: "charClass", name: key, newline: true, span: getSpan() });
+                break;
+              }
+              throw new VimRegExpSyntaxError(
+                `Invalid char class: ${getAtom()}`,
+                { source, index: atomIndex },
+              );
+          }
+        } else { // literal '_'
+          addChar(0x5f, syntax);
+        }
+        break;
+      default:
+        if (backslash) {
+          const code = ESCAPE_CHAR_CODES[c as EscapeChar];
+          if (code !== undefined) { // /\e etc...
+            if (c === "n") { // /\n
+              // The preceding '$' is EOL.
+              maybeEol = undefined;
+            }
+            addChar(code, "code");
+            break;
+          }
+          if (isCharClassName(c)) { // /\s /\k etc...
+            add({ type: "charClass", name: c, newline: false, span: getSpan() });
+            break;
+          }
+          switch (c) {
+            case "c": // /\c
+            case "C": // /\C
+            case "Z": // /\Z
+            case "m": // /\m
+            case "M": // /\M
+            case "v": // /\v
+            case "V": // /\V
+              add({ type: "switch", name: c, span: getSpan() });
+              magic = { v: VERY_MAGIC, m: MAGIC, M: NOMAGIC, V: VERY_NOMAGIC }[c as "v"] ?? magic;
+              break;
+            case "z": { // /\z
+              const op = maybeNext(/^[se(1-9]/);
+              if (op?.[0] === "s" || op?.[0] === "e") { // /\zs /\ze
+                add({
+                  type: "matchBoundary",
+                  boundary: op[0] === "s" ? "start" : "end",
+                  span: getSpan(),
+                });
+                break;
+              }
+              if (op?.[0] === "(") { // /\z(
+                openGroup("external");
+                break;
+              }
+              if (op) { // /\z1 ... /\z9
+                add({ type: "backReference", group: +op[0], external: true, span: getSpan() });
+                break;
+              }
+              throw new VimRegExpSyntaxError(
+                `Invalid keyword: \\z${vimPattern[index] ?? ""}`,
+                { source, index: atomIndex },
+              );
+            }
+            default:
+              if (/[1-9]/.test(c)) { // /\1 ... /\9
+                add({ type: "backReference", group: +c, external: false, span: getSpan() });
+              } else { // /\ /\\
+                // Backslash followed character with no special meaning.
+                addChar(c.codePointAt(0)!, "escaped");
+              }
+              break;
+          }
+        } else { // normal characters
+          addChar(c.codePointAt(0)!, "literal");
+        }
+        break;
+    }
+  }
+  if (optionalSequence) {
+    throw new VimRegExpSyntaxError(
+      "Missing ']' after '\\%['",
+      { source, index: optionalSequence.span.start },
+    );
+  }
+  if (frames.length > 0) {
+    const { kind, span } = frame.node as GroupNode;
+    const group = { capture: "\\(", noncapture: "\\%(", external: "\\z(" }[kind];
+    throw new VimRegExpSyntaxError(`Unmatched '${group}'`, { source, index: span.start });
+  }
+  atomIndex = index;
+  closeConcat();
+  return root;
+}
+
+/**
+ * The result of {@linkcode skipPattern}.
+ */
+export type SkipPatternResult = {
+  /** The pattern before the delimiter. */
+  pattern: string;
+  /**
+   * The rest of the text, that starts with the delimiter.  The empty string
+   * if the delimiter is not found.
+   */
+  rest: string;
+};
+
+/**
+ * Finds the end of the pattern delimited by `delimiter`, like a pattern
+ * in "/foo/e" or ":s/foo/bar/".  The delimiter in a collection like
+ * "[/]" or escaped by a backslash does not end the pattern.
+ *
+ * If `delimiter` is "?", "\?" in the pattern is changed to "?", like Vim.
+ *
+ * @param text - The text that starts with the pattern.
+ * @param delimiter - The character that ends the pattern.
+ * @param options - Optional parameters.
+ * @returns The pattern and the rest of the text.
+ *
+ * @example
+ * ```ts
+ * import { skipPattern } from "@milly/vimregexp/parser";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(skipPattern("a[/]\\/b/c", "/"), { pattern: "a[/]\\/b", rest: "/c" });
+ * assertEquals(skipPattern("a\\?b?e", "?"), { pattern: "a?b", rest: "?e" });
+ * assertEquals(skipPattern("foo", "/"), { pattern: "foo", rest: "" });
+ * ```
+ */
+export function skipPattern(
+  text: string,
+  delimiter: string,
+  options: ParseOptions = {},
+): SkipPatternResult {
+  const [VERY_NOMAGIC, NOMAGIC, MAGIC, VERY_MAGIC] = [1, 2, 3, 4];
+  /** Current `magic` state, only "\v" and "\V" are tracked like Vim. */
+  let magic = options.magic ?? true ? MAGIC : NOMAGIC;
+  const chars = [...text];
+  let pattern = "";
+  let i = 0;
+  for (; i < chars.length && chars[i] !== delimiter; ++i) {
+    const c = chars[i];
+    if (
+      (c === "[" && magic >= MAGIC) || (c === "\\" && chars[i + 1] === "[" && magic <= NOMAGIC)
+    ) {
+      const end = skipCollection(chars, i + 1);
+      pattern += chars.slice(i, end + 1).join("");
+      i = end;
+    } else if (c === "\\" && i + 1 < chars.length) {
+      const n = chars[++i];
+      pattern += delimiter === "?" && n === "?" ? n : c + n;
+      if (n === "v") {
+        magic = VERY_MAGIC;
+      } else if (n === "V") {
+        magic = VERY_NOMAGIC;
+      }
+    } else {
+      pattern += c;
+    }
+  }
+  return { pattern, rest: chars.slice(i).join("") };
+}
+
+/**
+ * Returns the index of "]" that ends the collection, or the length of
+ * `chars` if not found.
+ *
+ * @param chars - The pattern.
+ * @param index - The index after "[".
+ */
+function skipCollection(chars: readonly string[], index: number): number {
+  let i = index;
+  if (chars[i] === "^") {
+    ++i;
+  }
+  if (chars[i] === "]" || chars[i] === "-") {
+    ++i;
+  }
+  while (i < chars.length && chars[i] !== "]") {
+    const c = chars[i];
+    if (c === "-") {
+      ++i;
+      if (i < chars.length && chars[i] !== "]") {
+        ++i;
+      }
+    } else if (c === "\\" && i + 1 < chars.length && "]^-n\\rtebdoxuU".includes(chars[i + 1])) {
+      i += 2;
+    } else if (c === "[") {
+      const m = chars.slice(i).join("").match(reCollectionClass);
+      i += m ? [...m[0]].length : 1;
+    } else {
+      ++i;
+    }
+  }
+  return i;
+}
+
+/** Returns `true` if the node matches something, that is not a switch. */
+function isAtom(node: TermNode): node is Exclude<TermNode, SwitchNode> {
+  return node.type !== "switch" &&
+    (node.type !== "optionalSequence" || node.items.some(isAtom));
+}
+
+function isCharClassName(c: string): c is CharClassName {
+  return (CHAR_CLASS_NAMES as readonly string[]).includes(c);
+}
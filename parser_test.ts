@@ -0,0 +1,246 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+
+import { VimRegExpSyntaxError } from "./errors.ts";
+import { type ConcatNode, parse, skipPattern, type TermNode } from "./parser.ts";
+
+/** Returns the items of the first concat of the first branch. */
+function items(pattern: string, options?: Parameters<typeof parse>[1]): TermNode[] {
+  return parse(pattern, options).branches[0].concats[0].items;
+}
+
+describe("parse", () => {
+  it("returns the pattern node with spans.", () => {
+    assertEquals(parse("ab"), {
+      type: "pattern",
+      branches: [{
+        type: "branch",
+        concats: [{
+          type: "concat",
+          items: [
+            { type: "char", codePoint: 0x61, syntax: "literal", span: { start: 0, end: 1 } },
+            { type: "char", codePoint: 0x62, syntax: "literal", span: { start: 1, end: 2 } },
+          ],
+          span: { start: 0, end: 2 },
+        }],
+        span: { start: 0, end: 2 },
+      }],
+      span: { start: 0, end: 2 },
+    });
+  });
+  it("counts spans in code points.", () => {
+    const [, b] = items("\u{1f600}b");
+    assertEquals(b.span, { start: 1, end: 2 });
+  });
+  it("splits branches and concats.", () => {
+    const { branches } = parse("a\\&b\\|c");
+    assertEquals(branches.length, 2);
+    assertEquals(
+      branches[0].concats.map((c: ConcatNode) => c.span),
+      [{ start: 0, end: 1 }, { start: 3, end: 4 }],
+    );
+    assertEquals(branches[0].span, { start: 0, end: 4 });
+    assertEquals(branches[1].span, { start: 6, end: 7 });
+  });
+  it("keeps the switches.", () => {
+    assertEquals(items("\\v\\c(a)").slice(0, 2), [
+      { type: "switch", name: "v", span: { start: 0, end: 2 } },
+      { type: "switch", name: "c", span: { start: 2, end: 4 } },
+    ]);
+  });
+  it("parses the pattern with 'nomagic' if specified.", () => {
+    assertEquals(items("a*", { magic: false })[1], {
+      type: "char",
+      codePoint: 0x2a,
+      syntax: "literal",
+      span: { start: 1, end: 2 },
+    });
+  });
+  it("parses the character codes.", () => {
+    assertEquals(items("\\t\\%d123\\%u20AC").map((n) => n.type === "char" && n.codePoint), [
+      0x09,
+      123,
+      0x20ac,
+    ]);
+    assertEquals(items("\\t")[0], {
+      type: "char",
+      codePoint: 0x09,
+      syntax: "code",
+      span: { start: 0, end: 2 },
+    });
+  });
+  it("parses a group.", () => {
+    assertEquals(items("x\\(a\\|b\\)")[1], {
+      type: "group",
+      kind: "capture",
+      branches: [
+        {
+          type: "branch",
+          concats: [{
+            type: "concat",
+            items: [{
+              type: "char",
+              codePoint: 0x61,
+              syntax: "literal",
+              span: { start: 3, end: 4 },
+            }],
+            span: { start: 3, end: 4 },
+          }],
+          span: { start: 3, end: 4 },
+        },
+        {
+          type: "branch",
+          concats: [{
+            type: "concat",
+            items: [{
+              type: "char",
+              codePoint: 0x62,
+              syntax: "literal",
+              span: { start: 6, end: 7 },
+            }],
+            span: { start: 6, end: 7 },
+          }],
+          span: { start: 6, end: 7 },
+        },
+      ],
+      span: { start: 1, end: 9 },
+    });
+  });
+  it("parses a multi.", () => {
+    assertEquals(items("\\(a\\)\\{-1,}")[0], {
+      type: "multi",
+      multi: { type: "{", min: 1, max: undefined, comma: true, lazy: true },
+      atom: items("\\(a\\)")[0] as Exclude<TermNode, { type: "switch" }>,
+      span: { start: 0, end: 11 },
+      multiSpan: { start: 5, end: 11 },
+    });
+    assertEquals(items("a\\@123<=")[0], {
+      type: "multi",
+      multi: { type: "@", assertion: "<=", limit: 123 },
+      atom: { type: "char", codePoint: 0x61, syntax: "literal", span: { start: 0, end: 1 } },
+      span: { start: 0, end: 8 },
+      multiSpan: { start: 1, end: 8 },
+    });
+  });
+  it("parses a collection.", () => {
+    assertEquals(items("[^a-z[:digit:]\\n]")[0], {
+      type: "collection",
+      negated: true,
+      newline: false,
+      items: [
+        {
+          type: "range",
+          from: { type: "char", codePoint: 0x61, syntax: "literal", span: { start: 2, end: 3 } },
+          to: { type: "char", codePoint: 0x7a, syntax: "literal", span: { start: 4, end: 5 } },
+          span: { start: 2, end: 5 },
+        },
+        { type: "namedClass", name: "digit", span: { start: 5, end: 14 } },
+        { type: "char", codePoint: 0x0a, syntax: "code", span: { start: 14, end: 16 } },
+      ],
+      span: { start: 0, end: 17 },
+    });
+  });
+  it("parses a char class.", () => {
+    assertEquals(items("\\_k")[0], {
+      type: "charClass",
+      name: "k",
+      newline: true,
+      span: { start: 0, end: 3 },
+    });
+  });
+  it("parses '^' and '$' as anchors only at the start and end.", () => {
+    assertEquals(items("^a^$a$").map((n) => n.type), [
+      "anchor",
+      "char",
+      "char",
+      "char",
+      "char",
+      "anchor",
+    ]);
+  });
+  it("parses '$' followed by '\\n' as an anchor.", () => {
+    assertEquals(items("a$\\n^b").map((n) => n.type), [
+      "char",
+      "anchor",
+      "char",
+      "anchor",
+      "char",
+    ]);
+  });
+  it("parses an optional sequence.", () => {
+    const [, seq] = items("r\\%[ead]");
+    assertEquals(seq.type, "optionalSequence");
+    assertEquals(seq.span, { start: 1, end: 8 });
+    assertEquals(seq.type === "optionalSequence" && seq.items.length, 3);
+  });
+  it("parses atoms.", () => {
+    assertEquals(items("\\zs\\1\\z2~\\%C\\%<'m").map(({ span: _, ...node }) => node), [
+      { type: "matchBoundary", boundary: "start" },
+      { type: "backReference", group: 1, external: false },
+      { type: "backReference", group: 2, external: true },
+      { type: "lastSubstitute" },
+      { type: "skipComposing" },
+      { type: "position", position: { type: "'", cmp: "<", mark: "m" } },
+    ]);
+  });
+  it("does not need the options of the compiled pattern.", () => {
+    // "\z(", "\z1" and "~" are checked when compiled.
+    assertEquals(items("\\z(a\\)\\z1~").map((n) => n.type), [
+      "group",
+      "backReference",
+      "lastSubstitute",
+    ]);
+  });
+  it("parses a trailing backslash as a literal.", () => {
+    assertEquals(items("a\\")[1], {
+      type: "char",
+      codePoint: 0x5c,
+      syntax: "literal",
+      span: { start: 1, end: 2 },
+    });
+  });
+  it("throws VimRegExpSyntaxError if a group is not closed.", () => {
+    assertThrows(() => parse("a\\%(b"), VimRegExpSyntaxError, ":1: Unmatched '\\%('");
+  });
+  it("throws VimRegExpSyntaxError if the pattern is invalid.", () => {
+    assertThrows(() => parse("a\\)"), VimRegExpSyntaxError, ":1: Unmatched '\\)'");
+    assertThrows(() => parse("\\+"), VimRegExpSyntaxError, ":0: Nothing to repeat: \\+");
+  });
+});
+
+describe("skipPattern", () => {
+  it("returns the pattern before the delimiter.", () => {
+    assertEquals(skipPattern("foo/bar/", "/"), { pattern: "foo", rest: "/bar/" });
+  });
+  it("returns the whole text if the delimiter is not found.", () => {
+    assertEquals(skipPattern("foo", "/"), { pattern: "foo", rest: "" });
+  });
+  it("skips the escaped delimiter.", () => {
+    assertEquals(skipPattern("a\\/b/", "/"), { pattern: "a\\/b", rest: "/" });
+    assertEquals(skipPattern("a\\#b#", "#"), { pattern: "a\\#b", rest: "#" });
+  });
+  it("changes '\\?' to '?' if the delimiter is '?'.", () => {
+    assertEquals(skipPattern("a\\?b?x?", "?"), { pattern: "a?b", rest: "?x?" });
+  });
+  it("skips the delimiter in a collection.", () => {
+    assertEquals(skipPattern("a[/]b/x/", "/"), { pattern: "a[/]b", rest: "/x/" });
+    assertEquals(skipPattern("a[]/]b/x/", "/"), { pattern: "a[]/]b", rest: "/x/" });
+    assertEquals(skipPattern("a[\\]/]b/x/", "/"), { pattern: "a[\\]/]b", rest: "/x/" });
+    assertEquals(skipPattern("a[[:alpha:]/]/x/", "/"), { pattern: "a[[:alpha:]/]", rest: "/x/" });
+  });
+  it("skips to the end if a collection is not closed.", () => {
+    assertEquals(skipPattern("a[/x/", "/"), { pattern: "a[/x/", rest: "" });
+    assertEquals(skipPattern("[[=/=]/x/", "/"), { pattern: "[[=/=]/x/", rest: "" });
+  });
+  it("follows '\\v' and '\\V'.", () => {
+    assertEquals(skipPattern("\\V[b/x/", "/"), { pattern: "\\V[b", rest: "/x/" });
+    assertEquals(skipPattern("\\v[b/]/x/", "/"), { pattern: "\\v[b/]", rest: "/x/" });
+  });
+  it("skips the delimiter in '\\[' if 'magic' is `false`.", () => {
+    assertEquals(skipPattern("\\[b/]/x/", "/", { magic: false }), {
+      pattern: "\\[b/]",
+      rest: "/x/",
+    });
+    assertEquals(skipPattern("[b/]/x/", "/", { magic: false }), { pattern: "[b", rest: "/]/x/" });
+  });
+});
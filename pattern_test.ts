@@ -36,6 +36,15 @@ describe("vimpattern", () => {
         ignorecase: false,
         smartcase: false,
         stringMatch: false,
+        lookbehindLimit: false,
+        firstLine: 1,
+        tabstop: 8,
+        cursor: { lnum: 1, col: 1 },
+        marks: {},
+        visual: null,
+        session: null,
+        externalCapture: false,
+        externalSubmatches: null,
       });
     });
     it("can not be changed.", () => {
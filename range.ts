@@ -0,0 +1,431 @@
+/**
+ * This module provides the parser of Vim's Ex ranges, like "1,$", "'a,'b"
+ * and "/^func/+1,/^endfunc/-1", and resolves them to the lines of a buffer.
+ *
+ * @module
+ */
+
+import { type TextBuffer, toTextBuffer, type VimBuffer } from "./buffer.ts";
+import { VimCommandError } from "./errors.ts";
+import { utf8Length } from "./offset.ts";
+import { type ParseOptions, skipPattern } from "./parser.ts";
+import { VimRegExp, type VimRegExpOptions } from "./regexp.ts";
+import { searchpos } from "./search.ts";
+
+/**
+ * The line specifier of an {@linkcode ExAddress}.
+ *
+ * - `"number"`: The line number, like "12".
+ * - `"current"`: The cursor line, ".".
+ * - `"last"`: The last line, "$".
+ * - `"mark"`: The line of the mark, like "'a".
+ * - `"pattern"`: The next line that matches the pattern, like "/foo/", or
+ *   the previous line, like "?foo?".
+ * - `"previousPattern"`: The next line that matches the last search
+ *   pattern, "\/", or the previous line, "\?", or the next line that
+ *   matches the last substitute pattern, "\&".
+ */
+export type ExLineSpecifier =
+  | { type: "number"; lnum: number }
+  | { type: "current" }
+  | { type: "last" }
+  | { type: "mark"; name: string }
+  | ExPatternSpecifier
+  | { type: "previousPattern"; direction: "/" | "?"; previous: "search" | "substitute" };
+
+/**
+ * The pattern address of {@linkcode ExLineSpecifier}, like "/foo/".
+ */
+export type ExPatternSpecifier = {
+  type: "pattern";
+  /** `"/"` searches forward, and `"?"` searches backward. */
+  direction: "/" | "?";
+  /** The pattern, the empty string uses the last used pattern. */
+  pattern: string;
+  /**
+   * The line offset right after the pattern, like 2 for "/foo/+2".  Like
+   * Vim, it is a part of the search, so the line is limited to the buffer.
+   */
+  lineOffset?: number;
+};
+
+/**
+ * An address of {@linkcode ExRange}.
+ */
+export type ExAddress = {
+  /**
+   * The line specifier.  If omitted, the cursor line is used, like "+2".
+   */
+  line?: ExLineSpecifier;
+  /** The sum of the offsets, like 1 for "+3-2". */
+  offset: number;
+  /**
+   * The patterns that follow the offsets, like "/bar/" of "/foo//bar/".
+   * Each of them searches from the line found before it.
+   */
+  searches?: { line: ExPatternSpecifier; offset: number }[];
+  /**
+   * The separator that follows the address.  With ";", the cursor is moved
+   * to the line before the next address is resolved.
+   */
+  separator?: "," | ";";
+};
+
+/**
+ * The result of {@linkcode parseRange}.
+ */
+export type ExRange = {
+  /** The addresses, "%" is parsed as "1,$". */
+  addresses: ExAddress[];
+  /** The rest of the text after the range, like the command name. */
+  rest: string;
+};
+
+/**
+ * Optional parameters of {@linkcode resolveRange}.
+ *
+ * The options of {@linkcode VimRegExpOptions} are used to compile the
+ * patterns of the addresses.  {@linkcode VimRegExpOptions.session} holds the
+ * last patterns, and the pattern of an address is saved to it as the last
+ * search pattern.
+ */
+export type ExRangeOptions = Omit<VimRegExpOptions, "flags" | "stringMatch" | "firstLine"> & {
+  /**
+   * Whether the search of a pattern address wraps around the end of the
+   * buffer, like Vim's 'wrapscan' option.
+   *
+   * @default {true}
+   */
+  wrapscan?: boolean;
+};
+
+/**
+ * The lines resolved by {@linkcode resolveRange}.
+ */
+export type ExLineRange = {
+  /** The first line. */
+  line1: number;
+  /** The last line, that is not less than `line1`. */
+  line2: number;
+};
+
+/**
+ * Parses the range at the start of an Ex command line.
+ *
+ * @param text - The command line, without ":".
+ * @param options - Optional parameters to find the end of the patterns.
+ * @returns The addresses and the rest of the text.
+ *
+ * @throws {VimCommandError}
+ * Thrown if the mark name is missing (E78), or "\" is not followed by "/",
+ * "?" or "&" (E10).
+ *
+ * @example
+ * ```ts
+ * import { parseRange } from "@milly/vimregexp/range";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(parseRange(".+1,'a-2s/x/y/"), {
+ *   addresses: [
+ *     { line: { type: "current" }, offset: 1, separator: "," },
+ *     { line: { type: "mark", name: "a" }, offset: -2 },
+ *   ],
+ *   rest: "s/x/y/",
+ * });
+ * assertEquals(parseRange("/^func/+1,?end?d").addresses, [
+ *   {
+ *     line: { type: "pattern", direction: "/", pattern: "^func", lineOffset: 1 },
+ *     offset: 0,
+ *     separator: ",",
+ *   },
+ *   { line: { type: "pattern", direction: "?", pattern: "end" }, offset: 0 },
+ * ]);
+ * ```
+ */
+export function parseRange(text: string, options: ParseOptions = {}): ExRange {
+  const chars = [...text];
+  let i = 0;
+  const skipWhite = () => {
+    while (chars[i] === " " || chars[i] === "\t") {
+      ++i;
+    }
+  };
+  const addresses: ExAddress[] = [];
+  for (;;) {
+    skipWhite();
+    const start = i;
+    if (chars[i] === "%") {
+      ++i;
+      addresses.push({ line: { type: "number", lnum: 1 }, offset: 0, separator: "," });
+      addresses.push({ line: { type: "last" }, offset: 0 });
+    } else {
+      let line: ExLineSpecifier | undefined;
+      const c = chars[i];
+      if (c === ".") {
+        ++i;
+        line = { type: "current" };
+      } else if (c === "$") {
+        ++i;
+        line = { type: "last" };
+      } else if (c === "'") {
+        if (i + 1 >= chars.length) {
+          throw new VimCommandError("E78", "Unknown mark");
+        }
+        line = { type: "mark", name: chars[i + 1] };
+        i += 2;
+      } else if (c === "/" || c === "?") {
+        line = getPattern();
+      } else if (c === "\\") {
+        const d = chars[i + 1];
+        if (d !== "/" && d !== "?" && d !== "&") {
+          throw new VimCommandError("E10", "\\ should be followed by /, ? or &");
+        }
+        line = d === "&"
+          ? { type: "previousPattern", direction: "/", previous: "substitute" }
+          : { type: "previousPattern", direction: d, previous: "search" };
+        i += 2;
+      } else if (isDigit(c)) {
+        line = { type: "number", lnum: getDigits() };
+      }
+      const address: ExAddress = line ? { line, offset: getOffset() } : { offset: getOffset() };
+      // Like Vim, a pattern that follows searches from the line.
+      while (chars[i] === "/" || chars[i] === "?") {
+        const search = { line: getPattern(), offset: getOffset() };
+        (address.searches ??= []).push(search);
+      }
+      addresses.push(address);
+    }
+    const separator = chars[i];
+    if (separator !== "," && separator !== ";") {
+      if (i === start) {
+        // No address is given.
+        addresses.pop();
+      }
+      break;
+    }
+    addresses[addresses.length - 1].separator = separator;
+    ++i;
+  }
+  return { addresses, rest: chars.slice(i).join("") };
+
+  function getPattern(): ExPatternSpecifier {
+    const direction = chars[i] as "/" | "?";
+    const { pattern, rest } = skipPattern(chars.slice(i + 1).join(""), direction, options);
+    const line: ExPatternSpecifier = { type: "pattern", direction, pattern };
+    i = chars.length - [...rest].length;
+    if (rest !== "") {
+      ++i;
+      // Like Vim, the offset right after the pattern is parsed by the search.
+      const op = chars[i];
+      if (op === "-" || op === "+" || isDigit(op)) {
+        if (!isDigit(op)) {
+          ++i;
+        }
+        const n = isDigit(chars[i]) ? getDigits() : 1;
+        line.lineOffset = op === "-" ? -n : n;
+      }
+    }
+    return line;
+  }
+
+  function getOffset(): number {
+    let offset = 0;
+    for (;;) {
+      skipWhite();
+      const op = chars[i];
+      if (op !== "-" && op !== "+" && !isDigit(op)) {
+        break;
+      }
+      if (!isDigit(op)) {
+        ++i;
+      }
+      const n = isDigit(chars[i]) ? getDigits() : 1;
+      offset += op === "-" ? -n : n;
+    }
+    return offset;
+  }
+
+  function getDigits(): number {
+    let n = 0;
+    while (isDigit(chars[i])) {
+      n = n * 10 + Number(chars[i++]);
+    }
+    return n;
+  }
+}
+
+/**
+ * Resolves the range to the lines of the buffer, like Vim.
+ *
+ * - No address is the cursor line, and one address is the single line.
+ * - A backwards range is swapped.
+ * - Line 0 is returned as is, the command decides whether to accept it.
+ * - A pattern address searches forward from the end of the cursor line, or
+ *   backward from the start of it, so the cursor line matches only after
+ *   wrapping around the buffer.  From line 0, like "0;/pat/", the search
+ *   forward matches in the first line.
+ *
+ * @param buffer - An array of lines or a {@linkcode TextBuffer}.
+ * @param range - The range parsed by {@linkcode parseRange}, or the text
+ *   that starts with the range.
+ * @param options - Optional parameters.
+ * @returns The first and the last lines.
+ *
+ * @throws {VimCommandError}
+ * Thrown if the range is out of the buffer (E16), a mark is not set (E20)
+ * or is out of the buffer (E19), the last pattern is not set (E35 and E33),
+ * or a pattern is not found (E486, or E384 and E385 without wrapscan).
+ *
+ * @example
+ * ```ts
+ * import { resolveRange } from "@milly/vimregexp/range";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const lines = ["a", "b", "c", "d", "e"];
+ * assertEquals(resolveRange(lines, "$-1;-2", { cursor: { lnum: 1, col: 1 } }), {
+ *   line1: 2,
+ *   line2: 4,
+ * });
+ *
+ * const source = ["func A", "  a", "endfunc", "func B", "  b", "endfunc"];
+ * assertEquals(resolveRange(source, "/^func/+1,/^endfunc/-1", { cursor: { lnum: 3, col: 1 } }), {
+ *   line1: 5,
+ *   line2: 5,
+ * });
+ * ```
+ */
+export function resolveRange(
+  buffer: VimBuffer,
+  range: Pick<ExRange, "addresses"> | string,
+  options: ExRangeOptions = {},
+): ExLineRange {
+  const textBuffer = toTextBuffer(buffer);
+  const { lineCount } = textBuffer;
+  const { addresses } = typeof range === "string"
+    ? parseRange(range, { magic: options.magic })
+    : range;
+  const { marks = {} } = options;
+  let cursor = options.cursor?.lnum ?? 1;
+  let line1 = cursor;
+  let line2 = cursor;
+  for (const { line, offset, searches = [], separator } of addresses) {
+    line1 = line2;
+    line2 = offset;
+    switch (line?.type) {
+      case "number":
+        line2 += line.lnum;
+        break;
+      case "last":
+        line2 += lineCount;
+        break;
+      case "mark": {
+        const pos = Object.hasOwn(marks, line.name) ? marks[line.name] : undefined;
+        if (!pos) {
+          throw new VimCommandError("E20", "Mark not set");
+        }
+        if (pos.lnum > lineCount) {
+          throw new VimCommandError("E19", "Mark has invalid line number");
+        }
+        line2 += pos.lnum;
+        break;
+      }
+      case "pattern":
+      case "previousPattern":
+        line2 += searchLine(textBuffer, line, cursor, options);
+        break;
+      default:
+        line2 += cursor;
+        break;
+    }
+    for (const search of searches) {
+      // Like Vim, the search starts at the cursor line if the line is not valid.
+      const from = line2 > 0 ? Math.min(line2, lineCount) : cursor;
+      line2 = searchLine(textBuffer, search.line, from, options) + search.offset;
+    }
+    if (separator === ";") {
+      // Vim accepts line 0 as the cursor, so that "0;/pat/" works.
+      cursor = line2 > 0 ? Math.min(line2, lineCount) : line2;
+    }
+  }
+  if (addresses.length === 1) {
+    line1 = line2;
+  }
+  if (line1 > line2) {
+    [line1, line2] = [line2, line1];
+  }
+  if (line1 < 0 || line2 > lineCount) {
+    throw new VimCommandError("E16", "Invalid range");
+  }
+  return { line1, line2 };
+}
+
+/** Returns the line found by the pattern address from the line `from`. */
+function searchLine(
+  buffer: TextBuffer,
+  line: Extract<ExLineSpecifier, { type: "pattern" | "previousPattern" }>,
+  from: number,
+  options: ExRangeOptions,
+): number {
+  const { wrapscan = true, session, ...regexOptions } = options;
+  let source;
+  if (line.type === "pattern") {
+    source = line.pattern ? { pattern: line.pattern, typed: true } : session?.lastPattern;
+    if (!source) {
+      throw new VimCommandError("E35", "No previous regular expression");
+    }
+    session?.setLastSearchOffset(
+      line.lineOffset === undefined
+        ? { type: "start", offset: 0 }
+        : { type: "line", offset: line.lineOffset },
+    );
+  } else if (line.previous === "search") {
+    source = session?.lastSearchPattern;
+    if (!source) {
+      throw new VimCommandError("E35", "No previous regular expression");
+    }
+  } else {
+    source = session?.lastSubstitutePattern;
+    if (!source) {
+      throw new VimCommandError("E33", "No previous substitute regular expression");
+    }
+  }
+  // Like Vim, also the last pattern used by "\\&" becomes the last search
+  // pattern.
+  session?.setLastSearchPattern(source.pattern, source.typed);
+  const regex = new VimRegExp(source.pattern, {
+    ...regexOptions,
+    session,
+    ...(source.typed ? {} : { smartcase: false }),
+  });
+
+  const backward = line.direction === "?";
+  // Like Vim, the search forward starts at the end of the line, and the
+  // search backward starts at the start of the line.  From line 0, the
+  // search forward matches in the first line.
+  const start = from > 0
+    ? { lnum: from, col: backward ? 1 : lineLength(buffer, from) + 1 }
+    : { lnum: 1, col: 1 };
+  const flags = `n${backward ? "b" : from > 0 ? "" : "c"}${wrapscan ? "w" : "W"}`;
+  const [lnum] = searchpos(buffer, regex, { cursor: start, flags });
+  if (lnum === 0) {
+    if (wrapscan) {
+      throw new VimCommandError("E486", `Pattern not found: ${source.pattern}`);
+    }
+    throw backward
+      ? new VimCommandError("E384", `Search hit TOP without match for: ${source.pattern}`)
+      : new VimCommandError("E385", `Search hit BOTTOM without match for: ${source.pattern}`);
+  }
+  if (line.type === "pattern" && line.lineOffset !== undefined) {
+    return Math.min(Math.max(lnum + line.lineOffset, 1), buffer.lineCount);
+  }
+  return lnum;
+}
+
+/** Returns the byte length of the line. */
+function lineLength(buffer: TextBuffer, lnum: number): number {
+  return lnum >= 1 && lnum <= buffer.lineCount ? utf8Length(buffer.getLine(lnum)) : 0;
+}
+
+function isDigit(c: string | undefined): boolean {
+  return c !== undefined && c >= "0" && c <= "9";
+}
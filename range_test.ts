@@ -0,0 +1,326 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+
+import { VimCommandError } from "./errors.ts";
+import { parseRange, resolveRange } from "./range.ts";
+import { VimSearchSession } from "./session.ts";
+
+describe("parseRange", () => {
+  it("parses the line specifiers.", () => {
+    assertEquals(parseRange("12,.;$s"), {
+      addresses: [
+        { line: { type: "number", lnum: 12 }, offset: 0, separator: "," },
+        { line: { type: "current" }, offset: 0, separator: ";" },
+        { line: { type: "last" }, offset: 0 },
+      ],
+      rest: "s",
+    });
+    assertEquals(parseRange("'a,'<d").addresses, [
+      { line: { type: "mark", name: "a" }, offset: 0, separator: "," },
+      { line: { type: "mark", name: "<" }, offset: 0 },
+    ]);
+  });
+  it("parses '%' as '1,$'.", () => {
+    assertEquals(parseRange("%s/a/b/"), {
+      addresses: [
+        { line: { type: "number", lnum: 1 }, offset: 0, separator: "," },
+        { line: { type: "last" }, offset: 0 },
+      ],
+      rest: "s/a/b/",
+    });
+  });
+  it("sums the offsets like Vim.", () => {
+    assertEquals(parseRange("+3-2").addresses, [{ offset: 1 }]);
+    assertEquals(parseRange("--").addresses, [{ offset: -2 }]);
+    assertEquals(parseRange(".+ 3").addresses, [{ line: { type: "current" }, offset: 4 }]);
+    assertEquals(parseRange("$-1 2").addresses, [{ line: { type: "last" }, offset: 1 }]);
+  });
+  it("keeps the empty address before a separator.", () => {
+    assertEquals(parseRange(",5").addresses, [
+      { offset: 0, separator: "," },
+      { line: { type: "number", lnum: 5 }, offset: 0 },
+    ]);
+    assertEquals(parseRange("3,").addresses, [
+      { line: { type: "number", lnum: 3 }, offset: 0, separator: "," },
+    ]);
+  });
+  it("returns no address if the range is not given.", () => {
+    assertEquals(parseRange("s/a/b/"), { addresses: [], rest: "s/a/b/" });
+    assertEquals(parseRange("  g/x/d"), { addresses: [], rest: "g/x/d" });
+  });
+  it("throws if the mark name is missing.", () => {
+    assertThrows(() => parseRange("'"), VimCommandError, "E78: Unknown mark");
+  });
+  it("parses the pattern addresses.", () => {
+    assertEquals(parseRange("/^func/+1,/^endfunc/-1d"), {
+      addresses: [
+        {
+          line: { type: "pattern", direction: "/", pattern: "^func", lineOffset: 1 },
+          offset: 0,
+          separator: ",",
+        },
+        {
+          line: { type: "pattern", direction: "/", pattern: "^endfunc", lineOffset: -1 },
+          offset: 0,
+        },
+      ],
+      rest: "d",
+    });
+    assertEquals(parseRange("?foo?;/bar/").addresses, [
+      { line: { type: "pattern", direction: "?", pattern: "foo" }, offset: 0, separator: ";" },
+      { line: { type: "pattern", direction: "/", pattern: "bar" }, offset: 0 },
+    ]);
+  });
+  it("parses the delimiters in the patterns.", () => {
+    assertEquals(parseRange("/a\\/[/]/p"), {
+      addresses: [{ line: { type: "pattern", direction: "/", pattern: "a\\/[/]" }, offset: 0 }],
+      rest: "p",
+    });
+    assertEquals(parseRange("?a\\?b?").addresses, [
+      { line: { type: "pattern", direction: "?", pattern: "a?b" }, offset: 0 },
+    ]);
+    assertEquals(parseRange("/foo").addresses, [
+      { line: { type: "pattern", direction: "/", pattern: "foo" }, offset: 0 },
+    ]);
+  });
+  it("parses only the first offset right after the pattern as a part of it.", () => {
+    assertEquals(parseRange("/a/+ 2").addresses, [
+      { line: { type: "pattern", direction: "/", pattern: "a", lineOffset: 1 }, offset: 2 },
+    ]);
+    assertEquals(parseRange("/a/ -").addresses, [
+      { line: { type: "pattern", direction: "/", pattern: "a" }, offset: -1 },
+    ]);
+    assertEquals(parseRange("/a/e").addresses, [
+      { line: { type: "pattern", direction: "/", pattern: "a" }, offset: 0 },
+    ]);
+  });
+  it("parses the patterns that follow an address.", () => {
+    assertEquals(parseRange("/a//b/-1?c?,").addresses, [
+      {
+        line: { type: "pattern", direction: "/", pattern: "a" },
+        offset: 0,
+        searches: [
+          { line: { type: "pattern", direction: "/", pattern: "b", lineOffset: -1 }, offset: 0 },
+          { line: { type: "pattern", direction: "?", pattern: "c" }, offset: 0 },
+        ],
+        separator: ",",
+      },
+    ]);
+    assertEquals(parseRange("3 /a/").addresses, [
+      {
+        line: { type: "number", lnum: 3 },
+        offset: 0,
+        searches: [{ line: { type: "pattern", direction: "/", pattern: "a" }, offset: 0 }],
+      },
+    ]);
+  });
+  it("parses the previous patterns.", () => {
+    assertEquals(parseRange("\\/,\\?;\\&+1").addresses, [
+      {
+        line: { type: "previousPattern", direction: "/", previous: "search" },
+        offset: 0,
+        separator: ",",
+      },
+      {
+        line: { type: "previousPattern", direction: "?", previous: "search" },
+        offset: 0,
+        separator: ";",
+      },
+      { line: { type: "previousPattern", direction: "/", previous: "substitute" }, offset: 1 },
+    ]);
+    assertThrows(
+      () => parseRange("\\x"),
+      VimCommandError,
+      "E10: \\ should be followed by /, ? or &",
+    );
+  });
+  it("parses the patterns with 'magic'.", () => {
+    assertEquals(parseRange("/[/]/", { magic: false }).addresses, [
+      { line: { type: "pattern", direction: "/", pattern: "[" }, offset: 0 },
+    ]);
+  });
+});
+
+describe("resolveRange", () => {
+  const lines = ["a", "b", "c", "d", "e"];
+  const cursor = { lnum: 3, col: 1 };
+  const resolve = (text: string) => resolveRange(lines, text, { cursor });
+
+  it("returns the cursor line if no address is given.", () => {
+    assertEquals(resolve(""), { line1: 3, line2: 3 });
+    assertEquals(resolveRange(lines, ""), { line1: 1, line2: 1 });
+  });
+  it("returns the single line for one address.", () => {
+    assertEquals(resolve("2"), { line1: 2, line2: 2 });
+    assertEquals(resolve("$"), { line1: 5, line2: 5 });
+    assertEquals(resolve("-"), { line1: 2, line2: 2 });
+  });
+  it("resolves the addresses relative to the cursor.", () => {
+    assertEquals(resolve(".,$"), { line1: 3, line2: 5 });
+    assertEquals(resolve("-1,+1"), { line1: 2, line2: 4 });
+    assertEquals(resolve("%"), { line1: 1, line2: 5 });
+    assertEquals(resolve(",5"), { line1: 3, line2: 5 });
+  });
+  it("moves the cursor with ';'.", () => {
+    assertEquals(resolve("1;+1"), { line1: 1, line2: 2 });
+    assertEquals(resolve("1,+1"), { line1: 1, line2: 4 });
+    assertEquals(resolve("0;+1"), { line1: 0, line2: 1 });
+  });
+  it("swaps a backwards range.", () => {
+    assertEquals(resolve("4,2"), { line1: 2, line2: 4 });
+  });
+  it("resolves the marks.", () => {
+    const marks = { a: { lnum: 4, col: 1 }, b: { lnum: 2, col: 3 }, z: { lnum: 9, col: 1 } };
+    assertEquals(resolveRange(lines, "'a,'b", { marks }), { line1: 2, line2: 4 });
+    assertEquals(resolveRange(lines, "'a+1", { marks }), { line1: 5, line2: 5 });
+    assertThrows(
+      () => resolveRange(lines, "'c", { marks }),
+      VimCommandError,
+      "E20: Mark not set",
+    );
+    assertThrows(
+      () => resolveRange(lines, "'z", { marks }),
+      VimCommandError,
+      "E19: Mark has invalid line number",
+    );
+  });
+  it("returns line 0 as is.", () => {
+    assertEquals(resolve("0"), { line1: 0, line2: 0 });
+    assertEquals(resolve("0,$"), { line1: 0, line2: 5 });
+  });
+  it("throws if the range is out of the buffer.", () => {
+    assertThrows(() => resolve("6"), VimCommandError, "E16: Invalid range");
+    assertThrows(() => resolve("1,$+1"), VimCommandError, "E16: Invalid range");
+    assertThrows(() => resolve("-4"), VimCommandError, "E16: Invalid range");
+  });
+  it("accepts a parsed range.", () => {
+    assertEquals(resolveRange(lines, parseRange("2;+2")), { line1: 2, line2: 4 });
+  });
+});
+
+describe("resolveRange with patterns", () => {
+  const lines = ["a", "b", "c", "a", "b", "c"];
+  const resolve = (text: string, lnum: number, options = {}) =>
+    resolveRange(lines, text, { cursor: { lnum, col: 1 }, ...options });
+
+  it("searches forward from the line after the cursor line.", () => {
+    assertEquals(resolve("/a/", 1), { line1: 4, line2: 4 });
+    assertEquals(resolve("/b/", 1), { line1: 2, line2: 2 });
+  });
+  it("searches backward from the line before the cursor line.", () => {
+    assertEquals(resolve("?b?", 5), { line1: 2, line2: 2 });
+    assertEquals(resolve("?c?", 3), { line1: 6, line2: 6 });
+  });
+  it("finds the cursor line after wrapping around.", () => {
+    assertEquals(resolve("/a/", 4), { line1: 1, line2: 1 });
+    assertEquals(resolve("?a?", 1), { line1: 4, line2: 4 });
+    assertEquals(resolveRange(["a", "b"], "/a/", { cursor: { lnum: 1, col: 1 } }), {
+      line1: 1,
+      line2: 1,
+    });
+  });
+  it("searches the first line from line 0.", () => {
+    assertEquals(resolve("0;/a/", 3), { line1: 0, line2: 1 });
+    assertEquals(resolve("0;?a?", 3), { line1: 0, line2: 4 });
+  });
+  it("searches from the previous address with ';'.", () => {
+    assertEquals(resolve("/a/;/b/", 3), { line1: 4, line2: 5 });
+    assertEquals(resolve("/a/,/b/", 3), { line1: 4, line2: 5 });
+    assertEquals(resolve("?a?,/b/", 3), { line1: 1, line2: 5 });
+    assertEquals(resolve("?a?;/b/", 3), { line1: 1, line2: 2 });
+  });
+  it("limits the offset right after the pattern to the buffer.", () => {
+    assertEquals(resolve("/c/+5", 1), { line1: 6, line2: 6 });
+    assertEquals(resolve("/c/-9", 1), { line1: 1, line2: 1 });
+    assertThrows(() => resolve("/c/ +5", 1), VimCommandError, "E16: Invalid range");
+    assertThrows(() => resolve("/c/+1+5", 1), VimCommandError, "E16: Invalid range");
+  });
+  it("searches the patterns that follow from the line found before.", () => {
+    assertEquals(resolve("/b//c/", 1), { line1: 3, line2: 3 });
+    assertEquals(resolve("/b/+3/a/", 1), { line1: 1, line2: 1 });
+    assertEquals(resolve("+3/a/", 1), { line1: 1, line2: 1 });
+    assertEquals(resolve("/c/?a?", 1), { line1: 1, line2: 1 });
+  });
+  it("resolves a pattern range of functions.", () => {
+    const source = ["func A", "  a", "endfunc", "func B", "  b", "endfunc"];
+    const cursor = { lnum: 3, col: 1 };
+    assertEquals(resolveRange(source, "/^func/+1,/^endfunc/-1", { cursor }), {
+      line1: 5,
+      line2: 5,
+    });
+    assertEquals(resolveRange(source, "?^func?+1;/^endfunc/-1", { cursor }), {
+      line1: 2,
+      line2: 2,
+    });
+  });
+  it("matches a multi-line pattern at the start line.", () => {
+    assertEquals(resolveRange(["ab", "cd", "ab"], "?b\\nc?", { cursor: { lnum: 2, col: 1 } }), {
+      line1: 1,
+      line2: 1,
+    });
+  });
+  it("compiles the patterns with the options.", () => {
+    assertEquals(resolve("/A/", 1, { ignorecase: true }), { line1: 4, line2: 4 });
+    assertThrows(
+      () => resolve("/A/", 1, { ignorecase: true, smartcase: true }),
+      VimCommandError,
+      "E486: Pattern not found: A",
+    );
+  });
+  it("throws if the pattern is not found.", () => {
+    assertThrows(() => resolve("/x/", 1), VimCommandError, "E486: Pattern not found: x");
+    assertThrows(() => resolve("/a/,/x/", 1), VimCommandError, "E486: Pattern not found: x");
+  });
+  it("does not wrap around without wrapscan.", () => {
+    const options = { wrapscan: false };
+    assertEquals(resolve("/b/", 4, options), { line1: 5, line2: 5 });
+    assertThrows(
+      () => resolve("/a/", 4, options),
+      VimCommandError,
+      "E385: Search hit BOTTOM without match for: a",
+    );
+    assertThrows(
+      () => resolve("?a?", 1, options),
+      VimCommandError,
+      "E384: Search hit TOP without match for: a",
+    );
+  });
+  it("saves the pattern and the offset to the session.", () => {
+    const session = new VimSearchSession();
+    assertEquals(resolve("/^b\\|^c/;//+1", 1, { session }), { line1: 2, line2: 4 });
+    assertEquals(session.lastSearchPattern, { pattern: "^b\\|^c", typed: true });
+    assertEquals(session.lastSearchOffset, { type: "line", offset: 1 });
+    resolve("/b/", 1, { session });
+    assertEquals(session.lastSearchOffset, { type: "start", offset: 0 });
+  });
+  it("saves the pattern even if it is not found.", () => {
+    const session = new VimSearchSession();
+    assertThrows(() => resolve("/x/", 1, { session }), VimCommandError, "E486");
+    assertEquals(session.lastSearchPattern, { pattern: "x", typed: true });
+  });
+  it("uses the previous patterns.", () => {
+    const session = new VimSearchSession();
+    session.setLastSubstitutePattern("c");
+    session.setLastSearchPattern("a");
+    assertEquals(resolve("\\/", 2, { session }), { line1: 4, line2: 4 });
+    assertEquals(resolve("\\?", 2, { session }), { line1: 1, line2: 1 });
+    assertEquals(resolve("//", 2, { session }), { line1: 4, line2: 4 });
+    assertEquals(resolve("\\&", 2, { session }), { line1: 3, line2: 3 });
+    assertEquals(session.lastSearchPattern, { pattern: "c", typed: true });
+    assertEquals(resolve("\\/+1", 2, { session }), { line1: 4, line2: 4 });
+  });
+  it("throws if the previous pattern is not set.", () => {
+    const session = new VimSearchSession();
+    assertThrows(
+      () => resolve("\\/", 1, { session }),
+      VimCommandError,
+      "E35: No previous regular expression",
+    );
+    assertThrows(() => resolve("//", 1), VimCommandError, "E35: No previous regular expression");
+    assertThrows(
+      () => resolve("\\&", 1, { session }),
+      VimCommandError,
+      "E33: No previous substitute regular expression",
+    );
+  });
+});
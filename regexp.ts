@@ -4,8 +4,29 @@
  * @module
  */
 
+import { toTextBuffer, type VimBuffer, type VimBufferMatch } from "./buffer.ts";
 import { DEFAULT_CHAR_PATTERNS, patternToCharClass, type PatternType } from "./charclass.ts";
-import { UnsupportedSyntaxError, VimRegExpSyntaxError } from "./errors.ts";
+import { VimRegExpSyntaxError } from "./errors.ts";
+import {
+  type AnchorNode,
+  type BranchNode,
+  type CharClassNode,
+  type CharNode,
+  type CollectionNode,
+  type GroupNode,
+  type Multi,
+  type MultiNode,
+  type NamedClassName,
+  parse,
+  type PositionAtom,
+  type PositionCmp,
+  type SourceSpan,
+  type TermNode,
+  type VimPatternNode,
+} from "./parser.ts";
+import { charWidth, convertOffset, utf8Length } from "./offset.ts";
+import { expandReplacement, expandTilde } from "./replacement.ts";
+import type { VimSearchSession } from "./session.ts";
 
 /**
  * Optional parameters of {@linkcode VimRegExp}.
@@ -76,7 +97,8 @@ export type VimRegExpOptions = {
   isprint?: string;
 
   /**
-   * Changes the special characters that can be used in search patterns.
+   * Changes the special characters that can be used in search patterns and
+   * replacement strings.
    *
    * @default {true}
    */
@@ -143,97 +165,1525 @@ export type VimRegExpOptions = {
    * ```
    */
   stringMatch?: boolean;
+
+  /**
+   * Enforce the limit of lookbehind in "\@123<=" and "\@123<!".
+   *
+   * In Vim, the lookbehind only looks back the specified number of bytes.
+   * JavaScript's lookbehind has no such limit, so it is ignored by default,
+   * and a warning is reported in {@linkcode VimRegExp.warnings}.
+   *
+   * | Value   | Description                                  |
+   * | ------- | -------------------------------------------- |
+   * | false   | Ignore the limit.                            |
+   * | "byte"  | Limit by the number of UTF-8 bytes like Vim. |
+   * | "char"  | Limit by the number of characters.           |
+   *
+   * A limit of 0 means no limit, like Vim.
+   *
+   * @default {false}
+   *
+   * @example
+   * ```ts
+   * import { VimRegExp } from "@milly/vimregexp/regexp";
+   * import { assertEquals } from "@std/assert";
+   *
+   * const regex = new VimRegExp("\\(foo.*\\)\\@6<=bar", { lookbehindLimit: "byte" });
+   * assertEquals(regex.exec("foo...bar")?.index, 6);
+   * assertEquals(regex.exec("foo....bar"), null);
+   * assertEquals(regex.exec("foo..\u00e9bar"), null, "'\u00e9' is 2 bytes");
+   * ```
+   */
+  lookbehindLimit?: false | "byte" | "char";
+
+  /**
+   * Line number of the first line of the searched text.
+   * It is used for "\%23l" in a `pattern`.
+   *
+   * Note that "\%23l" never matches when
+   * {@linkcode VimRegExpOptions.stringMatch} is `true`, like Vim.
+   *
+   * @default {1}
+   *
+   * @example
+   * ```ts
+   * import { VimRegExp } from "@milly/vimregexp/regexp";
+   * import { assertEquals } from "@std/assert";
+   *
+   * const lines = "foo\nbar\nbaz";
+   * const regex = new VimRegExp("\\%>11l...", { firstLine: 10, flags: "g" });
+   * assertEquals(lines.match(regex), ["baz"]);
+   * ```
+   */
+  firstLine?: number;
+
+  /**
+   * Number of spaces that a <Tab> in the text counts for.
+   * It is used for "\%23v" in a `pattern`.
+   *
+   * @default {8}
+   */
+  tabstop?: number;
+
+  /**
+   * Cursor position.
+   * It is used for "\%#", "\%.l", "\%.c" and "\%.v" in a `pattern`.
+   *
+   * @default {{ lnum: 1, col: 1 }}
+   */
+  cursor?: VimPosition;
+
+  /**
+   * Positions of the marks, keyed by the mark name.
+   * It is used for "\%'m", "\%<'m" and "\%>'m" in a `pattern`.
+   * A mark that is not in this object is not set, and never matches.
+   *
+   * @default {{}}
+   *
+   * @example
+   * ```ts
+   * import { VimRegExp } from "@milly/vimregexp/regexp";
+   * import { assertEquals } from "@std/assert";
+   *
+   * const regex = new VimRegExp("\\%>'a\\_.*\\%<'b", {
+   *   marks: { a: { lnum: 1, col: 1 }, b: { lnum: 2, col: 3 } },
+   * });
+   * assertEquals(regex.exec("foo\nbar")?.[0], "oo\nb");
+   * ```
+   */
+  marks?: Record<string, VimPosition>;
+
+  /**
+   * The Visual area.  It is used for "\%V" in a `pattern`.
+   * If `null`, "\%V" never matches.
+   *
+   * @default {null}
+   *
+   * @example
+   * ```ts
+   * import { VimRegExp } from "@milly/vimregexp/regexp";
+   * import { assertEquals } from "@std/assert";
+   *
+   * const regex = new VimRegExp("\\%V.", {
+   *   flags: "g",
+   *   visual: { mode: "\x16", start: { lnum: 1, col: 2 }, end: { lnum: 2, col: 3 } },
+   * });
+   * assertEquals("abcd\nefgh\nijkl".match(regex), ["b", "c", "f", "g"]);
+   * ```
+   */
+  visual?: VimVisualArea | null;
+
+  /**
+   * The search session that holds the last used pattern and the last
+   * substitute string.  If `null`, both of them are not set.
+   *
+   * - The empty pattern is replaced with the last used pattern, like "//".
+   *   {@linkcode VimRegExpOptions.smartcase} is not used if the last used
+   *   pattern was not typed.
+   * - "~" in a `pattern` matches the last substitute string literally.
+   * - "~" in a replacement string is replaced with the last substitute
+   *   string, and the result becomes the new one.
+   *
+   * @default {null}
+   *
+   * @example
+   * ```ts
+   * import { VimRegExp } from "@milly/vimregexp/regexp";
+   * import { VimSearchSession } from "@milly/vimregexp/session";
+   * import { assertEquals } from "@std/assert";
+   *
+   * const session = new VimSearchSession();
+   * session.setLastSubstituteString("a.c");
+   * const regex = new VimRegExp("x~", { session, flags: "g" });
+   * assertEquals("xabc xa.c".match(regex), ["xa.c"]);
+   * ```
+   */
+  session?: VimSearchSession | null;
+
+  /**
+   * Allow "\z(\)" in a `pattern`, like the start pattern of a syntax region.
+   * The texts matched by "\z(\)" are returned in
+   * {@linkcode VimRegExpExecArray.externalSubmatches}.
+   *
+   * Also see {@linkcode VimRegionPattern}.
+   *
+   * @default {false}
+   */
+  externalCapture?: boolean;
+
+  /**
+   * The texts for "\z1" ... "\z9" in a `pattern`, like the end pattern of a
+   * syntax region.  The text at index 1 is used for "\z1", and so on.
+   * The texts are matched literally, and a missing text matches the empty
+   * string.  If `null`, "\z1" ... "\z9" are not allowed.
+   *
+   * Also see {@linkcode VimRegionPattern}.
+   *
+   * @default {null}
+   *
+   * @example
+   * ```ts
+   * import { VimRegExp } from "@milly/vimregexp/regexp";
+   * import { assertEquals } from "@std/assert";
+   *
+   * const start = new VimRegExp("<<\\z(\\w\\+\\)", { externalCapture: true });
+   * const { externalSubmatches } = start.exec("cat <<EOS")!;
+   * const end = new VimRegExp("^\\z1$", { externalSubmatches });
+   * assertEquals(end.exec("foo\nEOS\n")?.index, 4);
+   * ```
+   */
+  externalSubmatches?: readonly string[] | null;
+};
+
+/**
+ * The result array of {@linkcode VimRegExp.exec}.
+ */
+export type VimRegExpExecArray = RegExpExecArray & {
+  /**
+   * The texts matched by "\z(\)", if
+   * {@linkcode VimRegExpOptions.externalCapture} is `true`.
+   * The index 0 is the whole match, and the index 1 is for "\z1", and so on.
+   * The text of an unmatched "\z(\)" is the empty string, like Vim.
+   */
+  externalSubmatches?: string[];
+};
+
+/**
+ * A position in the text.
+ */
+export type VimPosition = {
+  /** Line number, 1-based. */
+  lnum: number;
+  /** Byte index of the column, 1-based.  `Infinity` means the end of the line. */
+  col: number;
+};
+
+/**
+ * A Visual area.
+ */
+export type VimVisualArea = {
+  /**
+   * Visual mode.
+   *
+   * - `"v"`: characterwise
+   * - `"V"`: linewise
+   * - `"\x16"` (CTRL-V): blockwise
+   */
+  mode: "v" | "V" | "\x16";
+  /** Start position of the area, inclusive. */
+  start: VimPosition;
+  /** End position of the area, inclusive. */
+  end: VimPosition;
+};
+
+/**
+ * A warning reported when compiling a Vim's regular expression pattern.
+ */
+export type VimRegExpWarning = {
+  /**
+   * Type of the warning.
+   *
+   * - `"lookbehind-limit"`: The limit of "\@123<=" or "\@123<!" is ignored.
+   */
+  type: "lookbehind-limit";
+  /** Description of the warning. */
+  message: string;
+  /** Vim's regular expression pattern. */
+  source: string;
+  /** Position of the atom in `source`. */
+  index: number;
+};
+
+/**
+ * Represents a Vim's regular expression.
+ *
+ * @example
+ * ```ts
+ * import { VimRegExp } from "@milly/vimregexp/regexp";
+ * import { assert, assertFalse } from "@std/assert";
+ *
+ * const regex = new VimRegExp("\\k\\+", { flags: "i" });
+ * assert(regex.test("Foo"));
+ * assertFalse(regex.test("!!!"));
+ * ```
+ */
+export class VimRegExp extends RegExp {
+  #options: Required<VimRegExpOptions>;
+  #vimSource: string;
+  #flags: string;
+  #captures: readonly Capture[];
+  #warnings: readonly VimRegExpWarning[];
+  #searcher?: RegExp;
+  #template: string;
+  #positions: ReadonlyMap<string, PositionTerm>;
+  #resolved?: { input: string; regex: RegExp; searcher?: RegExp };
+  #bufferSearcher?: VimRegExp;
+  #reach?: LineReach;
+  #lineSearchers = new Map<string, RegExp>();
+  #lineSearcher?: { lines: SearchLines; first: number; text: string; regex: RegExp };
+  #stringLines?: SearchLines & { input: string; starts: readonly number[] };
+  #bufferText?: JoinedLines & { newline: boolean; lines: readonly string[] };
+
+  /**
+   * Creates a new instance of the VimRegExp class.
+   *
+   * @param pattern - Vim's regular expression pattern, or an object of `VimRegExp`.
+   * @param options - Optional parameters or {@linkcode VimRegExpOptions.flags}.
+   *
+   * @throws {VimRegExpSyntaxError}
+   * Thrown if `pattern` is invalid format.
+   * Thrown if `options` contains invalid value.
+   */
+  // @ts-ignore: TS2377: 'super' call in try-catch
+  // deno-lint-ignore constructor-super
+  constructor(
+    pattern: string | VimRegExp,
+    options: VimRegExpOptions | string = {},
+  ) {
+    const [srcObj, givenSource] = pattern instanceof VimRegExp
+      ? [pattern, pattern.#vimSource]
+      : [undefined, pattern];
+    const mergedOptions = {
+      ...DEFAULT_CHAR_PATTERNS,
+      magic: true,
+      ignorecase: false,
+      smartcase: false,
+      stringMatch: false,
+      lookbehindLimit: false as const,
+      firstLine: 1,
+      tabstop: 8,
+      cursor: { lnum: 1, col: 1 },
+      marks: {},
+      visual: null,
+      session: null,
+      externalCapture: false,
+      externalSubmatches: null,
+      ...(srcObj && srcObj.#options),
+      flags: "",
+      ...(typeof options === "string" ? { flags: options } : options),
+    };
+    copyPositionOptions(mergedOptions);
+    const { session } = mergedOptions;
+    const lastSearch = givenSource === "" && session ? session.lastPattern : undefined;
+    if (givenSource === "" && session && !lastSearch) {
+      throw new VimRegExpSyntaxError("No previous regular expression");
+    }
+    const vimSource = lastSearch ? lastSearch.pattern : givenSource;
+    let parsed: ReturnType<typeof parseVimPattern>;
+    try {
+      parsed = parseVimPattern(
+        vimSource,
+        lastSearch?.typed === false ? { ...mergedOptions, smartcase: false } : mergedOptions,
+      );
+      super(resolvePositions(parsed.source, parsed.positions, "", mergedOptions), parsed.flags);
+    } catch (cause) {
+      // Re-throw or wrap known errors.
+      if (cause instanceof VimRegExpSyntaxError) {
+        throw cause;
+      }
+      if (cause instanceof SyntaxError) {
+        throw new VimRegExpSyntaxError(cause.message, { source: vimSource, cause });
+      }
+      // Re-throw unexpected errors.
+      throw cause;
+    }
+    this.#options = mergedOptions;
+    this.#vimSource = vimSource;
+    this.#flags = parsed.flags;
+    this.#captures = parsed.captures;
+    this.#warnings = parsed.warnings;
+    this.#template = parsed.source;
+    this.#positions = parsed.positions;
+  }
+
+  /**
+   * Returns a boolean indicating whether or not the "d" flag is specified by
+   * the user.
+   *
+   * The "d" flag may be used internally to find the positions of `\zs` and
+   * `\ze`, but it is not reflected in this property.
+   */
+  override get hasIndices(): boolean {
+    return this.#options.flags.includes("d");
+  }
+
+  /**
+   * Executes a search on a string and returns the result array.
+   *
+   * The match starts at the last matched `\zs` and ends at the last matched
+   * `\ze`, if these exist in the pattern.  Internal capture groups are
+   * removed from the result, so that the sub-expressions are numbered as in
+   * Vim.  If the "g" or "y" flag is specified, `lastIndex` is set to the end
+   * of the match.
+   *
+   * @param string - The string against which to match the regular expression.
+   * @returns The result array, or `null` if the match fails.
+   *
+   * @example
+   * ```ts
+   * import { VimRegExp } from "@milly/vimregexp/regexp";
+   * import { assertEquals } from "@std/assert";
+   *
+   * const regex = new VimRegExp("foo\\zsbar\\zebaz", "g");
+   * const match = regex.exec("foobarbaz");
+   * assertEquals(match?.[0], "bar");
+   * assertEquals(match?.index, 3);
+   * assertEquals(regex.lastIndex, 6);
+   * ```
+   */
+  override exec(string: string): VimRegExpExecArray | null {
+    let match: RegExpExecArray | null;
+    if (this.#positions.size > 0 && !this.#options.stringMatch && !this.sticky) {
+      match = this.#execString(string);
+    } else {
+      match = this.#positions.size > 0 ? this.#execResolved(string) : super.exec(string);
+      while (match !== null && !checkLookbehindLimits(match, this.#captures)) {
+        match = this.#execFrom(string, advanceIndex(string, match.index));
+      }
+    }
+    if (match === null || this.#captures.every(({ type }) => type === "group")) {
+      return match;
+    }
+    const result = restoreExecArray(
+      match,
+      this.#captures,
+      this.hasIndices,
+      this.#options.externalCapture,
+    );
+    if (this.global || this.sticky) {
+      this.lastIndex = result.index + result[0].length;
+    }
+    return result;
+  }
+
+  /**
+   * Replaces the matches in a string, with Vim's replacement string instead
+   * of JavaScript's one.  See {@linkcode expandReplacement} for the special
+   * characters.  Like `substitute()` of Vim, "~" is literal unless
+   * {@linkcode VimRegExpOptions.session} is specified.
+   *
+   * If a function is given, it is called with the whole match, the
+   * sub-expressions "\1" ... "\9" that are the empty string if not matched,
+   * the index of the match and the string.  The returned text is used as is.
+   *
+   * With the "g" flag, the matches are found like `substitute()` of Vim.
+   * The search continues from the end of the match, and an empty match is
+   * skipped only at the index of the previous empty match, so that the
+   * empty match of "foo\zs" is found also just after the previous match.
+   *
+   * @param string - The string in which to replace the matches.
+   * @param replaceValue - Vim's replacement string, or a function that
+   *   returns the replacement text.
+   * @returns The new string.
+   *
+   * @example
+   * ```ts
+   * import { VimRegExp } from "@milly/vimregexp/regexp";
+   * import { assertEquals } from "@std/assert";
+   *
+   * const regex = new VimRegExp("\\(\\w\\)\\(\\w*\\)", "g");
+   * assertEquals("foo bar".replace(regex, "\\u\\1\\2[&]"), "Foo[foo] Bar[bar]");
+   * assertEquals("foo bar".replace(regex, (_, h, t) => `${t}${h}`), "oof arb");
+   * ```
+   */
+  override [Symbol.replace](string: string, replaceValue: string): string;
+  override [Symbol.replace](
+    string: string,
+    // deno-lint-ignore no-explicit-any
+    replacer: (substring: string, ...args: any[]) => string,
+  ): string;
+  override [Symbol.replace](
+    string: string,
+    // deno-lint-ignore no-explicit-any
+    replaceValue: string | ((substring: string, ...args: any[]) => string),
+  ): string {
+    /** Converts the match into Vim's submatches. */
+    const toSubmatches = (match: VimRegExpExecArray): string[] =>
+      Array.from({ length: 10 }, (_, i) => match[i] ?? "");
+    let replace: (match: VimRegExpExecArray) => string;
+    if (typeof replaceValue === "function") {
+      replace = (match) => {
+        const [text, ...submatches] = toSubmatches(match);
+        return replaceValue(text, ...submatches, match.index, string);
+      };
+    } else {
+      const { magic, session } = this.#options;
+      let replacement = replaceValue;
+      if (session) {
+        replacement = expandTilde(replacement, session.lastSubstituteString ?? "", { magic });
+        session.setLastSubstituteString(replacement);
+      }
+      replace = (match) => expandReplacement(replacement, toSubmatches(match), { magic });
+    }
+    let matches: Iterable<VimRegExpExecArray>;
+    if (this.global) {
+      this.lastIndex = 0;
+      matches = this.#execAll(string);
+    } else {
+      const match = this.exec(string);
+      matches = match ? [match] : [];
+    }
+    let result = "";
+    let last = 0;
+    for (const match of matches) {
+      result += string.slice(last, match.index) + replace(match);
+      last = match.index + match[0].length;
+    }
+    return result + string.slice(last);
+  }
+
+  /**
+   * Returns the match like `String.prototype.match()`.  With the "g" flag,
+   * the matches are found like {@linkcode VimRegExp[Symbol.replace]}.
+   *
+   * @param string - The string against which to match the regular expression.
+   * @returns The result array, or `null` if the match fails.
+   *
+   * @example
+   * ```ts
+   * import { VimRegExp } from "@milly/vimregexp/regexp";
+   * import { assertEquals } from "@std/assert";
+   *
+   * assertEquals("foofoo".match(new VimRegExp("o\\zs", "g")), ["", "", "", ""]);
+   * ```
+   */
+  override [Symbol.match](string: string): RegExpMatchArray | null {
+    if (!this.global) {
+      return super[Symbol.match](string);
+    }
+    this.lastIndex = 0;
+    const matches = Array.from(this.#execAll(string), ([match]) => match);
+    return matches.length > 0 ? matches as RegExpMatchArray : null;
+  }
+
+  /**
+   * Returns an iterator of the matches like `String.prototype.matchAll()`.
+   * With the "g" flag, the matches are found like
+   * {@linkcode VimRegExp[Symbol.replace]}.
+   *
+   * @param string - The string against which to match the regular expression.
+   * @returns An iterator of the result arrays.
+   *
+   * @example
+   * ```ts
+   * import { VimRegExp } from "@milly/vimregexp/regexp";
+   * import { assertEquals } from "@std/assert";
+   *
+   * const matches = "foofoo".matchAll(new VimRegExp("foo\\zs", "g"));
+   * assertEquals([...matches].map(({ index }) => index), [3, 6]);
+   * ```
+   */
+  override [Symbol.matchAll](string: string): RegExpStringIterator<RegExpExecArray> {
+    if (!this.global) {
+      return super[Symbol.matchAll](string);
+    }
+    const regex = new VimRegExp(this, { flags: this.#options.flags });
+    regex.lastIndex = this.lastIndex;
+    return regex.#execAll(string);
+  }
+
+  /**
+   * Executes a search in the buffer and returns the first match at or after
+   * `start`.  The buffer is searched like the lines are joined with "\n" and
+   * {@linkcode VimRegExpOptions.stringMatch} is `false`, so that "\n" and
+   * "\_s" match the line breaks.  Like Vim, the newline after the last line
+   * is matched too, then the match ends at column 1 of the line after the
+   * last line.  Line numbers of "\%23l" etc. are the ones in the buffer.
+   *
+   * Each line is searched with only the lines that the pattern can reach from
+   * it, so that the other lines are not fetched from a {@linkcode TextBuffer}.
+   * If the pattern can match any number of line breaks, like "\_s*", the
+   * lines up to the last line are fetched.
+   *
+   * @param buffer - An array of lines or a {@linkcode TextBuffer}.
+   * @param start - The position where the search starts.  The column is a
+   *   byte index, 1-based.
+   * @returns The match, or `null` if the match fails.
+   *
+   * @example
+   * ```ts
+   * import { VimRegExp } from "@milly/vimregexp/regexp";
+   * import { assertEquals } from "@std/assert";
+   *
+   * const regex = new VimRegExp("o\\nb\\(a\\)");
+   * assertEquals(regex.execBuffer(["foo", "bar"]), {
+   *   lnum: 1,
+   *   col: 3,
+   *   endLnum: 2,
+   *   endCol: 3,
+   *   submatches: ["o\nba", "a", "", "", "", "", "", "", "", ""],
+   *   matched: [true, true, false, false, false, false, false, false, false, false],
+   * });
+   * assertEquals(regex.execBuffer(["foo", "bar"], { lnum: 2, col: 1 }), null);
+   * ```
+   */
+  execBuffer(
+    buffer: VimBuffer,
+    start: VimPosition = { lnum: 1, col: 1 },
+  ): VimBufferMatch | null {
+    const result = this.#matchBuffer(buffer, start).next();
+    return result.done ? null : result.value;
+  }
+
+  /**
+   * Returns an iterator of all matches in the buffer at or after `start`.
+   * After an empty match, the search continues from the next character.
+   * See {@linkcode VimRegExp.execBuffer} for details.
+   *
+   * @param buffer - An array of lines or a {@linkcode TextBuffer}.
+   * @param start - The position where the search starts.
+   * @returns An iterator of the matches.
+   *
+   * @example
+   * ```ts
+   * import { VimRegExp } from "@milly/vimregexp/regexp";
+   * import { assertEquals } from "@std/assert";
+   *
+   * const regex = new VimRegExp("\\<\\k");
+   * const matches = [...regex.matchAllBuffer(["foo bar", "baz"])];
+   * assertEquals(matches.map(({ lnum, col }) => [lnum, col]), [[1, 1], [1, 5], [2, 1]]);
+   * ```
+   */
+  *matchAllBuffer(
+    buffer: VimBuffer,
+    start: VimPosition = { lnum: 1, col: 1 },
+  ): Generator<VimBufferMatch, void> {
+    yield* this.#matchBuffer(buffer, start);
+  }
+
+  /**
+   * Searches the matches in the buffer, line by line.
+   */
+  *#matchBuffer(buffer: VimBuffer, start: VimPosition): Generator<VimBufferMatch, void> {
+    const regex = this.#bufferSearcher ??= new VimRegExp(this, {
+      flags: this.#options.flags.replace(/[gy]/g, "") + "g",
+      stringMatch: false,
+      firstLine: 1,
+    });
+    const lines = regex.#bufferLines(buffer);
+    let lnum = Math.max(start.lnum, 1);
+    if (lnum > lines.count) {
+      return;
+    }
+    const firstLine = lines.getLine(lnum);
+    let index = lnum === start.lnum
+      ? convertOffset(
+        firstLine,
+        Math.min(Math.max(start.col - 1, 0), utf8Length(firstLine)),
+        "byte",
+        "utf16",
+      )
+      : 0;
+    while (lnum <= lines.count) {
+      const result = regex.#execLines(lines, lnum, index);
+      if (!result) {
+        return;
+      }
+      const { first, starts } = result;
+      const match = restoreExecArray(result.match, regex.#captures, false, false);
+      const text = match[0];
+      /** Returns the line number and the index in the line of the text index. */
+      const toLineIndex = (i: number) => {
+        const line = findLine(starts, i);
+        return { lnum: first + line, index: i - starts[line] };
+      };
+      /** Returns the byte column of the index in the line. */
+      const toCol = (lnum: number, index: number) =>
+        lnum > lines.count ? 1 : utf8Length(lines.getLine(lnum).slice(0, index)) + 1;
+      const matchStart = toLineIndex(match.index);
+      const matchEnd = toLineIndex(match.index + text.length);
+      yield {
+        lnum: matchStart.lnum,
+        col: toCol(matchStart.lnum, matchStart.index),
+        endLnum: matchEnd.lnum,
+        endCol: toCol(matchEnd.lnum, matchEnd.index),
+        submatches: Array.from({ length: 10 }, (_, i) => match[i] ?? ""),
+        matched: Array.from({ length: 10 }, (_, i) => match[i] !== undefined),
+      };
+      ({ lnum, index } = matchEnd);
+      if (text === "" && lnum <= lines.count) {
+        const line = lines.getLine(lnum);
+        if (index < line.length) {
+          index = advanceIndex(line, index);
+        } else {
+          // Continues after the line break.
+          ++lnum;
+          index = 0;
+        }
+      }
+    }
+  }
+
+  /**
+   * Yields the matches from `lastIndex` like `substitute()` of Vim with the
+   * "g" flag.  The "g" flag must be specified.
+   */
+  *#execAll(string: string): Generator<VimRegExpExecArray, undefined> {
+    let emptyIndex = -1;
+    for (;;) {
+      const match = this.exec(string);
+      if (!match) {
+        return;
+      }
+      if (match[0] === "") {
+        if (match.index === emptyIndex) {
+          // Like Vim, avoids getting stuck on the empty match.
+          if (match.index >= string.length) {
+            this.lastIndex = 0;
+            return;
+          }
+          this.lastIndex = advanceIndex(string, match.index);
+          continue;
+        }
+        emptyIndex = match.index;
+      }
+      yield match;
+    }
+  }
+
+  /**
+   * Executes a search from `lastIndex` of the string line by line, like
+   * {@linkcode VimRegExp.execBuffer}.  Position atoms are resolved for the
+   * few lines searched at once, instead of the whole string.
+   */
+  #execString(string: string): RegExpExecArray | null {
+    const index = this.global ? this.lastIndex : 0;
+    if (index > string.length) {
+      this.lastIndex = 0;
+      return null;
+    }
+    if (this.#stringLines?.input !== string) {
+      this.#stringLines = { input: string, ...stringLines(string) };
+    }
+    const lines = this.#stringLines;
+    const line = findLine(lines.starts, index);
+    const result = this.#execLines(lines, line + 1, index - lines.starts[line]);
+    if (!result) {
+      if (this.global) {
+        this.lastIndex = 0;
+      }
+      return null;
+    }
+    const { match, first } = result;
+    const offset = lines.starts[first - 1];
+    match.index += offset;
+    match.input = string;
+    match.indices?.forEach((pos) => {
+      if (pos) {
+        pos[0] += offset;
+        pos[1] += offset;
+      }
+    });
+    if (this.global) {
+      this.lastIndex = match.index + match[0].length;
+    }
+    return match;
+  }
+
+  /**
+   * Executes a search from `index` of the line `lnum`.  Each line is searched
+   * in the text of the lines that the pattern can reach from it, and only
+   * the matches that start in the line are taken.  Returns the raw match in
+   * the text, the line number of the text and the start indices of its lines.
+   */
+  #execLines(lines: SearchLines, lnum: number, index: number): LinesMatch | null {
+    const { ahead, behind } = this.#reach ??= lineReach(
+      parse(this.#vimSource, { magic: this.#options.magic }),
+      this.#options,
+    );
+    for (; lnum <= lines.count; ++lnum, index = 0) {
+      const last = Math.min(lnum + ahead, lines.count);
+      const newline = ahead > 0 && (last < lines.count || lines.finalNewline);
+      const { first, text, starts } = lines.join(Math.max(lnum - behind, 1), last, newline);
+      // A match that starts on the next line may need the lines after `last`.
+      const end = last < lines.count
+        ? starts[lnum - first] + lines.getLine(lnum).length
+        : text.length - (newline ? 1 : 0);
+      const regex = this.#resolveLines(lines, first, text, last === lines.count && newline);
+      regex.lastIndex = starts[lnum - first] + index;
+      for (;;) {
+        const match = regex.exec(text);
+        if (!match || match.index > end) {
+          break;
+        }
+        if (checkLookbehindLimits(match, this.#captures)) {
+          return { match, first, starts };
+        }
+        regex.lastIndex = advanceIndex(text, match.index);
+      }
+      if (last === lines.count) {
+        // All the rest of the lines are searched.
+        return null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Returns the searcher in which position atoms are resolved for the text
+   * of the lines from `first`.  The searchers are cached by the source, and
+   * the last one by the text.
+   */
+  #resolveLines(
+    lines: SearchLines,
+    first: number,
+    text: string,
+    finalNewline: boolean,
+  ): RegExp {
+    const flags = this.#flags.replace(/[gy]/g, "") + "g";
+    if (this.#positions.size === 0) {
+      return this.#searcher ??= new RegExp(this.source, flags);
+    }
+    const cached = this.#lineSearcher;
+    if (cached?.lines === lines && cached.first === first && cached.text === text) {
+      // The matches in a line are searched with the same text.
+      return cached.regex;
+    }
+    const { firstLine } = this.#options;
+    const source = resolvePositions(
+      this.#template,
+      this.#positions,
+      text,
+      { ...this.#options, firstLine: firstLine + first - 1 },
+      {
+        finalNewline,
+        getLine: (lnum) =>
+          lnum >= firstLine && lnum < firstLine + lines.count
+            ? lines.getLine(lnum - firstLine + 1)
+            : undefined,
+      },
+    );
+    let regex = this.#lineSearchers.get(source);
+    if (!regex) {
+      if (this.#lineSearchers.size >= MAX_LINE_SEARCHERS) {
+        this.#lineSearchers.clear();
+      }
+      regex = new RegExp(source, flags);
+      this.#lineSearchers.set(source, regex);
+    }
+    this.#lineSearcher = { lines, first, text, regex };
+    return regex;
+  }
+
+  /**
+   * Returns the lines of the buffer, the lines of a `TextBuffer` are fetched
+   * only once.  The text of many lines is cached and joined again only for
+   * the changed lines, the search may be restarted often after a change.
+   */
+  #bufferLines(buffer: VimBuffer): SearchLines {
+    const textBuffer = toTextBuffer(buffer);
+    const { lineCount } = textBuffer;
+    const fetched = new Map<number, string>();
+    const getLine = Array.isArray(buffer) ? textBuffer.getLine : (lnum: number) => {
+      let line = fetched.get(lnum);
+      if (line === undefined) {
+        line = textBuffer.getLine(lnum);
+        fetched.set(lnum, line);
+      }
+      return line;
+    };
+    const join = (first: number, last: number, newline: boolean): JoinedLines => {
+      const lines = (start: number, end: number) =>
+        Array.from({ length: end - start + 1 }, (_, i) => getLine(start + i));
+      if (last - first < MIN_CACHED_LINES) {
+        return joinLines(lines(first, last), first, newline);
+      }
+      // The text of the last lines that are not changed is reused, the lines
+      // may be moved by a change.
+      const cached = this.#bufferText;
+      const cachedLines = cached?.newline === newline ? cached.lines : [];
+      let same = 0;
+      while (
+        same <= last - first && same < cachedLines.length &&
+        cachedLines[cachedLines.length - 1 - same] === getLine(last - same)
+      ) {
+        ++same;
+      }
+      if (same === 0) {
+        const joined = lines(first, last);
+        const text = joinLines(joined, first, newline);
+        this.#bufferText = { ...text, newline, lines: joined };
+        return text;
+      }
+      const index = cachedLines.length - same;
+      if (index === 0 && same === last - first + 1) {
+        return { ...cached!, first };
+      }
+      const changed = lines(first, last - same);
+      const head = changed.length > 0 ? `${changed.join("\n")}\n` : "";
+      const offset = cached!.starts[index];
+      const shift = head.length - offset;
+      const text = {
+        first,
+        text: head + cached!.text.slice(offset),
+        starts: [
+          ...joinLines(changed, first, false).starts,
+          ...cached!.starts.slice(index).map((start) => start + shift),
+        ],
+      };
+      this.#bufferText = {
+        ...text,
+        newline,
+        lines: [...changed, ...cachedLines.slice(index)],
+      };
+      return text;
+    };
+    return { count: lineCount, finalNewline: true, getLine, join };
+  }
+
+  /**
+   * Executes a search with the position atoms resolved for the string.
+   */
+  #execResolved(string: string): RegExpExecArray | null {
+    const { regex } = this.#resolve(string);
+    regex.lastIndex = this.lastIndex;
+    const match = regex.exec(string);
+    if (this.global || this.sticky) {
+      this.lastIndex = regex.lastIndex;
+    }
+    return match;
+  }
+
+  /**
+   * Returns the compiled {@linkcode RegExp} in which position atoms like
+   * `\%23l` are resolved for the string.  The last one is cached.
+   */
+  #resolve(string: string): { regex: RegExp; searcher?: RegExp } {
+    if (this.#resolved?.input !== string) {
+      const source = resolvePositions(this.#template, this.#positions, string, this.#options);
+      this.#resolved = { input: string, regex: new RegExp(source, this.#flags) };
+    }
+    return this.#resolved;
+  }
+
+  /**
+   * Searches again from the specified index, when the match is rejected.
+   */
+  #execFrom(string: string, index: number): RegExpExecArray | null {
+    if (this.sticky) {
+      this.lastIndex = 0;
+      return null;
+    }
+    const flags = this.#flags.replace(/[gy]/g, "") + "g";
+    let searcher: RegExp;
+    if (this.#positions.size > 0) {
+      const resolved = this.#resolve(string);
+      searcher = resolved.searcher ??= new RegExp(resolved.regex.source, flags);
+    } else {
+      searcher = this.#searcher ??= new RegExp(this.source, flags);
+    }
+    searcher.lastIndex = index;
+    const match = searcher.exec(string);
+    if (this.global) {
+      this.lastIndex = searcher.lastIndex;
+    }
+    return match;
+  }
+
+  /**
+   * Returns a copy of the text of the Vim's regular expression pattern.
+   */
+  get vimSource(): string {
+    return this.#vimSource;
+  }
+
+  /**
+   * Returns a copy of the options of the VimRegExp.
+   */
+  get options(): VimRegExpOptions {
+    return copyPositionOptions({ ...this.#options });
+  }
+
+  /**
+   * Returns a copy of the warnings reported when compiling the pattern.
+   *
+   * @example
+   * ```ts
+   * import { VimRegExp } from "@milly/vimregexp/regexp";
+   * import { assertEquals } from "@std/assert";
+   *
+   * const regex = new VimRegExp("\\(foo\\)\\@3<=bar");
+   * assertEquals(regex.warnings.map(({ type, index }) => ({ type, index })), [
+   *   { type: "lookbehind-limit", index: 7 },
+   * ]);
+   * ```
+   */
+  get warnings(): VimRegExpWarning[] {
+    return this.#warnings.map((warning) => ({ ...warning }));
+  }
+}
+
+/**
+ * Replaces the position objects and the external submatches in the options
+ * with copies, and returns it.
+ */
+function copyPositionOptions<T extends VimRegExpOptions>(options: T): T {
+  const { cursor, marks, visual, externalSubmatches } = options;
+  if (cursor) {
+    options.cursor = { ...cursor };
+  }
+  if (marks) {
+    options.marks = Object.fromEntries(
+      Object.entries(marks).map(([name, pos]) => [name, { ...pos }]),
+    );
+  }
+  if (visual) {
+    options.visual = { ...visual, start: { ...visual.start }, end: { ...visual.end } };
+  }
+  if (externalSubmatches) {
+    options.externalSubmatches = [...externalSubmatches];
+  }
+  return options;
+}
+
+/**
+ * A capture group in the compiled {@linkcode RegExp}.
+ *
+ * - `"group"`: Sub-expression `\(\)` of the Vim's pattern.
+ * - `"zgroup"`: External sub-expression `\z(\)` of the Vim's pattern.
+ * - `"zs"`: Empty group that marks the position of `\zs`.
+ * - `"ze"`: Empty group that marks the position of `\ze`.
+ * - `"atomic"`: Group that is referred to emulate the atomic group `\@>`.
+ * - `"prefix"`: Group that marks the position of the limited lookbehind.
+ * - `"lookbehind"`: The nearest text matched by the limited lookbehind, that
+ *   is checked whether it is within `limit` bytes.
+ * - `"position"`: Empty group that is replaced with the assertion of the
+ *   position atom like `\%23l`, or the end of the file `\%$`.
+ */
+type Capture =
+  | { type: "group" | "zgroup" | "zs" | "ze" | "atomic" | "prefix" }
+  | { type: "lookbehind"; limit: number; negative: boolean }
+  | { type: "position"; atom: PositionTerm };
+
+/**
+ * A position atom, or the end of the file `\%$` that depends on whether the
+ * searched text ends with the newline after the last line.
+ */
+type PositionTerm = PositionAtom | { type: "eof" };
+
+/** Matches a result item that opens an internal capture group. */
+const reInternalCapture = /^\(\?<(?<name>[a-z]+[0-9]+)>/;
+/** Matches a result item of a back reference '\1'. */
+const reBackReference = /^\(\?:\\(?<num>[1-9])\)$/;
+
+/**
+ * Removes internal capture groups from the result of {@linkcode RegExp.exec},
+ * and applies the match boundaries of `\zs` and `\ze`.  If `externalCapture`
+ * is `true`, the texts of `\z(\)` are added as `externalSubmatches`.
+ */
+function restoreExecArray(
+  match: RegExpExecArray,
+  captures: readonly Capture[],
+  hasIndices: boolean,
+  externalCapture: boolean,
+): VimRegExpExecArray {
+  const { input, indices } = match;
+  let start = match.index;
+  let end = start + match[0].length;
+  let zs: number | undefined;
+  let ze: number | undefined;
+  const groups: (string | undefined)[] = [];
+  const groupIndices: ([number, number] | undefined)[] = [];
+  const zgroups: string[] = [];
+  captures.forEach(({ type }, i) => {
+    const pos = indices?.[i + 1];
+    switch (type) {
+      case "group":
+        groups.push(match[i + 1]);
+        groupIndices.push(pos);
+        break;
+      case "zgroup":
+        zgroups.push(match[i + 1] ?? "");
+        break;
+      case "zs":
+        // The last one encountered is used.
+        if (pos && (zs === undefined || zs <= pos[0])) {
+          zs = pos[0];
+        }
+        break;
+      case "ze":
+        if (pos && (ze === undefined || ze <= pos[0])) {
+          ze = pos[0];
+        }
+        break;
+    }
+  });
+  start = zs ?? start;
+  end = Math.max(start, ze ?? end);
+  const result: VimRegExpExecArray = Object.assign(
+    [input.slice(start, end), ...groups] as [string, ...string[]],
+    { index: start, input, groups: undefined },
+  );
+  if (externalCapture) {
+    result.externalSubmatches = [result[0], ...zgroups, ...Array(9 - zgroups.length).fill("")];
+  }
+  if (hasIndices) {
+    return Object.assign(result, {
+      indices: Object.assign(
+        [[start, end], ...groupIndices] as [[number, number], ...[number, number][]],
+        { groups: undefined },
+      ),
+    });
+  }
+  return result;
+}
+
+/**
+ * Returns `true` if all limited lookbehinds in the result of
+ * {@linkcode RegExp.exec} are within the limit bytes.
+ *
+ * Like Vim, a position is tried if the position one character after it is
+ * within the limit.  So the first character may exceed the limit.
+ */
+function checkLookbehindLimits(
+  match: RegExpExecArray,
+  captures: readonly Capture[],
+): boolean {
+  return captures.every((capture, i) => {
+    if (capture.type !== "lookbehind" || match[i + 1] === undefined) {
+      return true;
+    }
+    const [, ...rest] = match[i + 1];
+    const withinLimit = utf8Length(rest.join("")) < capture.limit;
+    return withinLimit !== capture.negative;
+  });
+}
+
+/** The maximum number of the searchers cached for the lines. */
+const MAX_LINE_SEARCHERS = 100;
+/** The minimum number of the lines whose joined text is cached. */
+const MIN_CACHED_LINES = 100;
+
+/**
+ * The numbers of the line breaks that a pattern can reach, after and before
+ * the start of the match.  `Infinity` if not bounded.
+ */
+type LineReach = { ahead: number; behind: number };
+
+/**
+ * The lines searched by `VimRegExp.#execLines`, 1-based.
+ */
+type SearchLines = {
+  count: number;
+  /** `true` if the last line is followed by a newline, like a buffer. */
+  finalNewline: boolean;
+  getLine(lnum: number): string;
+  /**
+   * Returns the text of the lines from `first` to `last`.  The text ends
+   * with "\n" if `newline` is `true`.
+   */
+  join(first: number, last: number, newline: boolean): JoinedLines;
 };
 
 /**
- * Represents a Vim's regular expression.
+ * The text of the lines from `first`, and the start indices of the lines in
+ * the text.  If the text ends with "\n", the end of the text is included.
+ */
+type JoinedLines = { first: number; text: string; starts: readonly number[] };
+
+/** A raw match in the text of the lines from `first`. */
+type LinesMatch = { match: RegExpExecArray; first: number; starts: readonly number[] };
+
+/** Joins the lines from `first` with "\n". */
+function joinLines(lines: readonly string[], first: number, newline: boolean): JoinedLines {
+  const starts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    starts.push(offset);
+    offset += line.length + 1;
+  }
+  if (newline) {
+    starts.push(offset);
+  }
+  return { first, text: lines.join("\n") + (newline ? "\n" : ""), starts };
+}
+
+/** Returns the lines of the string split at "\n". */
+function stringLines(string: string): SearchLines & { starts: readonly number[] } {
+  const starts = [0];
+  for (let i = string.indexOf("\n"); i >= 0; i = string.indexOf("\n", i + 1)) {
+    starts.push(i + 1);
+  }
+  const lineEnd = (lnum: number) => lnum < starts.length ? starts[lnum] - 1 : string.length;
+  return {
+    count: starts.length,
+    finalNewline: false,
+    starts,
+    getLine: (lnum) => string.slice(starts[lnum - 1], lineEnd(lnum)),
+    join: (first, last, newline) => {
+      const offset = starts[first - 1];
+      return {
+        first,
+        text: string.slice(offset, newline ? starts[last] : lineEnd(last)),
+        starts: starts.slice(first - 1, newline ? last + 1 : last).map((start) => start - offset),
+      };
+    },
+  };
+}
+
+/** Returns the index of the last start that is at or before `index`. */
+function findLine(starts: readonly number[], index: number): number {
+  let [lo, hi] = [0, starts.length - 1];
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    [lo, hi] = starts[mid] <= index ? [mid, hi] : [lo, mid - 1];
+  }
+  return lo;
+}
+
+/**
+ * Returns the numbers of the line breaks that the pattern can reach.  Line
+ * breaks in lookbehinds are also counted as the ones behind.  "\%^" can
+ * reach the first line and "\%$" can reach the last line.
+ */
+function lineReach(node: VimPatternNode, options: Required<VimRegExpOptions>): LineReach {
+  let behind = 0;
+  let groups = 0;
+  let backReferences = false;
+  const newlines = (text: string | null | undefined) => text?.split("\n").length ?? 1;
+  const max = (nodes: readonly VimPatternNode[]) => Math.max(0, ...nodes.map(count));
+  const sum = (nodes: readonly VimPatternNode[]) => nodes.reduce((n, node) => n + count(node), 0);
+  /** Returns the maximum number of the line breaks in the node. */
+  const count = (node: VimPatternNode): number => {
+    switch (node.type) {
+      case "pattern":
+        return max(node.branches);
+      case "group": {
+        const n = max(node.branches);
+        if (node.kind === "capture") {
+          groups = Math.max(groups, n);
+        }
+        return n;
+      }
+      case "branch":
+        return max(node.concats);
+      case "concat":
+      case "optionalSequence":
+        return sum(node.items);
+      case "multi": {
+        const n = count(node.atom);
+        const { multi } = node;
+        if (multi.type === "@" && multi.assertion[0] === "<") {
+          behind = Math.max(behind, n);
+        }
+        // Avoids `0 * Infinity`.
+        return n && n * maxRepeat(multi);
+      }
+      case "char":
+        return node.codePoint === 0x0a ? 1 : 0;
+      case "charClass":
+        return node.newline ? 1 : 0;
+      case "collection":
+        return node.newline ? 1 : max(node.items);
+      case "anchor":
+        if (node.anchor === "bof") {
+          behind = Infinity;
+        }
+        return node.anchor === "eof" ? Infinity : 0;
+      case "backReference":
+        if (node.external) {
+          return newlines(options.externalSubmatches?.[node.group]) - 1;
+        }
+        backReferences = true;
+        return 0;
+      case "lastSubstitute":
+        return newlines(options.session?.lastSubstituteString) - 1;
+    }
+    return 0;
+  };
+  const ahead = count(node);
+  if (backReferences && groups > 0) {
+    // A back reference may match the line breaks of its group.
+    return { ahead: Infinity, behind: Infinity };
+  }
+  return { ahead, behind };
+}
+
+/** Returns the maximum number of the repetitions of the multi. */
+function maxRepeat(multi: Multi): number {
+  switch (multi.type) {
+    case "*":
+    case "+":
+      return Infinity;
+    case "{": {
+      const { min, max, comma } = multi;
+      return max ?? (comma || min === undefined ? Infinity : min);
+    }
+    default:
+      return 1;
+  }
+}
+
+/** Returns the index of the next character, like `AdvanceStringIndex`. */
+function advanceIndex(s: string, index: number): number {
+  return index + (s.codePointAt(index)! > 0xffff ? 2 : 1);
+}
+
+/**
+ * Replaces the empty groups of position atoms in the compiled source with
+ * the assertions for the searched text.
+ */
+function resolvePositions(
+  source: string,
+  positions: ReadonlyMap<string, PositionTerm>,
+  text: string,
+  options: Required<VimRegExpOptions>,
+  context: ResolveContext = {},
+): string {
+  for (const [name, atom] of positions) {
+    source = source.replace(
+      `(?<${name}>)`,
+      () => `(?<${name}>${positionAssertion(atom, text, options, context)})`,
+    );
+  }
+  return source;
+}
+
+/**
+ * The context of the searched text to resolve the position atoms.
  *
- * @example
- * ```ts
- * import { VimRegExp } from "@milly/vimregexp/regexp";
- * import { assert, assertFalse } from "@std/assert";
+ * - `finalNewline`: `true` if the text ends with the newline after the last
+ *   line of the buffer.
+ * - `getLine`: Returns the line of the line number, which may be out of the
+ *   text.  The default returns the lines in the text.
+ */
+type ResolveContext = {
+  finalNewline?: boolean;
+  getLine?: (lnum: number) => string | undefined;
+};
+
+/**
+ * Returns the source of the assertion of the position atom.
  *
- * const regex = new VimRegExp("\\k\\+", { flags: "i" });
- * assert(regex.test("Foo"));
- * assertFalse(regex.test("!!!"));
- * ```
+ * Columns are measured by the line prefix before the current position.  The
+ * line prefixes in `text` that contain other than simple ASCII characters are
+ * embedded as literals, or as their lengths if `text` is a single line, so the
+ * assertion is exact for `text`.  Line numbers of a single line are compared
+ * when resolved, so that many lines share the same assertion.
  */
-export class VimRegExp extends RegExp {
-  #options: Required<VimRegExpOptions>;
-  #vimSource: string;
+function positionAssertion(
+  atom: PositionTerm,
+  text: string,
+  options: Required<VimRegExpOptions>,
+  context: ResolveContext,
+): string {
+  const { stringMatch, firstLine, cursor, marks, visual, tabstop } = options;
+  const lines = stringMatch ? [text] : text.split("\n");
+  const { finalNewline = false, getLine = (lnum: number) => lines[lnum - firstLine] } = context;
+  const lineStart = stringMatch ? "^" : "(?:^|\\n)";
+  const lineChar = stringMatch ? "[^]" : "[^\\n]";
 
-  /**
-   * Creates a new instance of the VimRegExp class.
-   *
-   * @param pattern - Vim's regular expression pattern, or an object of `VimRegExp`.
-   * @param options - Optional parameters or {@linkcode VimRegExpOptions.flags}.
-   *
-   * @throws {VimRegExpSyntaxError}
-   * Thrown if `pattern` is invalid format.
-   * Thrown if `options` contains invalid value.
-   */
-  // @ts-ignore: TS2377: 'super' call in try-catch
-  // deno-lint-ignore constructor-super
-  constructor(
-    pattern: string | VimRegExp,
-    options: VimRegExpOptions | string = {},
-  ) {
-    const [srcObj, vimSource] = pattern instanceof VimRegExp
-      ? [pattern, pattern.#vimSource]
-      : [undefined, pattern];
-    const mergedOptions = {
-      ...DEFAULT_CHAR_PATTERNS,
-      magic: true,
-      ignorecase: false,
-      smartcase: false,
-      stringMatch: false,
-      ...(srcObj && srcObj.#options),
-      flags: "",
-      ...(typeof options === "string" ? { flags: options } : options),
-    };
-    try {
-      const { source, flags } = parseVimPattern(vimSource, mergedOptions);
-      super(source, flags);
-    } catch (cause) {
-      // Re-throw or wrap known errors.
-      if (cause instanceof VimRegExpSyntaxError) {
-        throw cause;
+  /** Returns the assertion that compares the line number with `lnum`. */
+  const line = (cmp: PositionCmp, lnum: number): string => {
+    if (stringMatch) {
+      // Line numbers never match in a string, like Vim.
+      return "(?!)";
+    }
+    if (lines.length === 1) {
+      // A single line is always at `firstLine`.
+      const n = lnum - firstLine;
+      return (cmp === "" ? n === 0 : cmp === "<" ? n > 0 : n < 0) ? "" : "(?!)";
+    }
+    // Matches before the position, if at least `n` lines are before it.
+    const atLeast = (n: number) => `\\n${n > 1 ? `(?:[^\\n]*\\n){${n - 1}}` : ""}[^\\n]*`;
+    const n = lnum - firstLine;
+    switch (cmp) {
+      case "":
+        return n < 0
+          ? "(?!)"
+          : n === 0
+          ? `(?<!${atLeast(1)})`
+          : `(?<=${atLeast(n)})(?<!${atLeast(n + 1)})`;
+      case "<":
+        return n <= 0 ? "(?!)" : `(?<!${atLeast(n)})`;
+      case ">":
+        return n < 0 ? "" : `(?<=${atLeast(n + 1)})`;
+    }
+  };
+
+  /** Returns the assertion that compares the byte or virtual column with `col`. */
+  const column = (unit: "c" | "v", cmp: PositionCmp, col: number): string => {
+    const [simple, advance] = measurer(unit, stringMatch, tabstop);
+    const reSimple = new RegExp(`^${simple}*$`, "v");
+    const prefixes = (n: number, crossing: boolean) =>
+      [
+        `${simple}{${n}}`,
+        ...collectLinePrefixes(lines, n, crossing, advance, reSimple).map((prefix) =>
+          // The prefix of a single line is matched by the length, so that the
+          // assertion is the same for many lines.
+          lines.length === 1
+            ? `${lineChar}{${[...prefix].length}}`
+            : prefix.replace(/[\\^$.*+?()[\]{}|/]/g, "\\$&")
+        ),
+      ].join("|");
+    // Matches before the position, if at least `n` bytes or cells are before it.
+    const atLeast = (n: number) => `${lineStart}(?:${prefixes(n, true)})${lineChar}*`;
+    const n = col - 1;
+    switch (cmp) {
+      case "":
+        return n < 0
+          ? "(?!)"
+          : n === 0
+          ? `(?<=${lineStart})`
+          : `(?<=${lineStart}(?:${prefixes(n, false)}))`;
+      case "<":
+        return n <= 0 ? "(?!)" : n === Infinity ? "" : `(?<!${atLeast(n)})`;
+      case ">":
+        return n === Infinity ? "(?!)" : n < 0 ? "" : `(?<=${atLeast(n + 1)})`;
+    }
+  };
+
+  /** Returns the assertion that compares the position with `pos`. */
+  const position = (cmp: PositionCmp, pos: VimPosition): string => {
+    if (stringMatch) {
+      // A string is at line 0, like Vim.
+      return cmp === "<" && pos.lnum > 0 ? "" : "(?!)";
+    }
+    const col = pos.col === Infinity ? utf8Length(getLine(pos.lnum) ?? "") + 1 : pos.col;
+    switch (cmp) {
+      case "":
+        return line("", pos.lnum) + column("c", "", col);
+      case "<":
+      case ">":
+        return `(?:${line(cmp, pos.lnum)}|${line("", pos.lnum)}${column("c", cmp, col)})`;
+    }
+  };
+
+  /** Returns the start and end virtual columns (1-based) of the character at `pos`. */
+  const vcols = (pos: VimPosition): [start: number, end: number] => {
+    const [, advance] = measurer("v", stringMatch, tabstop);
+    const lineText = getLine(pos.lnum);
+    if (lineText === undefined) {
+      return [pos.col, pos.col];
+    }
+    let vcol = 0;
+    let bytes = 0;
+    for (const c of lineText) {
+      const next = advance(vcol, c);
+      if (bytes >= pos.col - 1) {
+        return [vcol + 1, Math.max(vcol + 1, next)];
       }
-      if (cause instanceof SyntaxError) {
-        throw new VimRegExpSyntaxError(cause.message, { source: vimSource, cause });
+      vcol = next;
+      bytes += utf8Length(c);
+    }
+    return [vcol + 1, vcol + 1];
+  };
+
+  switch (atom.type) {
+    case "eof":
+      return finalNewline ? "(?=\\n$)" : "$";
+    case "l":
+      return line(atom.cmp, atom.value === "." ? cursor.lnum : atom.value);
+    case "c":
+      return column("c", atom.cmp, atom.value === "." ? cursor.col : atom.value);
+    case "v":
+      return column("v", atom.cmp, atom.value === "." ? vcols(cursor)[0] : atom.value);
+    case "#":
+      return stringMatch ? "(?!)" : position("", cursor);
+    case "'": {
+      const pos = Object.hasOwn(marks, atom.mark) ? marks[atom.mark] : undefined;
+      return pos ? position(atom.cmp, pos) : "(?!)";
+    }
+    case "V": {
+      if (stringMatch || !visual) {
+        return "(?!)";
+      }
+      const [top, bot] = comparePosition(visual.start, visual.end) <= 0
+        ? [visual.start, visual.end]
+        : [visual.end, visual.start];
+      const lineRange = line(">", top.lnum - 1) + line("<", bot.lnum + 1);
+      switch (visual.mode) {
+        case "v":
+          return `(?:${position("", top)}|${position(">", top)})` +
+            `(?:${position("", bot)}|${position("<", bot)})`;
+        case "V":
+          return lineRange;
+        case "\x16": {
+          const [start1, end1] = vcols(top);
+          const [start2, end2] = vcols(bot);
+          const end = top.col === Infinity || bot.col === Infinity
+            ? Infinity
+            : Math.max(end1, end2);
+          return lineRange + column("v", ">", Math.min(start1, start2) - 1) +
+            (end === Infinity ? "" : column("v", "<", end + 1));
+        }
       }
-      // Re-throw unexpected errors.
-      throw cause;
     }
-    this.#options = mergedOptions;
-    this.#vimSource = vimSource;
   }
+}
 
-  /**
-   * Returns a copy of the text of the Vim's regular expression pattern.
-   */
-  get vimSource(): string {
-    return this.#vimSource;
-  }
+/** Compares two positions, returns negative if `a` is before `b`. */
+function comparePosition(a: VimPosition, b: VimPosition): number {
+  return a.lnum !== b.lnum ? a.lnum - b.lnum : a.col === b.col ? 0 : a.col < b.col ? -1 : 1;
+}
 
-  /**
-   * Returns a copy of the options of the VimRegExp.
-   */
-  get options(): VimRegExpOptions {
-    return { ...this.#options };
+/**
+ * Returns the class of the characters measured 1 and the function that
+ * advances the measure by the character, for byte "c" or virtual "v" columns.
+ */
+function measurer(
+  unit: "c" | "v",
+  stringMatch: boolean,
+  tabstop: number,
+): [simple: string, advance: (measure: number, char: string) => number] {
+  return unit === "c"
+    ? [stringMatch ? "[\\0-\\x7f]" : "[\\0-\\t\\v-\\x7f]", (m, c) => m + utf8Length(c)]
+    : ["[ -~]", (m, c) => m + charWidth(c, m, tabstop)];
+}
+
+/**
+ * Returns the distinct line prefixes measured exactly `n`, or the shortest
+ * ones measured at least `n` if `crossing` is `true`.  The prefixes that
+ * match `reSimple` are excluded.
+ */
+function collectLinePrefixes(
+  lines: readonly string[],
+  n: number,
+  crossing: boolean,
+  advance: (measure: number, char: string) => number,
+  reSimple: RegExp,
+): string[] {
+  const prefixes = new Set<string>();
+  for (const line of lines) {
+    let measure = 0;
+    let prefix = "";
+    for (const c of line) {
+      if (measure >= n) {
+        break;
+      }
+      measure = advance(measure, c);
+      prefix += c;
+    }
+    if ((crossing ? measure >= n : measure === n) && !reSimple.test(prefix)) {
+      prefixes.add(prefix);
+    }
   }
+  return [...prefixes];
 }
 
-type EscapeChar = keyof typeof ESCAPE_CHARS;
+/** Matches a combining character. */
+const reCombiningChar = /^[\p{Mn}\p{Me}]$/u;
+/** Matches a result pattern item that consumes a single character. */
+const reSingleCharItem =
+  /^(?:[^()|*+?{}^$\\]|\\[^1-9kpPdDwWsSbBux]|\\x[0-9a-f]{2}|\\u[0-9a-f]{4}|\\u\{[0-9a-f]+\}|\[.*\])$/isu;
 
-const ESCAPE_CHARS = {
-  e: "\\x1b",
-  t: "\\t",
-  r: "\\r",
-  b: "\\x08",
-  n: "\\n",
-} as const;
+/** Precomposed characters for each base character. */
+let precomposedChars: Map<string, string> | undefined;
 
+/** Returns the precomposed characters made of `base` and combining characters. */
+function getPrecomposedChars(base: string): string {
+  if (!precomposedChars) {
+    precomposedChars = new Map();
+    for (let code = 0xc0; code <= 0xffff; ++code) {
+      const c = String.fromCharCode(code);
+      const [b] = c.normalize("NFD").match(/^\P{M}(?=\p{M}+$)/u) ?? [];
+      if (b) {
+        precomposedChars.set(b, (precomposedChars.get(b) ?? "") + c);
+      }
+    }
+  }
+  return precomposedChars.get(base) ?? "";
+}
 type CharClassKey = keyof typeof SINGLE_CHAR_CLASSES;
 
 const [SINGLE_CHAR_NORMAL, SINGLE_CHAR_WITH_LF] = [0, 1];
@@ -258,10 +1708,9 @@ const SINGLE_CHAR_CLASSES = {
   U: ["[^A-Z\\n]", "[^A-Z]"],
 } as const satisfies Record<string, readonly [normal: string, withLF: string]>;
 
-type CharClassName = keyof typeof NAMED_CHAR_CLASSES;
 type NullCharClassName = {
-  [K in CharClassName]: typeof NAMED_CHAR_CLASSES[K] extends null ? K : never;
-}[CharClassName];
+  [K in NamedClassName]: typeof NAMED_CHAR_CLASSES[K] extends null ? K : never;
+}[NamedClassName];
 
 const NAMED_CHAR_CLASSES = {
   alnum: "[0-9A-Za-z]",
@@ -283,61 +1732,116 @@ const NAMED_CHAR_CLASSES = {
   tab: "\\t",
   upper: "\\p{Lu}", // not exactly same as Vim
   xdigit: "[0-9A-Fa-f]",
-} as const;
+} as const satisfies Record<NamedClassName, string | null>;
+
+/** Options of the character classes like '\k', keyed by the lowercase name. */
+const OPTION_CHAR_CLASSES = {
+  i: "isident",
+  k: "iskeyword",
+  f: "isfname",
+  p: "isprint",
+} as const satisfies Record<string, PatternType>;
+
+/**
+ * Characters of the equivalence classes '[[=a=]]'.
+ * Same as `reg_equi_class()` in Vim's regexp.c.
+ */
+const EQUIVALENCE_CLASSES = [
+  "A\u00c0\u00c1\u00c2\u00c3\u00c4\u00c5\u0100\u0102\u0104\u01cd\u01de\u01e0\u01fa\u0200" +
+  "\u0202\u0226\u023a\u1e00\u1ea0\u1ea2\u1ea4\u1ea6\u1ea8\u1eaa\u1eac\u1eae\u1eb0\u1eb2" +
+  "\u1eb4\u1eb6",
+  "B\u0181\u0243\u1e02\u1e04\u1e06",
+  "C\u00c7\u0106\u0108\u010a\u010c\u0187\u023b\u1e08\ua792",
+  "D\u010e\u0110\u018a\u1e0a\u1e0c\u1e0e\u1e10\u1e12",
+  "E\u00c8\u00c9\u00ca\u00cb\u0112\u0114\u0116\u0118\u011a\u0204\u0206\u0228\u0246\u1e14" +
+  "\u1e16\u1e18\u1e1a\u1e1c\u1eb8\u1eba\u1ebc\u1ebe\u1ec0\u1ec2\u1ec4\u1ec6",
+  "F\u0191\u1e1e\ua798",
+  "G\u011c\u011e\u0120\u0122\u0193\u01e4\u01e6\u01f4\u1e20\ua7a0",
+  "H\u0124\u0126\u021e\u1e22\u1e24\u1e26\u1e28\u1e2a\u2c67",
+  "I\u00cc\u00cd\u00ce\u00cf\u0128\u012a\u012c\u012e\u0130\u0197\u01cf\u0208\u020a\u1e2c" +
+  "\u1e2e\u1ec8\u1eca",
+  "J\u0134\u0248",
+  "K\u0136\u0198\u01e8\u1e30\u1e32\u1e34\u2c69\ua740",
+  "L\u0139\u013b\u013d\u013f\u0141\u023d\u1e36\u1e38\u1e3a\u1e3c\u2c60",
+  "M\u1e3e\u1e40\u1e42",
+  "N\u00d1\u0143\u0145\u0147\u01f8\u1e44\u1e46\u1e48\u1e4a\ua7a4",
+  "O\u00d2\u00d3\u00d4\u00d5\u00d6\u00d8\u014c\u014e\u0150\u019f\u01a0\u01d1\u01ea\u01ec" +
+  "\u01fe\u020c\u020e\u022a\u022c\u022e\u0230\u1e4c\u1e4e\u1e50\u1e52\u1ecc\u1ece\u1ed0" +
+  "\u1ed2\u1ed4\u1ed6\u1ed8\u1eda\u1edc\u1ede\u1ee0\u1ee2",
+  "P\u01a4\u1e54\u1e56\u2c63",
+  "Q\u024a",
+  "R\u0154\u0156\u0158\u0210\u0212\u024c\u1e58\u1e5a\u1e5c\u1e5e\u2c64\ua7a6",
+  "S\u015a\u015c\u015e\u0160\u0218\u1e60\u1e62\u1e64\u1e66\u1e68\u2c7e\ua7a8",
+  "T\u0162\u0164\u0166\u01ac\u01ae\u021a\u023e\u1e6a\u1e6c\u1e6e\u1e70",
+  "U\u00d9\u00da\u00db\u00dc\u0168\u016a\u016c\u016e\u0170\u0172\u01af\u01d3\u01d5\u01d7" +
+  "\u01d9\u01db\u0214\u0216\u0244\u1e72\u1e74\u1e76\u1e78\u1e7a\u1ee4\u1ee6\u1ee8\u1eea" +
+  "\u1eec\u1eee\u1ef0",
+  "V\u01b2\u1e7c\u1e7e",
+  "W\u0174\u1e80\u1e82\u1e84\u1e86\u1e88",
+  "X\u1e8a\u1e8c",
+  "Y\u00dd\u0176\u0178\u01b3\u0232\u024e\u1e8e\u1ef2\u1ef4\u1ef6\u1ef8",
+  "Z\u0179\u017b\u017d\u01b5\u1e90\u1e92\u1e94\u2c6b",
+  "a\u00e0\u00e1\u00e2\u00e3\u00e4\u00e5\u0101\u0103\u0105\u01ce\u01df\u01e1\u01fb\u0201" +
+  "\u0203\u0227\u1d8f\u1e01\u1e9a\u1ea1\u1ea3\u1ea5\u1ea7\u1ea9\u1eab\u1ead\u1eaf\u1eb1" +
+  "\u1eb3\u1eb5\u1eb7\u2c65",
+  "b\u0180\u0253\u1d6c\u1d80\u1e03\u1e05\u1e07",
+  "c\u00e7\u0107\u0109\u010b\u010d\u0188\u023c\u1e09\ua793\ua794",
+  "d\u010f\u0111\u0257\u1d6d\u1d81\u1d91\u1e0b\u1e0d\u1e0f\u1e11\u1e13",
+  "e\u00e8\u00e9\u00ea\u00eb\u0113\u0115\u0117\u0119\u011b\u0205\u0207\u0229\u0247\u1d92" +
+  "\u1e15\u1e17\u1e19\u1e1b\u1e1d\u1eb9\u1ebb\u1ebd\u1ebf\u1ec1\u1ec3\u1ec5\u1ec7",
+  "f\u0192\u1d6e\u1d82\u1e1f\ua799",
+  "g\u011d\u011f\u0121\u0123\u01e5\u01e7\u01f5\u0260\u1d83\u1e21\ua7a1",
+  "h\u0125\u0127\u021f\u1e23\u1e25\u1e27\u1e29\u1e2b\u1e96\u2c68\ua795",
+  "i\u00ec\u00ed\u00ee\u00ef\u0129\u012b\u012d\u012f\u01d0\u0209\u020b\u0268\u1d96\u1e2d" +
+  "\u1e2f\u1ec9\u1ecb",
+  "j\u0135\u01f0\u0249",
+  "k\u0137\u0199\u01e9\u1d84\u1e31\u1e33\u1e35\u2c6a\ua741",
+  "l\u013a\u013c\u013e\u0140\u0142\u019a\u1e37\u1e39\u1e3b\u1e3d\u2c61",
+  "m\u1d6f\u1e3f\u1e41\u1e43",
+  "n\u00f1\u0144\u0146\u0148\u0149\u01f9\u1d70\u1d87\u1e45\u1e47\u1e49\u1e4b\ua7a5",
+  "o\u00f2\u00f3\u00f4\u00f5\u00f6\u00f8\u014d\u014f\u0151\u01a1\u01d2\u01eb\u01ed\u01ff" +
+  "\u020d\u020f\u022b\u022d\u022f\u0231\u0275\u1e4d\u1e4f\u1e51\u1e53\u1ecd\u1ecf\u1ed1" +
+  "\u1ed3\u1ed5\u1ed7\u1ed9\u1edb\u1edd\u1edf\u1ee1\u1ee3",
+  "p\u01a5\u1d71\u1d7d\u1d88\u1e55\u1e57",
+  "q\u024b\u02a0",
+  "r\u0155\u0157\u0159\u0211\u0213\u024d\u027d\u1d72\u1d73\u1d89\u1e59\u1e5b\u1e5d\u1e5f\ua7a7",
+  "s\u015b\u015d\u015f\u0161\u0219\u023f\u1d74\u1d8a\u1e61\u1e63\u1e65\u1e67\u1e69\ua7a9",
+  "t\u0163\u0165\u0167\u01ab\u01ad\u021b\u0288\u1d75\u1e6b\u1e6d\u1e6f\u1e71\u1e97\u2c66",
+  "u\u00f9\u00fa\u00fb\u00fc\u0169\u016b\u016d\u016f\u0171\u0173\u01b0\u01d4\u01d6\u01d8" +
+  "\u01da\u01dc\u0215\u0217\u0289\u1d7e\u1d99\u1e73\u1e75\u1e77\u1e79\u1e7b\u1ee5\u1ee7" +
+  "\u1ee9\u1eeb\u1eed\u1eef\u1ef1",
+  "v\u028b\u1d8c\u1e7d\u1e7f",
+  "w\u0175\u1e81\u1e83\u1e85\u1e87\u1e89\u1e98",
+  "x\u1e8b\u1e8d",
+  "y\u00fd\u00ff\u0177\u01b4\u0233\u024f\u1e8f\u1e99\u1ef3\u1ef5\u1ef7\u1ef9",
+  "z\u017a\u017c\u017e\u01b6\u1d76\u1d8e\u1e91\u1e93\u1e95\u2c6c",
+] as const;
+
+/** Maps each character to the characters of its equivalence class. */
+const EQUIVALENCE_CLASS_MAP: ReadonlyMap<string, string> = new Map(
+  EQUIVALENCE_CLASSES.flatMap((chars) => [...chars].map((c) => [c, chars] as const)),
+);
 
+/** Matches characters that need to be escaped outside collection. */
+const reSyntaxChars = /[$()*+./?[\\\]^{|}]/g;
 /** Matches characters that need to be escaped in collection when using `v` flag. */
 const reUnicodeSetSpecialChars = /[-!#$%&()*+,./:;<=>?@\[\]^`{|}~]/u;
-/** Matches the numeric part of '\d123' */
-const reDecimalChar = /^[0-9]+/u;
-/** Matches the numeric part of '\o40' */
-const reOctalChar = /^(?:[0-3][0-7]{0,2}|[4-7][0-7]?)/u;
-/** Matches the numeric part of '\x20' */
-const reHexadecimalChar = /^[0-9a-fA-F]{1,2}/u;
-/** Matches the numeric part of '\u20AC' */
-const reUnicodeChar = /^[0-9a-fA-F]{1,4}/u;
-/** Matches the numeric part of '\U1234abcd' */
-const reLongUnicodeChar = /^[0-9a-fA-F]{1,8}/u;
-/** Matches a character class '[:alnum:]' */
-const reNamedCharClass = new RegExp(`\\[:(?:${Object.keys(NAMED_CHAR_CLASSES).join("|")}):\\]`);
-/** Matches a equivalence class '[=a=]' */
-const reEquivalenceClass = /\[=.=\]/u;
-/** Matches a collation element '[.a.]' */
-const reCollationElement = /\[\..\.\]/u;
-/** Matches a escaped character in collection. */
-const reEscapedChar = new RegExp(
-  `\\\\(?:d${reDecimalChar.source.slice(1 /* remove '^' */) // \d123
-  }|o${reOctalChar.source.slice(1 /* remove '^' */) // \o40
-  }|x${reHexadecimalChar.source.slice(1 /* remove '^' */) // \x20
-  }|u${reUnicodeChar.source.slice(1 /* remove '^' */) // \u20AC
-  }|U${reLongUnicodeChar.source.slice(1 /* remove '^' */) // \U1234abcd
-  }|.)`, // \x
-  "u",
-);
-/** Matches a character range in collection. */
-const reCharacterRange = new RegExp(
-  `(?<start>${/^[-\]]/.source // '-' or ']' is allowed at beginning of sequence
-  }|${/[^-\]\\]/.source // any single character except '-', ']' or '\'
-  }|${reEscapedChar.source})-(?<end>${reEscapedChar.source}|.)`,
-  "u",
-);
-/** Matches a collection range. No contains beginning '['. Contains trailing ']'. */
-const reCollection = new RegExp(
-  `^\\^?\\]?(?:\\\\.|${reNamedCharClass.source // '[:' CharClass ':]'
-  }|${reEquivalenceClass.source // '[=' char '=]'
-  }|${reCollationElement.source // '[.' char '.]'
-  }|[^\\]])*\\]`,
-  "u",
-);
-/** Matches a set of normal and special part in collection. */
-const reCollectionYield = new RegExp(
-  `(?<normal>.*?)(?<special>${reCharacterRange.source // <start> '-' <end>
-  }|${reEscapedChar.source // backslash ...
-  }|${reNamedCharClass.source // '[:' CharClass ':]'
-  }|${reEquivalenceClass.source // '[=' char '=]'
-  }|${reCollationElement.source // '[.' char '.]'
-  }|${reUnicodeSetSpecialChars.source}|$)`,
-  "gyu",
-);
+/** Matches characters that need to be escaped as a literal character. */
+const reLiteralSyntaxChar = /^[$()*+.?[\\\]^{|}]$/u;
+/** Result pattern items that match a newline. */
+const NEWLINE_ITEMS: readonly string[] = ["\n", "\\n", "\\x0a"];
+
+function toCharCode(n: number, fallback = ""): string {
+  if (n <= 0xff) {
+    return (`\\x${(n.toString(16).padStart(2, "0"))}`);
+  } else if (n <= 0xffff) {
+    return (`\\u${(n.toString(16).padStart(4, "0"))}`);
+  } else if (n <= 0x10ffff) {
+    return (`\\u{${(n.toString(16))}}`);
+  } else {
+    return fallback;
+  }
+}
 
 function parseVimPattern(source: string, options: Required<VimRegExpOptions>) {
   if (/[mu]/.test(options.flags)) {
@@ -349,606 +1853,419 @@ function parseVimPattern(source: string, options: Required<VimRegExpOptions>) {
     );
   }
 
-  const [VERY_MAGIC, MAGIC, NOMAGIC, VERY_NOMAGIC] = [1, 2, 3, 4];
+  if (!Number.isInteger(options.tabstop) || options.tabstop <= 0) {
+    throw new VimRegExpSyntaxError(
+      `Invalid tabstop supplied to VimRegExp constructor '${options.tabstop}'`,
+      { source: `${options.tabstop}` },
+    );
+  }
+
+  const ast = parse(source, { magic: options.magic });
   const { stringMatch } = options;
-  /** Current `magic` state. */
-  let magic = options.magic ? MAGIC : NOMAGIC;
   /** Current `ignorecase` state. */
   let ignorecase = options.ignorecase &&
     !(options.smartcase && /^(?:\\.|[^\\])*?\p{Lu}/u.test(source));
+  /** `\Z` state, which applies to the whole pattern. */
+  let icombine = false;
 
   /** Result pattern buffer. */
   const resPattern: string[] = [];
   const push = (...items: string[]) => resPattern.push(...items);
 
-  /** The starting index of the current group in the result buffer.
-   *
-   * - Push stack when new block is started.
-   * - Pop stack when current block is closed.
-   *
-   *     foofoo(barbar(bazbaz|quxqux)quux)
-   *     ^     ^      ^             ^    ^
-   *     []    [6]    [6,13]        [6]  []
-   */
-  const groupIndices: number[] = [];
-  /** The starting index of the last group in the result buffer.
-   *
-   * - Save trailing value of `groupIndices` when pop it.
-   */
-  let lastGroupIndex: number | undefined;
-  /** The starting index of the current concat in the result buffer.
-   *
-   * - Push stack when new block is started.
-   * - Pop stack when current block is closed.
-   * - Replace last when new concat is started.
-   *
-   *     foofoo|barbar(bazbaz&quxqux)quux
-   *     ^      ^      ^      ^      ^
-   *     [0]    [7]    [7,14] [7,21] [7]
-   */
-  const concatIndices: number[] = [0];
+  /** Internal capture groups, keyed by unique group names. */
+  const internalCaptures = new Map<string, Capture>();
+  /** Number of `\z(` groups. */
+  let externalGroupCount = 0;
 
-  /** Last index of undetermined '$' that is EOL or literal. */
-  let maybe$Index: number | undefined;
-  const correct$ToLiteral = () => {
-    if (typeof maybe$Index !== "undefined" && maybe$Index < resPattern.length - 1) {
-      resPattern[maybe$Index] = "\\$";
-    }
-    maybe$Index = undefined;
+  const newInternalCapture = (capture: Capture): string => {
+    const name = `${capture.type}${internalCaptures.size + 1}`;
+    internalCaptures.set(name, capture);
+    return name;
   };
 
-  /** Input pattern buffer. */
-  const vimPattern = [...source];
-  /** The index to parse next in the input buffer. */
-  let index = 0;
-  /** The starting index of the current atom in the input buffer. */
-  let atomIndex = 0;
-  type Match = RegExpMatchArray & { index: number };
-  const maybeNext: {
-    (r: RegExp): Match | undefined;
-    <T>(r: RegExp, parser: (m: Match) => T): T | undefined;
-  } = <T>(r: RegExp, parser?: (m: Match) => T): T | Match | undefined => {
-    const m = vimPattern.slice(index).join("").match(r);
-    if (m) {
-      const res = parser ? parser(m as Match) : m as Match;
-      index += [...m[0]].length;
-      return res;
-    }
-  };
-  const ensureNext: {
-    (r: RegExp): Match;
-    <T>(r: RegExp, parser: (m: Match) => T): T;
-  } = <T>(r: RegExp, parser?: (m: Match) => T): T | Match => {
-    const res = parser ? maybeNext(r, parser) : maybeNext(r);
-    if (res === undefined) {
-      throw new VimRegExpSyntaxError(
-        `Invalid keyword: ${getAtom()}`,
-        { source, index: atomIndex },
-      );
-    }
-    return res;
-  };
-  const getAtom = () => vimPattern.slice(atomIndex, index).join("");
-
-  const toCharCode = (n: number, fallback = ""): string => {
-    if (n <= 0xff) {
-      return (`\\x${(n.toString(16).padStart(2, "0"))}`);
-    } else if (n <= 0xffff) {
-      return (`\\u${(n.toString(16).padStart(4, "0"))}`);
-    } else if (n <= 0x10ffff) {
-      return (`\\u{${(n.toString(16))}}`);
-    } else {
-      return fallback;
-    }
-  };
+  /** Warnings reported while parsing. */
+  const warnings: VimRegExpWarning[] = [];
+
+  const getText = ({ start, end }: SourceSpan) => [...source].slice(start, end).join("");
 
   const getCharClass = (type: PatternType) => {
     return patternToCharClass(options[type], { type });
   };
 
-  const parseEscapedCharInCollection = (s: string): string => {
-    if (s[0] === "\\") {
-      const escaped = ESCAPE_CHARS[s.slice(1) as EscapeChar];
-      if (escaped) {
-        return escaped;
-      }
-      switch (s[1]) {
-        case "d": // \d123
-          return toCharCode(parseInt(s.slice(2)));
-        case "o": // \o40
-          return toCharCode(parseInt(s.slice(2), 8));
-        case "x": // \x20
-        case "u": // \u20AC
-        case "U": // \U1234abcd
-          return toCharCode(parseInt(s.slice(2), 16));
-      }
-      // TODO: throws error?
-      return "\\\\" + toCharCode(s.charCodeAt(1));
-    }
-    if (reUnicodeSetSpecialChars.test(s)) {
-      return toCharCode(s.charCodeAt(0));
-    }
-    return s;
+  const emitCollectionChar = ({ codePoint, syntax }: CharNode): string => {
+    switch (syntax) {
+      case "literal": {
+        const c = String.fromCodePoint(codePoint);
+        return reUnicodeSetSpecialChars.test(c) ? toCharCode(codePoint) : c;
+      }
+      case "code":
+        return toCharCode(codePoint);
+      case "escaped":
+        // TODO: throws error?
+        return "\\\\" + toCharCode(codePoint);
+    }
   };
 
-  const parseCollection = (collection: string): string => {
-    const [inverse, rest] = collection.startsWith("^")
-      ? ["^", collection.slice(1)]
-      : ["", collection];
-    return inverse + rest.replaceAll(reCollectionYield, (...args) => {
-      const {
-        normal,
-        special,
-        start,
-        end,
-      } = args.at(-1) as NonNullable<RegExpMatchArray["groups"]>;
-      if (special === "") { // sequence closed
-        return normal;
-      }
-      if (start && end) { // character range
-        return normal + parseEscapedCharInCollection(start) + "-" +
-          parseEscapedCharInCollection(end);
-      }
-      if (special[0] === "[") {
-        switch (special[1]) {
-          case ":": { // named class '[:alnum:]'
-            const name = special.slice(2, -2) as CharClassName;
-            return normal +
-              (NAMED_CHAR_CLASSES[name] ??
-                getCharClass(`is${name as NullCharClassName}`));
-          }
-          case "=": // equivalence class '[=a=]'
-            throw new UnsupportedSyntaxError("[[=a=]]", {
-              source,
-              index: atomIndex,
-            });
-          case ".": // collation element '[.a.]'
-            throw new UnsupportedSyntaxError("[[.a.]]", {
-              source,
-              index: atomIndex,
-            });
+  const emitCollection = ({ negated, newline, items }: CollectionNode) => {
+    const body = items.map((item) => {
+      switch (item.type) {
+        case "char":
+          return emitCollectionChar(item);
+        case "range":
+          return emitCollectionChar(item.from) + "-" + emitCollectionChar(item.to);
+        case "namedClass":
+          return NAMED_CHAR_CLASSES[item.name] ??
+            getCharClass(`is${item.name as NullCharClassName}`);
+        case "equivalence": {
+          const char = String.fromCodePoint(item.codePoint);
+          return EQUIVALENCE_CLASS_MAP.get(char) ?? toCharCode(item.codePoint);
         }
+        case "collation":
+          return toCharCode(item.codePoint);
       }
-      return normal + parseEscapedCharInCollection(special);
-    });
+    }).join("");
+    const collection = `[${negated ? "^" : ""}${body}]`;
+    push(newline ? `[\\n${collection}]` : collection);
   };
 
-  const hasAtom = () => concatIndices.at(-1)! < resPattern.length;
-  const assertRepeatable = () => {
-    if (!hasAtom()) {
-      throw new VimRegExpSyntaxError(
-        `Nothing to repeat: ${getAtom()}`,
-        { source, index: atomIndex },
-      );
+  const emitCharClass = ({ name, newline }: CharClassNode) => {
+    // In a String, "\n" is not a line break, so "." and the negated
+    // classes match it.
+    if (name === ".") { // /. /\_.
+      push(newline || stringMatch ? "." : "[^\\n]");
+      return;
+    }
+    const charClass = SINGLE_CHAR_CLASSES[name as CharClassKey];
+    if (charClass) { // /\s /\_s etc...
+      const withLF = newline || (stringMatch && name !== name.toLowerCase());
+      push(charClass[withLF ? SINGLE_CHAR_WITH_LF : SINGLE_CHAR_NORMAL]);
+      return;
+    }
+    // /\i /\I /\k /\K /\f /\F /\p /\P and /\_i etc...
+    const type = OPTION_CHAR_CLASSES[name.toLowerCase() as keyof typeof OPTION_CHAR_CLASSES];
+    const base = getCharClass(type);
+    const lf = newline ? "\\n" : "";
+    if (name === name.toLowerCase()) {
+      push(newline ? `[${lf}${base}]` : base);
+    } else {
+      push(newline ? `[[${lf}${base}]--[0-9]]` : `[${base}--[0-9]]`);
     }
   };
 
-  while (index < vimPattern.length) {
-    // Save the starting index of the current atom.
-    atomIndex = index;
-
-    // If backslash exists increment index.
-    const backslash = vimPattern[index] === "\\";
-    backslash && ++index;
-
-    // Parse quantifier.
-    const quantifier = maybeNext(/^[*+=?{@]/);
-    if (quantifier) {
-      switch (quantifier[0]) {
-        case "*":
-          if (backslash ? magic >= NOMAGIC : (magic <= MAGIC && hasAtom())) { // /star
-            push("*");
-          } else { // literal '*'
-            push("\\*");
-          }
-          break;
-        case "+":
-          if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\+
-            assertRepeatable();
-            push("+");
-          } else { // literal '+'
-            push("\\+");
-          }
-          break;
-        case "=":
-          if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\=
-            assertRepeatable();
-            push("?");
-          } else { // literal '='
-            push("=");
-          }
-          break;
-        case "?":
-          if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\?
-            assertRepeatable();
-            push("?");
-          } else { // literal '?'
-            push("\\?");
-          }
-          break;
-        case "{":
-          if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\{
-            assertRepeatable();
-            const p = maybeNext(/^(?<ng>-)?(?<min>[0-9]+)?(?<comma>,)?(?<max>[0-9]+)?}/);
-            if (!p) {
-              throw new VimRegExpSyntaxError(
-                "Incomplete quantifier: '\\{...}'",
-                { source, index: atomIndex },
-              );
-            }
-            const { ng, min, comma, max } = p.groups!;
-            if (!min && !max) {
-              push(`*${ng ? "?" : ""}`);
-            } else if (min && max) {
-              push(`{${Math.min(parseInt(min), parseInt(max))},${max}}${ng ? "?" : ""}`);
-            } else if (comma) {
-              push(`{${min ?? "0"},${max ?? ""}}${ng ? "?" : ""}`);
-            } else {
-              push(`{${min}}`);
-            }
-          } else { // literal '{'
-            push("\\{");
-          }
-          break;
-        case "@":
-          if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\@= etc...
-            assertRepeatable();
-            if (vimPattern[index] === ">") {
-              throw new UnsupportedSyntaxError("\\@>", {
-                source,
-                index: atomIndex,
-              });
-            }
-            const n = maybeNext(/^[0-9]+/);
-            const p = ensureNext(/^<?[=!]/)[0];
-            if (n) {
-              // console.warn(
-              //   new UnsupportedSyntaxError(`\\@${n[0]}${p}`, { source, index }),
-              // );
-            }
-            if (resPattern.at(-1) === ")") {
-              resPattern[lastGroupIndex!] = `(?${p}`;
-            } else {
-              resPattern.splice(-1, 0, `(?${p}`);
-              push(")");
-            }
-          } else { // literal '@'
-            push("@");
-          }
-          break;
+  const emitAnchor = ({ anchor }: AnchorNode) => {
+    switch (anchor) {
+      case "bol":
+        if (!stringMatch && NEWLINE_ITEMS.includes(resPattern.at(-1)!)) {
+          // It always matches after a newline.
+          push("(?:)");
+        } else {
+          push(stringMatch ? "^" : "(?:^|(?<=\\n))");
+        }
+        break;
+      case "eol":
+        push(stringMatch ? "$" : "(?:(?=\\n)|$)");
+        break;
+      case "bof":
+        push("^");
+        break;
+      case "eof":
+        push(
+          stringMatch
+            ? "$"
+            : `(?<${newInternalCapture({ type: "position", atom: { type: "eof" } })}>)`,
+        );
+        break;
+      case "bow": {
+        const word = getCharClass("iskeyword");
+        push(`(?:(?<!${word})(?=${word}))`);
+        break;
+      }
+      case "eow": {
+        const word = getCharClass("iskeyword");
+        push(`(?:(?<=${word})(?!${word}))`);
+        break;
       }
-      continue;
     }
+  };
+
+  const emitBranches = (branches: BranchNode[]) => {
+    branches.forEach((branch, i) => {
+      if (i > 0) {
+        push("|");
+      }
+      branch.concats.forEach((concat, j) => {
+        if (j < branch.concats.length - 1) {
+          // All but the last concat are matched as lookahead.
+          push("(?=");
+          concat.items.forEach(emitTerm);
+          push(")");
+        } else {
+          concat.items.forEach(emitTerm);
+        }
+      });
+    });
+  };
 
-    const c = vimPattern[index++];
-    switch (c) {
-      case "}": // literal '}'
-        push("\\}");
+  const emitGroup = (node: GroupNode) => {
+    switch (node.kind) {
+      case "capture": // /\(
+        push("(");
         break;
-      case "\\": // literal '\'
-        push("\\\\");
+      case "noncapture": // /\%(
+        push("(?:");
         break;
-      case "^":
-        if (backslash ? magic >= VERY_NOMAGIC : magic <= NOMAGIC) { // /^
-          if (hasAtom()) {
-            if ((["\n", "\\n", "\\x0a"] as string[]).includes(resPattern.at(-1)!)) {
-              push(stringMatch ? "^" : "(?:)");
-            } else { // literal '^'
-              push("\\^");
-            }
-          } else {
-            push(stringMatch ? "^" : "(?:^|(?<=\\n))");
-          }
-        } else { // literal '^'
-          push("\\^");
+      case "external": // /\z(
+        if (!options.externalCapture) {
+          throw new VimRegExpSyntaxError(
+            "\\z( not allowed here",
+            { source, index: node.span.start },
+          );
         }
-        break;
-      case "$":
-        if (backslash ? magic >= VERY_NOMAGIC : magic <= NOMAGIC) { // /$
-          // Save index of EOL '$'. It is determined when the block is closed.
-          maybe$Index = resPattern.length;
-          push(stringMatch ? "$" : "(?:(?=\\n)|$)");
-        } else { // literal '$'
-          push("\\$");
+        if (++externalGroupCount > 9) {
+          throw new VimRegExpSyntaxError("Too many \\z(", { source, index: node.span.start });
         }
+        push(`(?<${newInternalCapture({ type: "zgroup" })}>`);
         break;
-      case ".":
-        push((backslash ? magic >= NOMAGIC : magic <= MAGIC) ? "[^\\n]" : "\\.");
+    }
+    emitBranches(node.branches);
+    push(")");
+  };
+
+  const emitMulti = (node: MultiNode) => {
+    const { multi, atom } = node;
+    /** The starting index of the atom in the result buffer. */
+    const start = resPattern.length;
+    emitTerm(atom);
+    switch (multi.type) {
+      case "*": // /star
+        push("*");
         break;
-      case "<":
-        if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /~
-          const word = getCharClass("iskeyword");
-          push(`(?:(?<!${word})(?=${word}))`);
-        } else { // literal '<'
-          push("<");
-        }
+      case "+": // /\+
+        push("+");
         break;
-      case ">":
-        if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // \>
-          const word = getCharClass("iskeyword");
-          push(`(?:(?<=${word})(?!${word}))`);
-        } else { // literal '>'
-          push(">");
-        }
+      case "=": // /\=
+      case "?": // /\?
+        push("?");
         break;
-      case "~":
-        if (backslash ? magic >= NOMAGIC : magic <= MAGIC) { // /~
-          throw new UnsupportedSyntaxError("~", { source, index: atomIndex });
-        } else { // literal '~'
-          push("~");
+      case "{": { // /\{
+        const { min, max, comma, lazy } = multi;
+        const ng = lazy ? "?" : "";
+        if (min === undefined && max === undefined) {
+          push(`*${ng}`);
+        } else if (min !== undefined && max !== undefined) {
+          push(`{${Math.min(min, max)},${max}}${ng}`);
+        } else if (comma) {
+          push(`{${min ?? "0"},${max ?? ""}}${ng}`);
+        } else {
+          push(`{${min}}`);
         }
         break;
-      case "(":
-        if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\(
-          groupIndices.push(resPattern.length);
-          push("(");
-          concatIndices.push(resPattern.length);
-        } else { // literal '('
-          push("\\(");
+      }
+      case "@": { // /\@= etc...
+        const { assertion: p, limit: n } = multi;
+        if (p === ">") { // /\@>
+          // Emulates an atomic group with a lookahead and a back reference.
+          // The internal capture group is removed from the match result.
+          const name = newInternalCapture({ type: "atomic" });
+          resPattern.splice(start, 0, "(?=", `(?<${name}>`);
+          push(`))\\k<${name}>`);
+          break;
         }
-        break;
-      case ")":
-        if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\)
-          if ((lastGroupIndex = groupIndices.pop()) === undefined) {
-            throw new VimRegExpSyntaxError("Unmatched '\\)'", { source, index: atomIndex });
+        if (n && p[0] === "<" && !options.lookbehindLimit) {
+          warnings.push({
+            type: "lookbehind-limit",
+            message: `Lookbehind limit is ignored: ${getText(node.multiSpan)}`,
+            source,
+            index: node.multiSpan.start,
+          });
+        } else if (n && p[0] === "<") { // /\@123<= /\@123<!
+          // Tries the atom from the nearest position like Vim, and pins
+          // the end of the atom to the current position with the prefix.
+          const prefix = newInternalCapture({ type: "prefix" });
+          const pin = `(?<=^\\k<${prefix}>)`;
+          const span = `[^]{0,${n}}?`;
+          if (atom.type === "group") {
+            resPattern[start] = "(?:";
+          } else {
+            resPattern.splice(start, 0, "(?:");
+            push(")");
+          }
+          resPattern.splice(start, 0, "(?<=^", `(?<${prefix}>`, "[^]*))");
+          if (options.lookbehindLimit === "char") {
+            resPattern.splice(start + 3, 0, `(?${p}(?=`);
+            push(`${pin})${span})`);
+          } else {
+            // Captures the nearest match to check the number of bytes.
+            const negative = p[1] === "!";
+            const lookbehind = newInternalCapture({ type: "lookbehind", limit: n, negative });
+            // The negative one is enclosed in a lookahead to avoid backtracking.
+            resPattern.splice(start + 3, 0, `${negative ? "(?=" : ""}(?<=(?=`);
+            push(`${pin})`, `(?<${lookbehind}>`, `${span}))${negative ? "|)" : ""}`);
           }
-          concatIndices.pop();
-          correct$ToLiteral();
+          break;
+        }
+        if (atom.type === "group") {
+          resPattern[start] = `(?${p}`;
+        } else {
+          resPattern.splice(start, 0, `(?${p}`);
           push(")");
-        } else { // literal ')'
-          push("\\)");
         }
         break;
-      case "|":
-        if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\|
-          correct$ToLiteral();
-          push("|");
-          concatIndices.splice(-1, 1, resPattern.length);
-        } else { // literal '|'
-          push("\\|");
+      }
+    }
+  };
+
+  const emitTerm = (node: TermNode): void => {
+    switch (node.type) {
+      case "char": {
+        const { codePoint, syntax } = node;
+        if (codePoint > 0x10ffff) {
+          // It is never matched because it can not be Unicode.
+          push("[]");
+        } else if (syntax === "code") {
+          push(toCharCode(codePoint));
+        } else if (syntax === "escaped" && codePoint >= 0x80) {
+          // Backslash followed character that code 0x80 or higher.
+          push("[]");
+        } else {
+          const c = String.fromCodePoint(codePoint);
+          push(reLiteralSyntaxChar.test(c) ? `\\${c}` : c);
         }
         break;
-      case "&":
-        if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) { // /\&
-          correct$ToLiteral();
-          resPattern.splice(concatIndices.pop()!, 0, "(?=");
-          push(")");
-          concatIndices.push(resPattern.length);
-        } else { // literal '&'
-          push("&");
-        }
+      }
+      case "charClass":
+        emitCharClass(node);
+        break;
+      case "collection":
+        emitCollection(node);
+        break;
+      case "anchor":
+        emitAnchor(node);
+        break;
+      case "group":
+        emitGroup(node);
         break;
-      case "%":
-        if (backslash ? magic >= MAGIC : magic <= VERY_MAGIC) {
-          switch (vimPattern[index++]) {
-            case "(": // /\%(
-              groupIndices.push(resPattern.length);
-              push("(?:");
-              concatIndices.push(resPattern.length);
-              break;
-            case "^": // /\%^
-              push("^");
-              break;
-            case "$": // /\%$
-              push("$");
-              break;
-            case "d": // /\%d123
-              push(ensureNext(reDecimalChar, ([s]) => toCharCode(parseInt(s))));
-              break;
-            case "o": // /\%o40
-              push(ensureNext(reOctalChar, ([s]) => toCharCode(parseInt(s, 8))));
-              break;
-            case "x": // /\%x2a
-              push(ensureNext(reHexadecimalChar, ([s]) => toCharCode(parseInt(s, 16))));
-              break;
-            case "u": // /\%u20AC
-              push(ensureNext(reUnicodeChar, ([s]) => toCharCode(parseInt(s, 16))));
-              break;
-            case "U": // /\%U1234abcd
-              push(ensureNext(reLongUnicodeChar, ([s]) => toCharCode(parseInt(s, 16), "[]")));
-              break;
-            case "[": // /\%[]
-              throw new UnsupportedSyntaxError("\\%[]", { source, index: atomIndex });
-            case "C": // /\%C
-              throw new UnsupportedSyntaxError("\\%C", { source, index: atomIndex });
-            default: { // /\%V /\%# etc...
-              --index;
-              const p = maybeNext(/^(?:V|#=?|[<>]?(?:'.?|(?:\.|[0-9]+)?[lcv]))/);
-              if (p) {
-                throw new UnsupportedSyntaxError(`\\%${p[0]}`, { source, index: atomIndex });
-              }
-              ++index;
-              throw new VimRegExpSyntaxError(
-                `Invalid keyword: ${getAtom()}`,
-                { source, index: atomIndex },
-              );
-            }
+      case "optionalSequence": {
+        // Each atom in the sequence is made optional by nesting non-capturing
+        // groups, like `r\%[ead]` is translated to `r(?:e(?:a(?:d)?)?)?`.
+        let depth = 0;
+        for (const item of node.items) {
+          const start = resPattern.length;
+          emitTerm(item);
+          if (start < resPattern.length) {
+            resPattern.splice(start, 0, "(?:");
+            ++depth;
           }
-        } else { // literal '%'
-          push("%");
         }
+        push(")?".repeat(depth));
         break;
-      case "[":
-        if (backslash ? magic >= NOMAGIC : magic <= MAGIC) {
-          const collection = maybeNext(reCollection);
-          if (!collection) { // literal '['
-            // When the ']' is not there assume no collection is used.
-            push("\\[");
-          } else if (collection[0] === "]") { // literal '[]'
-            // When the inside of '[]' is empty assume no collection is used.
-            push("\\[\\]");
-          } else { // /[]
-            push(`[${parseCollection(collection[0].slice(0, -1))}]`);
+      }
+      case "backReference":
+        if (node.external) { // /\z1 ... /\z9
+          const { externalSubmatches } = options;
+          if (!externalSubmatches) {
+            throw new VimRegExpSyntaxError(
+              "\\z1 - \\z9 not allowed here",
+              { source, index: node.span.start },
+            );
           }
-        } else { // literal '['
-          push("\\[");
+          const text = externalSubmatches[node.group] ?? "";
+          push(`(?:${text.replace(reSyntaxChars, "\\$&")})`);
+        } else { // /\1 ... /\9
+          push(`(?:\\${node.group})`);
         }
         break;
-      case "]": // literal ']'
-        push("\\]");
+      case "matchBoundary": // /\zs /\ze
+        push(`(?<${newInternalCapture({ type: node.boundary === "start" ? "zs" : "ze" })}>)`);
         break;
-      case "_":
-        if (backslash) {
-          const key = vimPattern[index++];
-          const charClass = SINGLE_CHAR_CLASSES[key as CharClassKey];
-          if (charClass) { // /\_s etc...
-            push(charClass[SINGLE_CHAR_WITH_LF]);
-            break;
-          }
-          switch (key) {
-            case "^": // /\_^
-              push(stringMatch ? "^" : "(?:^|(?<=\\n))");
-              break;
-            case "$": // /\_$
-              push(stringMatch ? "$" : "(?:(?=\\n)|$)");
-              break;
-            case ".": // /\_.
-              push(".");
-              break;
-            case "[": { // /\_[
-              const collection = maybeNext(reCollection);
-              if (!collection) { // literal '['
-                // When the ']' is not there assume no collection is used.
-                push("\\[");
-              } else if (collection[0] === "]") { // literal '[]'
-                // When the inside of '[]' is empty assume no collection is used.
-                push("\\[\\]");
-              } else { // /\_[]
-                push(`[\\n[${parseCollection(collection[0].slice(0, -1))}]]`);
-              }
-              break;
-            }
-            case "i": // /\_i
-              push(`[\\n${getCharClass("isident")}]`);
-              break;
-            case "I": // /\_I
-              push(`[[\\n${getCharClass("isident")}]--[0-9]]`);
-              break;
-            case "k": // /\_k
-              push(`[\\n${getCharClass("iskeyword")}]`);
-              break;
-            case "K": // /\_K
-              push(`[[\\n${getCharClass("iskeyword")}]--[0-9]]`);
-              break;
-            case "f": // /\_f
-              push(`[\\n${getCharClass("isfname")}]`);
-              break;
-            case "F": // /\_F
-              push(`[[\\n${getCharClass("isfname")}]--[0-9]]`);
-              break;
-            case "p": // /\_p
-              push(`[\\n${getCharClass("isprint")}]`);
-              break;
-            case "P": // /\_P
-              push(`[[\\n${getCharClass("isprint")}]--[0-9]]`);
-              break;
-            default:
-              throw new VimRegExpSyntaxError(
-                `Invalid char class: ${getAtom()}`,
-                { source, index: atomIndex },
-              );
-          }
-        } else { // literal '_'
-          push("_");
+      case "position": // /\%23l /\%# etc...
+        push(`(?<${newInternalCapture({ type: "position", atom: node.position })}>)`);
+        break;
+      case "lastSubstitute": { // /~
+        const string = options.session?.lastSubstituteString;
+        if (string === undefined) {
+          throw new VimRegExpSyntaxError(
+            "No previous substitute regular expression",
+            { source, index: node.span.start },
+          );
         }
+        push(`(?:${string.replace(reSyntaxChars, "\\$&")})`);
         break;
-      default:
-        if (backslash) {
-          if (c === "n") { // /\n
-            correct$ToLiteral();
-          }
-          const escaped = ESCAPE_CHARS[c as EscapeChar];
-          if (escaped) { // /\e etc...
-            push(escaped);
-            break;
-          }
-          const charClass = SINGLE_CHAR_CLASSES[c as CharClassKey];
-          if (charClass) { // /\s etc...
-            push(charClass[SINGLE_CHAR_NORMAL]);
-            break;
-          }
-          switch (c) {
-            case "i": // /\i
-              push(getCharClass("isident"));
-              break;
-            case "I": // /\I
-              push(`[${getCharClass("isident")}--[0-9]]`);
-              break;
-            case "k": // /\k
-              push(getCharClass("iskeyword"));
-              break;
-            case "K": // /\K
-              push(`[${getCharClass("iskeyword")}--[0-9]]`);
-              break;
-            case "f": // /\f
-              push(getCharClass("isfname"));
-              break;
-            case "F": // /\F
-              push(`[${getCharClass("isfname")}--[0-9]]`);
-              break;
-            case "p": // /\p
-              push(getCharClass("isprint"));
-              break;
-            case "P": // /\P
-              push(`[${getCharClass("isprint")}--[0-9]]`);
-              break;
-            case "c": // /\c
-              ignorecase = true;
-              break;
-            case "C": // /\C
-              ignorecase = false;
-              break;
-            case "z": { // /\z
-              const op = maybeNext(/^[se(1-9]/);
-              if (op) {
-                throw new UnsupportedSyntaxError(`\\z${op[0]}`, { source, index: atomIndex });
-              }
-              throw new VimRegExpSyntaxError(
-                `Invalid keyword: \\z${vimPattern[index] ?? ""}`,
-                { source, index: atomIndex },
-              );
-            }
-            case "Z": // /\Z
-              throw new UnsupportedSyntaxError("\\Z", { source, index: atomIndex });
-            case "m": // /\m
-              magic = MAGIC;
-              break;
-            case "M": // /\M
-              magic = NOMAGIC;
-              break;
-            case "v": // /\v
-              magic = VERY_MAGIC;
-              break;
-            case "V": // /\V
-              magic = VERY_NOMAGIC;
-              break;
-            default:
-              if (/[1-9]/.test(c)) { // /\1 ... /\9
-                push(`(?:\\${c})`);
-              } else if (c.charCodeAt(0) <= 0x7f) { // /\ /\\
-                // Backslash followed character with no special meaning.
-                push(c);
-              } else {
-                // Backslash followed character that code 0x80 or higher.
-                push("[]");
-              }
-              break;
-          }
-        } else { // normal characters
-          push(c);
+      }
+      case "skipComposing": // /\%C
+        push("\\p{M}*(?!\\p{M})");
+        break;
+      case "multi":
+        emitMulti(node);
+        break;
+      case "switch":
+        if (node.name === "c") { // /\c
+          ignorecase = true;
+        } else if (node.name === "C") { // /\C
+          ignorecase = false;
+        } else if (node.name === "Z") { // /\Z
+          icombine = true;
         }
         break;
     }
+  };
+
+  emitBranches(ast.branches);
+
+  // Ignore combining characters following each character when `\Z` is used.
+  if (icombine) {
+    resPattern.forEach((item, i) => {
+      if (reCombiningChar.test(item)) {
+        resPattern[i] = "(?:)";
+      } else if (reSingleCharItem.test(item)) {
+        const base = item.normalize("NFD").match(/^\p{L}(?=\p{M}*$)/u)?.[0];
+        const chars = base ? base + getPrecomposedChars(base) : "";
+        resPattern[i] = `(?:${chars.length > 1 ? `[${chars}]` : item}\\p{M}*)`;
+      }
+    });
+  }
+
+  // Collect capture groups in the order in which they appear.
+  const captures: Capture[] = [];
+  for (const item of resPattern) {
+    if (item === "(") {
+      captures.push({ type: "group" });
+    } else {
+      const name = item.match(reInternalCapture)?.groups?.name;
+      if (name) {
+        captures.push(internalCaptures.get(name)!);
+      }
+    }
+  }
+
+  // Renumber back references when internal capture groups exist.
+  if (internalCaptures.size > 0) {
+    const groupNumbers = captures.flatMap(({ type }, i) => type === "group" ? [i + 1] : []);
+    resPattern.forEach((item, i) => {
+      const num = item.match(reBackReference)?.groups?.num;
+      if (num && groupNumbers[+num - 1]) {
+        resPattern[i] = `(?:\\${groupNumbers[+num - 1]})`;
+      }
+    });
   }
-  correct$ToLiteral();
   const resSource = resPattern.join("");
 
   // Union internal flags to `options.flags`.
-  const internalFlags = [...`sv${ignorecase ? "i" : ""}`];
+  // The "d" flag is required to find the positions of '\zs' and '\ze'.
+  const hasMatchBoundary = captures.some(({ type }) => type === "zs" || type === "ze");
+  const internalFlags = [...`sv${ignorecase ? "i" : ""}${hasMatchBoundary ? "d" : ""}`];
   const resFlags = internalFlags.reduce(
     (flags, add) => flags.includes(add) ? flags : flags + add,
     options.flags,
   );
 
-  return { source: resSource, flags: resFlags };
+  // Position atoms are resolved when the searched text is given.
+  const positions = new Map<string, PositionTerm>();
+  for (const [name, capture] of internalCaptures) {
+    if (capture.type === "position") {
+      positions.set(name, capture.atom);
+    }
+  }
+
+  return { source: resSource, flags: resFlags, captures, warnings, positions };
 }
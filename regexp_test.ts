@@ -12,7 +12,9 @@ import { describe, it } from "jsr:@std/testing/bdd";
 import { stub } from "jsr:@std/testing/mock";
 
 import { UnsupportedSyntaxError, VimRegExpSyntaxError } from "./errors.ts";
+import type { TextBuffer, VimBufferMatch } from "./buffer.ts";
 import { VimRegExp } from "./regexp.ts";
+import { VimSearchSession } from "./session.ts";
 
 /**
  * Make an assertion that `input` matches `actual` RegExp and result array
@@ -45,6 +47,13 @@ describe("VimRegExpOptions", () => {
         ["aa"],
       );
     });
+    it("matches a newline with '.' and the negated classes.", () => {
+      for (const pattern of ["a.b", "a\\Sb", "a\\Ab"]) {
+        assert(new VimRegExp(pattern, { stringMatch: true }).test("a\nb"), pattern);
+        assertFalse(new VimRegExp(pattern).test("a\nb"), pattern);
+      }
+      assertFalse(new VimRegExp("a\\sb", { stringMatch: true }).test("a\nb"));
+    });
   });
 });
 
@@ -303,11 +312,60 @@ describe("VimRegExp", () => {
             assertMatch("bar\nfoo", regex);
           });
         });
+        describe(".session", () => {
+          it("replaces the empty pattern with the last search pattern.", () => {
+            const session = new VimSearchSession();
+            session.setLastSearchPattern("fo\\+");
+            const regex = new VimRegExp("", { session });
+            assertEquals(regex.vimSource, "fo\\+");
+            assertMatchResult("a foo", regex, ["foo"]);
+          });
+          it("replaces the empty pattern with the last substitute pattern if set later.", () => {
+            const session = new VimSearchSession();
+            session.setLastSearchPattern("foo");
+            session.setLastSubstitutePattern("ba.");
+            const regex = new VimRegExp("", { session });
+            assertEquals(regex.vimSource, "ba.");
+            assertMatchResult("foo baz", regex, ["baz"]);
+          });
+          it("throws VimRegExpSyntaxError if the last search pattern is not set.", () => {
+            const session = new VimSearchSession();
+            assertThrows(
+              () => new VimRegExp("", { session }),
+              VimRegExpSyntaxError,
+              "No previous regular expression",
+            );
+          });
+          it("does not replace the empty pattern if not specified.", () => {
+            const regex = new VimRegExp("");
+            assertMatchResult("foo", regex, [""]);
+          });
+          it("uses 'smartcase' if the last search pattern was typed.", () => {
+            const session = new VimSearchSession();
+            session.setLastSearchPattern("Foo");
+            const regex = new VimRegExp("", { session, ignorecase: true, smartcase: true });
+            assertNotMatch("foo", regex);
+          });
+          it("does not use 'smartcase' if the last search pattern was not typed.", () => {
+            const session = new VimSearchSession();
+            session.setLastSearchPattern("Foo", false);
+            const regex = new VimRegExp("", { session, ignorecase: true, smartcase: true });
+            assertMatch("foo", regex);
+          });
+          it("uses the session state at the time of construction.", () => {
+            const session = new VimSearchSession();
+            session.setLastSearchPattern("foo");
+            const regex = new VimRegExp("", { session });
+            session.setLastSearchPattern("bar");
+            assertMatch("foo", regex);
+            assertNotMatch("bar", regex);
+          });
+        });
       });
     });
     it("throws an error wrapping an internal error.", () => {
       const error = assertThrows(
-        () => new VimRegExp("\\(foo"),
+        () => new VimRegExp("a**"),
         VimRegExpSyntaxError,
       );
       assertInstanceOf(error.cause, SyntaxError);
@@ -354,6 +412,15 @@ describe("VimRegExp", () => {
           ignorecase: false,
           smartcase: false,
           stringMatch: false,
+          lookbehindLimit: false,
+          firstLine: 1,
+          tabstop: 8,
+          cursor: { lnum: 1, col: 1 },
+          marks: {},
+          visual: null,
+          session: null,
+          externalCapture: false,
+          externalSubmatches: null,
         });
       });
       it("returns default values for unspecified options.", () => {
@@ -376,8 +443,303 @@ describe("VimRegExp", () => {
           isprint: "@,161-255",
           magic: true,
           ignorecase: false,
+          lookbehindLimit: false,
+          firstLine: 1,
+          tabstop: 8,
+          cursor: { lnum: 1, col: 1 },
+          marks: {},
+          visual: null,
+          session: null,
+          externalCapture: false,
+          externalSubmatches: null,
         });
       });
+      it("returns the same session object.", () => {
+        const session = new VimSearchSession();
+        const regex = new VimRegExp("foo", { session });
+        assertStrictEquals(regex.options.session, session);
+      });
+    });
+    describe("warnings", () => {
+      it("returns an empty array if there are no warnings.", () => {
+        const regex = new VimRegExp("\\(foo\\)\\@<=bar");
+        assertEquals(regex.warnings, []);
+      });
+      it("reports the lookbehind limit ignored.", () => {
+        const regex = new VimRegExp("\\(foo\\)\\@3<=bar");
+        assertEquals(regex.warnings, [
+          {
+            type: "lookbehind-limit",
+            message: "Lookbehind limit is ignored: \\@3<=",
+            source: "\\(foo\\)\\@3<=bar",
+            index: 7,
+          },
+        ]);
+      });
+      it("does not report if 'lookbehindLimit' is specified.", () => {
+        const regex = new VimRegExp("\\(foo\\)\\@3<=bar", { lookbehindLimit: "char" });
+        assertEquals(regex.warnings, []);
+      });
+      it("returns a copy of the warnings.", () => {
+        const regex = new VimRegExp("\\(foo\\)\\@3<=bar");
+        regex.warnings.pop();
+        assertEquals(regex.warnings.length, 1);
+      });
+    });
+  });
+  describe("methods", () => {
+    describe("[Symbol.replace]", () => {
+      it("uses Vim's replacement string.", () => {
+        const regex = new VimRegExp("\\(\\w\\)\\(\\w*\\)", "g");
+        assertEquals("foo bar".replace(regex, "\\U\\1\\e\\2-&-$1"), "Foo-foo-$1 Bar-bar-$1");
+      });
+      it("replaces only the first match without the 'g' flag.", () => {
+        const regex = new VimRegExp("o");
+        assertEquals("foo".replace(regex, "[&]"), "f[o]o");
+      });
+      it("replaces the match from '\\zs' to '\\ze'.", () => {
+        const regex = new VimRegExp("f\\zso\\+\\zeb", "g");
+        assertEquals("foob fob".replace(regex, "<&>"), "f<oo>b f<o>b");
+      });
+      it("uses the 'magic' option.", () => {
+        const regex = new VimRegExp("o", { magic: false });
+        assertEquals("foo".replace(regex, "&\\&"), "f&oo");
+      });
+      it("makes '~' literal if 'session' is not specified.", () => {
+        const regex = new VimRegExp("o");
+        assertEquals("foo".replace(regex, "~\\~"), "f~~o");
+      });
+      it("replaces '~' with the last substitute string of 'session'.", () => {
+        const session = new VimSearchSession();
+        const regex = new VimRegExp("o", { session });
+        assertEquals("foo".replace(regex, "x~"), "fxo");
+        assertEquals(session.lastSubstituteString, "x");
+        assertEquals("foo".replace(regex, "~y"), "fxyo");
+        assertEquals(session.lastSubstituteString, "xy");
+      });
+      it("calls the function with Vim's submatches.", () => {
+        const regex = new VimRegExp("\\(a\\)\\|\\(b\\)");
+        const calls: unknown[][] = [];
+        "xb".replace(regex, (...args: unknown[]) => {
+          calls.push(args);
+          return "";
+        });
+        assertEquals(calls, [["b", "", "b", "", "", "", "", "", "", "", 1, "xb"]]);
+      });
+      it("uses the text returned by the function as is.", () => {
+        const regex = new VimRegExp("o", "g");
+        assertEquals("foo".replace(regex, () => "\\&$&"), "f\\&$&\\&$&");
+      });
+      it("finds the matches like substitute() of Vim with the 'g' flag.", () => {
+        assertEquals("foofoo".replace(new VimRegExp("foo\\zs", "g"), "X"), "fooXfooX");
+        assertEquals("abcabc".replace(new VimRegExp("a\\zsbc\\zs", "g"), "X"), "abcXabcX");
+        assertEquals("abab".replace(new VimRegExp("b\\zs\\|a", "g"), "X"), "XbXXbX");
+        assertEquals("aaaa".replace(new VimRegExp("a\\zea", "g"), "X"), "XXXa");
+        assertEquals("baaac".replace(new VimRegExp("a*", "g"), "X"), "XbXXcX");
+        assertEquals("ab".replace(new VimRegExp("", "g"), "X"), "XaXbX");
+      });
+      it("resets lastIndex with the 'g' flag.", () => {
+        const regex = new VimRegExp("o", "g");
+        regex.lastIndex = 2;
+        assertEquals("foo".replace(regex, "x"), "fxx");
+        assertEquals(regex.lastIndex, 0);
+      });
+    });
+    describe("[Symbol.match]", () => {
+      it("returns the first match without the 'g' flag.", () => {
+        const actual = "foofoo".match(new VimRegExp("o\\zso"));
+        assertEquals([...actual!], ["o"]);
+        assertEquals(actual?.index, 2);
+      });
+      it("returns all matches like substitute() of Vim with the 'g' flag.", () => {
+        assertEquals("foofoo".match(new VimRegExp("foo\\zs", "g")), ["", ""]);
+        assertEquals("aaaa".match(new VimRegExp("a\\zea", "g")), ["a", "a", "a"]);
+        assertEquals("foo".match(new VimRegExp("x", "g")), null);
+      });
+    });
+    describe("[Symbol.matchAll]", () => {
+      it("returns all matches like substitute() of Vim.", () => {
+        const matches = [..."foofoo".matchAll(new VimRegExp("foo\\zs", "g"))];
+        assertEquals(matches.map(({ index }) => index), [3, 6]);
+        assertEquals(matches.map(([match]) => match), ["", ""]);
+      });
+      it("starts from lastIndex and does not change it.", () => {
+        const regex = new VimRegExp("\\(o\\)\\zs", "g");
+        regex.lastIndex = 2;
+        const matches = [..."foofoo".matchAll(regex)];
+        assertEquals(matches.map(({ index }) => index), [3, 5, 6]);
+        assertEquals(matches.map(([, group]) => group), ["o", "o", "o"]);
+        assertEquals(regex.lastIndex, 2);
+      });
+    });
+    describe("execBuffer", () => {
+      /** Returns the positions of the match. */
+      const pos = (match: VimBufferMatch | null) =>
+        match && [match.lnum, match.col, match.endLnum, match.endCol];
+      it("returns the first match in the array of lines.", () => {
+        const regex = new VimRegExp("b\\(.\\)");
+        assertEquals(regex.execBuffer(["foo", "bar", "baz"]), {
+          lnum: 2,
+          col: 1,
+          endLnum: 2,
+          endCol: 3,
+          submatches: ["ba", "a", "", "", "", "", "", "", "", ""],
+          matched: [true, true, false, false, false, false, false, false, false, false],
+        });
+      });
+      it("returns `null` if there is no match.", () => {
+        assertEquals(new VimRegExp("x").execBuffer(["foo", "bar"]), null);
+        assertEquals(new VimRegExp("x\\n").execBuffer(["foo", "bar"]), null);
+      });
+      it("matches the line breaks with multi-line atoms.", () => {
+        assertEquals(pos(new VimRegExp("o\\nb").execBuffer(["foo", "bar"])), [1, 3, 2, 2]);
+        assertEquals(pos(new VimRegExp("a\\_s\\+b").execBuffer(["a ", " b"])), [1, 1, 2, 3]);
+        assertEquals(pos(new VimRegExp("o\\n").execBuffer(["foo", "bar"])), [1, 3, 2, 1]);
+        assertEquals(pos(new VimRegExp("\\(o\\n\\)\\@<=b").execBuffer(["o", "b"])), [2, 1, 2, 2]);
+      });
+      it("matches the newline after the last line like Vim.", () => {
+        const lines = ["foo", "bar"];
+        assertEquals(pos(new VimRegExp("r\\n").execBuffer(lines)), [2, 3, 3, 1]);
+        assertEquals(pos(new VimRegExp("r\\n^$").execBuffer(lines)), [2, 3, 3, 1]);
+        assertEquals(pos(new VimRegExp("r\\%$").execBuffer(lines)), [2, 3, 2, 4]);
+        assertEquals(new VimRegExp("r\\n\\n").execBuffer(lines), null);
+        assertEquals(new VimRegExp("r\\n\\%$").execBuffer(lines), null);
+        assertEquals(new VimRegExp("\\n\\zs").execBuffer(lines, { lnum: 2, col: 1 }), {
+          lnum: 3,
+          col: 1,
+          endLnum: 3,
+          endCol: 1,
+          submatches: ["", "", "", "", "", "", "", "", "", ""],
+          matched: [true, false, false, false, false, false, false, false, false, false],
+        });
+      });
+      it("does not match the line breaks with other atoms.", () => {
+        assertEquals(pos(new VimRegExp("[^x]\\+").execBuffer(["ab", "c"])), [1, 1, 1, 3]);
+        assertEquals(pos(new VimRegExp("a.b").execBuffer(["a", "b", "a.b"])), [3, 1, 3, 4]);
+      });
+      it("matches '^' and '$' at each line.", () => {
+        assertEquals(pos(new VimRegExp("^b").execBuffer(["ab", "b"])), [2, 1, 2, 2]);
+        assertEquals(pos(new VimRegExp("a$").execBuffer(["ab", "a"])), [2, 1, 2, 2]);
+      });
+      it("matches '\\%^' and '\\%$' at the start and end of the buffer.", () => {
+        assertEquals(pos(new VimRegExp("\\%^a").execBuffer(["b", "a"])), null);
+        assertEquals(pos(new VimRegExp("a\\%$").execBuffer(["a", "a"])), [2, 1, 2, 2]);
+      });
+      it("uses the line numbers of the buffer for '\\%l'.", () => {
+        const regex = new VimRegExp("\\%2la", { firstLine: 10 });
+        assertEquals(pos(regex.execBuffer(["a", "a"])), [2, 1, 2, 2]);
+      });
+      it("ignores 'stringMatch'.", () => {
+        const regex = new VimRegExp("^b", { stringMatch: true });
+        assertEquals(pos(regex.execBuffer(["a", "b"])), [2, 1, 2, 2]);
+      });
+      it("starts the search at the byte column of 'start'.", () => {
+        const lines = ["x\u00e9x\u00e9x", "x"];
+        const regex = new VimRegExp("x");
+        assertEquals(pos(regex.execBuffer(lines, { lnum: 1, col: 2 })), [1, 4, 1, 5]);
+        assertEquals(pos(regex.execBuffer(lines, { lnum: 1, col: 7 })), [1, 7, 1, 8]);
+        assertEquals(pos(regex.execBuffer(lines, { lnum: 1, col: 8 })), [2, 1, 2, 2]);
+        assertEquals(pos(regex.execBuffer(lines, { lnum: 1, col: Infinity })), [2, 1, 2, 2]);
+        assertEquals(pos(regex.execBuffer(lines, { lnum: 3, col: 1 })), null);
+        const multiline = new VimRegExp("x\\n");
+        assertEquals(pos(multiline.execBuffer(lines, { lnum: 1, col: 7 })), [1, 7, 2, 1]);
+        assertEquals(pos(multiline.execBuffer(lines, { lnum: 1, col: 8 })), [2, 1, 3, 1]);
+      });
+      it("fetches only the searched lines of the TextBuffer.", () => {
+        const fetched: number[] = [];
+        const buffer: TextBuffer = {
+          lineCount: 100,
+          getLine(lnum) {
+            fetched.push(lnum);
+            return lnum === 5 ? "foo" : "";
+          },
+        };
+        assertEquals(pos(new VimRegExp("o").execBuffer(buffer, { lnum: 3, col: 1 })), [
+          5,
+          2,
+          5,
+          3,
+        ]);
+        assertEquals(fetched, [3, 4, 5]);
+      });
+      it("fetches only the lines that the pattern can reach.", () => {
+        const fetched = new Set<number>();
+        const buffer: TextBuffer = {
+          lineCount: 100,
+          getLine(lnum) {
+            fetched.add(lnum);
+            return lnum === 50 ? "foo" : lnum === 51 ? "bar" : "";
+          },
+        };
+        /** Returns the sorted numbers of the fetched lines, and clears them. */
+        const takeFetched = () => {
+          const lnums = [...fetched].sort((a, b) => a - b);
+          fetched.clear();
+          return [lnums[0], lnums.at(-1), lnums.length];
+        };
+        const regex = new VimRegExp("\\(\\n\\n\\)\\@<=foo\\nbar");
+        assertEquals(pos(regex.execBuffer(buffer, { lnum: 40, col: 1 })), [50, 1, 51, 4]);
+        assertEquals(takeFetched(), [38, 53, 16]);
+        const unbounded = new VimRegExp("o\\_s*b");
+        assertEquals(pos(unbounded.execBuffer(buffer, { lnum: 40, col: 1 })), [50, 3, 51, 2]);
+        assertEquals(takeFetched(), [40, 100, 61]);
+      });
+      it("searches the changed lines with the same instance.", () => {
+        const lines: string[] = Array.from({ length: 200 }, (_, i) => i % 2 ? "bar" : "foo");
+        const regex = new VimRegExp("o\\_s*b");
+        assertEquals(pos(regex.execBuffer(lines, { lnum: 3, col: 1 })), [3, 3, 4, 2]);
+        lines.splice(2, 2, "foX");
+        assertEquals(pos(regex.execBuffer(lines, { lnum: 3, col: 1 })), [4, 3, 5, 2]);
+        lines[3] = "fo";
+        lines[4] = " bar";
+        assertEquals(pos(regex.execBuffer(lines, { lnum: 3, col: 1 })), [4, 2, 5, 3]);
+      });
+      it("searches another buffer with the same instance.", () => {
+        const lines = ["q", ...Array(198).fill("a"), "z"];
+        for (const pattern of ["\\%^a\\_.\\{-}z", "\\(q\\n\\)\\@<!a\\_.\\{-}z"]) {
+          const regex = new VimRegExp(pattern);
+          regex.execBuffer(lines);
+          assertEquals(pos(regex.execBuffer(lines.slice(1))), [1, 1, 199, 2]);
+        }
+      });
+      it("uses the lines that the pattern does not reach for '\\%V'.", () => {
+        const lines = Array(1000).fill("\u00e9".repeat(10));
+        const visual = {
+          mode: "\x16" as const,
+          start: { lnum: 1, col: 5 },
+          end: { lnum: 1000, col: 9 },
+        };
+        const regex = new VimRegExp("\\%V\u00e9", { visual });
+        assertEquals(pos(regex.execBuffer(lines, { lnum: 500, col: 1 })), [500, 5, 500, 7]);
+      });
+    });
+    describe("matchAllBuffer", () => {
+      it("returns all matches in the buffer.", () => {
+        const regex = new VimRegExp("\\<\\k");
+        const matches = [...regex.matchAllBuffer(["foo bar", "baz"])];
+        assertEquals(matches.map(({ lnum, col }) => [lnum, col]), [[1, 1], [1, 5], [2, 1]]);
+      });
+      it("continues from the next character after an empty match.", () => {
+        for (const pattern of ["x*", "x*\\n\\="]) {
+          const regex = new VimRegExp(pattern);
+          const matches = [...regex.matchAllBuffer(["ax", ""])];
+          assertEquals(
+            matches.map(({ lnum, col, submatches: [text] }) => [lnum, col, text]),
+            pattern === "x*"
+              ? [[1, 1, ""], [1, 2, "x"], [1, 3, ""], [2, 1, ""]]
+              : [[1, 1, ""], [1, 2, "x\n"], [2, 1, "\n"]],
+            pattern,
+          );
+        }
+      });
+      it("returns the matches across the lines.", () => {
+        const regex = new VimRegExp("\\n");
+        const matches = [...regex.matchAllBuffer(["a", "b", "c"])];
+        assertEquals(
+          matches.map(({ lnum, col, endLnum, endCol }) => [lnum, col, endLnum, endCol]),
+          [[1, 2, 2, 1], [2, 2, 3, 1], [3, 2, 4, 1]],
+        );
+      });
     });
   });
 });
@@ -1045,6 +1407,33 @@ describe("Regular expression patterns in VimRegExp", () => {
           assertNotMatch("foobar", regex, "Does not match in Vim");
         }, "Matches in VimRegExp");
       });
+      it("limits lookbacks in characters if 'lookbehindLimit' is 'char'.", () => {
+        const regex = new VimRegExp("\\(foo.*\\)\\@6<=bar", { lookbehindLimit: "char" });
+        assertMatchResult("foo...bar", regex, ["bar"]);
+        assertNotMatch("foo....bar", regex);
+        assertMatchResult("foo..\u00e9bar", regex, ["bar"]);
+      });
+      it("limits lookbacks in bytes if 'lookbehindLimit' is 'byte'.", () => {
+        const regex = new VimRegExp("\\(foo.*\\)\\@6<=bar", { lookbehindLimit: "byte" });
+        assertMatchResult("foo...bar", regex, ["bar"]);
+        assertNotMatch("foo....bar", regex);
+        assertNotMatch("foo..\u00e9bar", regex);
+        assertMatchResult("foo.\u00e9bar", regex, ["bar"]);
+      });
+      it("finds the next match if the lookback exceeds the limit bytes.", () => {
+        const regex = new VimRegExp("\\(foo.*\\)\\@6<=bar", {
+          flags: "g",
+          lookbehindLimit: "byte",
+        });
+        assertEquals(
+          "foo..\u00e9bar foobar".replace(regex, "X"),
+          "foo..\u00e9bar fooX",
+        );
+      });
+      it("does not limit lookbacks if the limit is 0.", () => {
+        const regex = new VimRegExp("\\(foo.*\\)\\@0<=bar", { lookbehindLimit: "byte" });
+        assertMatchResult("foo..........bar", regex, ["bar"]);
+      });
       it("throws error when use @123<= without preceding atom.", () => {
         assertThrows(
           () => new VimRegExp("\\v@123<="),
@@ -1173,6 +1562,19 @@ describe("Regular expression patterns in VimRegExp", () => {
           assertMatch("foobar", regex, "Matches in Vim");
         }, "Does not matches in VimRegExp");
       });
+      it("limits lookbacks in characters if 'lookbehindLimit' is 'char'.", () => {
+        const regex = new VimRegExp("\\(foo.*\\)\\@6<!bar", { lookbehindLimit: "char" });
+        assertNotMatch("foo...bar", regex);
+        assertMatchResult("foo....bar", regex, ["bar"]);
+        assertNotMatch("foo..\u00e9bar", regex);
+      });
+      it("limits lookbacks in bytes if 'lookbehindLimit' is 'byte'.", () => {
+        const regex = new VimRegExp("\\(foo.*\\)\\@6<!bar", { lookbehindLimit: "byte" });
+        assertNotMatch("foo...bar", regex);
+        assertMatchResult("foo....bar", regex, ["bar"]);
+        assertMatchResult("foo..\u00e9bar", regex, ["bar"]);
+        assertNotMatch("foo.\u00e9bar", regex);
+      });
       it("throws error when use @123<! without preceding atom.", () => {
         assertThrows(
           () => new VimRegExp("\\v@123<!"),
@@ -1229,20 +1631,44 @@ describe("Regular expression patterns in VimRegExp", () => {
       });
     });
     describe("\\@>", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
+      it("matches the preceding atom like matching a whole pattern.", () => {
+        const regex = new VimRegExp("\\(a*\\)\\@>a");
+        assertNotMatch("aaaa", regex, "'a*' takes all the 'a's");
+        const regex2 = new VimRegExp("\\(a*\\)\\@>b");
+        assertMatchResult("aaab", regex2, ["aaab", "aaa"]);
+      });
+      it("can be applied to an atom that is not a group.", () => {
+        const regex = new VimRegExp("x\\@>y");
+        assertMatchResult("xy", regex, ["xy"]);
+        assertNotMatch("x", regex);
+      });
+      it("does not change the numbering of sub-expressions.", () => {
+        const regex = new VimRegExp("\\(a\\)\\(b*\\)\\@>\\(c\\)\\2\\3");
+        assertMatchResult("abbcbbc", regex, ["abbcbbc", "a", "bb", "c"]);
+        assertNotMatch("abbcbc", regex);
+      });
+      it("returns sub-expressions with String.prototype.replace().", () => {
+        const regex = new VimRegExp("\\(\\d\\+\\)\\@>\\(px\\)", "g");
+        assertEquals("10px 20em 30px".replace(regex, "\\2\\1"), "px10 20em px30");
+      });
+      it("throws error when use @> without preceding atom.", () => {
         assertThrows(
-          () => new VimRegExp("\\(x*\\)\\@>y"),
-          UnsupportedSyntaxError,
-          ": \\@>",
+          () => new VimRegExp("\\v@>"),
+          VimRegExpSyntaxError,
+          "Nothing to repeat",
+        );
+      });
+      it("throws error when use \\@> without preceding atom.", () => {
+        assertThrows(
+          () => new VimRegExp("\\@>"),
+          VimRegExpSyntaxError,
+          "Nothing to repeat",
         );
       });
       describe("when 'very magic'", () => {
-        it("throws UnsupportedSyntaxError if not prefixed.", () => {
-          assertThrows(
-            () => new VimRegExp("\\vx@>"),
-            UnsupportedSyntaxError,
-            ": \\@>",
-          );
+        it("is quantifier if not prefixed.", () => {
+          const regex = new VimRegExp("\\vx@>");
+          assertMatchResult("xxxxxx", regex, ["x"]);
         });
         it("matches literal '@' if prefixed with '\\'.", () => {
           const regex = new VimRegExp("\\vx\\@>", { iskeyword: "@-@" });
@@ -1254,12 +1680,9 @@ describe("Regular expression patterns in VimRegExp", () => {
           const regex = new VimRegExp("\\mx@>");
           assertMatchResult("x@>", regex, ["x@>"]);
         });
-        it("throws UnsupportedSyntaxError if prefixed with '\\'.", () => {
-          assertThrows(
-            () => new VimRegExp("\\mx\\@>"),
-            UnsupportedSyntaxError,
-            ": \\@>",
-          );
+        it("is quantifier if prefixed with '\\'.", () => {
+          const regex = new VimRegExp("\\mx\\@>");
+          assertMatchResult("xxxxxx", regex, ["x"]);
         });
       });
       describe("when 'nomagic'", () => {
@@ -1267,12 +1690,9 @@ describe("Regular expression patterns in VimRegExp", () => {
           const regex = new VimRegExp("\\Mx@>");
           assertMatchResult("x@>", regex, ["x@>"]);
         });
-        it("throws UnsupportedSyntaxError if prefixed with '\\'.", () => {
-          assertThrows(
-            () => new VimRegExp("\\Mx\\@>"),
-            UnsupportedSyntaxError,
-            ": \\@>",
-          );
+        it("is quantifier if prefixed with '\\'.", () => {
+          const regex = new VimRegExp("\\Mx\\@>");
+          assertMatchResult("xxxxxx", regex, ["x"]);
         });
       });
       describe("when 'very nomagic'", () => {
@@ -1280,12 +1700,9 @@ describe("Regular expression patterns in VimRegExp", () => {
           const regex = new VimRegExp("\\Vx@>");
           assertMatchResult("x@>", regex, ["x@>"]);
         });
-        it("throws UnsupportedSyntaxError if prefixed with '\\'.", () => {
-          assertThrows(
-            () => new VimRegExp("\\Vx\\@>"),
-            UnsupportedSyntaxError,
-            ": \\@>",
-          );
+        it("is quantifier if prefixed with '\\'.", () => {
+          const regex = new VimRegExp("\\Vx\\@>");
+          assertMatchResult("xxxxxx", regex, ["x"]);
         });
       });
     });
@@ -2016,21 +2433,96 @@ describe("Regular expression patterns in VimRegExp", () => {
       });
     });
     describe("\\zs", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\zs"),
-          UnsupportedSyntaxError,
-          ": \\zs",
+      it("sets the start of the match.", () => {
+        const regex = new VimRegExp("foo\\zsbar");
+        assertMatchResult("foobar", regex, ["bar"]);
+        assertEquals(regex.exec("xfoobar")?.index, 4);
+        assertNotMatch("bar", regex);
+      });
+      it("uses the last one encountered if used multiple times.", () => {
+        const regex = new VimRegExp("\\(a\\zs\\)*b\\zsc");
+        assertMatchResult("aabc", regex, ["c", "a"]);
+        const regex2 = new VimRegExp("\\(a\\zs\\)*b");
+        assertMatchResult("aab", regex2, ["b", "a"]);
+      });
+      it("can be used in branches.", () => {
+        const regex = new VimRegExp("foo\\zsbar\\|baz\\zsqux\\|quux");
+        assertMatchResult("foobar", regex, ["bar"]);
+        assertMatchResult("bazqux", regex, ["qux"]);
+        assertMatchResult("quux", regex, ["quux"]);
+      });
+      it("does not change the numbering of sub-expressions.", () => {
+        const regex = new VimRegExp("\\(a\\)\\zs\\(b\\)\\1\\2");
+        assertMatchResult("abab", regex, ["bab", "a", "b"]);
+        assertNotMatch("abba", regex);
+      });
+      it("does not expose the internal 'd' flag.", () => {
+        const regex = new VimRegExp("foo\\zsbar", "g");
+        assertEquals(regex.flags, "gsv");
+        assertFalse(regex.hasIndices);
+        assertEquals(regex.exec("foobar")?.indices, undefined);
+      });
+      it("returns the indices of the match if the 'd' flag is specified.", () => {
+        const regex = new VimRegExp("f\\(o\\)o\\zsbar", "d");
+        assert(regex.hasIndices);
+        const match = regex.exec("foobar")!;
+        assertEquals(match.indices?.slice(), [[3, 6], [1, 2]]);
+      });
+      it("sets 'lastIndex' to the end of the match if the 'g' flag is specified.", () => {
+        const regex = new VimRegExp("a\\zsb", "g");
+        assertEquals(regex.exec("abab")?.index, 1);
+        assertEquals(regex.lastIndex, 2);
+        assertEquals(regex.exec("abab")?.index, 3);
+        assertEquals(regex.lastIndex, 4);
+        assertEquals(regex.exec("abab"), null);
+        assertEquals(regex.lastIndex, 0);
+      });
+      it("works with String.prototype.match().", () => {
+        const regex = new VimRegExp("\\d\\zs[a-z]", "g");
+        assertEquals("1a2b3c".match(regex), ["a", "b", "c"]);
+      });
+      it("works with String.prototype.matchAll().", () => {
+        const regex = new VimRegExp("\\(\\d\\)\\zs[a-z]", "g");
+        assertEquals(
+          [..."1a2b3c".matchAll(regex)].map((m) => [m.index, ...m]),
+          [[1, "a", "1"], [3, "b", "2"], [5, "c", "3"]],
         );
       });
+      it("works with String.prototype.replace().", () => {
+        const regex = new VimRegExp("\\(\\d\\)\\zs[a-z]", "g");
+        assertEquals("1a2b3c".replace(regex, "<\\1>"), "1<1>2<2>3<3>");
+      });
     });
     describe("\\ze", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\ze"),
-          UnsupportedSyntaxError,
-          ": \\ze",
-        );
+      it("sets the end of the match.", () => {
+        const regex = new VimRegExp("foo\\zebar");
+        assertMatchResult("foobar", regex, ["foo"]);
+        assertNotMatch("foo", regex);
+      });
+      it("can be used with '\\zs'.", () => {
+        const regex = new VimRegExp("foo\\zsbar\\zebaz");
+        assertMatchResult("foobarbaz", regex, ["bar"]);
+        assertEquals(regex.exec("foobarbaz")?.index, 3);
+      });
+      it("uses the last one encountered if used multiple times.", () => {
+        const regex = new VimRegExp("a\\zeb\\zec");
+        assertMatchResult("abc", regex, ["ab"]);
+      });
+      it("can be used in branches.", () => {
+        const regex = new VimRegExp("foo\\zebar\\|baz\\zequx");
+        assertMatchResult("foobar", regex, ["foo"]);
+        assertMatchResult("bazqux", regex, ["baz"]);
+      });
+      it("sets 'lastIndex' to the end of the match if the 'g' flag is specified.", () => {
+        const regex = new VimRegExp("a\\zeb", "g");
+        assertEquals(regex.exec("abab")?.index, 0);
+        assertEquals(regex.lastIndex, 1);
+        assertEquals(regex.exec("abab")?.index, 2);
+        assertEquals(regex.lastIndex, 3);
+      });
+      it("works with String.prototype.replace().", () => {
+        const regex = new VimRegExp("\\d\\ze[a-z]", "g");
+        assertEquals("1a2b3".replace(regex, "#"), "#a#b3");
       });
     });
     describe("\\%^", () => {
@@ -2208,210 +2700,317 @@ describe("Regular expression patterns in VimRegExp", () => {
   });
   describe("Vim buffer dependent atoms", () => {
     describe("\\%V", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%V"),
-          UnsupportedSyntaxError,
-          ": \\%V",
-        );
+      it("matches inside the characterwise Visual area.", () => {
+        const regex = new VimRegExp("\\%V.", {
+          flags: "g",
+          visual: { mode: "v", start: { lnum: 1, col: 3 }, end: { lnum: 2, col: 2 } },
+        });
+        assertEquals("abcd\nefgh".match(regex), ["c", "d", "e", "f"]);
+      });
+      it("matches inside the linewise Visual area.", () => {
+        const regex = new VimRegExp("\\%V.", {
+          flags: "g",
+          visual: { mode: "V", start: { lnum: 2, col: 3 }, end: { lnum: 2, col: 2 } },
+        });
+        assertEquals("abc\ndef\nghi".match(regex), ["d", "e", "f"]);
+      });
+      it("matches inside the blockwise Visual area.", () => {
+        const regex = new VimRegExp("\\%V.", {
+          flags: "g",
+          visual: { mode: "\x16", start: { lnum: 3, col: 2 }, end: { lnum: 1, col: 3 } },
+        });
+        assertEquals("abcd\nefgh\nijkl".match(regex), ["b", "c", "f", "g", "j", "k"]);
+      });
+      it("matches virtual columns in the blockwise Visual area.", () => {
+        const regex = new VimRegExp("\\%V.", {
+          flags: "g",
+          visual: { mode: "\x16", start: { lnum: 1, col: 2 }, end: { lnum: 2, col: 9 } },
+        });
+        assertEquals("a\tbc\n12345678\u3042".match(regex), [
+          "\t",
+          "b",
+          "c",
+          "2",
+          "3",
+          "4",
+          "5",
+          "6",
+          "7",
+          "8",
+          "\u3042",
+        ]);
+      });
+      it("matches until the end of lines if the column is Infinity.", () => {
+        const regex = new VimRegExp("\\%V.", {
+          flags: "g",
+          visual: { mode: "\x16", start: { lnum: 1, col: 3 }, end: { lnum: 2, col: Infinity } },
+        });
+        assertEquals("abcd\nefghij".match(regex), ["c", "d", "g", "h", "i", "j"]);
+      });
+      it("does not match if 'visual' is null.", () => {
+        const regex = new VimRegExp("\\%V.");
+        assertNotMatch("abc", regex);
+      });
+      it("does not match if 'stringMatch' is true. (Same as Vim)", () => {
+        const regex = new VimRegExp("\\%V.", {
+          stringMatch: true,
+          visual: { mode: "V", start: { lnum: 1, col: 1 }, end: { lnum: 1, col: 1 } },
+        });
+        assertNotMatch("abc", regex);
       });
     });
     describe("\\%#", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%#"),
-          UnsupportedSyntaxError,
-          ": \\%#",
-        );
+      it("matches with the cursor position.", () => {
+        const regex = new VimRegExp("\\%#.", { cursor: { lnum: 2, col: 2 } });
+        assertMatchResult("abc\ndef", regex, ["e"]);
+      });
+      it("matches with the cursor position from 'firstLine' option.", () => {
+        const regex = new VimRegExp("\\%#.", { cursor: { lnum: 2, col: 2 }, firstLine: 2 });
+        assertMatchResult("abc\ndef", regex, ["b"]);
+      });
+      it("does not match if 'stringMatch' is true. (Same as Vim)", () => {
+        const regex = new VimRegExp("\\%#.", { stringMatch: true });
+        assertNotMatch("abc", regex);
       });
     });
     describe("\\%'m", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%'m"),
-          UnsupportedSyntaxError,
-          ": \\%'m",
-        );
+      it("matches with the mark position.", () => {
+        const regex = new VimRegExp("\\%'m.", { marks: { m: { lnum: 2, col: 2 } } });
+        assertMatchResult("abc\ndef", regex, ["e"]);
+      });
+      it("matches with the mark position in bytes.", () => {
+        const regex = new VimRegExp("\\%'a.", { marks: { a: { lnum: 1, col: 3 } } });
+        assertMatchResult("\u00e9bc", regex, ["b"]);
+      });
+      it("matches at the end of line if the column is Infinity.", () => {
+        const regex = new VimRegExp("\\%'>", { marks: { ">": { lnum: 1, col: Infinity } } });
+        assertEquals(regex.exec("abc\ndef")?.index, 3);
+      });
+      it("does not match if the mark is not set.", () => {
+        const regex = new VimRegExp("\\%'m.", { marks: { a: { lnum: 1, col: 1 } } });
+        assertNotMatch("abc", regex);
+        assertNotMatch("abc", new VimRegExp("\\%'m."));
       });
     });
     describe("\\%<'m", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%<'m"),
-          UnsupportedSyntaxError,
-          ": \\%<'m",
-        );
+      it("matches before the mark position.", () => {
+        const regex = new VimRegExp("\\%<'m.", { flags: "g", marks: { m: { lnum: 2, col: 2 } } });
+        assertEquals("abc\ndef\nghi".match(regex), ["a", "b", "c", "d"]);
       });
     });
     describe("\\%>'m", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%>'m"),
-          UnsupportedSyntaxError,
-          ": \\%>'m",
-        );
+      it("matches after the mark position.", () => {
+        const regex = new VimRegExp("\\%>'m.", { flags: "g", marks: { m: { lnum: 2, col: 2 } } });
+        assertEquals("abc\ndef\nghi".match(regex), ["f", "g", "h", "i"]);
+      });
+      it("can be used with other mark atoms.", () => {
+        const regex = new VimRegExp("\\%>'a\\_.*\\%<'b", {
+          marks: { a: { lnum: 1, col: 1 }, b: { lnum: 2, col: 3 } },
+        });
+        assertMatchResult("foo\nbar", regex, ["oo\nb"]);
       });
     });
     describe("\\%23l", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%23l"),
-          UnsupportedSyntaxError,
-          ": \\%23l",
-        );
+      it("matches in a specific line.", () => {
+        const regex = new VimRegExp("\\%2l.", "g");
+        assertEquals("ab\ncd\nef".match(regex), ["c", "d"]);
+      });
+      it("matches lines from 'firstLine' option.", () => {
+        const regex = new VimRegExp("\\%11l.", { flags: "g", firstLine: 10 });
+        assertEquals("ab\ncd\nef".match(regex), ["c", "d"]);
+      });
+      it("matches in a line after the matched newline.", () => {
+        const regex = new VimRegExp("b\\n\\%2lc");
+        assertMatchResult("ab\ncd", regex, ["b\nc"]);
+        assertNotMatch("ab\nc\nb\nc", new VimRegExp("b\\n\\%2l\\%3lc"));
+      });
+      it("does not match line 0.", () => {
+        const regex = new VimRegExp("\\%0l.");
+        assertNotMatch("ab\ncd", regex);
+      });
+      it("does not match if 'stringMatch' is true. (Same as Vim)", () => {
+        const regex = new VimRegExp("\\%1l.", { stringMatch: true });
+        assertNotMatch("ab\ncd", regex);
+      });
+      it("tries other alternatives if the line does not match.", () => {
+        const regex = new VimRegExp("\\%2l.\\|b", "g");
+        assertEquals("ab\ncd".match(regex), ["b", "c", "d"]);
       });
     });
     describe("\\%<23l", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%<23l"),
-          UnsupportedSyntaxError,
-          ": \\%<23l",
-        );
+      it("matches above a specific line.", () => {
+        const regex = new VimRegExp("\\%<3l.", "g");
+        assertEquals("ab\ncd\nef".match(regex), ["a", "b", "c", "d"]);
+      });
+      it("does not match above line 1.", () => {
+        const regex = new VimRegExp("\\%<1l.");
+        assertNotMatch("ab\ncd", regex);
       });
     });
     describe("\\%>23l", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%>23l"),
-          UnsupportedSyntaxError,
-          ": \\%>23l",
-        );
+      it("matches below a specific line.", () => {
+        const regex = new VimRegExp("\\%>1l.", "g");
+        assertEquals("ab\ncd\nef".match(regex), ["c", "d", "e", "f"]);
+      });
+      it("matches lines from 'firstLine' option.", () => {
+        const regex = new VimRegExp("\\%>11l.", { flags: "g", firstLine: 10 });
+        assertEquals("ab\ncd\nef".match(regex), ["e", "f"]);
+      });
+      it("is resolved for each line of a long text.", () => {
+        const regex = new VimRegExp("\\%>995l\\d\\+", { flags: "g", firstLine: 3 });
+        const text = Array.from({ length: 1000 }, (_, i) => `${i + 3}`).join("\n");
+        assertEquals(text.match(regex), ["996", "997", "998", "999", "1000", "1001", "1002"]);
       });
     });
     describe("\\%.l", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
+      it("matches in the cursor line.", () => {
+        const regex = new VimRegExp("\\%.l.", { flags: "g", cursor: { lnum: 2, col: 1 } });
+        assertEquals("ab\ncd\nef".match(regex), ["c", "d"]);
+      });
+      it("throws error if a number follows '.'.", () => {
         assertThrows(
-          () => new VimRegExp("\\%.l"),
-          UnsupportedSyntaxError,
-          ": \\%.l",
+          () => new VimRegExp("\\%.2l"),
+          VimRegExpSyntaxError,
+          "No number allowed after '.': \\%.2l",
         );
       });
     });
     describe("\\%<.l", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%<.l"),
-          UnsupportedSyntaxError,
-          ": \\%<.l",
-        );
+      it("matches above the cursor line.", () => {
+        const regex = new VimRegExp("\\%<.l.", { flags: "g", cursor: { lnum: 2, col: 1 } });
+        assertEquals("ab\ncd\nef".match(regex), ["a", "b"]);
       });
     });
     describe("\\%>.l", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%>.l"),
-          UnsupportedSyntaxError,
-          ": \\%>.l",
-        );
+      it("matches below the cursor line.", () => {
+        const regex = new VimRegExp("\\%>.l.", { flags: "g", cursor: { lnum: 2, col: 1 } });
+        assertEquals("ab\ncd\nef".match(regex), ["e", "f"]);
       });
     });
     describe("\\%23c", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
+      it("matches in a specific column.", () => {
+        const regex = new VimRegExp("\\%2c.", "g");
+        assertEquals("abc\ndef".match(regex), ["b", "e"]);
+      });
+      it("counts the column in bytes.", () => {
+        const regex = new VimRegExp("\\%3c.", "g");
+        assertEquals("abc\n\u00e9f\n\u3042b".match(regex), ["c", "f"]);
+        assertMatchResult("\u3042b", new VimRegExp("\\%4c."), ["b"]);
+      });
+      it("matches at the end of line.", () => {
+        const regex = new VimRegExp("\\%3c$", "g");
+        assertEquals([..."ab\nc\n\u00e9".matchAll(regex)].map((m) => m.index), [2, 6]);
+      });
+      it("counts the column from the start of string if 'stringMatch' is true.", () => {
+        const regex = new VimRegExp("\\%4c.", { stringMatch: true });
+        assertMatchResult("ab\ncd", regex, ["c"]);
+      });
+      it("throws error if a number follows '.'.", () => {
         assertThrows(
-          () => new VimRegExp("\\%23c"),
-          UnsupportedSyntaxError,
-          ": \\%23c",
+          () => new VimRegExp("\\%.2c"),
+          VimRegExpSyntaxError,
+          "No number allowed after '.': \\%.2c",
         );
       });
     });
     describe("\\%<23c", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%<23c"),
-          UnsupportedSyntaxError,
-          ": \\%<23c",
-        );
+      it("matches before a specific column.", () => {
+        const regex = new VimRegExp("\\%<3c.", "g");
+        assertEquals("abc\n\u00e9fg".match(regex), ["a", "b", "\u00e9"]);
       });
     });
     describe("\\%>23c", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%>23c"),
-          UnsupportedSyntaxError,
-          ": \\%>23c",
-        );
+      it("matches after a specific column.", () => {
+        const regex = new VimRegExp("\\%>2c.", "g");
+        assertEquals("abc\n\u00e9fg".match(regex), ["c", "f", "g"]);
       });
     });
     describe("\\%.c", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%.c"),
-          UnsupportedSyntaxError,
-          ": \\%.c",
-        );
+      it("matches in the cursor column.", () => {
+        const regex = new VimRegExp("\\%.c.", { flags: "g", cursor: { lnum: 1, col: 2 } });
+        assertEquals("abc\ndef".match(regex), ["b", "e"]);
       });
     });
     describe("\\%<.c", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%<.c"),
-          UnsupportedSyntaxError,
-          ": \\%<.c",
-        );
+      it("matches before the cursor column.", () => {
+        const regex = new VimRegExp("\\%<.c.", { flags: "g", cursor: { lnum: 1, col: 2 } });
+        assertEquals("abc\ndef".match(regex), ["a", "d"]);
       });
     });
     describe("\\%>.c", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%>.c"),
-          UnsupportedSyntaxError,
-          ": \\%>.c",
-        );
+      it("matches after the cursor column.", () => {
+        const regex = new VimRegExp("\\%>.c.", { flags: "g", cursor: { lnum: 1, col: 2 } });
+        assertEquals("abc\ndef".match(regex), ["c", "f"]);
       });
     });
     describe("\\%23v", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
+      it("matches in a specific virtual column.", () => {
+        const regex = new VimRegExp("\\%2v.", "g");
+        assertEquals("abc\n\u00e9fg".match(regex), ["b", "f"]);
+      });
+      it("counts double-width characters as 2 columns.", () => {
+        const regex = new VimRegExp("\\%3v.", "g");
+        assertEquals("\u3042bc\nabc".match(regex), ["b", "c"]);
+      });
+      it("counts <Tab> up to the next tabstop.", () => {
+        const regex = new VimRegExp("\\%9v.", "g");
+        assertEquals("a\tb\n\tc\n12345678d".match(regex), ["b", "c", "d"]);
+      });
+      it("uses 'tabstop' option.", () => {
+        const regex = new VimRegExp("\\%5v.", { flags: "g", tabstop: 4 });
+        assertEquals("a\tb\n\tc\n1234d".match(regex), ["b", "c", "d"]);
+      });
+      it("throws error if 'tabstop' option is invalid.", () => {
         assertThrows(
-          () => new VimRegExp("\\%23v"),
-          UnsupportedSyntaxError,
-          ": \\%23v",
+          () => new VimRegExp("\\%5v.", { tabstop: 0 }),
+          VimRegExpSyntaxError,
+          "Invalid tabstop",
         );
       });
     });
     describe("\\%<23v", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%<23v"),
-          UnsupportedSyntaxError,
-          ": \\%<23v",
-        );
+      it("matches before a specific virtual column.", () => {
+        const regex = new VimRegExp("\\%<3v.", "g");
+        assertEquals("\u3042bc\nabc".match(regex), ["\u3042", "a", "b"]);
       });
     });
     describe("\\%>23v", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%>23v"),
-          UnsupportedSyntaxError,
-          ": \\%>23v",
+      it("matches after a specific virtual column.", () => {
+        const regex = new VimRegExp("\\%>8v.", "g");
+        assertEquals("a\tbc".match(regex), ["b", "c"]);
+      });
+      it("is resolved for each line of a long text.", () => {
+        const lines = Array.from({ length: 1000 }, (_, i) => "\u00e9a".repeat(i % 20));
+        const regex = new VimRegExp("\\%>30v.", "g");
+        assertEquals(
+          lines.join("\n").match(regex)?.length,
+          lines.reduce((n, line) => n + Math.max(line.length - 30, 0), 0),
         );
       });
+      it("is resolved for the lines that the pattern can reach.", () => {
+        const regex = new VimRegExp("\\%>2v.\\n\\%<2v.", "g");
+        assertEquals("\u00e9\u00e9\u00e9\na\n\u00e9\u00e9\nb\nab\u00e9\nc".match(regex), [
+          "\u00e9\na",
+          "\u00e9\nc",
+        ]);
+      });
     });
     describe("\\%.v", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%.v"),
-          UnsupportedSyntaxError,
-          ": \\%.v",
-        );
+      it("matches in the cursor virtual column.", () => {
+        const regex = new VimRegExp("\\%.v.", { flags: "g", cursor: { lnum: 2, col: 4 } });
+        assertEquals("abcd\n\u00e9cd".match(regex), ["c", "d"]);
       });
     });
     describe("\\%<.v", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%<.v"),
-          UnsupportedSyntaxError,
-          ": \\%<.v",
-        );
+      it("matches before the cursor virtual column.", () => {
+        const regex = new VimRegExp("\\%<.v.", { flags: "g", cursor: { lnum: 2, col: 4 } });
+        assertEquals("abcd\n\u00e9cd".match(regex), ["a", "b", "\u00e9", "c"]);
       });
     });
     describe("\\%>.v", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%>.v"),
-          UnsupportedSyntaxError,
-          ": \\%>.v",
-        );
+      it("matches after the cursor virtual column.", () => {
+        const regex = new VimRegExp("\\%>.v.", { flags: "g", cursor: { lnum: 2, col: 4 } });
+        assertEquals("abcd\n\u00e9cd".match(regex), ["d"]);
       });
     });
   });
@@ -4767,67 +5366,84 @@ describe("Regular expression patterns in VimRegExp", () => {
   });
   describe("Replaced string", () => {
     describe("~", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
+      const session = new VimSearchSession();
+      session.setLastSubstituteString("a.c");
+      it("matches the last substitute string literally.", () => {
+        const regex = new VimRegExp("x~", { session });
+        assertMatchResult("xa.c", regex, ["xa.c"]);
+        assertNotMatch("xabc", regex);
+      });
+      it("is repeated as a whole by multi.", () => {
+        const regex = new VimRegExp("^~*$", { session });
+        assertMatchResult("a.ca.c", regex, ["a.ca.c"]);
+        assertNotMatch("a.cc", regex);
+      });
+      it("matches the empty string if the last substitute string is empty.", () => {
+        const empty = new VimSearchSession();
+        empty.setLastSubstituteString("");
+        const regex = new VimRegExp("x~y", { session: empty });
+        assertMatchResult("xy", regex, ["xy"]);
+      });
+      it("ignores case if 'ignorecase' is on.", () => {
+        const regex = new VimRegExp("\\c~", { session });
+        assertMatchResult("A.C", regex, ["A.C"]);
+      });
+      it("throws VimRegExpSyntaxError if the last substitute string is not set.", () => {
+        assertThrows(
+          () => new VimRegExp("~", { session: new VimSearchSession() }),
+          VimRegExpSyntaxError,
+          "No previous substitute regular expression",
+        );
+      });
+      it("throws VimRegExpSyntaxError if the session is not specified.", () => {
         assertThrows(
           () => new VimRegExp("~"),
-          UnsupportedSyntaxError,
-          ": ~",
+          VimRegExpSyntaxError,
+          "No previous substitute regular expression",
         );
       });
       it("matches literal '~' when use \\~.", () => {
-        const regex = new VimRegExp("\\~");
+        const regex = new VimRegExp("\\~", { session });
         assertMatchResult("~", regex, ["~"]);
       });
       describe("when 'very magic'", () => {
-        it("throws UnsupportedSyntaxError if not prefixed.", () => {
-          assertThrows(
-            () => new VimRegExp("\\v~"),
-            UnsupportedSyntaxError,
-            ": ~",
-          );
+        it("matches the last substitute string if not prefixed.", () => {
+          const regex = new VimRegExp("\\v~", { session });
+          assertMatchResult("a.c", regex, ["a.c"]);
         });
         it("matches literal '~' if prefixed with '\\'.", () => {
-          const regex = new VimRegExp("\\v\\~");
+          const regex = new VimRegExp("\\v\\~", { session });
           assertMatchResult("~", regex, ["~"]);
         });
       });
       describe("when 'magic'", () => {
-        it("throws UnsupportedSyntaxError if not prefixed.", () => {
-          assertThrows(
-            () => new VimRegExp("\\m~"),
-            UnsupportedSyntaxError,
-            ": ~",
-          );
+        it("matches the last substitute string if not prefixed.", () => {
+          const regex = new VimRegExp("\\m~", { session });
+          assertMatchResult("a.c", regex, ["a.c"]);
         });
         it("matches literal '~' if prefixed with '\\'.", () => {
-          const regex = new VimRegExp("\\m\\~");
+          const regex = new VimRegExp("\\m\\~", { session });
           assertMatchResult("~", regex, ["~"]);
         });
       });
       describe("when 'nomagic'", () => {
         it("matches literal '~' if not prefixed.", () => {
-          const regex = new VimRegExp("\\M~");
+          const regex = new VimRegExp("\\M~", { session });
           assertMatchResult("~", regex, ["~"]);
         });
-        it("throws UnsupportedSyntaxError if prefixed with '\\'.", () => {
-          assertThrows(
-            () => new VimRegExp("\\M\\~"),
-            UnsupportedSyntaxError,
-            ": ~",
-          );
+        it("matches the last substitute string if prefixed with '\\'.", () => {
+          const regex = new VimRegExp("\\M\\~", { session });
+          assertMatchResult("a.c", regex, ["a.c"]);
         });
       });
       describe("when 'very nomagic'", () => {
         it("matches literal '~' if not prefixed.", () => {
-          const regex = new VimRegExp("\\V~");
+          const regex = new VimRegExp("\\V~", { session });
           assertMatchResult("~", regex, ["~"]);
         });
-        it("throws UnsupportedSyntaxError if prefixed with '\\'.", () => {
-          assertThrows(
-            () => new VimRegExp("\\V\\~"),
-            UnsupportedSyntaxError,
-            ": ~",
-          );
+        it("matches the last substitute string if prefixed with '\\'.", () => {
+          const regex = new VimRegExp("\\V\\~", { session });
+          assertMatchResult("a.c", regex, ["a.c"]);
         });
       });
     });
@@ -4853,6 +5469,13 @@ describe("Regular expression patterns in VimRegExp", () => {
           ":10: Unmatched '\\)'",
         );
       });
+      it("throws error if '\\(' is not closed.", () => {
+        assertThrows(
+          () => new VimRegExp("bar\\(foo"),
+          VimRegExpSyntaxError,
+          ":3: Unmatched '\\('",
+        );
+      });
       describe("when 'very magic'", () => {
         it("encloses a pattern if not prefixed.", () => {
           const regex = new VimRegExp("\\v(foo)");
@@ -5809,21 +6432,71 @@ describe("Regular expression patterns in VimRegExp", () => {
         });
       });
       describe("[=a=]", () => {
-        it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-          assertThrows(
-            () => new VimRegExp("[[=a=]]"),
-            UnsupportedSyntaxError,
-            ": [[=a=]]",
-          );
+        it("matches characters in the equivalence class.", () => {
+          const regex = new VimRegExp("^[[=e=]]$");
+          const equivalents = "e\u00e8\u00e9\u00ea\u00eb\u0113\u0115\u0117\u0119\u011b" +
+            "\u0205\u0207\u0229\u0247\u1e15\u1e17\u1e19\u1e1b\u1e1d\u1eb9\u1ebb\u1ebd" +
+            "\u1ebf\u1ec1\u1ec3\u1ec5\u1ec7";
+          for (const c of equivalents) {
+            assertMatch(c, regex);
+          }
+          assertNotMatch("E", regex);
+          assertNotMatch("\u00c9", regex, "Latin Capital Letter E With Acute");
+          assertNotMatch("a", regex);
+        });
+        it("matches same characters from any character in the class.", () => {
+          const regex1 = new VimRegExp("^[[=\u00e9=]]\\+$");
+          const regex2 = new VimRegExp("^[[=\u1ec7=]]\\+$");
+          assertMatch("e\u00e8\u00e9\u1ec7", regex1);
+          assertMatch("e\u00e8\u00e9\u1ec7", regex2);
+        });
+        it("matches uppercase letters in the equivalence class.", () => {
+          const regex = new VimRegExp("^[[=O=]]$");
+          assertMatch("O", regex);
+          assertMatch("\u00d8", regex, "Latin Capital Letter O With Stroke");
+          assertMatch("\u01ea", regex, "Latin Capital Letter O With Ogonek");
+          assertNotMatch("o", regex);
+        });
+        it("matches the character itself if it has no equivalence class.", () => {
+          const regex = new VimRegExp("^[[=-=][=]=][=^=][=\\=]x]\\+$");
+          assertMatch("-]^\\x", regex);
+          assertNotMatch("a", regex);
+        });
+        it("can be combined with other items.", () => {
+          const regex = new VimRegExp("^[^[=a=]0-9]$");
+          assertNotMatch("\u00e4", regex);
+          assertNotMatch("5", regex);
+          assertMatch("b", regex);
         });
       });
       describe("[.a.]", () => {
-        it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-          assertThrows(
-            () => new VimRegExp("[[.a.]]"),
-            UnsupportedSyntaxError,
-            ": [[.a.]]",
-          );
+        it("matches the single character.", () => {
+          const regex = new VimRegExp("^[[.a.]]$");
+          assertMatch("a", regex);
+          assertNotMatch("b", regex);
+          assertNotMatch("[.a.]", regex);
+        });
+        it("matches special characters in collection.", () => {
+          const regex = new VimRegExp("^[[.-.][.].][.^.][.\\.]]\\+$");
+          assertMatch("-]^\\", regex);
+          assertNotMatch("a", regex);
+        });
+        it("matches '^' at the beginning of the collection.", () => {
+          const regex = new VimRegExp("^[[.^.]x]$");
+          assertMatch("^", regex);
+          assertMatch("x", regex);
+          assertNotMatch("a", regex);
+        });
+        it("can be combined with other items.", () => {
+          const regex = new VimRegExp("^[^[.-.]0-9]$");
+          assertNotMatch("-", regex);
+          assertNotMatch("5", regex);
+          assertMatch("a", regex);
+        });
+        it("matches a non-BMP character.", () => {
+          const regex = new VimRegExp("^[[.\u{1f600}.]]$");
+          assertMatch("\u{1f600}", regex);
+          assertNotMatch("\ud83d", regex);
         });
       });
       describe("\\e", () => {
@@ -5957,20 +6630,90 @@ describe("Regular expression patterns in VimRegExp", () => {
   });
   describe("Optionally matched atom sequence", () => {
     describe("\\%[]", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
+      it("matches as much of the list of atoms it contains as possible.", () => {
+        const regex = new VimRegExp("^r\\%[ead]$");
+        assertMatch("r", regex);
+        assertMatch("re", regex);
+        assertMatch("rea", regex);
+        assertMatch("read", regex);
+        assertNotMatch("ra", regex);
+        assertNotMatch("reads", regex);
+      });
+      it("matches as many as possible.", () => {
+        const regex = new VimRegExp("fu\\%[nction]");
+        assertMatchResult("function", regex, ["function"]);
+        assertMatchResult("func", regex, ["func"]);
+        assertMatchResult("fuction", regex, ["fu"]);
+      });
+      it("can contain collections.", () => {
+        const regex = new VimRegExp("^x\\%[[abc]d]$");
+        assertMatch("x", regex);
+        assertMatch("xa", regex);
+        assertMatch("xbd", regex);
+        assertNotMatch("xd", regex);
+        const regex2 = new VimRegExp("^\\%[[abc]]$");
+        assertMatch("c", regex2);
+        assertMatch("", regex2);
+        assertNotMatch("[", regex2);
+      });
+      it("can contain character classes and escaped characters.", () => {
+        const regex = new VimRegExp("^a\\%[\\d\\t.]$");
+        assertMatch("a1", regex);
+        assertMatch("a1\tx", regex);
+        assertNotMatch("a\t", regex);
+      });
+      it("can be followed by other atoms.", () => {
+        const regex = new VimRegExp("^ab\\%[cd]ef$");
+        assertMatch("abef", regex);
+        assertMatch("abcef", regex);
+        assertMatch("abcdef", regex);
+        assertNotMatch("abdef", regex);
+      });
+      it("throws error if it is empty.", () => {
         assertThrows(
-          () => new VimRegExp("\\%[foo]"),
-          UnsupportedSyntaxError,
-          ": \\%[]",
+          () => new VimRegExp("foo\\%[]"),
+          VimRegExpSyntaxError,
+          ":3: Empty '\\%[]'",
         );
       });
-      describe("when 'very magic'", () => {
-        it("throws UnsupportedSyntaxError if not prefixed.", () => {
+      it("throws error if ']' is missing.", () => {
+        assertThrows(
+          () => new VimRegExp("foo\\%[bar"),
+          VimRegExpSyntaxError,
+          ":3: Missing ']' after '\\%['",
+        );
+        assertThrows(
+          () => new VimRegExp("foo\\%[[bar]"),
+          VimRegExpSyntaxError,
+          ":3: Missing ']' after '\\%['",
+        );
+      });
+      it("throws error if it contains multi.", () => {
+        assertThrows(
+          () => new VimRegExp("foo\\%[ba*r]"),
+          VimRegExpSyntaxError,
+          "Invalid item in '\\%[]': *",
+        );
+        assertThrows(
+          () => new VimRegExp("foo\\%[ba\\{2}r]"),
+          VimRegExpSyntaxError,
+          "Invalid item in '\\%[]': \\{",
+        );
+      });
+      it("throws error if it contains groups or branches.", () => {
+        for (const item of ["\\(a\\)", "\\%(a\\)", "a\\|b", "a\\&b", "\\%[a]"]) {
           assertThrows(
-            () => new VimRegExp("\\v%[foo]"),
-            UnsupportedSyntaxError,
-            ": \\%[]",
+            () => new VimRegExp(`foo\\%[${item}]`),
+            VimRegExpSyntaxError,
+            "Invalid item in '\\%[]'",
           );
+        }
+      });
+      describe("when 'very magic'", () => {
+        it("matches optional sequence if not prefixed.", () => {
+          const regex = new VimRegExp("\\v^x%[foo]$");
+          assertMatch("xf", regex);
+          assertMatch("xfoo", regex);
         });
         it("matches literal '%' if prefixed with '\\'.", () => {
           const regex = new VimRegExp("\\v\\%[foo]");
@@ -5984,12 +6727,10 @@ describe("Regular expression patterns in VimRegExp", () => {
           assertMatch("%f", regex);
           assertMatch("%o", regex);
         });
-        it("throws UnsupportedSyntaxError if prefixed with '\\'.", () => {
-          assertThrows(
-            () => new VimRegExp("\\m\\%[foo]"),
-            UnsupportedSyntaxError,
-            ": \\%[]",
-          );
+        it("matches optional sequence if prefixed with '\\'.", () => {
+          const regex = new VimRegExp("\\m^x\\%[foo]$");
+          assertMatch("xf", regex);
+          assertMatch("xfoo", regex);
         });
       });
       describe("when 'nomagic'", () => {
@@ -5997,12 +6738,10 @@ describe("Regular expression patterns in VimRegExp", () => {
           const regex = new VimRegExp("\\M%[foo]");
           assertMatchResult("%[foo]", regex, ["%[foo]"]);
         });
-        it("throws UnsupportedSyntaxError if prefixed with '\\'.", () => {
-          assertThrows(
-            () => new VimRegExp("\\M\\%[foo]"),
-            UnsupportedSyntaxError,
-            ": \\%[]",
-          );
+        it("matches optional sequence if prefixed with '\\'.", () => {
+          const regex = new VimRegExp("\\M^x\\%[foo]$");
+          assertMatch("xf", regex);
+          assertMatch("xfoo", regex);
         });
       });
       describe("when 'very nomagic'", () => {
@@ -6010,12 +6749,10 @@ describe("Regular expression patterns in VimRegExp", () => {
           const regex = new VimRegExp("\\V%[foo]");
           assertMatchResult("%[foo]", regex, ["%[foo]"]);
         });
-        it("throws UnsupportedSyntaxError if prefixed with '\\'.", () => {
-          assertThrows(
-            () => new VimRegExp("\\V\\%[foo]"),
-            UnsupportedSyntaxError,
-            ": \\%[]",
-          );
+        it("matches optional sequence if prefixed with '\\'.", () => {
+          const regex = new VimRegExp("\\Vx\\%[foo]");
+          assertMatchResult("xf", regex, ["xf"]);
+          assertMatchResult("xfoo", regex, ["xfoo"]);
         });
       });
     });
@@ -6306,21 +7043,53 @@ describe("Regular expression patterns in VimRegExp", () => {
   });
   describe("Composing characters", () => {
     describe("\\Z", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\Z"),
-          UnsupportedSyntaxError,
-          ": \\Z",
-        );
+      it("should ignore combining characters in the text.", () => {
+        const regex = new VimRegExp("\\Zcafe");
+        assertMatchResult("cafe\u0301", regex, ["cafe\u0301"]);
+      });
+      it("should ignore combining characters in the pattern.", () => {
+        const regex = new VimRegExp("\\Zcafe\u0301");
+        assertMatchResult("cafe", regex, ["cafe"]);
+      });
+      it("should match NFC and NFD text the same way.", () => {
+        const regex = new VimRegExp("\\Zcaf\u00e9");
+        assertMatchResult("caf\u00e9", regex, ["caf\u00e9"]);
+        assertMatchResult("cafe\u0301", regex, ["cafe\u0301"]);
+        assertMatchResult("cafe\u0300", regex, ["cafe\u0300"]);
+      });
+      it("should apply to the whole pattern even if it appears at the end.", () => {
+        const regex = new VimRegExp("a.b\\Z");
+        assertMatchResult("a\u0300xb\u0301", regex, ["a\u0300xb\u0301"]);
+      });
+      it("should apply to collections and character classes.", () => {
+        const regex = new VimRegExp("\\Z[a-c]\\+\\d");
+        assertMatchResult("a\u0300b\u03011\u0302", regex, ["a\u0300b\u03011\u0302"]);
+      });
+      it("should not match combining characters alone.", () => {
+        const regex = new VimRegExp("\\Z^\u0301$");
+        assertMatchResult("", regex, [""]);
+      });
+      it("should not match without \\Z.", () => {
+        const regex = new VimRegExp("cafe$");
+        assertNotMatch("cafe\u0301", regex);
       });
     });
     describe("\\%C", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
-        assertThrows(
-          () => new VimRegExp("\\%C"),
-          UnsupportedSyntaxError,
-          ": \\%C",
-        );
+      it("should skip combining characters following a base character.", () => {
+        const regex = new VimRegExp("a\\%Ct");
+        assertMatchResult("ca\u0300t", regex, ["a\u0300t"]);
+      });
+      it("should skip all combining characters.", () => {
+        const regex = new VimRegExp("a\\%C$");
+        assertMatchResult("a\u0300\u0301\u0302", regex, ["a\u0300\u0301\u0302"]);
+      });
+      it("should match if no combining characters follow.", () => {
+        const regex = new VimRegExp("a\\%Ct");
+        assertMatchResult("at", regex, ["at"]);
+      });
+      it("should not backtrack into combining characters.", () => {
+        const regex = new VimRegExp("a\\%C\\%u0301");
+        assertNotMatch("a\u0300\u0301", regex);
       });
     });
   });
@@ -6431,20 +7200,71 @@ describe("Regular expression patterns in VimRegExp", () => {
   });
   describe("External matches", () => {
     describe("\\z(\\)", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
+      it("returns external sub-expressions if 'externalCapture' is true.", () => {
+        const regex = new VimRegExp("\\z(a\\)\\(b\\)\\z(c\\)", { externalCapture: true });
+        const match = regex.exec("abc");
+        assertEquals([...match!], ["abc", "b"]);
+        assertEquals(match!.externalSubmatches, ["abc", "a", "c", "", "", "", "", "", "", ""]);
+      });
+      it("returns the empty string for unmatched external sub-expressions.", () => {
+        const regex = new VimRegExp("\\z(a\\)\\|\\z(b\\)", { externalCapture: true });
+        const match = regex.exec("b");
+        assertEquals(match!.externalSubmatches, ["b", "", "b", "", "", "", "", "", "", ""]);
+      });
+      it("can be repeated by multi.", () => {
+        const regex = new VimRegExp("\\z([ab]\\)\\+", { externalCapture: true });
+        const match = regex.exec("abab");
+        assertEquals(match!.externalSubmatches?.slice(0, 2), ["abab", "b"]);
+      });
+      it("does not return external sub-expressions if 'externalCapture' is false.", () => {
+        const regex = new VimRegExp("a");
+        assertEquals(regex.exec("a")!.externalSubmatches, undefined);
+      });
+      it("throws VimRegExpSyntaxError if 'externalCapture' is false.", () => {
         assertThrows(
           () => new VimRegExp("\\z(x\\)"),
-          UnsupportedSyntaxError,
-          ": \\z(",
+          VimRegExpSyntaxError,
+          "\\z( not allowed here",
+        );
+      });
+      it("throws VimRegExpSyntaxError if there are more than 9.", () => {
+        assertThrows(
+          () => new VimRegExp("\\z(x\\)".repeat(10), { externalCapture: true }),
+          VimRegExpSyntaxError,
+          "Too many \\z(",
+        );
+      });
+      it("throws VimRegExpSyntaxError if not closed.", () => {
+        assertThrows(
+          () => new VimRegExp("\\z(x", { externalCapture: true }),
+          VimRegExpSyntaxError,
         );
       });
     });
     describe("\\z1 \\z2 ... \\z9", () => {
-      it("throws UnsupportedSyntaxError. (Different from Vim)", () => {
+      it("matches the text of 'externalSubmatches' literally.", () => {
+        const regex = new VimRegExp("^\\z1\\z2$", { externalSubmatches: ["", "a.", "*"] });
+        assertMatchResult("a.*", regex, ["a.*"]);
+        assertNotMatch("ab*", regex);
+      });
+      it("is repeated as a whole by multi.", () => {
+        const regex = new VimRegExp("^\\z1*$", { externalSubmatches: ["", "ab"] });
+        assertMatchResult("abab", regex, ["abab"]);
+        assertNotMatch("abb", regex);
+      });
+      it("matches the empty string if the text is missing.", () => {
+        const regex = new VimRegExp("^a\\z9b$", { externalSubmatches: [] });
+        assertMatchResult("ab", regex, ["ab"]);
+      });
+      it("ignores case if 'ignorecase' is on.", () => {
+        const regex = new VimRegExp("\\c\\z1", { externalSubmatches: ["", "ab"] });
+        assertMatchResult("AB", regex, ["AB"]);
+      });
+      it("throws VimRegExpSyntaxError if 'externalSubmatches' is null.", () => {
         assertThrows(
           () => new VimRegExp("\\z1"),
-          UnsupportedSyntaxError,
-          ": \\z1",
+          VimRegExpSyntaxError,
+          "\\z1 - \\z9 not allowed here",
         );
       });
     });
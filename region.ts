@@ -0,0 +1,70 @@
+/**
+ * This module provides the pair of patterns for a region, like Vim's syntax
+ * region.
+ *
+ * @module
+ */
+
+import { VimRegExp, type VimRegExpExecArray, type VimRegExpOptions } from "./regexp.ts";
+
+/**
+ * Represents a pair of the start and end patterns of a region.
+ *
+ * The texts matched by "\z(\)" in the start pattern are bound to "\z1" ...
+ * "\z9" in the end pattern, and are matched literally.
+ *
+ * @example
+ * ```ts
+ * import { VimRegionPattern } from "@milly/vimregexp/region";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const region = new VimRegionPattern("<<\\z(\\w\\+\\)", "^\\z1$");
+ * const start = region.start.exec("cat <<EOS");
+ * const end = region.end(start);
+ * assertEquals(end.exec("EOSX\nEOS\n")?.index, 5);
+ * ```
+ */
+export class VimRegionPattern {
+  #start: VimRegExp;
+  #end: VimRegExp;
+
+  /**
+   * Creates a new instance of the VimRegionPattern class.
+   *
+   * @param start - Vim's regular expression pattern of the start, that may
+   *   contain "\z(\)".
+   * @param end - Vim's regular expression pattern of the end, that may
+   *   contain "\z1" ... "\z9".
+   * @param options - Optional parameters or {@linkcode VimRegExpOptions.flags}.
+   *
+   * @throws {VimRegExpSyntaxError}
+   * Thrown if `start` or `end` is invalid format.
+   * Thrown if `options` contains invalid value.
+   */
+  constructor(start: string, end: string, options: VimRegExpOptions | string = {}) {
+    const opts = typeof options === "string" ? { flags: options } : options;
+    this.#start = new VimRegExp(start, { ...opts, externalCapture: true });
+    this.#end = new VimRegExp(end, { ...opts, externalSubmatches: [] });
+  }
+
+  /**
+   * Returns the {@linkcode VimRegExp} of the start pattern.
+   */
+  get start(): VimRegExp {
+    return this.#start;
+  }
+
+  /**
+   * Returns the {@linkcode VimRegExp} of the end pattern, in which "\z1" ...
+   * "\z9" are bound to the texts matched by the start pattern.
+   *
+   * @param match - The result of `exec()` of the start pattern.  If `null` or
+   *   `undefined`, "\z1" ... "\z9" match the empty string.
+   * @returns A new `VimRegExp` object.
+   */
+  end(match?: VimRegExpExecArray | null): VimRegExp {
+    const { flags } = this.#end.options;
+    const externalSubmatches = match?.externalSubmatches ?? [];
+    return new VimRegExp(this.#end, { flags, externalSubmatches });
+  }
+}
@@ -0,0 +1,55 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+
+import { VimRegExpSyntaxError } from "./errors.ts";
+import { VimRegionPattern } from "./region.ts";
+
+describe("VimRegionPattern", () => {
+  describe("constructor", () => {
+    it("throws VimRegExpSyntaxError if the start pattern is invalid.", () => {
+      assertThrows(
+        () => new VimRegionPattern("\\z1", "foo"),
+        VimRegExpSyntaxError,
+        "\\z1 - \\z9 not allowed here",
+      );
+    });
+    it("throws VimRegExpSyntaxError if the end pattern is invalid.", () => {
+      assertThrows(
+        () => new VimRegionPattern("foo", "\\z(x\\)"),
+        VimRegExpSyntaxError,
+        "\\z( not allowed here",
+      );
+    });
+  });
+  describe("start", () => {
+    it("returns the start pattern.", () => {
+      const region = new VimRegionPattern("<<\\z(\\w\\+\\)", "^\\z1$", "g");
+      assertEquals(region.start.vimSource, "<<\\z(\\w\\+\\)");
+      assertEquals(region.start.flags, "gsv");
+    });
+  });
+  describe("end", () => {
+    it("returns the end pattern bound to the texts matched by the start pattern.", () => {
+      const region = new VimRegionPattern("<<\\z(\\w\\+\\)", "^\\z1$");
+      const end = region.end(region.start.exec("cat <<EOS"));
+      assertEquals(end.vimSource, "^\\z1$");
+      assertEquals(end.exec("EOSX\nEOS\n")?.index, 5);
+    });
+    it("escapes the texts matched by the start pattern.", () => {
+      const region = new VimRegionPattern("\\z(.*\\)", "\\z1");
+      const end = region.end(region.start.exec("[a-z]\\+"));
+      assertEquals(end.exec("ab[a-z]\\+")?.index, 2);
+    });
+    it("binds the empty string if the start pattern is not matched.", () => {
+      const region = new VimRegionPattern("\\z(x\\)", "a\\z1b");
+      const end = region.end(region.start.exec("y"));
+      assertEquals(end.exec("ab")?.index, 0);
+    });
+    it("keeps the options.", () => {
+      const region = new VimRegionPattern("\\z(a\\)", "\\z1", { flags: "g", ignorecase: true });
+      const end = region.end(region.start.exec("a"));
+      assertEquals(end.flags, "gisv");
+      assertEquals("aAa".match(end), ["a", "A", "a"]);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * This module provides the expansion of Vim's replacement string, that is
+ * used by the substitute command and the `substitute()` function.
+ *
+ * @module
+ */
+
+import { evaluate, toVimString } from "./expression.ts";
+
+/**
+ * Optional parameters of {@linkcode expandReplacement} and
+ * {@linkcode expandTilde}.
+ */
+export type ReplacementOptions = {
+  /**
+   * Changes the special characters that can be used in replacement strings.
+   * If `false`, "&" and "~" are literal and "\&" and "\~" are special.
+   *
+   * @default {true}
+   */
+  magic?: boolean;
+  /**
+   * Expands the replacement string for the lines of a buffer, like the
+   * substitute command.  The result contains "\n" for a line break, and
+   * "\0" for a NUL character.
+   *
+   * - "\r" and a literal carriage return make a line break.
+   * - "\n" makes a NUL character.
+   * - A backslash followed by a carriage return makes a carriage return.
+   * - A carriage return in the result of "\=" makes a line break.
+   *
+   * Only used by {@linkcode expandReplacement}.
+   *
+   * @default {false}
+   */
+  lineBreak?: boolean;
+};
+
+/**
+ * Replaces "~" in the replacement string with the previous replacement
+ * string, like the substitute command of Vim.
+ *
+ * The returned string is what Vim stores as the previous replacement string.
+ * The expression starting with "\=" is returned as is.
+ *
+ * @param replacement - Vim's replacement string.
+ * @param previous - The previous replacement string.
+ * @param options - Optional parameters.
+ * @returns The replacement string with "~" replaced.
+ *
+ * @example
+ * ```ts
+ * import { expandTilde } from "@milly/vimregexp/replacement";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(expandTilde("[~]\\~", "foo"), "[foo]\\~");
+ * assertEquals(expandTilde("[~]\\~", "foo", { magic: false }), "[~]foo");
+ * ```
+ */
+export function expandTilde(
+  replacement: string,
+  previous: string,
+  options: ReplacementOptions = {},
+): string {
+  if (replacement.startsWith("\\=")) {
+    return replacement;
+  }
+  const { magic = true } = options;
+  const chars = [...replacement];
+  let result = "";
+  for (let i = 0; i < chars.length; ++i) {
+    const c = chars[i];
+    if (magic && c === "~") { // ~
+      result += previous;
+    } else if (!magic && c === "\\" && chars[i + 1] === "~") { // \~
+      result += previous;
+      ++i;
+    } else if (c === "\\" && i + 1 < chars.length) { // skip escaped character
+      result += c + chars[++i];
+    } else {
+      result += c;
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns the text of the replacement string for a match, like Vim's
+ * sub-replace-special.
+ *
+ * - "&", "\0": The whole matched pattern.
+ * - "\1" ... "\9": The sub-expressions.
+ * - "\u", "\l": The next character is made uppercase or lowercase.
+ * - "\U", "\L": The following characters are made uppercase or lowercase,
+ *   until "\e" or "\E".
+ * - "\r", "\n", "\t", "\b": Carriage return, newline, tab and backspace.
+ * - Backslash followed by any other character is the character itself.
+ *
+ * "~" is not special, use {@linkcode expandTilde} beforehand.
+ *
+ * If the replacement string starts with "\=", the rest is evaluated as a Vim
+ * script expression by {@linkcode evaluate}, and the result is used as is.
+ *
+ * @param replacement - Vim's replacement string.
+ * @param submatches - The whole match and the sub-expressions, like the
+ *   result of {@linkcode RegExp.exec}.  Missing ones are the empty string.
+ * @param options - Optional parameters.
+ * @returns The replacement text.
+ *
+ * @throws {VimExpressionError}
+ * Thrown if the expression after "\=" is invalid or fails to evaluate.
+ *
+ * @example
+ * ```ts
+ * import { expandReplacement } from "@milly/vimregexp/replacement";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(expandReplacement("<\\u\\1\\U\\2\\e&>", ["foo bar", "foo", "bar"]), "<FooBARfoo bar>");
+ * assertEquals(expandReplacement("\\=submatch(1) * 2", ["a21", "21"]), "42");
+ * ```
+ */
+export function expandReplacement(
+  replacement: string,
+  submatches: readonly (string | undefined)[],
+  options: ReplacementOptions = {},
+): string {
+  const { magic = true, lineBreak = false } = options;
+  if (replacement.startsWith("\\=")) {
+    const result = toVimString(evaluate(replacement.slice(2), { submatches }));
+    return lineBreak ? result.replaceAll("\r", "\n") : result;
+  }
+  const chars = [...replacement];
+  /** The case function for the next character. */
+  let caseOne: "u" | "l" | undefined;
+  /** The case function for the following characters. */
+  let caseAll: "U" | "L" | undefined;
+  let result = "";
+  const add = (text: string) => {
+    for (const c of text) {
+      const func = caseOne ?? caseAll;
+      caseOne = undefined;
+      result += func === "u" || func === "U"
+        ? toCase(c, "toUpperCase")
+        : func === "l" || func === "L"
+        ? toCase(c, "toLowerCase")
+        : c;
+    }
+  };
+  for (let i = 0; i < chars.length; ++i) {
+    const c = chars[i];
+    if (c === "&" && magic) { // &
+      add(submatches[0] ?? "");
+      continue;
+    }
+    if (c !== "\\" || i + 1 >= chars.length) { // literal, or trailing '\'
+      add(lineBreak && c === "\r" ? "\n" : c);
+      continue;
+    }
+    const n = chars[++i];
+    switch (n) {
+      case "u": // \u
+      case "l": // \l
+        caseOne = n;
+        break;
+      case "U": // \U
+      case "L": // \L
+        caseAll = n;
+        break;
+      case "e": // \e
+      case "E": // \E
+        caseOne = caseAll = undefined;
+        break;
+      case "r": // \r
+        add(lineBreak ? "\n" : "\r");
+        break;
+      case "n": // \n
+        add(lineBreak ? "\0" : "\n");
+        break;
+      case "t": // \t
+        add("\t");
+        break;
+      case "b": // \b
+        add("\b");
+        break;
+      case "&": // \&
+        add(magic ? "&" : submatches[0] ?? "");
+        break;
+      default:
+        if (/^[0-9]$/.test(n)) { // \0 ... \9
+          add(submatches[+n] ?? "");
+        } else { // \\ etc...
+          // Backslash followed character with no special meaning.
+          add(n);
+        }
+        break;
+    }
+  }
+  return result;
+}
+
+/** Changes the case of the character, if it is a single character. */
+function toCase(c: string, method: "toUpperCase" | "toLowerCase"): string {
+  const converted = c[method]();
+  return [...converted].length === 1 ? converted : c;
+}
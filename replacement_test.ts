@@ -0,0 +1,101 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+
+import { VimExpressionError } from "./errors.ts";
+import { expandReplacement, expandTilde } from "./replacement.ts";
+
+describe("expandTilde", () => {
+  it("replaces '~' with the previous string.", () => {
+    assertEquals(expandTilde("a~b~", "x"), "axbx");
+  });
+  it("does not replace escaped '~'.", () => {
+    assertEquals(expandTilde("\\~\\\\~", "x"), "\\~\\\\x");
+  });
+  it("replaces '\\~' if 'magic' is `false`.", () => {
+    assertEquals(expandTilde("~\\~\\\\~", "x", { magic: false }), "~x\\\\~");
+  });
+  it("does not expand special characters in the previous string.", () => {
+    assertEquals(expandTilde("~", "\\1&~"), "\\1&~");
+  });
+  it("does not replace '~' in the expression.", () => {
+    assertEquals(expandTilde("\\='~'", "x"), "\\='~'");
+  });
+});
+
+describe("expandReplacement", () => {
+  const submatches = ["foo bar", "foo", "bar"];
+  it("replaces '&' and '\\0' with the whole match.", () => {
+    assertEquals(expandReplacement("[&][\\0]", submatches), "[foo bar][foo bar]");
+  });
+  it("replaces '\\1' ... '\\9' with the sub-expressions.", () => {
+    assertEquals(expandReplacement("\\2\\1\\3\\9", submatches), "barfoo");
+  });
+  it("replaces the missing sub-expressions with the empty string.", () => {
+    assertEquals(expandReplacement("[\\1]", ["foo", undefined]), "[]");
+  });
+  it("makes '&' literal and '\\&' special if 'magic' is `false`.", () => {
+    assertEquals(expandReplacement("&\\&", submatches, { magic: false }), "&foo bar");
+  });
+  it("makes '\\&' literal if 'magic' is `true`.", () => {
+    assertEquals(expandReplacement("\\&", submatches), "&");
+  });
+  it("does not expand '~'.", () => {
+    assertEquals(expandReplacement("~\\~", submatches), "~~");
+  });
+  it("changes the case of the next character with '\\u' and '\\l'.", () => {
+    assertEquals(expandReplacement("\\u\\1 \\lBAR", submatches), "Foo bAR");
+  });
+  it("changes the case of the following characters with '\\U' and '\\L'.", () => {
+    assertEquals(expandReplacement("\\U\\1\\e-\\LBaZ\\Ex", submatches), "FOO-bazx");
+  });
+  it("applies '\\u' and '\\l' before '\\U' and '\\L'.", () => {
+    assertEquals(expandReplacement("\\L\\uXYZ", submatches), "Xyz");
+    assertEquals(expandReplacement("\\U\\lAB", submatches), "aB");
+  });
+  it("changes the case of non-ASCII characters.", () => {
+    assertEquals(expandReplacement("\\U\u00e9", submatches), "\u00c9");
+  });
+  it("does not change characters that become multiple characters.", () => {
+    assertEquals(expandReplacement("\\U\u00df", submatches), "\u00df");
+  });
+  it("replaces the escaped control characters.", () => {
+    assertEquals(expandReplacement("\\r\\n\\t\\b", submatches), "\r\n\t\b");
+  });
+  it("removes the backslash followed by other characters.", () => {
+    assertEquals(expandReplacement("\\q\\\\\\$", submatches), "q\\$");
+  });
+  it("keeps a trailing backslash.", () => {
+    assertEquals(expandReplacement("a\\", submatches), "a\\");
+  });
+  describe("with '\\='", () => {
+    it("evaluates the expression.", () => {
+      assertEquals(expandReplacement("\\=toupper(submatch(2)) . (1 + 1)", submatches), "BAR2");
+    });
+    it("uses the result as is.", () => {
+      assertEquals(expandReplacement("\\='&\\1~'", submatches), "&\\1~");
+    });
+    it("throws VimExpressionError if the expression is invalid.", () => {
+      assertThrows(() => expandReplacement("\\=1 +", submatches), VimExpressionError);
+      assertThrows(
+        () => expandReplacement("\\=constructor(1)", submatches),
+        VimExpressionError,
+        "E117: Unknown function: constructor",
+      );
+    });
+  });
+  describe("with 'lineBreak'", () => {
+    it("makes line breaks with '\\r' and a carriage return.", () => {
+      assertEquals(expandReplacement("a\\rb\rc", submatches, { lineBreak: true }), "a\nb\nc");
+    });
+    it("makes a NUL character with '\\n'.", () => {
+      assertEquals(expandReplacement("a\\nb", submatches, { lineBreak: true }), "a\0b");
+    });
+    it("makes a carriage return with a backslash followed by a carriage return.", () => {
+      assertEquals(expandReplacement("a\\\rb", submatches, { lineBreak: true }), "a\rb");
+    });
+    it("makes line breaks with newlines and carriage returns in the expression result.", () => {
+      const replacement = '\\="a\\nb\\rc"';
+      assertEquals(expandReplacement(replacement, submatches, { lineBreak: true }), "a\nb\nc");
+    });
+  });
+});
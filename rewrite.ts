@@ -0,0 +1,257 @@
+/**
+ * This module provides the rewriter of Vim's regular expression, that
+ * converts the pattern between the magic levels.
+ *
+ * @module
+ */
+
+import {
+  type AnchorNode,
+  type BranchNode,
+  type CharNode,
+  type CollectionNode,
+  parse,
+  type SourceSpan,
+  type SwitchNode,
+  type TermNode,
+} from "./parser.ts";
+
+/**
+ * The magic level of the pattern, named after the switch that sets it.
+ *
+ * - `"v"`: Very magic "\v".
+ * - `"m"`: Magic "\m".
+ * - `"M"`: Nomagic "\M".
+ * - `"V"`: Very nomagic "\V".
+ */
+export type MagicLevel = "v" | "m" | "M" | "V";
+
+/**
+ * Optional parameters of {@linkcode rewrite}.
+ */
+export type RewriteOptions = {
+  /**
+   * The `magic` option used to interpret both the given and the returned
+   * pattern.
+   *
+   * @default {true}
+   */
+  magic?: boolean;
+
+  /**
+   * The magic level of the returned pattern.
+   *
+   * The returned pattern starts with the switch of the level, like "\v",
+   * unless it is the same as the level of {@linkcode RewriteOptions.magic}.
+   *
+   * @default {"m"}
+   */
+  level?: MagicLevel;
+
+  /**
+   * If `true`, returns the canonical form, in which the switches "\c", "\C"
+   * and "\Z" are moved to the start of the pattern and the redundant ones are
+   * removed.
+   *
+   * @default {false}
+   */
+  canonical?: boolean;
+};
+
+const [VERY_MAGIC, MAGIC, NOMAGIC, VERY_NOMAGIC] = [1, 2, 3, 4];
+const MAGIC_LEVELS = { v: VERY_MAGIC, m: MAGIC, M: NOMAGIC, V: VERY_NOMAGIC } as const;
+
+/** Characters that are special without backslash only in 'very magic'. */
+const reVeryMagicChar = /^[+=?{@<>()|&%]$/u;
+/** Characters that are special without backslash in 'magic' or higher. */
+const reMagicChar = /^[*.[~]$/u;
+/** Characters that are special without backslash except in 'very nomagic'. */
+const reNomagicChar = /^[$^]$/u;
+
+/**
+ * Rewrites a Vim's regular expression pattern into the given magic level,
+ * without changing what it matches.
+ *
+ * The magic switches "\v", "\m", "\M" and "\V" in the pattern are removed,
+ * because the whole pattern is written in the same level.
+ *
+ * @param pattern - Vim's regular expression pattern.
+ * @param options - Optional parameters.
+ * @returns The rewritten pattern.
+ *
+ * @throws {VimRegExpSyntaxError}
+ * Thrown if `pattern` is invalid format.
+ *
+ * @example
+ * ```ts
+ * import { rewrite } from "@milly/vimregexp/rewrite";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(rewrite("\\v(foo|bar)+"), "\\(foo\\|bar\\)\\+");
+ * assertEquals(rewrite("\\(a\\|b\\)*", { level: "v" }), "\\v(a|b)*");
+ * assertEquals(rewrite("a.*\\Cb\\c", { level: "V", canonical: true }), "\\V\\ca\\.\\*b");
+ * ```
+ */
+export function rewrite(pattern: string, options: RewriteOptions = {}): string {
+  const { magic = true, level = "m", canonical = false } = options;
+  const ast = parse(pattern, { magic });
+  const target = MAGIC_LEVELS[level];
+  const chars = [...pattern];
+  const getText = ({ start, end }: SourceSpan) => chars.slice(start, end).join("");
+
+  /** Returns `true` if the character without backslash is special in the target level. */
+  const isSpecial = (c: string) =>
+    reVeryMagicChar.test(c)
+      ? target <= VERY_MAGIC
+      : reMagicChar.test(c)
+      ? target <= MAGIC
+      : reNomagicChar.test(c) && target <= NOMAGIC;
+  /** Returns the special character in the target level. */
+  const special = (c: string) => isSpecial(c) ? c : `\\${c}`;
+  /** Rewrites the text that starts with "%" or "\%". */
+  const percent = (span: SourceSpan) => {
+    const text = getText(span);
+    return special("%") + text.slice(text.indexOf("%") + 1);
+  };
+
+  /** Switches that apply to the whole pattern, used for the canonical form. */
+  const switches: SwitchNode[] = [];
+
+  const printChar = (node: CharNode, inSequence: boolean): string => {
+    const c = String.fromCodePoint(node.codePoint);
+    switch (node.syntax) {
+      case "code": // /\e /\%d123 etc...
+        return /^\\?%/.test(getText(node.span)) ? percent(node.span) : getText(node.span);
+      case "escaped":
+        if (reVeryMagicChar.test(c) || reMagicChar.test(c) || reNomagicChar.test(c)) {
+          return printLiteral(c, inSequence);
+        }
+        // Backslash followed character with no special meaning.
+        return `\\${c}`;
+      case "literal":
+        return printLiteral(c, inSequence);
+    }
+  };
+
+  const printLiteral = (c: string, inSequence: boolean): string => {
+    if (isSpecial(c) || c === "\\" || (c === "]" && inSequence)) {
+      return `\\${c}`;
+    }
+    return c;
+  };
+
+  const printCollection = (node: CollectionNode): string => {
+    const text = getText(node.span);
+    const body = text.slice(text.indexOf("[") + 1);
+    return (node.newline ? "\\_[" : special("[")) + body;
+  };
+
+  const printAnchor = (node: AnchorNode, first: boolean, last: boolean): string => {
+    switch (node.anchor) {
+      case "bol": // /^ /\_^
+        return first ? (target >= VERY_NOMAGIC ? "\\^" : "^") : "\\_^";
+      case "eol": // /$ /\_$
+        return last ? (target >= VERY_NOMAGIC ? "\\$" : "$") : "\\_$";
+      case "bof": // /\%^
+      case "eof": // /\%$
+        return percent(node.span);
+      case "bow": // /\<
+        return special("<");
+      case "eow": // /\>
+        return special(">");
+    }
+  };
+
+  const printBranches = (branches: BranchNode[]): string =>
+    branches.map((branch) =>
+      branch.concats.map((concat) => printItems(concat.items, false)).join(special("&"))
+    ).join(special("|"));
+
+  const printItems = (items: TermNode[], inSequence: boolean): string => {
+    const lastIndex = items.findLastIndex((item) => item.type !== "switch");
+    const firstIndex = items.findIndex((item) => item.type !== "switch");
+    return items.map((item, i) =>
+      printTerm(item, {
+        inSequence,
+        first: !inSequence && i === firstIndex,
+        last: !inSequence && i === lastIndex,
+      })
+    ).join("");
+  };
+
+  type Context = { inSequence: boolean; first: boolean; last: boolean };
+  const printTerm = (node: TermNode, ctx: Context): string => {
+    switch (node.type) {
+      case "char":
+        return printChar(node, ctx.inSequence);
+      case "charClass":
+        if (node.name === ".") { // /. /\_.
+          return node.newline ? "\\_." : special(".");
+        }
+        return `\\${node.newline ? "_" : ""}${node.name}`;
+      case "collection":
+        return printCollection(node);
+      case "anchor":
+        return printAnchor(node, ctx.first, ctx.last);
+      case "group": {
+        const open = { capture: special("("), noncapture: `${special("%")}(`, external: "\\z(" };
+        return open[node.kind] + printBranches(node.branches) + special(")");
+      }
+      case "optionalSequence": // /\%[]
+        return `${special("%")}[${printItems(node.items, true)}]`;
+      case "backReference": // /\1 /\z1
+        return `\\${node.external ? "z" : ""}${node.group}`;
+      case "matchBoundary": // /\zs /\ze
+        return node.boundary === "start" ? "\\zs" : "\\ze";
+      case "position": // /\%23l /\%# etc...
+      case "skipComposing": // /\%C
+        return percent(node.span);
+      case "lastSubstitute": // /~
+        return special("~");
+      case "multi": {
+        const { multi } = node;
+        const atom = printTerm(node.atom, { ...ctx, last: false });
+        switch (multi.type) {
+          case "*":
+            return atom + special("*");
+          case "+":
+          case "=":
+          case "?":
+            return atom + special(multi.type);
+          case "{": {
+            const { min = "", max = "", comma, lazy } = multi;
+            return `${atom}${special("{")}${lazy ? "-" : ""}${min}${comma ? "," : ""}${max}}`;
+          }
+          case "@":
+            return `${atom}${special("@")}${multi.limit || ""}${multi.assertion}`;
+        }
+        break;
+      }
+      case "switch":
+        switch (node.name) {
+          case "c": // /\c
+          case "C": // /\C
+          case "Z": // /\Z
+            if (canonical) {
+              switches.push(node);
+              return "";
+            }
+            return `\\${node.name}`;
+          default: // /\v /\m /\M /\V
+            // The whole pattern is written in the target level.
+            return "";
+        }
+    }
+  };
+
+  const body = printBranches(ast.branches);
+  const defaultLevel = magic ? MAGIC : NOMAGIC;
+  let prefix = target === defaultLevel ? "" : `\\${level}`;
+  if (canonical) {
+    // "\c" and "\C" apply to the whole pattern, and the last one wins.
+    const ignorecase = switches.findLast(({ name }) => name === "c" || name === "C");
+    const icombine = switches.some(({ name }) => name === "Z");
+    prefix += `${ignorecase ? `\\${ignorecase.name}` : ""}${icombine ? "\\Z" : ""}`;
+  }
+  return prefix + body;
+}
@@ -0,0 +1,86 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+
+import { VimRegExpSyntaxError } from "./errors.ts";
+import { VimRegExp } from "./regexp.ts";
+import { type MagicLevel, rewrite } from "./rewrite.ts";
+import { VimSearchSession } from "./session.ts";
+
+describe("rewrite", () => {
+  it("rewrites the pattern into 'magic' by default.", () => {
+    assertEquals(rewrite("\\v(foo|bar)+"), "\\(foo\\|bar\\)\\+");
+  });
+  it("rewrites the pattern into the given level.", () => {
+    const pattern = "^\\(a\\|b.\\)\\{2,}[xy]*\\<c\\>\\=$";
+    assertEquals(rewrite(pattern, { level: "v" }), "\\v^(a|b.){2,}[xy]*<c>=$");
+    assertEquals(rewrite(pattern, { level: "m" }), "^\\(a\\|b.\\)\\{2,}[xy]*\\<c\\>\\=$");
+    assertEquals(
+      rewrite(pattern, { level: "M" }),
+      "\\M^\\(a\\|b\\.\\)\\{2,}\\[xy]\\*\\<c\\>\\=$",
+    );
+    assertEquals(
+      rewrite(pattern, { level: "V" }),
+      "\\V\\^\\(a\\|b\\.\\)\\{2,}\\[xy]\\*\\<c\\>\\=\\$",
+    );
+  });
+  it("escapes the literal characters that are special in the given level.", () => {
+    assertEquals(rewrite("\\Va+(.)*^$", { level: "v" }), "\\va\\+\\(\\.\\)\\*\\^\\$");
+    assertEquals(rewrite("\\va\\+\\(\\.\\)\\*\\^\\$", { level: "V" }), "\\Va+(.)*^$");
+  });
+  it("omits the switch if the level is the same as the 'magic' option.", () => {
+    assertEquals(rewrite("\\Va.b", { magic: false, level: "M" }), "a.b");
+    assertEquals(rewrite("a.b", { magic: false, level: "m" }), "\\ma\\.b");
+  });
+  it("removes the magic switches in the pattern.", () => {
+    assertEquals(rewrite("a\\v(b)\\m\\(c\\)\\M\\(d\\)"), "a\\(b\\)\\(c\\)\\(d\\)");
+  });
+  it("keeps the anchors that are not at the start or end.", () => {
+    assertEquals(rewrite("a$\\nb\\_^c", { level: "V" }), "\\Va\\_$\\nb\\_^c");
+  });
+  it("keeps the atoms that start with '%'.", () => {
+    assertEquals(
+      rewrite("\\%^\\%d97\\%23l\\%[bc]\\%(d\\)\\%$", { level: "v" }),
+      "\\v%^%d97%23l%[bc]%(d)%$",
+    );
+  });
+  it("keeps the escaped characters that have no special meaning.", () => {
+    assertEquals(rewrite("\\/\\-\\e\\u00e9", { level: "v" }), "\\v\\/\\-\\e\\u00e9");
+  });
+  it("keeps the switches for case and composing characters.", () => {
+    assertEquals(rewrite("\\ca\\Cb\\Z", { level: "v" }), "\\v\\ca\\Cb\\Z");
+  });
+  describe("when `canonical` is `true`", () => {
+    it("moves the effective switches to the start.", () => {
+      assertEquals(rewrite("a\\cb\\Zc\\Cd\\Z", { canonical: true }), "\\C\\Zabcd");
+    });
+  });
+  it("does not change what the pattern matches.", () => {
+    const session = new VimSearchSession();
+    session.setLastSubstituteString("x");
+    const patterns = [
+      "\\v(foo|bar)+",
+      "\\%[abc]x\\|a\\@<=b",
+      "\\(a\\)\\1\\@123<=b",
+      "\\_[abc]\\_s\\_.\\%x2a",
+      "\\V.*[]^$",
+      "a^b$c\\&a$\\nb",
+      "\\%[a\\]]~\\{-}",
+      "\\zs\\z(a\\)\\ze",
+    ];
+    for (const pattern of patterns) {
+      for (const level of ["v", "m", "M", "V"] as MagicLevel[]) {
+        for (const magic of [true, false]) {
+          const options = { magic, session, externalCapture: true };
+          assertEquals(
+            new VimRegExp(rewrite(pattern, { magic, level }), options).source,
+            new VimRegExp(pattern, options).source,
+            `${pattern} to ${level} with magic=${magic}`,
+          );
+        }
+      }
+    }
+  });
+  it("throws VimRegExpSyntaxError if the pattern is invalid.", () => {
+    assertThrows(() => rewrite("a\\)"), VimRegExpSyntaxError, "Unmatched '\\)'");
+  });
+});
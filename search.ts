@@ -0,0 +1,567 @@
+/**
+ * This module provides the ports of Vim's builtin functions that search a
+ * pattern in a buffer from the cursor, like `search()` and `searchpos()`.
+ *
+ * Like Vim, the columns are byte indices of the lines encoded in UTF-8,
+ * 1-based.
+ *
+ * @module
+ */
+
+import { type TextBuffer, toTextBuffer, type VimBuffer, type VimBufferMatch } from "./buffer.ts";
+import { convertOffset, utf8Length } from "./offset.ts";
+import { type VimPosition, VimRegExp, type VimRegExpOptions } from "./regexp.ts";
+
+/**
+ * Optional parameters of {@linkcode search} and {@linkcode searchpos}.
+ *
+ * The options of {@linkcode VimRegExpOptions} are used to compile the
+ * pattern given as a string.  {@linkcode VimRegExpOptions.cursor} and
+ * {@linkcode VimRegExpOptions.marks} are also the state of the search.
+ */
+export type SearchOptions = Omit<VimRegExpOptions, "flags" | "stringMatch" | "firstLine"> & {
+  /**
+   * Vim's search flags.
+   *
+   * - `"b"`: Search backward instead of forward.
+   * - `"c"`: Accept a match at the cursor position.
+   * - `"e"`: Move to the end of the match.
+   * - `"n"`: Do not move the cursor.
+   * - `"p"`: Return the number of the matching sub-pattern.
+   * - `"s"`: Set the "'" mark at the previous position of the cursor.
+   * - `"w"`: Wrap around the end of the buffer.
+   * - `"W"`: Do not wrap around the end of the buffer.
+   * - `"z"`: Start searching at the cursor column instead of the first
+   *   column.
+   *
+   * If neither `"w"` or `"W"` is given, {@linkcode SearchOptions.wrapscan}
+   * is used.
+   *
+   * @default {""}
+   */
+  flags?: string;
+
+  /**
+   * The search stops after searching this line, and does not wrap around.
+   * If zero, the search is not stopped.
+   *
+   * @default {0}
+   */
+  stopline?: number;
+
+  /**
+   * The search gives up when this many milliseconds have passed.  The time
+   * is checked when a line is fetched or a match is found.  If zero, the
+   * search does not give up.
+   *
+   * @default {0}
+   */
+  timeout?: number;
+
+  /**
+   * Whether the search wraps around the end of the buffer, like Vim's
+   * 'wrapscan' option.
+   *
+   * @default {true}
+   */
+  wrapscan?: boolean;
+
+  /**
+   * Cursor position.  Unless the `"n"` flag is given, the object is updated
+   * to the position of the match, like the cursor of Vim.
+   *
+   * @default {{ lnum: 1, col: 1 }}
+   */
+  cursor?: VimPosition;
+
+  /**
+   * Positions of the marks, keyed by the mark name.  If the `"s"` flag is
+   * given and the cursor moves, the "'" mark is set in the object.
+   *
+   * @default {{}}
+   */
+  marks?: Record<string, VimPosition>;
+};
+
+/**
+ * The result of {@linkcode searchpos}.  With the `"p"` flag, the third item
+ * is the number of the matching sub-pattern.
+ */
+export type SearchPosResult =
+  | [lnum: number, col: number]
+  | [lnum: number, col: number, submatch: number];
+
+/**
+ * Optional parameters of {@linkcode searchcount}.
+ *
+ * The options of {@linkcode VimRegExpOptions} are used to compile the
+ * pattern given as a string.  {@linkcode VimRegExpOptions.cursor} is also
+ * the position to find the current match.
+ */
+export type SearchCountOptions = Omit<VimRegExpOptions, "flags" | "stringMatch" | "firstLine"> & {
+  /**
+   * The counting stops when the count exceeds this number.  If zero, the
+   * count is not limited.
+   *
+   * @default {99}
+   */
+  maxcount?: number;
+
+  /**
+   * The counting gives up when this many milliseconds have passed.  The
+   * time is checked when a line is fetched or a match is found.  If zero,
+   * the counting does not give up.
+   *
+   * @default {0}
+   */
+  timeout?: number;
+};
+
+/**
+ * The result of {@linkcode searchcount}, that is the same dictionary as
+ * Vim's `searchcount()`.
+ */
+export type SearchCountResult = {
+  /**
+   * The number of the current match, that is the last match at or before
+   * the cursor.  0 if the cursor is before the first match.
+   */
+  current: number;
+  /**
+   * The number of the matches.  If the count exceeds `maxcount`, it is
+   * `maxcount + 1`.
+   */
+  total: number;
+  /** Whether the cursor is in the current match. */
+  exact_match: boolean;
+  /**
+   * - `0`: The count is complete.
+   * - `1`: The timeout has passed.
+   * - `2`: The count exceeds `maxcount`.
+   */
+  incomplete: 0 | 1 | 2;
+  /** The `maxcount` option. */
+  maxcount: number;
+};
+
+/**
+ * Searches `pattern` in the buffer from the cursor, like Vim's `search()`.
+ * Returns the line number of the match, or 0 if there is no match.  With
+ * the `"p"` flag, returns the number of the matching sub-pattern instead.
+ * See {@linkcode searchpos} for details.
+ *
+ * @param buffer - An array of lines or a {@linkcode TextBuffer}.
+ * @param pattern - Vim's regular expression pattern, or a `VimRegExp`.
+ * @param options - Optional parameters.
+ * @returns The line number of the match, or 0.
+ *
+ * @throws {VimRegExpSyntaxError}
+ * Thrown if `pattern` is invalid format.
+ * @throws {TypeError}
+ * Thrown if the flags are invalid.
+ * @throws {RangeError}
+ * Thrown if `stopline` or `timeout` is negative.
+ *
+ * @example
+ * ```ts
+ * import { search } from "@milly/vimregexp/search";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const buffer = ["foo", "bar", "foo bar"];
+ * const cursor = { lnum: 1, col: 1 };
+ * assertEquals(search(buffer, "bar", { cursor }), 2);
+ * assertEquals(cursor, { lnum: 2, col: 1 });
+ * assertEquals(search(buffer, "bar", { cursor, flags: "n" }), 3);
+ * assertEquals(cursor, { lnum: 2, col: 1 });
+ * assertEquals(search(buffer, "\\(foo\\)\\|\\(bar\\)", { cursor, flags: "bp" }), 2);
+ * ```
+ */
+export function search(
+  buffer: VimBuffer,
+  pattern: string | VimRegExp,
+  options: SearchOptions = {},
+): number {
+  const result = searchpos(buffer, pattern, options);
+  return result[2] ?? result[0];
+}
+
+/**
+ * Searches `pattern` in the buffer from the cursor, like Vim's
+ * `searchpos()`.  Returns the position of the match, or `[0, 0]` if there
+ * is no match.
+ *
+ * The search starts at the cursor.  A forward search finds the first match
+ * after the cursor, and a backward search finds the last match before the
+ * cursor, like Vim searches lines one by one.  With the `"c"` flag a match at
+ * the cursor is also accepted, and with the `"e"` flag the end of the match
+ * is compared with the cursor instead of the start.  The search wraps around
+ * the end of the buffer, see {@linkcode SearchOptions.wrapscan}.
+ *
+ * With the `"p"` flag, the result has the third item that is one more than
+ * the number of the first sub-expression "\(\)" that took part in the
+ * match, also if it matched the empty string, or 1 if none of them did.
+ *
+ * "\%#", "\%.l" etc. in the pattern use the cursor when the pattern is
+ * compiled.
+ *
+ * @param buffer - An array of lines or a {@linkcode TextBuffer}.
+ * @param pattern - Vim's regular expression pattern, or a `VimRegExp`.
+ * @param options - Optional parameters.
+ * @returns The line number and the column of the match.
+ *
+ * @throws {VimRegExpSyntaxError}
+ * Thrown if `pattern` is invalid format.
+ * @throws {TypeError}
+ * Thrown if the flags are invalid.
+ * @throws {RangeError}
+ * Thrown if `stopline` or `timeout` is negative.
+ *
+ * @example
+ * ```ts
+ * import { searchpos } from "@milly/vimregexp/search";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const buffer = ["foo foo", "bar"];
+ * const cursor = { lnum: 1, col: 5 };
+ * assertEquals(searchpos(buffer, "foo", { cursor, flags: "bn" }), [1, 1]);
+ * assertEquals(searchpos(buffer, "foo", { cursor, flags: "bcn" }), [1, 5]);
+ * assertEquals(searchpos(buffer, "foo", { cursor, flags: "en" }), [1, 7]);
+ * assertEquals(searchpos(buffer, "foo", { cursor, flags: "nW" }), [0, 0]);
+ * assertEquals(searchpos(buffer, "\\(x\\)\\|\\(r\\)", { cursor, flags: "np" }), [2, 3, 3]);
+ * ```
+ */
+export function searchpos(
+  buffer: VimBuffer,
+  pattern: string | VimRegExp,
+  options: SearchOptions = {},
+): SearchPosResult {
+  const {
+    flags = "",
+    stopline = 0,
+    timeout = 0,
+    wrapscan = true,
+    cursor = { lnum: 1, col: 1 },
+    ...regexpOptions
+  } = options;
+  if (!/^[bcenpswWz]*$/.test(flags) || (flags.includes("n") && flags.includes("s"))) {
+    throw new TypeError(`Invalid search flags: "${flags}"`);
+  }
+  if (stopline < 0 || timeout < 0) {
+    throw new RangeError(`Invalid search limit: ${stopline < 0 ? stopline : timeout}`);
+  }
+  const regex = pattern instanceof VimRegExp
+    ? pattern
+    : new VimRegExp(pattern, { ...regexpOptions, cursor });
+  const deadline = timeout > 0 ? Date.now() + timeout : Infinity;
+  const wrapFlag = flags.match(/[wW]/g)?.at(-1);
+  const search: SearchState = {
+    regex,
+    buffer: withDeadline(toTextBuffer(buffer), deadline),
+    cursor: { lnum: cursor.lnum, col: cursor.col },
+    flags,
+    stopline,
+    wrap: wrapFlag ? wrapFlag === "w" : wrapscan,
+    deadline,
+  };
+  let match: VimBufferMatch | null;
+  try {
+    match = flags.includes("b") ? searchBackward(search) : searchForward(search);
+  } catch (e) {
+    if (e instanceof SearchTimeout) {
+      match = null;
+    } else {
+      throw e;
+    }
+  }
+  const withSubmatch = flags.includes("p");
+  if (!match) {
+    return withSubmatch ? [0, 0, 0] : [0, 0];
+  }
+  const { lnum, col } = flags.includes("e") ? endPosition(search.buffer, match) : match;
+  if (!flags.includes("n")) {
+    if (flags.includes("s") && options.marks) {
+      options.marks["'"] = { lnum: cursor.lnum, col: cursor.col };
+    }
+    Object.assign(cursor, { lnum, col });
+  }
+  if (!withSubmatch) {
+    return [lnum, col];
+  }
+  const submatch = match.matched.indexOf(true, 1);
+  return [lnum, col, submatch + 1 || 1];
+}
+
+/**
+ * Counts the matches of `pattern` in the buffer, like Vim's `searchcount()`.
+ * It can be used to show the search count like "[3/17]".
+ *
+ * The matches are counted from the start of the buffer like
+ * {@linkcode searchpos} is repeated without wrapping around.  The match
+ * that starts at or before the cursor is the current one.
+ *
+ * @param buffer - An array of lines or a {@linkcode TextBuffer}.
+ * @param pattern - Vim's regular expression pattern, or a `VimRegExp`.
+ * @param options - Optional parameters.
+ * @returns The search count.
+ *
+ * @throws {VimRegExpSyntaxError}
+ * Thrown if `pattern` is invalid format.
+ *
+ * @example
+ * ```ts
+ * import { searchcount } from "@milly/vimregexp/search";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const buffer = ["foo foo", "bar foo"];
+ * assertEquals(searchcount(buffer, "foo", { cursor: { lnum: 1, col: 6 } }), {
+ *   current: 2,
+ *   total: 3,
+ *   exact_match: true,
+ *   incomplete: 0,
+ *   maxcount: 99,
+ * });
+ * assertEquals(searchcount(buffer, "o", { maxcount: 3 }), {
+ *   current: 0,
+ *   total: 4,
+ *   exact_match: false,
+ *   incomplete: 2,
+ *   maxcount: 3,
+ * });
+ * ```
+ */
+export function searchcount(
+  buffer: VimBuffer,
+  pattern: string | VimRegExp,
+  options: SearchCountOptions = {},
+): SearchCountResult {
+  const { maxcount = 99, timeout = 0, cursor = { lnum: 1, col: 1 }, ...regexpOptions } = options;
+  const regex = pattern instanceof VimRegExp
+    ? pattern
+    : new VimRegExp(pattern, { ...regexpOptions, cursor });
+  const deadline = timeout > 0 ? Date.now() + timeout : Infinity;
+  const textBuffer = withDeadline(toTextBuffer(buffer), deadline);
+  const search: SearchContext = { regex, buffer: textBuffer, deadline };
+  const result: SearchCountResult = {
+    current: 0,
+    total: 0,
+    exact_match: false,
+    incomplete: 0,
+    maxcount,
+  };
+  try {
+    const start = { lnum: 1, col: 1 };
+    for (const match of searchLines(search, start, textBuffer.lineCount)) {
+      ++result.total;
+      if (!precedes(cursor, match)) {
+        result.current = result.total;
+        if (precedes(cursor, { lnum: match.endLnum, col: match.endCol })) {
+          result.exact_match = true;
+        }
+      }
+      if (maxcount > 0 && result.total > maxcount) {
+        result.incomplete = 2;
+        break;
+      }
+    }
+  } catch (e) {
+    if (e instanceof SearchTimeout) {
+      result.incomplete = 1;
+    } else {
+      throw e;
+    }
+  }
+  return result;
+}
+
+type SearchContext = {
+  regex: VimRegExp;
+  buffer: TextBuffer;
+  deadline: number;
+};
+
+type SearchState = SearchContext & {
+  cursor: VimPosition;
+  flags: string;
+  stopline: number;
+  wrap: boolean;
+};
+
+/** Thrown from the buffer when the timeout has passed. */
+class SearchTimeout extends Error {}
+
+function withDeadline(buffer: TextBuffer, deadline: number): TextBuffer {
+  if (deadline === Infinity) {
+    return buffer;
+  }
+  return {
+    get lineCount() {
+      return buffer.lineCount;
+    },
+    getLine(lnum) {
+      if (Date.now() > deadline) {
+        throw new SearchTimeout();
+      }
+      return buffer.getLine(lnum);
+    },
+  };
+}
+
+/**
+ * Searches the first match after the cursor.  Like Vim, the matches in the
+ * cursor line are tried from the first column and skipped until one is
+ * after the cursor.
+ */
+function searchForward(search: SearchState): VimBufferMatch | null {
+  const { buffer, cursor: { lnum, col }, flags, stopline } = search;
+  const extra = flags.includes("c") ? 0 : charLength(buffer, lnum, col);
+  const isBefore = (match: VimBufferMatch): boolean => {
+    if (match.lnum !== lnum) {
+      return false;
+    }
+    if (flags.includes("e")) {
+      return match.endLnum === match.lnum && match.endCol - 1 < col + extra;
+    }
+    // A match at the end of the line is compared like the cursor is on the
+    // last character, otherwise "$" gets stuck.
+    const atEnd = match.col > lineLength(buffer, match.lnum);
+    return match.col - (atEnd ? 1 : 0) < col + extra;
+  };
+  const start = { lnum, col: flags.includes("z") ? col : 1 };
+  for (const match of searchLines(search, start, stopline || buffer.lineCount)) {
+    if (!isBefore(match)) {
+      return match;
+    }
+  }
+  if (!search.wrap || stopline) {
+    return null;
+  }
+  const result = searchLines(search, { lnum: 1, col: 1 }, lnum).next();
+  return result.done ? null : result.value;
+}
+
+/**
+ * Searches the last match before the cursor.  Like Vim, the last match is
+ * found in the nearest line that has a match before the cursor.
+ */
+function searchBackward(search: SearchState): VimBufferMatch | null {
+  const { buffer, cursor: { lnum, col }, flags, stopline } = search;
+  const extra = flags.includes("c") ? charLength(buffer, lnum, col) : 0;
+  const isBefore = (match: VimBufferMatch): boolean =>
+    flags.includes("e")
+      ? match.endLnum < lnum || (match.endLnum === lnum && match.endCol - 1 < col + extra)
+      : match.lnum < lnum || (match.lnum === lnum && match.col < col + extra);
+  let found: VimBufferMatch | null = null;
+  let skipLnum = 0;
+  const check = (match: VimBufferMatch) => {
+    if (match.lnum === skipLnum) {
+      return;
+    } else if (isBefore(match)) {
+      found = match;
+    } else {
+      // The rest of the line is after the cursor.
+      skipLnum = match.lnum;
+    }
+  };
+  const firstLnum = Math.max(stopline, 1);
+  if (firstLnum < lnum) {
+    for (const match of searchLines(search, { lnum: firstLnum, col: 1 }, lnum - 1)) {
+      check(match);
+    }
+  }
+  // The cursor line is not searched if no match can be before the cursor.
+  if (firstLnum <= lnum && (col > 1 || flags.includes("c"))) {
+    const start = { lnum, col: flags.includes("z") ? col : 1 };
+    for (const match of searchLines(search, start, lnum)) {
+      check(match);
+    }
+  }
+  if (found || !search.wrap || stopline) {
+    return found;
+  }
+  for (const match of searchLines(search, { lnum, col: 1 }, buffer.lineCount)) {
+    found = match;
+  }
+  return found;
+}
+
+/**
+ * Yields the matches from `start` to the line `lastLnum`, like Vim searches
+ * lines one by one.  The search in a line continues at the end of the
+ * previous match, and stops at the end of the line or at a match that
+ * continues in the next line.  The next line is searched from the first
+ * column.
+ */
+function* searchLines(
+  search: SearchContext,
+  start: VimPosition,
+  lastLnum: number,
+): Generator<VimBufferMatch, void> {
+  const { regex, buffer, deadline } = search;
+  let from: VimPosition | undefined = start;
+  while (from) {
+    const matches = regex.matchAllBuffer(buffer, from);
+    from = undefined;
+    let prev: VimBufferMatch | undefined;
+    for (const match of matches) {
+      const { lnum, endLnum, endCol } = match;
+      if (lnum > lastLnum) {
+        return;
+      }
+      if (Date.now() > deadline) {
+        throw new SearchTimeout();
+      }
+      if (prev?.lnum === lnum && match.col > lineLength(buffer, lnum)) {
+        // Vim does not search again at the end of the line.
+        if (endLnum === lnum && endCol === match.col) {
+          continue;
+        }
+        from = { lnum: lnum + 1, col: 1 };
+        break;
+      }
+      yield match;
+      if (endLnum > lnum + 1 || (endLnum === lnum + 1 && endCol > 1)) {
+        from = { lnum: lnum + 1, col: 1 };
+        break;
+      }
+      prev = match;
+    }
+  }
+}
+
+/**
+ * Returns the position of the last character of the match.  If the match
+ * ends with a line break, it is the end of the line.
+ */
+function endPosition(buffer: TextBuffer, match: VimBufferMatch): VimPosition {
+  const { lnum, col, endLnum, endCol } = match;
+  if (endLnum === lnum && endCol === col) {
+    return { lnum, col };
+  }
+  if (endCol === 1) {
+    return { lnum: endLnum - 1, col: lineLength(buffer, endLnum - 1) + 1 };
+  }
+  const line = buffer.getLine(endLnum);
+  const end = convertOffset(line, endCol - 1, "byte", "utf16");
+  const last = end - (end >= 2 && /[\udc00-\udfff]/.test(line[end - 1]) ? 2 : 1);
+  return { lnum: endLnum, col: convertOffset(line, last, "utf16", "byte") + 1 };
+}
+
+/** Returns `true` if the position `a` is before `b`. */
+function precedes(a: VimPosition, b: VimPosition): boolean {
+  return a.lnum < b.lnum || (a.lnum === b.lnum && a.col < b.col);
+}
+
+/** Returns the byte length of the line. */
+function lineLength(buffer: TextBuffer, lnum: number): number {
+  return lnum >= 1 && lnum <= buffer.lineCount ? utf8Length(buffer.getLine(lnum)) : 0;
+}
+
+/** Returns the byte length of the character at the column, 1 after the line. */
+function charLength(buffer: TextBuffer, lnum: number, col: number): number {
+  if (col < 1 || col > lineLength(buffer, lnum)) {
+    return 1;
+  }
+  const line = buffer.getLine(lnum);
+  const index = convertOffset(line, col - 1, "byte", "utf16");
+  return utf8Length(String.fromCodePoint(line.codePointAt(index)!));
+}
@@ -0,0 +1,248 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+
+import type { TextBuffer } from "./buffer.ts";
+import { type VimPosition, VimRegExp } from "./regexp.ts";
+import { search, searchcount, searchpos } from "./search.ts";
+import { VimSearchSession } from "./session.ts";
+
+describe("searchpos", () => {
+  const buffer = ["foo foo", "aaaa", "x\u00e9x", "bar"];
+  const pos = (lnum: number, col: number, pattern: string, flags: string) =>
+    searchpos(buffer, pattern, { cursor: { lnum, col }, flags });
+
+  it("returns the first match after the cursor.", () => {
+    assertEquals(pos(1, 1, "foo", "n"), [1, 5]);
+    assertEquals(pos(2, 2, "aa", "n"), [2, 3]);
+    assertEquals(pos(3, 2, "x", "n"), [3, 4]);
+  });
+  it("returns [0, 0] if there is no match.", () => {
+    assertEquals(pos(1, 1, "xyz", "n"), [0, 0]);
+    assertEquals(searchpos([], "x"), [0, 0]);
+  });
+  it("accepts a match at the cursor with 'c'.", () => {
+    assertEquals(pos(1, 1, "foo", "cn"), [1, 1]);
+    assertEquals(pos(2, 2, "aa", "cn"), [2, 3]);
+    assertEquals(pos(3, 2, "\u00e9", "cn"), [3, 2]);
+  });
+  it("starts at the cursor column with 'z'.", () => {
+    assertEquals(pos(2, 2, "aa", "znW"), [0, 0]);
+    assertEquals(pos(2, 2, "aa", "cznW"), [2, 2]);
+  });
+  it("moves to the end of the match with 'e'.", () => {
+    assertEquals(pos(1, 3, "foo", "enW"), [1, 7]);
+    assertEquals(pos(1, 3, "foo", "cenW"), [1, 3]);
+    assertEquals(pos(1, 2, "foo", "enW"), [1, 3]);
+    assertEquals(pos(2, 1, "x\u00e9", "en"), [3, 2]);
+    assertEquals(pos(1, 1, "o\\n", "enW"), [1, 8]);
+  });
+  it("does not get stuck at the end of the line.", () => {
+    assertEquals(pos(1, 7, "$", "nW"), [2, 5]);
+    assertEquals(pos(1, 6, "$", "nW"), [1, 8]);
+    assertEquals(pos(2, 1, "a*", "nW"), [3, 1]);
+  });
+  it("wraps around the end of the buffer.", () => {
+    assertEquals(pos(1, 5, "foo", "nw"), [1, 1]);
+    assertEquals(pos(1, 5, "foo", "nW"), [0, 0]);
+    assertEquals(searchpos(buffer, "foo", { cursor: { lnum: 1, col: 5 }, wrapscan: false }), [
+      0,
+      0,
+    ]);
+    assertEquals(pos(1, 5, "foo", "nWw"), [1, 1]);
+  });
+  it("searches multi-line patterns.", () => {
+    assertEquals(pos(1, 1, "o\\nfoo\\|a", "nW"), [2, 1]);
+    assertEquals(pos(1, 1, "foo\\na\\|o", "nW"), [1, 2]);
+    assertEquals(pos(1, 6, "o\\na", "nW"), [1, 7]);
+  });
+  it("returns the number of the matching sub-pattern with 'p'.", () => {
+    assertEquals(pos(2, 1, "\\(b\\)\\|\\(x\\)", "pnW"), [3, 1, 3]);
+    assertEquals(pos(1, 1, "\\(x\\)\\=aa", "pnW"), [2, 1, 1]);
+    assertEquals(pos(1, 1, "xyz", "pnW"), [0, 0, 0]);
+  });
+  it("counts the sub-pattern that matches the empty string with 'p'.", () => {
+    const cursor = { lnum: 1, col: 1 };
+    assertEquals(searchpos(["yya"], "\\(x*\\)\\(a\\)", { cursor, flags: "cnp" }), [1, 3, 2]);
+    assertEquals(searchpos(["yya"], "\\(x\\)\\=\\(a\\)", { cursor, flags: "cnp" }), [1, 3, 3]);
+    assertEquals(searchpos(["yya"], "\\%(x\\)\\=a\\(\\)", { cursor, flags: "cnp" }), [1, 3, 2]);
+    assertEquals(searchpos(["yya"], "y\\zs\\(\\)\\|\\(a\\)", { cursor, flags: "cnp" }), [
+      1,
+      2,
+      2,
+    ]);
+  });
+  it("stops after the stopline.", () => {
+    const cursor = { lnum: 1, col: 1 };
+    assertEquals(searchpos(buffer, "a", { cursor, stopline: 1 }), [0, 0]);
+    assertEquals(searchpos(buffer, "a", { cursor, stopline: 2, flags: "n" }), [2, 1]);
+    assertEquals(searchpos(buffer, "foo", { cursor, stopline: 1, flags: "bnw" }), [0, 0]);
+  });
+  it("gives up when the timeout has passed.", () => {
+    let lnum = 0;
+    const slow: TextBuffer = {
+      lineCount: 100,
+      getLine(n) {
+        // Wait 10 milliseconds for each line.
+        const start = Date.now();
+        while (Date.now() - start < 10);
+        lnum = n;
+        return n === 100 ? "x" : "";
+      },
+    };
+    assertEquals(searchpos(slow, "x", { timeout: 50 }), [0, 0]);
+    assertEquals(lnum < 100, true);
+  });
+  it("moves the cursor unless 'n'.", () => {
+    const cursor = { lnum: 1, col: 2 };
+    assertEquals(searchpos(buffer, "foo", { cursor, flags: "W" }), [1, 5]);
+    assertEquals(cursor, { lnum: 1, col: 5 });
+    assertEquals(searchpos(buffer, "foo", { cursor, flags: "We" }), [1, 7]);
+    assertEquals(cursor, { lnum: 1, col: 7 });
+    assertEquals(searchpos(buffer, "oo", { cursor, flags: "W" }), [0, 0]);
+    assertEquals(cursor, { lnum: 1, col: 7 });
+  });
+  it("sets the \"'\" mark with 's'.", () => {
+    const cursor = { lnum: 2, col: 2 };
+    const marks: Record<string, VimPosition> = {};
+    assertEquals(searchpos(buffer, "bar", { cursor, marks, flags: "s" }), [4, 1]);
+    assertEquals(marks, { "'": { lnum: 2, col: 2 } });
+  });
+  it("uses the cursor for the pattern.", () => {
+    assertEquals(pos(1, 5, "\\%#.", "cn"), [1, 5]);
+    assertEquals(pos(2, 1, "\\%.l.", "n"), [2, 2]);
+  });
+  it("accepts a VimRegExp.", () => {
+    const regex = new VimRegExp("BAR", { ignorecase: true });
+    assertEquals(searchpos(buffer, regex), [4, 1]);
+  });
+  it("throws if the flags are invalid.", () => {
+    assertThrows(() => searchpos(buffer, "x", { flags: "x" }), TypeError);
+    assertThrows(() => searchpos(buffer, "x", { flags: "r" }), TypeError);
+    assertThrows(() => searchpos(buffer, "x", { flags: "ns" }), TypeError);
+    assertThrows(() => searchpos(buffer, "x", { stopline: -1 }), RangeError);
+  });
+
+  describe("with 'b'", () => {
+    it("returns the last match before the cursor.", () => {
+      assertEquals(pos(1, 5, "foo", "bnW"), [1, 1]);
+      assertEquals(pos(1, 6, "foo", "bnW"), [1, 5]);
+      assertEquals(pos(3, 2, "x", "bnW"), [3, 1]);
+      assertEquals(pos(4, 1, "aa", "bnW"), [2, 3]);
+      assertEquals(pos(2, 4, "a*", "bnW"), [2, 1]);
+      assertEquals(pos(4, 3, "r", "bnW"), [0, 0]);
+    });
+    it("accepts a match at the cursor with 'c'.", () => {
+      assertEquals(pos(1, 5, "foo", "bcnW"), [1, 5]);
+      assertEquals(pos(4, 3, "r", "bcnW"), [4, 3]);
+      assertEquals(pos(2, 1, "^", "bcnW"), [2, 1]);
+      assertEquals(pos(2, 1, "^", "bnW"), [1, 1]);
+    });
+    it("compares the end of the match with 'e'.", () => {
+      assertEquals(pos(1, 7, "foo", "benW"), [1, 3]);
+      assertEquals(pos(1, 7, "foo", "bcenW"), [1, 7]);
+      assertEquals(pos(2, 2, "o\\na", "benW"), [2, 1]);
+      assertEquals(pos(2, 1, "aaaa", "bcenW"), [0, 0]);
+      assertEquals(pos(2, 1, "^", "benW"), [1, 1]);
+    });
+    it("compares the multibyte character at the cursor.", () => {
+      const buffer = ["a\u00e9 a\u00e9"];
+      const cursor = (col: number) => ({ lnum: 1, col });
+      assertEquals(searchpos(buffer, "a\u00e9", { cursor: cursor(5), flags: "bcen" }), [1, 2]);
+      assertEquals(searchpos(buffer, "a\u00e9", { cursor: cursor(2), flags: "bcen" }), [1, 2]);
+      assertEquals(searchpos(buffer, "a\u00e9", { cursor: cursor(2), flags: "bcn" }), [1, 1]);
+    });
+    it("starts at the cursor column with 'z'.", () => {
+      const buffer = ["aaaa", "foo", "bar foo"];
+      const cursor = (col: number) => ({ lnum: 3, col });
+      assertEquals(searchpos(buffer, "foo", { cursor: cursor(5), flags: "bznW" }), [2, 1]);
+      assertEquals(searchpos(buffer, "foo", { cursor: cursor(5), flags: "bcznW" }), [3, 5]);
+      assertEquals(searchpos(buffer, "o", { cursor: cursor(6), flags: "bznW" }), [2, 3]);
+    });
+    it("wraps around the start of the buffer.", () => {
+      assertEquals(pos(1, 1, "foo", "bnW"), [0, 0]);
+      assertEquals(pos(1, 1, "foo", "bnw"), [1, 5]);
+      assertEquals(pos(2, 2, "a", "bnw"), [2, 1]);
+      assertEquals(pos(2, 1, "a", "bnw"), [4, 2]);
+    });
+    it("searches multi-line patterns.", () => {
+      assertEquals(pos(2, 3, "o\\na", "bnW"), [1, 7]);
+      assertEquals(pos(2, 3, "a\\n\\zsx", "bnW"), [0, 0]);
+      assertEquals(pos(4, 1, "a\\n\\|\u00e9", "bnW"), [3, 2]);
+      assertEquals(pos(3, 1, "a\\n\\|a", "bnW"), [2, 4]);
+    });
+    it("stops after the stopline.", () => {
+      const cursor = { lnum: 4, col: 1 };
+      assertEquals(searchpos(buffer, "foo", { cursor, stopline: 2, flags: "bn" }), [0, 0]);
+      assertEquals(searchpos(buffer, "foo", { cursor, stopline: 1, flags: "bn" }), [1, 5]);
+    });
+  });
+});
+
+describe("search", () => {
+  it("returns the line number of the match.", () => {
+    const cursor = { lnum: 1, col: 1 };
+    assertEquals(search(["foo", "bar"], "bar", { cursor }), 2);
+    assertEquals(cursor, { lnum: 2, col: 1 });
+    assertEquals(search(["foo", "bar"], "baz", { cursor }), 0);
+  });
+  it("returns the number of the matching sub-pattern with 'p'.", () => {
+    assertEquals(search(["foo", "bar"], "\\(x\\)\\|\\(a\\)", { flags: "p" }), 3);
+    assertEquals(search(["foo", "bar"], "bar", { flags: "p" }), 1);
+    assertEquals(search(["foo", "bar"], "baz", { flags: "p" }), 0);
+  });
+});
+
+describe("searchcount", () => {
+  const buffer = ["foo foo", "aaaa", "x\u00e9x foo", "bar"];
+  const count = (lnum: number, col: number, pattern: string, maxcount = 99) => {
+    const { current, total, exact_match, incomplete } = searchcount(buffer, pattern, {
+      cursor: { lnum, col },
+      maxcount,
+    });
+    return [current, total, exact_match, incomplete];
+  };
+
+  it("returns the current match and the total.", () => {
+    assertEquals(count(1, 1, "foo"), [1, 3, true, 0]);
+    assertEquals(count(1, 2, "foo"), [1, 3, true, 0]);
+    assertEquals(count(1, 4, "foo"), [1, 3, false, 0]);
+    assertEquals(count(4, 1, "foo"), [3, 3, false, 0]);
+    assertEquals(count(1, 1, "zzz"), [0, 0, false, 0]);
+    assertEquals(count(2, 2, "aa"), [1, 2, true, 0]);
+  });
+  it("counts the matches like Vim searches lines.", () => {
+    assertEquals(count(2, 3, "a*"), [8, 18, true, 0]);
+    assertEquals(count(1, 8, "$"), [1, 4, false, 0]);
+    assertEquals(count(1, 7, "$"), [0, 4, false, 0]);
+  });
+  it("counts multi-line matches.", () => {
+    assertEquals(count(1, 1, "o\\na"), [0, 1, false, 0]);
+    assertEquals(count(2, 1, "o\\na"), [1, 1, true, 0]);
+  });
+  it("stops when the count exceeds maxcount.", () => {
+    assertEquals(count(3, 5, "foo", 2), [2, 3, false, 2]);
+    assertEquals(count(4, 1, "foo", 2), [3, 3, false, 2]);
+    assertEquals(count(1, 1, "foo", 1), [1, 2, true, 2]);
+    assertEquals(count(1, 1, "foo", 0), [1, 3, true, 0]);
+    assertEquals(searchcount(buffer, "foo", { maxcount: 2 }).maxcount, 2);
+  });
+  it("gives up when the timeout has passed.", () => {
+    const slow: TextBuffer = {
+      lineCount: 100,
+      getLine(n) {
+        // Wait 10 milliseconds for each line.
+        const start = Date.now();
+        while (Date.now() - start < 10);
+        return `x${n}`;
+      },
+    };
+    const result = searchcount(slow, "x", { timeout: 50, maxcount: 0 });
+    assertEquals(result.incomplete, 1);
+    assertEquals(result.total < 100, true);
+  });
+  it("uses the last search pattern for the empty pattern.", () => {
+    const session = new VimSearchSession();
+    session.setLastSearchPattern("aa");
+    assertEquals(searchcount(buffer, "", { session }).total, 2);
+  });
+});
@@ -0,0 +1,400 @@
+/**
+ * This module provides the parser and the executor of Vim's search
+ * commands with offsets, like "/foo/e+1" and "?bar?;/baz/", that move the
+ * cursor in a buffer.
+ *
+ * Like Vim, the columns are byte indices of the lines encoded in UTF-8,
+ * 1-based.
+ *
+ * @module
+ */
+
+import { type TextBuffer, toTextBuffer, type VimBuffer } from "./buffer.ts";
+import { VimCommandError } from "./errors.ts";
+import { convertOffset, utf8Length } from "./offset.ts";
+import { type ParseOptions, skipPattern } from "./parser.ts";
+import { type VimPosition, VimRegExp, type VimRegExpOptions } from "./regexp.ts";
+import { searchpos } from "./search.ts";
+import type { VimSearchOffset } from "./session.ts";
+
+/**
+ * A search parsed by {@linkcode parseSearchCommand}.
+ */
+export type SearchCommand = {
+  /** `"/"` searches forward, and `"?"` searches backward. */
+  direction: "/" | "?";
+  /** The pattern, the empty string uses the last used pattern. */
+  pattern: string;
+  /**
+   * The offset.  `undefined` if nothing follows the direction, like "/",
+   * then the offset of the last search command is used.
+   */
+  offset?: VimSearchOffset;
+};
+
+/**
+ * Optional parameters of {@linkcode executeSearchCommand}.
+ *
+ * The options of {@linkcode VimRegExpOptions} are used to compile the
+ * patterns.  {@linkcode VimRegExpOptions.session} holds the last pattern
+ * and the last offset, that are used by the search without them, like "/"
+ * and "//e".
+ */
+export type SearchCommandOptions =
+  & Omit<VimRegExpOptions, "flags" | "stringMatch" | "firstLine">
+  & {
+    /**
+     * Finds the count-th match, like "3/foo".  Each of the searches chained
+     * by ";" uses the count.
+     *
+     * @default {1}
+     */
+    count?: number;
+
+    /**
+     * Whether the search wraps around the end of the buffer, like Vim's
+     * 'wrapscan' option.
+     *
+     * @default {true}
+     */
+    wrapscan?: boolean;
+
+    /**
+     * Cursor position.  The object is updated to the result, like the cursor
+     * of Vim.
+     *
+     * @default {{ lnum: 1, col: 1 }}
+     */
+    cursor?: VimPosition;
+
+    /**
+     * Positions of the marks, keyed by the mark name.  The "'" mark is set
+     * in the object at the previous position of the cursor.
+     */
+    marks?: Record<string, VimPosition>;
+  };
+
+/**
+ * The result of {@linkcode executeSearchCommand}.
+ */
+export type SearchCommandResult = VimPosition & {
+  /**
+   * Whether the line offset is used, like "/foo/+1", then the motion is
+   * linewise.
+   */
+  linewise: boolean;
+};
+
+const DEFAULT_OFFSET: VimSearchOffset = { type: "start", offset: 0 };
+
+/**
+ * Parses the search command with offsets, like "/foo/e+1".  The searches
+ * chained by ";" are returned in order, like "/foo/;?bar".
+ *
+ * The pattern ends at the delimiter that is not in a collection, and "\?"
+ * is changed to "?" in the pattern of "?".  The offset follows the
+ * delimiter, see Vim's `:help search-offset`:
+ *
+ * - `[num]`, `+[num]`, `-[num]`: Lines down or up, the cursor is moved to
+ *   the first column.
+ * - `e[+num]`, `e[-num]`: Characters right or left from the end of the
+ *   match.
+ * - `s[+num]`, `s[-num]`, `b[+num]`, `b[-num]`: Characters right or left
+ *   from the start of the match.
+ *
+ * The rest of the text after the offset is ignored unless it is ";".
+ *
+ * @param text - The command line that starts with "/" or "?".
+ * @param options - Optional parameters.
+ * @returns The searches.
+ *
+ * @throws {TypeError}
+ * Thrown if `text` does not start with "/" or "?".
+ *
+ * @throws {VimCommandError}
+ * Thrown if ";" is not followed by "/" or "?" (E386).
+ *
+ * @example
+ * ```ts
+ * import { parseSearchCommand } from "@milly/vimregexp/searchcommand";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(parseSearchCommand("/foo/e-1;?a\\?b?+"), [
+ *   { direction: "/", pattern: "foo", offset: { type: "end", offset: -1 } },
+ *   { direction: "?", pattern: "a?b", offset: { type: "line", offset: 1 } },
+ * ]);
+ * assertEquals(parseSearchCommand("/"), [{ direction: "/", pattern: "" }]);
+ * ```
+ */
+export function parseSearchCommand(text: string, options: ParseOptions = {}): SearchCommand[] {
+  const { commands, error } = parseSearches(text, options);
+  if (error) {
+    throw error;
+  }
+  return commands;
+}
+
+/**
+ * Parses the searches of the search command.  The error after ";" is
+ * returned with the searches before it, Vim reports it after searching
+ * them.
+ */
+function parseSearches(
+  text: string,
+  options: ParseOptions,
+): { commands: SearchCommand[]; error?: VimCommandError } {
+  const commands: SearchCommand[] = [];
+  let rest = text;
+  for (;;) {
+    const direction = rest[0];
+    if (direction !== "/" && direction !== "?") {
+      if (commands.length === 0) {
+        throw new TypeError(`Invalid search command: "${text}"`);
+      }
+      const error = new VimCommandError("E386", "Expected '?' or '/'  after ';'");
+      return { commands, error };
+    }
+    rest = rest.slice(1);
+    if (rest === "") {
+      commands.push({ direction, pattern: "" });
+      break;
+    }
+    const skipped = skipPattern(rest, direction, options);
+    rest = skipped.rest.slice(1);
+    const [, kind = "", sign, digits] = /^([esb]?)([-+]?)(\d*)/.exec(rest)!;
+    const offset: VimSearchOffset = {
+      type: kind === "e" ? "end" : kind !== "" || !(sign || digits) ? "start" : "line",
+      offset: digits ? Number(`${sign}${digits}`) : sign === "-" ? -1 : sign === "+" ? 1 : 0,
+    };
+    rest = rest.slice(kind.length + sign.length + digits.length);
+    commands.push({ direction, pattern: skipped.pattern, offset });
+    if (rest[0] !== ";") {
+      break;
+    }
+    rest = rest.slice(1);
+  }
+  return { commands };
+}
+
+/**
+ * Executes the search command with offsets in the buffer, like typing
+ * "/foo/e+1" in Vim.  Returns the position of the cursor after the search,
+ * and the cursor is moved to it.
+ *
+ * Each search starts at the position found by the previous one, and the
+ * position of the match is moved by the offset.  Like Vim, the start
+ * position is moved back by a character offset before the search, so that
+ * repeating the search with the same offset finds the next match.  A
+ * character offset moves across the lines and stops at the start or the
+ * end of the buffer, and a line offset is limited to the buffer.
+ *
+ * Like the cursor in Normal mode, the column of the result is on the last
+ * character if the position is at the end of the line.
+ *
+ * @param buffer - An array of lines or a {@linkcode TextBuffer}.
+ * @param command - The searches parsed by {@linkcode parseSearchCommand}, or
+ *   the command line.
+ * @param options - Optional parameters.
+ * @returns The position of the cursor, and whether the motion is linewise.
+ *
+ * @throws {VimCommandError}
+ * Thrown if the command is invalid (see {@linkcode parseSearchCommand}),
+ * the last pattern is not set (E35), or the pattern is not found (E486, or
+ * E384 and E385 without wrapscan).
+ *
+ * @throws {VimRegExpSyntaxError}
+ * Thrown if the pattern is invalid.
+ *
+ * @throws {RangeError}
+ * Thrown if `count` is not positive.
+ *
+ * @example
+ * ```ts
+ * import { executeSearchCommand } from "@milly/vimregexp/searchcommand";
+ * import { VimSearchSession } from "@milly/vimregexp/session";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const buffer = ["foo bar", "  baz", "bar"];
+ * const cursor = { lnum: 1, col: 1 };
+ * const session = new VimSearchSession();
+ * assertEquals(executeSearchCommand(buffer, "/bar/e+1", { cursor, session }), {
+ *   lnum: 2,
+ *   col: 1,
+ *   linewise: false,
+ * });
+ * assertEquals(executeSearchCommand(buffer, "/", { cursor, session }), {
+ *   lnum: 3,
+ *   col: 3,
+ *   linewise: false,
+ * });
+ * assertEquals(cursor, { lnum: 3, col: 3 });
+ * assertEquals(executeSearchCommand(buffer, "?foo?;/a/-1", { cursor, session }), {
+ *   lnum: 1,
+ *   col: 1,
+ *   linewise: true,
+ * });
+ * ```
+ */
+export function executeSearchCommand(
+  buffer: VimBuffer,
+  command: SearchCommand[] | string,
+  options: SearchCommandOptions = {},
+): SearchCommandResult {
+  const {
+    count = 1,
+    wrapscan = true,
+    cursor = { lnum: 1, col: 1 },
+    marks,
+    session,
+    ...regexOptions
+  } = options;
+  if (count < 1) {
+    throw new RangeError(`Invalid count: ${count}`);
+  }
+  const { commands, error } = typeof command === "string"
+    ? parseSearches(command, { magic: options.magic })
+    : { commands: command };
+  const textBuffer = toTextBuffer(buffer);
+  const pos = { lnum: cursor.lnum, col: cursor.col };
+  let linewise = false;
+  for (const { direction, pattern, offset: givenOffset } of commands) {
+    const source = pattern ? { pattern, typed: true } : session?.lastPattern;
+    if (!source) {
+      throw new VimCommandError("E35", "No previous regular expression");
+    }
+    const offset = givenOffset ?? session?.lastSearchOffset ?? DEFAULT_OFFSET;
+    session?.setLastSearchPattern(source.pattern, source.typed);
+    session?.setLastSearchOffset(offset);
+    const regex = new VimRegExp(source.pattern, {
+      ...regexOptions,
+      cursor,
+      marks,
+      session,
+      ...(source.typed ? {} : { smartcase: false }),
+    });
+
+    const backward = direction === "?";
+    const atEnd = offset.type === "end";
+    // Start before the offset, otherwise the cursor would stay at the match.
+    let start: VimPosition | undefined = pos;
+    if (offset.type !== "line" && offset.offset !== 0) {
+      start = moveChars(textBuffer, pos, -offset.offset);
+    }
+    const flags = `n${backward ? "b" : ""}${atEnd ? "e" : ""}${wrapscan ? "w" : "W"}`;
+    let startFlags = flags;
+    // Like Vim, the search from the start of the buffer forward or from the
+    // end backward does not wrap around, otherwise it does.
+    if (!start && (wrapscan || offset.offset > 0 !== backward)) {
+      const lnum = backward ? textBuffer.lineCount : 1;
+      start = { lnum, col: backward ? lineLength(textBuffer, lnum) + 1 : 1 };
+      startFlags = `c${flags}`;
+    }
+    let found: VimPosition | undefined;
+    for (let n = count; start && n > 0; --n) {
+      const [lnum, col] = searchpos(textBuffer, regex, {
+        cursor: found ?? start,
+        flags: found ? flags : startFlags,
+      });
+      found = lnum > 0 ? { lnum, col } : undefined;
+      if (!found) {
+        break;
+      }
+    }
+    if (!found) {
+      if (wrapscan) {
+        throw new VimCommandError("E486", `Pattern not found: ${source.pattern}`);
+      }
+      throw backward
+        ? new VimCommandError("E384", `Search hit TOP without match for: ${source.pattern}`)
+        : new VimCommandError("E385", `Search hit BOTTOM without match for: ${source.pattern}`);
+    }
+
+    if (offset.type === "line") {
+      pos.lnum = Math.min(Math.max(found.lnum + offset.offset, 1), textBuffer.lineCount);
+      pos.col = 1;
+      linewise = true;
+    } else {
+      Object.assign(pos, moveChars(textBuffer, found, offset.offset, true));
+      linewise = false;
+    }
+  }
+  if (error) {
+    // Like Vim, the searches before the error are done.
+    throw error;
+  }
+  pos.col = Math.min(pos.col, Math.max(lineLength(textBuffer, pos.lnum), 1));
+  if (marks) {
+    marks["'"] = { lnum: cursor.lnum, col: cursor.col };
+  }
+  Object.assign(cursor, pos);
+  return { ...pos, linewise };
+}
+
+/**
+ * Moves the position by `count` characters across the lines, like Vim's
+ * `incl()` and `decl()`.  The end of a non-empty line is skipped.  Returns
+ * `undefined` if the start or the end of the buffer is reached, or the
+ * position there if `stop` is `true`.
+ */
+function moveChars(
+  buffer: TextBuffer,
+  from: VimPosition,
+  count: number,
+  stop = false,
+): VimPosition | undefined {
+  const pos = { lnum: from.lnum, col: from.col };
+  const step = count > 0 ? nextChar : prevChar;
+  for (let n = Math.abs(count); n > 0; --n) {
+    if (!step(buffer, pos)) {
+      return stop ? pos : undefined;
+    }
+  }
+  return pos;
+}
+
+/** Moves the position to the next character, returns `false` at the end. */
+function nextChar(buffer: TextBuffer, pos: VimPosition): boolean {
+  const line = buffer.getLine(pos.lnum);
+  const length = utf8Length(line);
+  if (pos.col <= length) {
+    const index = convertOffset(line, pos.col - 1, "byte", "utf16");
+    pos.col += utf8Length(line.slice(index).match(reChar)![0]);
+    if (pos.col <= length) {
+      return true;
+    }
+  }
+  if (pos.lnum >= buffer.lineCount) {
+    return false;
+  }
+  ++pos.lnum;
+  pos.col = 1;
+  return true;
+}
+
+/** Moves the position to the previous character, returns `false` at the start. */
+function prevChar(buffer: TextBuffer, pos: VimPosition): boolean {
+  if (pos.col <= 1) {
+    if (pos.lnum <= 1) {
+      return false;
+    }
+    --pos.lnum;
+    pos.col = lineLength(buffer, pos.lnum) + 1;
+    if (pos.col === 1) {
+      return true;
+    }
+  }
+  const line = buffer.getLine(pos.lnum);
+  const index = convertOffset(line, Math.min(pos.col - 1, utf8Length(line)), "byte", "utf16");
+  const char = line.slice(0, index).match(reLastChar)![0];
+  pos.col -= utf8Length(char);
+  return true;
+}
+
+/** A character with the following composing characters. */
+const reChar = /^[^]\p{M}*/u;
+const reLastChar = /(?:[^]\p{M}*|\p{M}+)$/u;
+
+/** Returns the byte length of the line. */
+function lineLength(buffer: TextBuffer, lnum: number): number {
+  return lnum >= 1 && lnum <= buffer.lineCount ? utf8Length(buffer.getLine(lnum)) : 0;
+}
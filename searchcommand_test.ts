@@ -0,0 +1,250 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+
+import { VimCommandError } from "./errors.ts";
+import type { VimPosition } from "./regexp.ts";
+import {
+  executeSearchCommand,
+  parseSearchCommand,
+  type SearchCommandOptions,
+} from "./searchcommand.ts";
+import { VimSearchSession } from "./session.ts";
+
+describe("parseSearchCommand", () => {
+  it("parses the pattern and the offset.", () => {
+    assertEquals(parseSearchCommand("/foo/e+1"), [
+      { direction: "/", pattern: "foo", offset: { type: "end", offset: 1 } },
+    ]);
+    assertEquals(parseSearchCommand("?foo?b-2"), [
+      { direction: "?", pattern: "foo", offset: { type: "start", offset: -2 } },
+    ]);
+  });
+  it("parses the offsets like Vim.", () => {
+    const offset = (text: string) => parseSearchCommand(`/x/${text}`)[0].offset;
+    assertEquals(offset(""), { type: "start", offset: 0 });
+    assertEquals(offset("3"), { type: "line", offset: 3 });
+    assertEquals(offset("+"), { type: "line", offset: 1 });
+    assertEquals(offset("-"), { type: "line", offset: -1 });
+    assertEquals(offset("-12"), { type: "line", offset: -12 });
+    assertEquals(offset("e"), { type: "end", offset: 0 });
+    assertEquals(offset("e3"), { type: "end", offset: 3 });
+    assertEquals(offset("s+"), { type: "start", offset: 1 });
+    assertEquals(offset("b-"), { type: "start", offset: -1 });
+    assertEquals(offset("x"), { type: "start", offset: 0 });
+  });
+  it("uses the last offset only if nothing follows the direction.", () => {
+    assertEquals(parseSearchCommand("/"), [{ direction: "/", pattern: "" }]);
+    assertEquals(parseSearchCommand("??"), [
+      { direction: "?", pattern: "", offset: { type: "start", offset: 0 } },
+    ]);
+    assertEquals(parseSearchCommand("/foo"), [
+      { direction: "/", pattern: "foo", offset: { type: "start", offset: 0 } },
+    ]);
+  });
+  it("skips the delimiter in a collection and after a backslash.", () => {
+    assertEquals(parseSearchCommand("/a[/]\\/b/e")[0].pattern, "a[/]\\/b");
+    assertEquals(parseSearchCommand("?a\\?b?e")[0].pattern, "a?b");
+    assertEquals(parseSearchCommand("?a\\/b?e")[0].pattern, "a\\/b");
+  });
+  it("parses the searches chained by ';'.", () => {
+    assertEquals(parseSearchCommand("/foo/;?bar?e;/baz"), [
+      { direction: "/", pattern: "foo", offset: { type: "start", offset: 0 } },
+      { direction: "?", pattern: "bar", offset: { type: "end", offset: 0 } },
+      { direction: "/", pattern: "baz", offset: { type: "start", offset: 0 } },
+    ]);
+    assertEquals(parseSearchCommand("/foo/+1;/bar").length, 2);
+    assertEquals(parseSearchCommand("/foo/+1 ;/bar").length, 1);
+  });
+  it("throws if ';' is not followed by '/' or '?'.", () => {
+    assertThrows(
+      () => parseSearchCommand("/foo/;bar"),
+      VimCommandError,
+      "E386: Expected '?' or '/'  after ';'",
+    );
+    assertThrows(
+      () => parseSearchCommand("/foo/;"),
+      VimCommandError,
+      "E386: Expected '?' or '/'  after ';'",
+    );
+  });
+  it("throws if the command does not start with '/' or '?'.", () => {
+    assertThrows(() => parseSearchCommand("foo"), TypeError, 'Invalid search command: "foo"');
+    assertThrows(() => parseSearchCommand(""), TypeError);
+  });
+});
+
+describe("executeSearchCommand", () => {
+  const exec = (
+    buffer: string[],
+    [lnum, col]: [number, number],
+    command: string,
+    options: SearchCommandOptions = {},
+  ) => {
+    const { linewise: _, ...pos } = executeSearchCommand(buffer, command, {
+      ...options,
+      cursor: { lnum, col },
+    });
+    return [pos.lnum, pos.col];
+  };
+
+  it("moves the cursor to the match.", () => {
+    const cursor = { lnum: 1, col: 1 };
+    assertEquals(executeSearchCommand(["foo bar", "bar"], "/bar", { cursor }), {
+      lnum: 1,
+      col: 5,
+      linewise: false,
+    });
+    assertEquals(cursor, { lnum: 1, col: 5 });
+    executeSearchCommand(["foo bar", "bar"], "/bar", { cursor });
+    assertEquals(cursor, { lnum: 2, col: 1 });
+  });
+  it('sets the "\'" mark at the previous position of the cursor.', () => {
+    const cursor = { lnum: 1, col: 2 };
+    const marks: Record<string, VimPosition> = {};
+    executeSearchCommand(["foo bar"], "/bar", { cursor, marks });
+    assertEquals(marks, { "'": { lnum: 1, col: 2 } });
+  });
+  it("moves the cursor by lines with the line offset.", () => {
+    const buffer = ["  foo", "  bar", "baz"];
+    assertEquals(executeSearchCommand(buffer, "/bar/+1"), { lnum: 3, col: 1, linewise: true });
+    assertEquals(exec(buffer, [1, 1], "/foo/+1"), [2, 1]);
+    assertEquals(exec(buffer, [1, 1], "/bar/-"), [1, 1]);
+    assertEquals(exec(buffer, [1, 1], "/bar/-5"), [1, 1]);
+    assertEquals(exec(buffer, [1, 1], "/bar/+9"), [3, 1]);
+    assertEquals(exec(buffer, [2, 1], "?foo?+"), [2, 1]);
+  });
+  it("moves the cursor from the end of the match with 'e'.", () => {
+    const buffer = ["abc", "def"];
+    assertEquals(exec(buffer, [1, 1], "/c/e+1"), [2, 1]);
+    assertEquals(exec(buffer, [1, 1], "/c/e+2"), [2, 2]);
+    assertEquals(exec(buffer, [1, 1], "/e/e+9"), [2, 3]);
+    assertEquals(exec(buffer, [2, 3], "?c?e+1"), [2, 1]);
+    assertEquals(exec(["abc", "", "def"], [1, 1], "/c/e+2"), [3, 1]);
+    assertEquals(exec(["foo", "bar"], [1, 1], "/o\\n/e"), [1, 3]);
+    assertEquals(exec(["foo", "bar"], [1, 1], "/o\\n/e+1"), [2, 1]);
+  });
+  it("moves the cursor from the start of the match with 's' and 'b'.", () => {
+    const buffer = ["abc", "def"];
+    assertEquals(exec(buffer, [1, 1], "/e/b-2"), [1, 3]);
+    assertEquals(exec(buffer, [1, 1], "/e/s-4"), [1, 1]);
+    assertEquals(exec(buffer, [2, 3], "?a?s-1"), [1, 1]);
+    assertEquals(exec(["xab xab"], [1, 1], "/a/s+1"), [1, 3]);
+  });
+  it("starts the search before the offset.", () => {
+    assertEquals(exec(["xab xab"], [1, 1], "/b/e-1"), [1, 2]);
+    assertEquals(exec(["xab xab"], [1, 2], "/b/e-1"), [1, 6]);
+    assertEquals(exec(["xab xab"], [1, 3], "/a/s+1"), [1, 7]);
+    assertEquals(exec(["foo", "bar"], [2, 1], "/o/e+3"), [2, 2]);
+  });
+  it("searches from the start or the end of the buffer if the offset reaches it.", () => {
+    const options = { wrapscan: false };
+    assertEquals(exec(["abc"], [1, 1], "/a/e+1", options), [1, 2]);
+    assertEquals(exec(["abc", "abc"], [2, 3], "?c?e-1", options), [2, 2]);
+    assertThrows(
+      () => exec(["abc", "abc"], [1, 1], "?c?e+1", options),
+      VimCommandError,
+      "E384: Search hit TOP without match for: c",
+    );
+    assertThrows(
+      () => exec(["abc", "abc"], [2, 3], "/c/e-1", options),
+      VimCommandError,
+      "E385: Search hit BOTTOM without match for: c",
+    );
+    assertEquals(exec(["abc", "abc"], [1, 1], "?c?e+1"), [2, 3]);
+    assertEquals(exec(["abc", "abc"], [2, 3], "/c/e-1"), [1, 2]);
+  });
+  it("counts the characters with the composing characters.", () => {
+    assertEquals(exec(["a\u00e9b\u00e9c", "x"], [1, 1], "/b/e+1"), [1, 5]);
+    assertEquals(exec(["a\u00e9b\u00e9c", "x"], [1, 1], "/b/e-1"), [1, 2]);
+    assertEquals(exec(["a\ud83d\ude00b"], [1, 1], "/b/e-1"), [1, 2]);
+    assertEquals(exec(["ae\u0301b"], [1, 1], "/b/e-1"), [1, 2]);
+  });
+  it("finds the count-th match.", () => {
+    assertEquals(exec(["foo", "bar"], [1, 1], "/o\\|a", { count: 3 }), [2, 2]);
+    assertThrows(
+      () => exec(["foo"], [1, 1], "/o", { count: 0 }),
+      RangeError,
+      "Invalid count: 0",
+    );
+  });
+  it("searches from the previous search after ';'.", () => {
+    const buffer = ["a1 a2 b1 b2 a3 b3 a4 b4 b5"];
+    assertEquals(exec(buffer, [1, 1], "/b/;?a"), [1, 4]);
+    assertEquals(exec(buffer, [1, 1], "/b/;?a?e"), [1, 4]);
+    assertEquals(exec(buffer, [1, 1], "/a/s+1;/a"), [1, 4]);
+    assertEquals(exec(buffer, [1, 1], "/a/;/b", { count: 2 }), [1, 22]);
+    assertEquals(exec(buffer, [1, 1], "/a/;/b", { count: 3 }), [1, 7]);
+    assertEquals(exec(["  foo", "bar"], [1, 1], "/bar/;?foo?-1"), [1, 1]);
+    assertEquals(
+      executeSearchCommand(["  foo", "bar"], "/foo/-1;/bar"),
+      { lnum: 2, col: 1, linewise: false },
+    );
+  });
+  it("throws after the searches before the invalid ';'.", () => {
+    const cursor = { lnum: 1, col: 1 };
+    assertThrows(
+      () => executeSearchCommand(["foo"], "/o/;x", { cursor }),
+      VimCommandError,
+      "E386: Expected '?' or '/'  after ';'",
+    );
+    assertThrows(
+      () => executeSearchCommand(["foo"], "/x/;x", { cursor }),
+      VimCommandError,
+      "E486: Pattern not found: x",
+    );
+    assertEquals(cursor, { lnum: 1, col: 1 });
+  });
+  it("puts the cursor on the last character of the line.", () => {
+    assertEquals(exec(["foo", "bar", "x"], [1, 1], "/$"), [1, 3]);
+    assertEquals(exec(["foo", "bar"], [1, 1], "/o/e+20"), [2, 3]);
+  });
+  it("throws if the pattern is not found.", () => {
+    assertThrows(
+      () => exec(["foo"], [1, 1], "/x"),
+      VimCommandError,
+      "E486: Pattern not found: x",
+    );
+    assertThrows(
+      () => exec(["foo"], [1, 1], "/x", { wrapscan: false }),
+      VimCommandError,
+      "E385: Search hit BOTTOM without match for: x",
+    );
+    assertThrows(
+      () => exec(["foo"], [1, 1], "?x", { wrapscan: false }),
+      VimCommandError,
+      "E384: Search hit TOP without match for: x",
+    );
+  });
+
+  describe("with session", () => {
+    it("repeats the last search with the last offset.", () => {
+      const session = new VimSearchSession();
+      const cursor = { lnum: 1, col: 1 };
+      const search = (command: string) => {
+        const { lnum, col } = executeSearchCommand(["xab xab xab"], command, { cursor, session });
+        return [lnum, col];
+      };
+      assertEquals(search("/b/e-1"), [1, 2]);
+      assertEquals(search("/"), [1, 6]);
+      assertEquals(search("//"), [1, 7]);
+      assertEquals(search("//e-1"), [1, 10]);
+      assertEquals(session.lastSearchPattern, { pattern: "b", typed: true });
+      assertEquals(session.lastSearchOffset, { type: "end", offset: -1 });
+    });
+    it("uses the last used pattern for the empty pattern.", () => {
+      const session = new VimSearchSession();
+      session.setLastSearchPattern("foo");
+      session.setLastSubstitutePattern("ba.");
+      assertEquals(exec(["foo bar baz"], [1, 5], "//e", { session }), [1, 7]);
+      assertEquals(session.lastSearchPattern, { pattern: "ba.", typed: true });
+    });
+    it("throws if there is no previous pattern.", () => {
+      assertThrows(
+        () => exec(["foo"], [1, 1], "//", { session: new VimSearchSession() }),
+        VimCommandError,
+        "E35: No previous regular expression",
+      );
+      assertThrows(() => exec(["foo"], [1, 1], "/"), VimCommandError, "E35");
+    });
+  });
+});
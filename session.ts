@@ -0,0 +1,181 @@
+/**
+ * This module provides the search session that shares the state between
+ * searches.
+ *
+ * @module
+ */
+
+/**
+ * The last search pattern stored in {@linkcode VimSearchSession}.
+ */
+export type VimLastSearchPattern = {
+  /** Vim's regular expression pattern. */
+  pattern: string;
+  /**
+   * Whether the pattern was typed by the user.
+   * The {@linkcode VimRegExpOptions.smartcase} option is only used when the
+   * pattern is typed, e.g. it is not used for the pattern of "*" and "#".
+   */
+  typed: boolean;
+};
+
+/**
+ * The offset of a search command, like "e+1" of "/foo/e+1".
+ *
+ * - `"line"`: Moves the cursor `offset` lines down to the first column,
+ *   like "+1".
+ * - `"start"`: Moves the cursor `offset` characters right from the start of
+ *   the match, like "s-1" and "b+2".
+ * - `"end"`: Moves the cursor `offset` characters right from the end of the
+ *   match, like "e+1".
+ */
+export type VimSearchOffset = {
+  /** The position that the offset is added to. */
+  type: "line" | "start" | "end";
+  /** The number of lines or characters, negative to move backward. */
+  offset: number;
+};
+
+/**
+ * The last substitute command stored in {@linkcode VimSearchSession}, that is
+ * repeated by ":s" without a pattern and by ":&".
+ */
+export type VimLastSubstitute = {
+  /** The replacement string as typed, "~" is not expanded. */
+  replacement: string;
+  /**
+   * The state of the flags, that is kept by the "&" flag and by the
+   * `edcompatible` option.  Each of "g", "c", "e" and "n" is included if the
+   * flag is on, and "i" or "I" if given last.
+   */
+  flags: string;
+};
+
+/**
+ * Represents a search session, which holds Vim's registers shared between
+ * searches.
+ *
+ * - The last used pattern, that is the last search pattern or the last
+ *   substitute pattern whichever was set later, is used for the empty
+ *   pattern, like "//".
+ * - The last substitute string is used for "~" in a pattern.
+ *
+ * @example
+ * ```ts
+ * import { VimRegExp } from "@milly/vimregexp/regexp";
+ * import { VimSearchSession } from "@milly/vimregexp/session";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const session = new VimSearchSession();
+ * session.setLastSearchPattern("fo\\+");
+ * session.setLastSubstituteString("bar");
+ * assertEquals(new VimRegExp("", { session }).exec("a foo")?.[0], "foo");
+ * assertEquals(new VimRegExp("~\\+", { session }).exec("barbarbaz")?.[0], "barbar");
+ * ```
+ */
+export class VimSearchSession {
+  #lastSearchPattern?: VimLastSearchPattern;
+  #lastSearchOffset?: VimSearchOffset;
+  #lastSubstitutePattern?: VimLastSearchPattern;
+  #lastPatternIsSubstitute = false;
+  #lastSubstituteString?: string;
+  #lastSubstitute?: VimLastSubstitute;
+
+  /**
+   * Returns a copy of the last search pattern, or `undefined` if not set.
+   */
+  get lastSearchPattern(): VimLastSearchPattern | undefined {
+    return this.#lastSearchPattern && { ...this.#lastSearchPattern };
+  }
+
+  /**
+   * Returns a copy of the offset of the last search command, or `undefined`
+   * if not set.
+   */
+  get lastSearchOffset(): VimSearchOffset | undefined {
+    return this.#lastSearchOffset && { ...this.#lastSearchOffset };
+  }
+
+  /**
+   * Returns a copy of the last substitute pattern, or `undefined` if not set.
+   */
+  get lastSubstitutePattern(): VimLastSearchPattern | undefined {
+    return this.#lastSubstitutePattern && { ...this.#lastSubstitutePattern };
+  }
+
+  /**
+   * Returns a copy of the last used pattern, that is the last search pattern
+   * or the last substitute pattern whichever was set later, or `undefined`
+   * if not set.
+   */
+  get lastPattern(): VimLastSearchPattern | undefined {
+    return this.#lastPatternIsSubstitute ? this.lastSubstitutePattern : this.lastSearchPattern;
+  }
+
+  /**
+   * Returns the last substitute string, or `undefined` if not set.
+   */
+  get lastSubstituteString(): string | undefined {
+    return this.#lastSubstituteString;
+  }
+
+  /**
+   * Returns a copy of the last substitute command, or `undefined` if not
+   * set.
+   */
+  get lastSubstitute(): VimLastSubstitute | undefined {
+    return this.#lastSubstitute && { ...this.#lastSubstitute };
+  }
+
+  /**
+   * Sets the last search pattern.
+   *
+   * @param pattern - Vim's regular expression pattern.
+   * @param typed - Whether the pattern was typed by the user.
+   */
+  setLastSearchPattern(pattern: string, typed = true): void {
+    this.#lastSearchPattern = { pattern, typed };
+    this.#lastPatternIsSubstitute = false;
+  }
+
+  /**
+   * Sets the offset of the last search command, that is used by the search
+   * command without a pattern, like "/".
+   *
+   * @param offset - The offset of the search command.
+   */
+  setLastSearchOffset(offset: VimSearchOffset): void {
+    this.#lastSearchOffset = { ...offset };
+  }
+
+  /**
+   * Sets the last substitute pattern.
+   *
+   * @param pattern - Vim's regular expression pattern.
+   * @param typed - Whether the pattern was typed by the user.
+   */
+  setLastSubstitutePattern(pattern: string, typed = true): void {
+    this.#lastSubstitutePattern = { pattern, typed };
+    this.#lastPatternIsSubstitute = true;
+  }
+
+  /**
+   * Sets the last substitute string.
+   *
+   * @param string - The substitute string, which "~" in a pattern matches
+   *   literally.
+   */
+  setLastSubstituteString(string: string): void {
+    this.#lastSubstituteString = string;
+  }
+
+  /**
+   * Sets the last substitute command.
+   *
+   * @param replacement - The replacement string as typed.
+   * @param flags - The state of the flags.
+   */
+  setLastSubstitute(replacement: string, flags: string): void {
+    this.#lastSubstitute = { replacement, flags };
+  }
+}
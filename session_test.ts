@@ -0,0 +1,97 @@
+import { assertEquals } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+
+import { VimSearchSession } from "./session.ts";
+
+describe("VimSearchSession", () => {
+  describe("lastSearchPattern", () => {
+    it("returns undefined if not set.", () => {
+      const session = new VimSearchSession();
+      assertEquals(session.lastSearchPattern, undefined);
+    });
+    it("returns the last search pattern.", () => {
+      const session = new VimSearchSession();
+      session.setLastSearchPattern("foo");
+      session.setLastSearchPattern("bar");
+      assertEquals(session.lastSearchPattern, { pattern: "bar", typed: true });
+    });
+    it("returns whether the pattern was typed.", () => {
+      const session = new VimSearchSession();
+      session.setLastSearchPattern("foo", false);
+      assertEquals(session.lastSearchPattern, { pattern: "foo", typed: false });
+    });
+    it("can not be changed.", () => {
+      const session = new VimSearchSession();
+      session.setLastSearchPattern("foo");
+      session.lastSearchPattern!.pattern = "bar";
+      assertEquals(session.lastSearchPattern, { pattern: "foo", typed: true });
+    });
+  });
+  describe("lastSearchOffset", () => {
+    it("returns undefined if not set.", () => {
+      const session = new VimSearchSession();
+      assertEquals(session.lastSearchOffset, undefined);
+    });
+    it("returns the last search offset.", () => {
+      const session = new VimSearchSession();
+      session.setLastSearchOffset({ type: "end", offset: -1 });
+      assertEquals(session.lastSearchOffset, { type: "end", offset: -1 });
+    });
+    it("can not be changed.", () => {
+      const session = new VimSearchSession();
+      session.setLastSearchOffset({ type: "line", offset: 2 });
+      session.lastSearchOffset!.offset = 3;
+      assertEquals(session.lastSearchOffset, { type: "line", offset: 2 });
+    });
+  });
+  describe("lastSubstituteString", () => {
+    it("returns undefined if not set.", () => {
+      const session = new VimSearchSession();
+      assertEquals(session.lastSubstituteString, undefined);
+    });
+    it("returns the last substitute string.", () => {
+      const session = new VimSearchSession();
+      session.setLastSubstituteString("foo");
+      session.setLastSubstituteString("");
+      assertEquals(session.lastSubstituteString, "");
+    });
+  });
+  describe("lastSubstitutePattern", () => {
+    it("returns undefined if not set.", () => {
+      const session = new VimSearchSession();
+      assertEquals(session.lastSubstitutePattern, undefined);
+    });
+    it("returns the last substitute pattern.", () => {
+      const session = new VimSearchSession();
+      session.setLastSubstitutePattern("foo", false);
+      assertEquals(session.lastSubstitutePattern, { pattern: "foo", typed: false });
+      assertEquals(session.lastSearchPattern, undefined);
+    });
+  });
+  describe("lastPattern", () => {
+    it("returns undefined if not set.", () => {
+      const session = new VimSearchSession();
+      assertEquals(session.lastPattern, undefined);
+    });
+    it("returns the pattern set later.", () => {
+      const session = new VimSearchSession();
+      session.setLastSearchPattern("foo");
+      assertEquals(session.lastPattern, { pattern: "foo", typed: true });
+      session.setLastSubstitutePattern("bar");
+      assertEquals(session.lastPattern, { pattern: "bar", typed: true });
+      session.setLastSearchPattern("baz");
+      assertEquals(session.lastPattern, { pattern: "baz", typed: true });
+    });
+  });
+  describe("lastSubstitute", () => {
+    it("returns undefined if not set.", () => {
+      const session = new VimSearchSession();
+      assertEquals(session.lastSubstitute, undefined);
+    });
+    it("returns the last substitute command.", () => {
+      const session = new VimSearchSession();
+      session.setLastSubstitute("~x", "gc");
+      assertEquals(session.lastSubstitute, { replacement: "~x", flags: "gc" });
+    });
+  });
+});
@@ -0,0 +1,477 @@
+/**
+ * This module provides Vim's sort command, like ":sort /\d\+/ rn", over the
+ * lines of a buffer.
+ *
+ * @module
+ */
+
+import { toTextBuffer, type VimBuffer } from "./buffer.ts";
+import { VimCommandError } from "./errors.ts";
+import { type ParseOptions, skipPattern } from "./parser.ts";
+import { type ExAddress, parseRange, resolveRange } from "./range.ts";
+import { VimRegExp, type VimRegExpOptions } from "./regexp.ts";
+
+/**
+ * Optional parameters of {@linkcode sortLines}.
+ *
+ * The options of {@linkcode VimRegExpOptions} are used to compile
+ * {@linkcode SortOptions.pattern} if it is a string.
+ */
+export type SortOptions = Omit<VimRegExpOptions, "flags" | "stringMatch" | "firstLine"> & {
+  /**
+   * Vim's sort flags, the white space is ignored.  Only one of "n", "f",
+   * "x", "o" and "b" can be given.
+   *
+   * - `"i"`: Ignores the case of ASCII letters.
+   * - `"l"`: Compares with the locale of the runtime.
+   * - `"r"`: Sorts on the match of the pattern instead of the text after it.
+   * - `"n"`: Sorts on the first decimal number, that may start with "-".
+   *   The lines without a number come first.
+   * - `"f"`: Sorts on the Float at the start, like `str2float()`.
+   * - `"x"`: Sorts on the first hexadecimal number, "0x" is ignored.
+   * - `"o"`: Sorts on the first octal number.
+   * - `"b"`: Sorts on the first binary number, "0b" is ignored.
+   * - `"u"`: Keeps only the first of the identical lines after sorting.
+   *   The whole lines are compared, with "i" and "l" if given.
+   *
+   * @default {""}
+   */
+  flags?: string;
+
+  /**
+   * The pattern to find the text to sort on in each line.  The text after
+   * the match is used, or the match itself with "r".  A line without a
+   * match is sorted like an empty line.
+   */
+  pattern?: VimRegExp | string;
+
+  /**
+   * Reverses the order, like ":sort!".
+   *
+   * @default {false}
+   */
+  reverse?: boolean;
+};
+
+/**
+ * The sort command parsed by {@linkcode parseSort}.
+ */
+export type SortCommand = {
+  /** The addresses of the range, see {@linkcode parseRange}. */
+  addresses: ExAddress[];
+  /** Whether "!" follows the command name, that reverses the order. */
+  bang: boolean;
+  /** The flags, like "rn".  See {@linkcode SortOptions.flags}. */
+  flags: string;
+  /**
+   * The pattern, the empty string uses the last used pattern.  `undefined`
+   * if the pattern is not given.
+   */
+  pattern?: string;
+  /** The next command after "|", like ":sort|%s/a/b/". */
+  nextCommand?: string;
+};
+
+/**
+ * Optional parameters of {@linkcode executeSort}.
+ *
+ * The options of {@linkcode VimRegExpOptions} are used to compile the
+ * pattern, except `magic` and `smartcase`, like Vim.
+ * {@linkcode VimRegExpOptions.cursor} is moved to the first non-blank
+ * character of the first line of the range, and the marks in the lines
+ * deleted by "u" are deleted from {@linkcode VimRegExpOptions.marks}.
+ *
+ * {@linkcode VimRegExpOptions.session} holds the last used pattern, that
+ * is used by the empty pattern.
+ */
+export type SortCommandOptions = Omit<VimRegExpOptions, "flags" | "stringMatch" | "firstLine"> & {
+  /**
+   * Whether the search of a pattern address in the range wraps around the
+   * end of the buffer, like Vim's 'wrapscan' option.
+   *
+   * @default {true}
+   */
+  wrapscan?: boolean;
+};
+
+/**
+ * The result of {@linkcode executeSort}.
+ */
+export type SortResult = {
+  /** The lines of the buffer after sorting. */
+  lines: string[];
+  /** The number of the lines deleted by "u". */
+  deleted: number;
+};
+
+/** The sort key of a line. */
+type SortKey = {
+  /** The index of the line, that keeps the order of the equal keys. */
+  index: number;
+  /** The text to sort on, or the number. */
+  value: string | bigint | number;
+  /** Whether a number is found, the lines without a number come first. */
+  isNumber: boolean;
+};
+
+const INT64_MAX = (1n << 63n) - 1n;
+const INT64_MIN = -(1n << 63n);
+const UINT64_MAX = (1n << 64n) - 1n;
+
+/** The characters that start the number of each flag, and the radix. */
+const NUMBER_FORMATS = {
+  n: [/[0-9]/, 10],
+  o: [/[0-9]/, 8],
+  x: [/[0-9a-fA-F]/, 16],
+  b: [/[01]/, 2],
+} as const;
+
+/**
+ * Sorts the lines like Vim's ":sort" command.
+ *
+ * The order is the same as Vim.  The text is compared by the code points,
+ * that is the byte order of UTF-8, and the lines with the equal keys keep
+ * their order.  With `reverse`, the sorted lines are reversed.
+ *
+ * @param lines - The lines to sort, that are not modified.
+ * @param options - Optional parameters.
+ * @returns The sorted lines.
+ *
+ * @throws {TypeError}
+ * Thrown if the flags are invalid.
+ *
+ * @example
+ * ```ts
+ * import { sortLines } from "@milly/vimregexp/sort";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const lines = ["b 10", "a 9", "c", "a 10"];
+ * assertEquals(sortLines(lines), ["a 10", "a 9", "b 10", "c"]);
+ * assertEquals(sortLines(lines, { flags: "n" }), ["c", "a 9", "b 10", "a 10"]);
+ * assertEquals(sortLines(lines, { pattern: "\\a" }), ["c", "b 10", "a 10", "a 9"]);
+ * assertEquals(sortLines(lines, { pattern: "\\d\\+", flags: "r", reverse: true }), [
+ *   "a 9",
+ *   "a 10",
+ *   "b 10",
+ *   "c",
+ * ]);
+ * ```
+ */
+export function sortLines(lines: readonly string[], options: SortOptions = {}): string[] {
+  const { flags = "", pattern, reverse = false, ...regexOptions } = options;
+  if (!/^[ \tilrnfxobu]*$/.test(flags) || (flags.match(/[nfxob]/g)?.length ?? 0) > 1) {
+    throw new TypeError(`Invalid sort flags: "${flags}"`);
+  }
+  const regex = typeof pattern === "string" ? new VimRegExp(pattern, regexOptions) : pattern;
+  const format = /[nfxob]/.exec(flags)?.[0] as "n" | "f" | "x" | "o" | "b" | undefined;
+  const compareText = flags.includes("l")
+    ? new Intl.Collator().compare
+    : flags.includes("i")
+    ? (a: string, b: string) => compareCodePoints(toLowerASCII(a), toLowerASCII(b))
+    : compareCodePoints;
+
+  const keys = lines.map((line, index): SortKey => {
+    let start = 0;
+    let end = line.length;
+    if (regex) {
+      regex.lastIndex = 0;
+      const match = regex.exec(line);
+      if (match) {
+        start = flags.includes("r") ? match.index : match.index + match[0].length;
+        end = flags.includes("r") ? match.index + match[0].length : end;
+      } else {
+        end = 0;
+      }
+    }
+    const text = line.slice(start, end);
+    if (format === "f") {
+      // Like Vim, an empty text comes before any number.
+      const s = text.replace(/^[ \t]*(?:\+[ \t]*)?/, "");
+      return { index, value: s === "" ? -Number.MAX_VALUE : strtod(s), isNumber: true };
+    }
+    if (format) {
+      const [first, radix] = NUMBER_FORMATS[format];
+      const found = text.search(first);
+      let i = found < 0 ? text.length : found;
+      // Like Vim, "-" at the end of the text is taken as the number 0.
+      if (text[i - 1] === "-") {
+        --i;
+      }
+      if (i === text.length) {
+        return { index, value: 0n, isNumber: false };
+      }
+      return { index, value: parseNumber(text.slice(i), radix), isNumber: true };
+    }
+    return { index, value: flags.includes("i") ? toLowerASCII(text) : text, isNumber: true };
+  });
+
+  keys.sort((a, b) => {
+    let result: number;
+    if (a.isNumber !== b.isNumber) {
+      result = a.isNumber ? 1 : -1;
+    } else if (typeof a.value === "string") {
+      result = compareText(a.value, b.value as string);
+    } else {
+      // Like Vim, the position of NaN is not defined.
+      result = a.value === b.value ? 0 : a.value > (b.value as typeof a.value) ? 1 : -1;
+    }
+    return result || a.index - b.index;
+  });
+  if (reverse) {
+    keys.reverse();
+  }
+
+  const sorted = keys.map(({ index }) => lines[index]);
+  if (!flags.includes("u")) {
+    return sorted;
+  }
+  return sorted.filter((line, i) => i === 0 || compareText(line, sorted[i - 1]) !== 0);
+}
+
+/**
+ * Parses the sort command, like ":sort! /\d\+/ rn".
+ *
+ * The range is not evaluated here.  Like Vim, the pattern is always parsed
+ * with 'magic', and any ASCII character that is not a letter, a white
+ * space, '"' or "|" can be the delimiter.
+ *
+ * @param command - The command line, the leading ":" is optional.
+ * @param options - Optional parameters, `magic` is used to find the end of
+ *   the patterns of the range.
+ * @returns The parsed command.
+ *
+ * @throws {VimCommandError}
+ * Thrown if the command is not a sort command (E492), a flag is invalid or
+ * the pattern is given twice (E475), more than one of "n", "f", "x", "o"
+ * and "b" are given (E474), or the pattern does not end (E654).
+ *
+ * @example
+ * ```ts
+ * import { parseSort } from "@milly/vimregexp/sort";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(parseSort(":2,$sort! /\\d\\+/ rn"), {
+ *   addresses: [
+ *     { line: { type: "number", lnum: 2 }, offset: 0, separator: "," },
+ *     { line: { type: "last" }, offset: 0 },
+ *   ],
+ *   bang: true,
+ *   flags: "rn",
+ *   pattern: "\\d\\+",
+ * });
+ * ```
+ */
+export function parseSort(command: string, options: ParseOptions = {}): SortCommand {
+  const commandLine = command.replace(/^[ \t:]*/, "");
+  const { addresses, rest: afterRange } = parseRange(commandLine, options);
+  let rest = afterRange.trimStart();
+
+  const word = /^[a-zA-Z]*/.exec(rest)![0];
+  if (word.length < 3 || !"sort".startsWith(word)) {
+    throw new VimCommandError("E492", `Not an editor command: ${commandLine}`);
+  }
+  rest = rest.slice(word.length);
+  const bang = rest[0] === "!";
+  if (bang) {
+    rest = rest.slice(1);
+  }
+  const result: SortCommand = { addresses, bang, flags: "" };
+
+  while (rest !== "") {
+    const c = rest[0];
+    if (c === " " || c === "\t") {
+      rest = rest.slice(1);
+    } else if ("ilrnfxobu".includes(c)) {
+      result.flags += c;
+      rest = rest.slice(1);
+    } else if (c === '"') {
+      break;
+    } else if (c === "|") {
+      result.nextCommand = rest.slice(1);
+      break;
+    } else if (c < "\x80" && !/^[a-zA-Z]/.test(c) && result.pattern === undefined) {
+      const skipped = skipPattern(rest.slice(1), c, { magic: true });
+      if (skipped.rest === "") {
+        throw new VimCommandError(
+          "E654",
+          `Missing delimiter after search pattern: ${rest.slice(1)}`,
+        );
+      }
+      result.pattern = skipped.pattern;
+      rest = skipped.rest.slice(1);
+    } else {
+      throw new VimCommandError("E475", `Invalid argument: ${rest}`);
+    }
+  }
+  if ((result.flags.match(/[nfxob]/g)?.length ?? 0) > 1) {
+    throw new VimCommandError("E474", "Invalid argument");
+  }
+  return result;
+}
+
+/**
+ * Executes the sort command on the lines of the buffer, like Vim.
+ *
+ * The lines in the range are sorted by {@linkcode sortLines}, the range is
+ * the whole buffer by default.  A range of one line is not changed.
+ *
+ * @param buffer - An array of lines or a {@linkcode TextBuffer}, that is not
+ *   modified.
+ * @param command - The command parsed by {@linkcode parseSort}, or the
+ *   command line.
+ * @param options - Optional parameters.
+ * @returns The lines after sorting and the number of the deleted lines.
+ *
+ * @throws {VimCommandError}
+ * Thrown if the command is invalid, see {@linkcode parseSort} and
+ * {@linkcode resolveRange}, or there is no previous pattern (E35).
+ *
+ * @example
+ * ```ts
+ * import { executeSort } from "@milly/vimregexp/sort";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const lines = ["# sizes", "0x1F", "0xa", "-0x10", "0xa"];
+ * assertEquals(executeSort(lines, "2,$sort xu"), {
+ *   lines: ["# sizes", "-0x10", "0xa", "0x1F"],
+ *   deleted: 1,
+ * });
+ * ```
+ */
+export function executeSort(
+  buffer: VimBuffer,
+  command: SortCommand | string,
+  options: SortCommandOptions = {},
+): SortResult {
+  const { wrapscan, session, cursor, marks, ...regexOptions } = options;
+  const parsed = typeof command === "string"
+    ? parseSort(command, { magic: options.magic })
+    : command;
+  const textBuffer = toTextBuffer(buffer);
+  let { line1, line2 } = parsed.addresses.length === 0
+    ? { line1: 1, line2: textBuffer.lineCount }
+    : resolveRange(textBuffer, parsed, { ...regexOptions, wrapscan, cursor, marks, session });
+  line1 ||= 1;
+  line2 ||= 1;
+
+  const lines = Array.from({ length: textBuffer.lineCount }, (_, i) => textBuffer.getLine(i + 1));
+  if (line2 - line1 < 1) {
+    return { lines, deleted: 0 };
+  }
+  let pattern: VimRegExp | undefined;
+  if (parsed.pattern !== undefined) {
+    const source = parsed.pattern || session?.lastPattern?.pattern;
+    if (source === undefined) {
+      throw new VimCommandError("E35", "No previous regular expression");
+    }
+    pattern = new VimRegExp(source, {
+      ...regexOptions,
+      magic: true,
+      smartcase: false,
+      cursor,
+      marks,
+      session,
+    });
+  }
+  const sorted = sortLines(lines.slice(line1 - 1, line2), {
+    flags: parsed.flags,
+    pattern,
+    reverse: parsed.bang,
+  });
+  const deleted = line2 - line1 + 1 - sorted.length;
+  lines.splice(line1 - 1, line2 - line1 + 1, ...sorted);
+
+  if (marks && deleted > 0) {
+    for (const [name, pos] of Object.entries(marks)) {
+      // Like Vim, also the mark in the line before the deleted lines is
+      // deleted.
+      if (pos.lnum > line2) {
+        pos.lnum -= deleted;
+      } else if (pos.lnum >= line2 - deleted) {
+        delete marks[name];
+      }
+    }
+  }
+  if (cursor) {
+    const line = lines[line1 - 1];
+    const blank = /^[ \t]*/.exec(line)![0].length;
+    cursor.lnum = line1;
+    cursor.col = blank < line.length ? blank + 1 : Math.max(blank, 1);
+  }
+  return { lines, deleted };
+}
+
+/**
+ * Compares the strings by the code points, that is the same as the byte
+ * order of UTF-8.
+ */
+function compareCodePoints(a: string, b: string): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; ++i) {
+    const c = a.charCodeAt(i);
+    const d = b.charCodeAt(i);
+    if (c !== d) {
+      return toCodePointOrder(c) - toCodePointOrder(d);
+    }
+  }
+  return a.length - b.length;
+}
+
+/** Moves the surrogates after the other code units of the BMP. */
+function toCodePointOrder(unit: number): number {
+  return unit >= 0xe000 ? unit - 0x800 : unit >= 0xd800 ? unit + 0x2000 : unit;
+}
+
+function toLowerASCII(s: string): string {
+  return s.replace(/[A-Z]+/g, (c) => c.toLowerCase());
+}
+
+/**
+ * Converts the text that starts with the number into a Number, like Vim's
+ * `vim_str2nr()` for ":sort".  Only "0x" and "0b" are recognized.
+ */
+function parseNumber(text: string, radix: 2 | 8 | 10 | 16): bigint {
+  const [, sign, rest] = /^(-?)(.*)$/s.exec(text)!;
+  const prefix = { 16: /^0[xX](?=[0-9a-fA-F])/, 2: /^0[bB](?=[01])/ }[radix as 16 | 2];
+  const body = prefix ? rest.replace(prefix, "") : rest;
+  const [digits] = new RegExp(`^[${"0123456789abcdef".slice(0, radix)}]*`, "i").exec(body)!;
+  let n = 0n;
+  for (const c of digits) {
+    n = n * BigInt(radix) + BigInt(parseInt(c, 16));
+    if (n > UINT64_MAX) {
+      n = UINT64_MAX;
+      break;
+    }
+  }
+  // Like Vim, the overflowed value is clamped.
+  if (sign) {
+    return n > INT64_MAX ? INT64_MIN : -n;
+  }
+  return n > INT64_MAX ? INT64_MAX : n;
+}
+
+/**
+ * Converts the text that starts with the number into a Float, like C's
+ * `strtod()`.  Returns 0 if a number is not found.
+ */
+function strtod(text: string): number {
+  const match =
+    /^[ \t\n\v\f\r]*([-+]?)(?:(inf(?:inity)?)|(nan)(?:\([0-9a-zA-Z_]*\))?|0x((?:[0-9a-f]+(?:\.[0-9a-f]*)?|\.[0-9a-f]+))(?:p([-+]?[0-9]+))?|((?:[0-9]+(?:\.[0-9]*)?|\.[0-9]+)(?:e[-+]?[0-9]+)?))/i
+      .exec(text);
+  if (!match) {
+    return 0;
+  }
+  const [, sign, inf, nan, hex, exponent, decimal] = match;
+  let value: number;
+  if (inf) {
+    value = Infinity;
+  } else if (nan) {
+    value = NaN;
+  } else if (hex !== undefined) {
+    const [int, frac = ""] = hex.split(".");
+    value = parseInt(`0${int}${frac}`, 16) / 16 ** frac.length * 2 ** Number(exponent ?? 0);
+  } else {
+    value = Number(decimal);
+  }
+  return sign === "-" ? -value : value;
+}
@@ -0,0 +1,359 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+
+import { VimCommandError } from "./errors.ts";
+import type { VimPosition } from "./regexp.ts";
+import { VimSearchSession } from "./session.ts";
+import { executeSort, parseSort, sortLines } from "./sort.ts";
+
+describe("sortLines", () => {
+  it("sorts the lines by the code points.", () => {
+    assertEquals(sortLines(["\u00e9", "e", "f", "\u{1f600}", "", "z", "\uffff", "_", "A"]), [
+      "",
+      "A",
+      "_",
+      "e",
+      "f",
+      "z",
+      "\u00e9",
+      "\uffff",
+      "\u{1f600}",
+    ]);
+  });
+  it("does not modify the lines.", () => {
+    const lines = ["b", "a"];
+    assertEquals(sortLines(lines), ["a", "b"]);
+    assertEquals(lines, ["b", "a"]);
+  });
+  it("reverses the order with reverse, also of the equal keys.", () => {
+    assertEquals(sortLines(["b", "a", "c"], { reverse: true }), ["c", "b", "a"]);
+    assertEquals(sortLines(["a1", "b", "a2"], { pattern: "\\a", reverse: true }), [
+      "a2",
+      "a1",
+      "b",
+    ]);
+  });
+  it("ignores the case of ASCII letters with 'i'.", () => {
+    assertEquals(sortLines(["_", "A", "a", "B"]), ["A", "B", "_", "a"]);
+    assertEquals(sortLines(["_", "A", "a", "B"], { flags: "i" }), ["_", "A", "a", "B"]);
+    assertEquals(sortLines(["\u00e9", "\u00c9", "e", "E"], { flags: "i" }), [
+      "e",
+      "E",
+      "\u00c9",
+      "\u00e9",
+    ]);
+  });
+  it("sorts on the first decimal number with 'n'.", () => {
+    assertEquals(sortLines(["b3", "a10", "c-2", "d", "e 1-1"], { flags: "n" }), [
+      "d",
+      "c-2",
+      "e 1-1",
+      "b3",
+      "a10",
+    ]);
+    assertEquals(sortLines(["0x10", "9", "-", "x"], { flags: "n" }), ["x", "0x10", "-", "9"]);
+  });
+  it("clamps the numbers like Vim.", () => {
+    const lines = [
+      "99999999999999999999",
+      "-99999999999999999999",
+      "9223372036854775807",
+      "-9223372036854775808",
+      "9007199254740993",
+      "9007199254740992",
+    ];
+    assertEquals(sortLines(lines, { flags: "n" }), [
+      "-99999999999999999999",
+      "-9223372036854775808",
+      "9007199254740992",
+      "9007199254740993",
+      "99999999999999999999",
+      "9223372036854775807",
+    ]);
+  });
+  it("sorts on the hexadecimal, octal or binary number with 'x', 'o' or 'b'.", () => {
+    assertEquals(sortLines(["0x1F", "x1F", "abc", "zzz", "-0x10", "G"], { flags: "x" }), [
+      "zzz",
+      "G",
+      "-0x10",
+      "0x1F",
+      "x1F",
+      "abc",
+    ]);
+    assertEquals(sortLines(["017", "8", "0o7", "19", "-07", "z"], { flags: "o" }), [
+      "z",
+      "-07",
+      "8",
+      "0o7",
+      "19",
+      "017",
+    ]);
+    assertEquals(sortLines(["0b101", "11", "2", "0101", "-1", "z"], { flags: "b" }), [
+      "2",
+      "z",
+      "-1",
+      "11",
+      "0b101",
+      "0101",
+    ]);
+  });
+  it("sorts on the Float with 'f'.", () => {
+    const lines = [
+      "x 1.5",
+      "2",
+      " +3",
+      "",
+      "-inf",
+      "inf",
+      "1e3",
+      "0x10",
+      ".5",
+      "abc",
+      "+ 4",
+      "-1e-2",
+      "1e",
+      "1.5e+",
+      "0x1p4",
+      "INFINITY",
+      "-",
+      "  -2",
+    ];
+    assertEquals(sortLines(lines, { flags: "f" }), [
+      "-inf",
+      "",
+      "  -2",
+      "-1e-2",
+      "x 1.5",
+      "abc",
+      "-",
+      ".5",
+      "1e",
+      "1.5e+",
+      "2",
+      " +3",
+      "+ 4",
+      "0x10",
+      "0x1p4",
+      "1e3",
+      "inf",
+      "INFINITY",
+    ]);
+  });
+  it("sorts on the text after the match of the pattern.", () => {
+    assertEquals(sortLines(["a3", "b", "a1", "c2", "b"], { pattern: "." }), [
+      "b",
+      "b",
+      "a1",
+      "c2",
+      "a3",
+    ]);
+    assertEquals(sortLines(["ab12", "ab3", "c12", "x"], { pattern: "b\\zs\\d" }), [
+      "ab3",
+      "c12",
+      "x",
+      "ab12",
+    ]);
+  });
+  it("sorts on the match of the pattern with 'r'.", () => {
+    assertEquals(sortLines(["b3x", "a10", "c-2", "d"], { pattern: "\\d\\+", flags: "rn" }), [
+      "d",
+      "c-2",
+      "b3x",
+      "a10",
+    ]);
+    assertEquals(sortLines(["a-5", "a5", "a-x5"], { pattern: "a-", flags: "n" }), [
+      "a5",
+      "a-5",
+      "a-x5",
+    ]);
+  });
+  it("keeps the order of the lines without a match.", () => {
+    assertEquals(sortLines(["z", "b1", "y", "a2", "x"], { pattern: "\\d", flags: "r" }), [
+      "z",
+      "y",
+      "x",
+      "b1",
+      "a2",
+    ]);
+  });
+  it("compiles the pattern with the options.", () => {
+    assertEquals(sortLines(["B", "a", "C"], { pattern: "[a-z]", flags: "r", ignorecase: true }), [
+      "B",
+      "C",
+      "a",
+    ]);
+  });
+  it("keeps the first of the identical lines with 'u'.", () => {
+    assertEquals(sortLines(["1a", "01b", "1A", "x", "2"], { flags: "nu" }), [
+      "x",
+      "1a",
+      "01b",
+      "1A",
+      "2",
+    ]);
+    assertEquals(sortLines(["a", "A", "b", "a"], { flags: "ui" }), ["a", "b"]);
+    assertEquals(sortLines(["a", "A", "b", "a"], { flags: "u", reverse: true }), [
+      "b",
+      "a",
+      "A",
+    ]);
+  });
+  it("ignores the white space in the flags.", () => {
+    assertEquals(sortLines(["b1", "a2"], { flags: " n\t" }), ["b1", "a2"]);
+  });
+  it("throws TypeError if the flags are invalid.", () => {
+    assertThrows(() => sortLines([], { flags: "I" }), TypeError, 'Invalid sort flags: "I"');
+    assertThrows(() => sortLines([], { flags: "nx" }), TypeError, 'Invalid sort flags: "nx"');
+    assertThrows(() => sortLines([], { flags: "nn" }), TypeError, 'Invalid sort flags: "nn"');
+  });
+});
+
+describe("parseSort", () => {
+  it("parses the range, the pattern and the flags.", () => {
+    assertEquals(parseSort(":2,$sort! /a\\/[/]/ rn"), {
+      addresses: [
+        { line: { type: "number", lnum: 2 }, offset: 0, separator: "," },
+        { line: { type: "last" }, offset: 0 },
+      ],
+      bang: true,
+      flags: "rn",
+      pattern: "a\\/[/]",
+    });
+  });
+  it("parses the command names.", () => {
+    assertEquals(parseSort("sor"), { addresses: [], bang: false, flags: "" });
+    assertThrows(() => parseSort("so"), VimCommandError, "E492: Not an editor command: so");
+    assertThrows(() => parseSort("sorts"), VimCommandError, "E492: Not an editor command: sorts");
+  });
+  it("parses the flags around the pattern.", () => {
+    assertEquals(parseSort("sort i#\\d#u"), {
+      addresses: [],
+      bang: false,
+      flags: "iu",
+      pattern: "\\d",
+    });
+    assertEquals(parseSort("sort //").pattern, "");
+  });
+  it("parses the pattern with 'magic'.", () => {
+    assertEquals(parseSort("sort /[/]/", { magic: false }).pattern, "[/]");
+  });
+  it("stops at the comment and the next command.", () => {
+    assertEquals(parseSort('sort n " comment'), { addresses: [], bang: false, flags: "n" });
+    assertEquals(parseSort("sort n|%s/a/b/"), {
+      addresses: [],
+      bang: false,
+      flags: "n",
+      nextCommand: "%s/a/b/",
+    });
+  });
+  it("throws VimCommandError if the arguments are invalid.", () => {
+    assertThrows(() => parseSort("sort I"), VimCommandError, "E475: Invalid argument: I");
+    assertThrows(
+      () => parseSort("sort /a/ /b/"),
+      VimCommandError,
+      "E475: Invalid argument: /b/",
+    );
+    assertThrows(
+      () => parseSort("sort \u00e9a\u00e9"),
+      VimCommandError,
+      "E475: Invalid argument: \u00e9a\u00e9",
+    );
+    assertThrows(
+      () => parseSort("sort /a"),
+      VimCommandError,
+      "E654: Missing delimiter after search pattern: a",
+    );
+    assertThrows(() => parseSort("sort nn"), VimCommandError, "E474: Invalid argument");
+    assertThrows(() => parseSort("sort n x"), VimCommandError, "E474: Invalid argument");
+  });
+});
+
+describe("executeSort", () => {
+  it("sorts the whole buffer by default.", () => {
+    const lines = ["c", "a", "b"];
+    assertEquals(executeSort(lines, "sort"), { lines: ["a", "b", "c"], deleted: 0 });
+    assertEquals(lines, ["c", "a", "b"]);
+  });
+  it("sorts the lines in the range.", () => {
+    assertEquals(executeSort(["a", " b", "c", "d"], "2,3sort!"), {
+      lines: ["a", "c", " b", "d"],
+      deleted: 0,
+    });
+    assertEquals(executeSort(["b", "a"], "0sort"), { lines: ["b", "a"], deleted: 0 });
+  });
+  it("accepts the parsed command.", () => {
+    assertEquals(executeSort(["b", "a", "a"], parseSort("sort u")), {
+      lines: ["a", "b"],
+      deleted: 1,
+    });
+  });
+  it("uses the pattern with 'magic' and without 'smartcase'.", () => {
+    const options = { magic: false, ignorecase: true, smartcase: true };
+    assertEquals(executeSort(["xb", "Xa"], "sort /X./ r", options).lines, ["Xa", "xb"]);
+  });
+  it("throws VimCommandError if the range is invalid.", () => {
+    assertThrows(() => executeSort(["a"], "3sort"), VimCommandError, "E16: Invalid range");
+  });
+
+  describe("with cursor and marks", () => {
+    const setup = (lines: string[]) => {
+      const cursor: VimPosition = { lnum: 4, col: 1 };
+      const marks: Record<string, VimPosition> = {};
+      lines.forEach((_, i) => marks["abcde"[i]] = { lnum: i + 1, col: 1 });
+      return { cursor, marks };
+    };
+
+    it("moves the cursor to the first non-blank of the first line.", () => {
+      const options = setup(["c", "  b", "a", "d"]);
+      executeSort(["c", "  b", "a", "d"], "sort", options);
+      assertEquals(options.cursor, { lnum: 1, col: 3 });
+      executeSort(["x", "   ", "b"], "2,3sort", options);
+      assertEquals(options.cursor, { lnum: 2, col: 3 });
+      executeSort(["x", "", "b"], "2,3sort", options);
+      assertEquals(options.cursor, { lnum: 2, col: 1 });
+    });
+    it("does not move the cursor if the range is one line.", () => {
+      const options = setup(["c", "b", "a", "d"]);
+      executeSort(["c", "b", "a", "d"], "2sort", options);
+      assertEquals(options.cursor, { lnum: 4, col: 1 });
+    });
+    it("does not move the marks without 'u'.", () => {
+      const options = setup(["b", "a", "a", "x", "y"]);
+      executeSort(["b", "a", "a", "x", "y"], "sort", options);
+      assertEquals(Object.values(options.marks).map((pos) => pos.lnum), [1, 2, 3, 4, 5]);
+    });
+    it("deletes and moves the marks with 'u' like Vim.", () => {
+      const options = setup(["b", "a", "a", "x", "y"]);
+      assertEquals(executeSort(["b", "a", "a", "x", "y"], "1,3sort u", options), {
+        lines: ["a", "b", "x", "y"],
+        deleted: 1,
+      });
+      assertEquals(options.marks, {
+        a: { lnum: 1, col: 1 },
+        d: { lnum: 3, col: 1 },
+        e: { lnum: 4, col: 1 },
+      });
+    });
+  });
+
+  describe("with session", () => {
+    it("uses the last pattern for the empty pattern.", () => {
+      const session = new VimSearchSession();
+      session.setLastSubstitutePattern("\\d");
+      assertEquals(executeSort(["a2", "b1"], "sort // r", { session }).lines, ["b1", "a2"]);
+      assertEquals(session.lastSearchPattern, undefined);
+    });
+    it("does not save the pattern.", () => {
+      const session = new VimSearchSession();
+      executeSort(["a2", "b1"], "sort /\\d/", { session });
+      assertEquals(session.lastPattern, undefined);
+    });
+    it("throws VimCommandError if there is no previous pattern.", () => {
+      assertThrows(
+        () => executeSort(["a", "b"], "sort //"),
+        VimCommandError,
+        "E35: No previous regular expression",
+      );
+    });
+  });
+});
@@ -0,0 +1,769 @@
+/**
+ * This module provides the parser and the executor of Vim's substitute
+ * command, like ":%s/foo/bar/g", over the lines of a buffer.
+ *
+ * Like Vim, the columns are byte indices of the lines encoded in UTF-8,
+ * 1-based.
+ *
+ * @module
+ */
+
+import { type TextBuffer, toTextBuffer, type VimBuffer, type VimBufferMatch } from "./buffer.ts";
+import { VimCommandError } from "./errors.ts";
+import { convertOffset, utf8Length } from "./offset.ts";
+import { type ParseOptions, skipPattern } from "./parser.ts";
+import { type ExAddress, parseRange, resolveRange } from "./range.ts";
+import { expandReplacement, expandTilde } from "./replacement.ts";
+import { VimRegExp, type VimRegExpOptions } from "./regexp.ts";
+import type { VimLastSearchPattern } from "./session.ts";
+
+/**
+ * The substitute command parsed by {@linkcode parseSubstitute}.
+ */
+export type SubstituteCommand = {
+  /** The addresses of the range, see {@linkcode parseRange}. */
+  addresses: ExAddress[];
+  /**
+   * The command name.  ":&" and ":~" repeat the last substitute command,
+   * ":~" uses the last used pattern.
+   */
+  name: "substitute" | "smagic" | "snomagic" | "&" | "~";
+  /**
+   * The pattern, the empty string uses the last used pattern.  `undefined`
+   * if the pattern is not given, like ":s" and ":&".
+   */
+  pattern?: string;
+  /**
+   * The previous pattern used instead of the pattern, by "\/" and "\?"
+   * (`"search"`) and by "\&" (`"substitute"`).
+   */
+  previousPattern?: "search" | "substitute";
+  /**
+   * The replacement string as typed.  `undefined` if the pattern is not
+   * given, then the last replacement string is used.
+   */
+  replacement?: string;
+  /** The flags, like "&g". */
+  flags: string;
+  /** The count after the flags, like ":s/a/b/ 3". */
+  count?: number;
+  /** The next command after "|", like ":s/a/b/|s/c/d/". */
+  nextCommand?: string;
+};
+
+/**
+ * The answer of {@linkcode SubstituteOptions.confirm}.
+ *
+ * - `"y"`: Substitute this match.
+ * - `"n"`: Skip this match.
+ * - `"a"`: Substitute this and all remaining matches.
+ * - `"q"`: Quit substituting.
+ * - `"l"`: Substitute this match and quit.
+ */
+export type SubstituteConfirmAnswer = "y" | "n" | "a" | "q" | "l";
+
+/**
+ * Optional parameters of {@linkcode executeSubstitute}.
+ *
+ * The options of {@linkcode VimRegExpOptions} are used to compile the
+ * pattern.  {@linkcode VimRegExpOptions.cursor} and
+ * {@linkcode VimRegExpOptions.marks} are also the state of the command, the
+ * cursor is moved to the last substituted line, the "'" mark is set at the
+ * previous position of the cursor, and the "[" and "]" marks are set at the
+ * first and the last lines of the range.
+ *
+ * {@linkcode VimRegExpOptions.session} holds the last patterns, the last
+ * replacement string and the flags, that are used by the empty pattern,
+ * ":&", ":~" and the "&" flag.
+ */
+export type SubstituteOptions = Omit<VimRegExpOptions, "flags" | "stringMatch" | "firstLine"> & {
+  /**
+   * Inverts the "g" flag, like Vim's `gdefault` option.
+   *
+   * @default {false}
+   */
+  gdefault?: boolean;
+
+  /**
+   * Keeps the "g" and "c" flags of the last substitute command, like Vim's
+   * `edcompatible` option.
+   *
+   * @default {false}
+   */
+  edcompatible?: boolean;
+
+  /**
+   * Whether the search of a pattern address in the range wraps around the
+   * end of the buffer, like Vim's 'wrapscan' option.
+   *
+   * @default {true}
+   */
+  wrapscan?: boolean;
+
+  /**
+   * Called for each match with the "c" flag.  The buffer contains the
+   * substitutions made before the match.  If not given, all matches are
+   * substituted.
+   */
+  confirm?: (match: VimBufferMatch, buffer: TextBuffer) => SubstituteConfirmAnswer;
+};
+
+/**
+ * The result of {@linkcode executeSubstitute}.
+ */
+export type SubstituteResult = {
+  /**
+   * The lines of the buffer after the substitution.  "\0" is the NUL
+   * character inserted by "\n".
+   */
+  lines: string[];
+  /** The number of substitutions, or the number of matches with the "n" flag. */
+  count: number;
+  /** The number of lines that have substitutions or matches. */
+  lineCount: number;
+};
+
+/** The state of the flags, that is kept by the "&" flag. */
+type SubstituteFlags = {
+  all: boolean;
+  ask: boolean;
+  count: boolean;
+  error: boolean;
+  ignorecase?: "i" | "I";
+};
+
+/** The characters that can follow ":s" when the pattern is not given. */
+const NO_PATTERN_CHARS = '0123456789cegriIp|"';
+
+/** The command names and the minimum length of their abbreviations. */
+const COMMAND_NAMES = [["substitute", 1], ["smagic", 2], ["snomagic", 3]] as const;
+
+/**
+ * Parses the substitute command, like ":%s/foo/bar/g".
+ *
+ * The range, the pattern and the replacement string are not evaluated
+ * here.  The pattern ends at the delimiter that is not in a collection, and
+ * the replacement string ends at the delimiter that is not escaped by a
+ * backslash, the rest of the command line is used if not found.
+ *
+ * @param command - The command line, the leading ":" is optional.
+ * @param options - Optional parameters, `magic` is used to find the end of
+ *   the pattern.
+ * @returns The parsed command.
+ *
+ * @throws {VimCommandError}
+ * Thrown if the command is not a substitute command (E492), the delimiter is
+ * a letter (E146) or an invalid backslash (E10), or characters follow the
+ * flags (E488).
+ *
+ * @example
+ * ```ts
+ * import { parseSubstitute } from "@milly/vimregexp/substitute";
+ * import { assertEquals } from "@std/assert";
+ *
+ * assertEquals(parseSubstitute(":%s#/usr#~#g 3"), {
+ *   addresses: [
+ *     { line: { type: "number", lnum: 1 }, offset: 0, separator: "," },
+ *     { line: { type: "last" }, offset: 0 },
+ *   ],
+ *   name: "substitute",
+ *   pattern: "/usr",
+ *   replacement: "~",
+ *   flags: "g",
+ *   count: 3,
+ * });
+ * ```
+ */
+export function parseSubstitute(command: string, options: ParseOptions = {}): SubstituteCommand {
+  const commandLine = command.replace(/^[ \t:]*/, "");
+  const { addresses, rest: afterRange } = parseRange(commandLine, options);
+  let rest = afterRange.trimStart();
+
+  let name: SubstituteCommand["name"];
+  if (rest[0] === "&" || rest[0] === "~") {
+    name = rest[0];
+    rest = rest.slice(1);
+  } else if (isSubstituteWithFlags(rest)) {
+    name = "substitute";
+    rest = rest.slice(1);
+  } else {
+    const word = /^[a-zA-Z]*/.exec(rest)![0];
+    const found = COMMAND_NAMES.find(([full, min]) =>
+      word.length >= min && full.startsWith(word)
+    );
+    if (!found) {
+      throw new VimCommandError("E492", `Not an editor command: ${commandLine}`);
+    }
+    name = found[0];
+    rest = rest.slice(word.length);
+  }
+  const result: SubstituteCommand = { addresses, name, flags: "" };
+
+  rest = rest.trimStart();
+  const c = rest[0];
+  if (name !== "&" && name !== "~" && c !== undefined && !NO_PATTERN_CHARS.includes(c)) {
+    if (/^[a-zA-Z]/.test(c)) {
+      throw new VimCommandError("E146", "Regular expressions can't be delimited by letters");
+    }
+    let delimiter: string;
+    if (c === "\\") {
+      delimiter = rest[1];
+      if (delimiter !== "/" && delimiter !== "?" && delimiter !== "&") {
+        throw new VimCommandError("E10", "\\ should be followed by /, ? or &");
+      }
+      result.previousPattern = delimiter === "&" ? "substitute" : "search";
+      rest = rest.slice(2);
+    } else {
+      delimiter = [...rest][0];
+      const magic = name === "smagic" ? true : name === "snomagic" ? false : options.magic;
+      const skipped = skipPattern(rest.slice(delimiter.length), delimiter, { magic });
+      result.pattern = skipped.pattern;
+      rest = skipped.rest.slice(delimiter.length);
+    }
+    const [replacement, afterReplacement] = splitReplacement(rest, delimiter);
+    result.replacement = replacement;
+    rest = afterReplacement;
+  }
+
+  const flags = /^&?[gcnerp#liI]*/.exec(rest)![0];
+  result.flags = flags;
+  rest = rest.slice(flags.length).trimStart();
+  const count = /^[0-9]+/.exec(rest)?.[0];
+  if (count !== undefined) {
+    result.count = Number(count);
+    rest = rest.slice(count.length).trimStart();
+  }
+  if (rest !== "" && rest[0] !== '"') {
+    if (rest[0] !== "|") {
+      throw new VimCommandError("E488", `Trailing characters: ${rest}`);
+    }
+    result.nextCommand = rest.slice(1);
+  }
+  return result;
+}
+
+/**
+ * Executes the substitute command on the lines of the buffer, like Vim.
+ *
+ * The flags are the following:
+ *
+ * - `"&"`: Keeps the flags of the last substitute command, must be first.
+ * - `"c"`: Confirms each substitution by {@linkcode SubstituteOptions.confirm}.
+ * - `"e"`: Does not throw an error when the pattern is not found.
+ * - `"g"`: Substitutes all matches in the line, instead of the first one.
+ * - `"i"`, `"I"`: Ignores case or not, instead of the `ignorecase` option.
+ * - `"n"`: Counts the matches, and does not substitute.
+ * - `"r"`: Uses the last used pattern instead of the last substitute
+ *   pattern, when the pattern is not given.
+ * - `"p"`, `"#"`, `"l"`: Accepted and ignored, they print the last line in
+ *   Vim.
+ *
+ * The substitution follows Vim, the lines are matched one by one, the
+ * empty match just after the previous match is skipped, and a match that
+ * continues in the next lines joins them.  The newline at the end of the
+ * last line is matched like {@linkcode VimRegExp.execBuffer}, and the
+ * substitution of it stops the search.
+ *
+ * @param buffer - An array of lines or a {@linkcode TextBuffer}, that is not
+ *   modified.
+ * @param command - The command parsed by {@linkcode parseSubstitute}, or the
+ *   command line.
+ * @param options - Optional parameters.
+ * @returns The lines after the substitution and the count.
+ *
+ * @throws {VimCommandError}
+ * Thrown if the command is invalid (see {@linkcode parseSubstitute}), the
+ * range is invalid (E16), the last pattern or replacement string is not
+ * set (E33, E35), the count is not positive (E939), or the pattern is not
+ * found (E486).
+ *
+ * @throws {VimRegExpSyntaxError}
+ * Thrown if the pattern is invalid.
+ *
+ * @throws {VimExpressionError}
+ * Thrown if the expression of "\=" is invalid or fails to evaluate.
+ *
+ * @example
+ * ```ts
+ * import { executeSubstitute } from "@milly/vimregexp/substitute";
+ * import { VimSearchSession } from "@milly/vimregexp/session";
+ * import { assertEquals } from "@std/assert";
+ *
+ * const session = new VimSearchSession();
+ * const lines = ["foo bar", "bar foo foo"];
+ * assertEquals(executeSubstitute(lines, "%s/foo/[&]/g", { session }), {
+ *   lines: ["[foo] bar", "bar [foo] [foo]"],
+ *   count: 3,
+ *   lineCount: 2,
+ * });
+ * assertEquals(executeSubstitute(lines, "%s//&/gn", { session }), {
+ *   lines: ["foo bar", "bar foo foo"],
+ *   count: 3,
+ *   lineCount: 2,
+ * });
+ * ```
+ */
+export function executeSubstitute(
+  buffer: VimBuffer,
+  command: SubstituteCommand | string,
+  options: SubstituteOptions = {},
+): SubstituteResult {
+  const {
+    gdefault = false,
+    edcompatible = false,
+    wrapscan,
+    confirm,
+    session,
+    cursor,
+    marks,
+    ...regexOptions
+  } = options;
+  const parsed = typeof command === "string"
+    ? parseSubstitute(command, { magic: options.magic })
+    : command;
+  const { name, flags } = parsed;
+  const isMagic = name === "smagic" ? true : name === "snomagic" ? false : options.magic ?? true;
+
+  const textBuffer = toTextBuffer(buffer);
+  let { line1, line2 } = resolveRange(textBuffer, parsed, {
+    ...regexOptions,
+    wrapscan,
+    cursor,
+    marks,
+    session,
+  });
+  line1 ||= 1;
+  line2 ||= 1;
+
+  const last = session?.lastSubstitute;
+  const replacement = parsed.replacement ?? last?.replacement;
+  if (replacement === undefined) {
+    throw new VimCommandError("E33", "No previous substitute regular expression");
+  }
+
+  if (
+    parsed.pattern === "\\n" && replacement === "" && parsed.count === undefined &&
+    /^[glp#]?$/.test(flags)
+  ) {
+    // Vim runs ":s/\n//" as the join command, that ignores the flags.
+    session?.setLastSubstitute(replacement, last?.flags ?? "");
+    session?.setLastSubstitutePattern(parsed.pattern);
+    return joinLines(textBuffer, line1, line2, cursor, marks);
+  }
+
+  const state = parseFlags(flags.startsWith("&") || edcompatible ? last?.flags ?? "" : "");
+  if (!flags.startsWith("&")) {
+    if (!edcompatible) {
+      state.all = gdefault;
+      state.ask = false;
+    }
+    state.error = true;
+    state.count = false;
+    state.ignorecase = undefined;
+  }
+  for (const flag of flags.replace(/^&/, "")) {
+    if (flag === "g") {
+      state.all = !state.all;
+    } else if (flag === "c") {
+      state.ask = !state.ask;
+    } else if (flag === "n") {
+      state.count = true;
+    } else if (flag === "e") {
+      state.error = !state.error;
+    } else if (flag === "i" || flag === "I") {
+      state.ignorecase = flag;
+    }
+  }
+  if (state.count) {
+    state.ask = false;
+  }
+  session?.setLastSubstitute(replacement, stringifyFlags(state));
+
+  if (parsed.count !== undefined) {
+    if (parsed.count <= 0 && state.error) {
+      throw new VimCommandError("E939", "Positive count required");
+    }
+    line1 = line2;
+    line2 = Math.min(line2 + parsed.count - 1, textBuffer.lineCount);
+  }
+
+  let source: VimLastSearchPattern | undefined;
+  if (parsed.pattern) {
+    source = { pattern: parsed.pattern, typed: true };
+  } else {
+    const which = parsed.pattern === "" || name === "~" || flags.includes("r")
+      ? "last"
+      : parsed.previousPattern ?? "substitute";
+    source = which === "search"
+      ? session?.lastSearchPattern
+      : which === "substitute"
+      ? session?.lastSubstitutePattern
+      : session?.lastPattern;
+    if (!source) {
+      throw which === "substitute"
+        ? new VimCommandError("E33", "No previous substitute regular expression")
+        : new VimCommandError("E35", "No previous regular expression");
+    }
+  }
+  const regex = new VimRegExp(source.pattern, {
+    ...regexOptions,
+    magic: isMagic,
+    cursor,
+    marks,
+    session,
+    ...(source.typed ? {} : { smartcase: false }),
+    ...(state.ignorecase === "i"
+      ? { ignorecase: true, smartcase: false }
+      : state.ignorecase === "I"
+      ? { ignorecase: false }
+      : {}),
+  });
+  session?.setLastSubstitutePattern(source.pattern, source.typed);
+
+  let sub = replacement;
+  if (session) {
+    sub = expandTilde(replacement, session.lastSubstituteString ?? "", { magic: isMagic });
+    session.setLastSubstituteString(sub);
+  }
+
+  const lines = Array.from({ length: textBuffer.lineCount }, (_, i) => textBuffer.getLine(i + 1));
+  const exec = (lnum: number, index: number) =>
+    regex.execBuffer(lines, { lnum, col: utf8Length(lines[lnum - 1].slice(0, index)) + 1 });
+  /** Returns `true` if the match is not moved from a previous line by "\zs". */
+  const startsInLine = (match: VimBufferMatch) => {
+    const again = exec(match.lnum, 0);
+    return again?.lnum === match.lnum && again.col === match.col;
+  };
+
+  let count = 0;
+  let lineCount = 0;
+  let gotMatch = false;
+  let quit = false;
+  let lastCursor = cursor && { ...cursor };
+  let next: VimBufferMatch | undefined;
+  let lnum = line1;
+  while ((lnum <= line2 || next) && !quit) {
+    let match = next ?? exec(lnum, 0);
+    next = undefined;
+    if (!match) {
+      break;
+    }
+    if (match.lnum > lines.length) {
+      // "\n\zs" moved the match after the last line, like Vim.
+      break;
+    }
+    let shifted = false;
+    if (match.lnum > lnum) {
+      shifted = !startsInLine(match);
+      if (match.lnum > line2 && !shifted) {
+        break;
+      }
+      lnum = match.lnum;
+    }
+    if (!gotMatch) {
+      gotMatch = true;
+      if (marks && cursor) {
+        marks["'"] = { ...cursor };
+      }
+    }
+
+    /** The line being matched, the last line of the match after joined. */
+    let line = lines[lnum - 1];
+    /** The substituted text that is not written to the buffer yet. */
+    let result = "";
+    /** Whether `result` is not written to the buffer yet. */
+    let pending = false;
+    /** The index of `line` that is not copied to `result` yet. */
+    let copyIndex = 0;
+    /** The index of `line` to search the next match. */
+    let matchIndex = 0;
+    /** The end of the previous match, to skip the empty match just after it. */
+    let prevMatchIndex = -1;
+    let didSub = false;
+    for (;;) {
+      const multi = match.endLnum > lnum;
+      const start = toIndex(line, match.col);
+      // The match of the newline after the last line ends on the empty line
+      // after the buffer, like Vim.
+      const end = multi
+        ? toIndex(lines[match.endLnum - 1] ?? "", match.endCol)
+        : toIndex(line, match.endCol);
+      lastCursor = { lnum, col: match.col };
+      /** Whether the rest of the line is not searched. */
+      let skipLine = false;
+      /** Whether the joined line is searched again without the "g" flag. */
+      let doAgain = false;
+      /** The number of the lines joined to the line. */
+      let joinedLines = 0;
+
+      if (matchIndex === prevMatchIndex && !multi && end === matchIndex) {
+        // The empty match just after the previous match does not count.
+        if (matchIndex >= line.length) {
+          skipLine = true;
+        } else {
+          matchIndex += line.codePointAt(matchIndex)! > 0xffff ? 2 : 1;
+        }
+      } else {
+        matchIndex = prevMatchIndex = end;
+        let answer: SubstituteConfirmAnswer = "y";
+        if (state.count) {
+          if (multi) {
+            // Continue on the next line.
+            matchIndex = line.length;
+            skipLine = true;
+          }
+          ++count;
+          didSub = true;
+          answer = "n";
+        } else if (state.ask && confirm) {
+          answer = confirm(...confirmView(match, lnum, lines, line, result, copyIndex));
+          if (answer === "q") {
+            quit = true;
+          } else if (answer === "n") {
+            if (multi) {
+              matchIndex = line.length;
+              skipLine = true;
+            }
+          } else if (answer === "l") {
+            state.all = false;
+            line2 = lnum;
+          } else if (answer === "a") {
+            state.ask = false;
+          }
+        }
+        if (answer !== "n" && answer !== "q") {
+          result += line.slice(copyIndex, start) +
+            expandReplacement(sub, match.submatches, { magic: isMagic, lineBreak: true });
+          pending = true;
+          ++count;
+          didSub = true;
+          lastCursor = { lnum, col: 1 };
+          if (multi) {
+            joinedLines = Math.min(match.endLnum, lines.length) - lnum;
+            line = lines[match.endLnum - 1] ?? "";
+            if (match.endLnum <= line2) {
+              doAgain = true;
+            } else {
+              state.all = false;
+            }
+          }
+          copyIndex = end;
+          if (result.includes("\n")) {
+            // Insert the lines before the line being matched.
+            const inserted = result.split("\n");
+            result = inserted.pop()!;
+            lines.splice(lnum - 1, 0, ...inserted);
+            lnum += inserted.length;
+            line2 += inserted.length;
+            lastCursor = { lnum, col: 1 };
+          }
+        }
+      }
+
+      const lastOne = skipLine || quit || lnum > line2 || !(state.all || doAgain);
+      let nextMatch: VimBufferMatch | undefined;
+      let searched = false;
+      if (!lastOne && joinedLines === 0) {
+        nextMatch = nextInLine(exec(lnum, matchIndex), lnum, matchIndex >= line.length);
+        searched = true;
+      }
+      if (lastOne || joinedLines > 0 || nextMatch?.lnum !== lnum) {
+        if (pending) {
+          // Keep the indices from the end of the line, the substitution may
+          // change the length of the line.
+          const newLine = result + line.slice(copyIndex);
+          const fromEnd = line.length - matchIndex;
+          const prevFromEnd = line.length - prevMatchIndex;
+          lines.splice(lnum - 1, 1 + joinedLines, newLine);
+          line2 -= joinedLines;
+          line = newLine;
+          result = "";
+          pending = false;
+          copyIndex = 0;
+          matchIndex = newLine.length - fromEnd;
+          prevMatchIndex = prevMatchIndex < 0 ? -1 : newLine.length - prevFromEnd;
+        }
+        if (!searched && !lastOne) {
+          nextMatch = nextInLine(exec(lnum, matchIndex), lnum, matchIndex >= line.length);
+        }
+        if (lastOne || !nextMatch) {
+          break;
+        }
+        if (nextMatch.lnum !== lnum) {
+          // Continue at the next line that has a match.
+          next = nextMatch;
+          break;
+        }
+      }
+      match = nextMatch!;
+      shifted = false;
+    }
+    if (didSub) {
+      ++lineCount;
+    }
+    if (!shifted && !next) {
+      // Vim searches again in the line where the match moved by "\zs" is.
+      ++lnum;
+    }
+  }
+  session?.setLastSubstitute(replacement, stringifyFlags(state));
+
+  if (count > 0) {
+    if (marks) {
+      marks["["] = { lnum: line1, col: 1 };
+      marks["]"] = { lnum: line2, col: 1 };
+    }
+    if (cursor && lastCursor && !state.count) {
+      const col = state.ask ? lastCursor.col : firstNonBlankCol(lines[lastCursor.lnum - 1]);
+      Object.assign(cursor, { lnum: lastCursor.lnum, col });
+    }
+  } else if (!gotMatch && state.error) {
+    throw new VimCommandError("E486", `Pattern not found: ${source.pattern}`);
+  } else if (cursor && lastCursor && !state.count) {
+    Object.assign(cursor, lastCursor);
+  }
+  return { lines, count, lineCount };
+}
+
+/**
+ * Joins the lines of the range and the next line without spaces, like the
+ * ":s/\n//" command of Vim.  The cursor is moved to the start of the last
+ * joined line, or to the first line if nothing is joined.
+ */
+function joinLines(
+  textBuffer: TextBuffer,
+  line1: number,
+  line2: number,
+  cursor: VimRegExpOptions["cursor"],
+  marks: VimRegExpOptions["marks"],
+): SubstituteResult {
+  const lines = Array.from({ length: textBuffer.lineCount }, (_, i) => textBuffer.getLine(i + 1));
+  const joinCount = Math.min(line2 + 1, lines.length) - line1 + 1;
+  if (cursor) {
+    cursor.lnum = line1;
+  }
+  if (joinCount <= 1) {
+    return { lines, count: 0, lineCount: 0 };
+  }
+  const joined = lines.splice(line1 - 1, joinCount, "");
+  const lastStart = utf8Length(joined.slice(0, -1).join(""));
+  const line = lines[line1 - 1] = joined.join("");
+  const lineLength = utf8Length(line);
+  if (cursor) {
+    Object.assign(cursor, {
+      lnum: line1,
+      col: Math.max(Math.min(lastStart, lineLength - 1), 0) + 1,
+    });
+  }
+  if (marks) {
+    marks["["] = { lnum: line1, col: utf8Length(joined[0]) + 1 };
+    marks["]"] = { lnum: line1, col: lineLength + 1 };
+  }
+  return { lines, count: joinCount - 1, lineCount: 1 };
+}
+
+/**
+ * Returns `true` if ":s" is followed by the flags, like ":sg" and ":sI".
+ * This follows the rule of Vim, that does not match the other commands
+ * starting with "s", like ":sil" and ":sre".
+ */
+function isSubstituteWithFlags(p: string): boolean {
+  return p[0] === "s" && (
+    (p[1] === "c" && p[2] !== "s" && p[2] !== "r" && (p[3] !== "i" || p[4] !== "p")) ||
+    p[1] === "g" ||
+    (p[1] === "i" && p[2] !== "m" && p[2] !== "l" && p[2] !== "g") ||
+    p[1] === "I" ||
+    (p[1] === "r" && p[2] !== "e")
+  );
+}
+
+/**
+ * Splits the replacement string at the delimiter, that is not escaped by a
+ * backslash.  The delimiter is removed.
+ */
+function splitReplacement(text: string, delimiter: string): [string, string] {
+  for (let i = 0; i < text.length; ++i) {
+    if (text.startsWith(delimiter, i)) {
+      return [text.slice(0, i), text.slice(i + delimiter.length)];
+    }
+    if (text[i] === "\\" && i + 1 < text.length) {
+      ++i;
+    }
+  }
+  return [text, ""];
+}
+
+function parseFlags(flags: string): SubstituteFlags {
+  return {
+    all: flags.includes("g"),
+    ask: flags.includes("c"),
+    count: flags.includes("n"),
+    error: !flags.includes("e"),
+    ignorecase: /[iI]/.exec(flags)?.[0] as "i" | "I" | undefined,
+  };
+}
+
+function stringifyFlags(state: SubstituteFlags): string {
+  return (state.all ? "g" : "") + (state.ask ? "c" : "") + (state.error ? "" : "e") +
+    (state.count ? "n" : "") + (state.ignorecase ?? "");
+}
+
+/**
+ * Returns the match in the line, or the match in the next lines.  If the
+ * search started at the end of the line, the empty match there is ignored,
+ * Vim does not search again there for the pattern that does not match a
+ * line break.
+ */
+function nextInLine(
+  match: VimBufferMatch | null,
+  lnum: number,
+  atEnd: boolean,
+): VimBufferMatch | undefined {
+  if (!match) {
+    return undefined;
+  }
+  const { col, endLnum, endCol } = match;
+  if (atEnd && match.lnum === lnum && endLnum === lnum && endCol === col) {
+    return undefined;
+  }
+  return match;
+}
+
+/**
+ * Returns the arguments of {@linkcode SubstituteOptions.confirm}, the line
+ * contains the substitutions made before the match.
+ */
+function confirmView(
+  match: VimBufferMatch,
+  lnum: number,
+  lines: readonly string[],
+  line: string,
+  result: string,
+  copyIndex: number,
+): [VimBufferMatch, TextBuffer] {
+  const display = result + line.slice(copyIndex);
+  const delta = utf8Length(result) - utf8Length(line.slice(0, copyIndex));
+  return [
+    {
+      ...match,
+      submatches: [...match.submatches],
+      matched: [...match.matched],
+      col: match.col + delta,
+      endCol: match.endLnum === lnum ? match.endCol + delta : match.endCol,
+    },
+    {
+      lineCount: lines.length,
+      getLine: (l) => l === lnum ? display : lines[l - 1],
+    },
+  ];
+}
+
+/** Returns the UTF-16 index of the byte column. */
+function toIndex(line: string, col: number): number {
+  return convertOffset(line, col - 1, "byte", "utf16");
+}
+
+/** Returns the column of the first non-blank character. */
+function firstNonBlankCol(line: string): number {
+  return /^[ \t]*/.exec(line)![0].length + 1;
+}
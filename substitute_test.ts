@@ -0,0 +1,370 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+
+import type { TextBuffer, VimBufferMatch } from "./buffer.ts";
+import { VimCommandError } from "./errors.ts";
+import type { VimPosition } from "./regexp.ts";
+import { VimSearchSession } from "./session.ts";
+import {
+  executeSubstitute,
+  parseSubstitute,
+  type SubstituteConfirmAnswer,
+  type SubstituteOptions,
+} from "./substitute.ts";
+
+describe("parseSubstitute", () => {
+  it("parses the range, the pattern, the replacement and the flags.", () => {
+    assertEquals(parseSubstitute(":%s/a/b/g 3|echo"), {
+      addresses: [
+        { line: { type: "number", lnum: 1 }, offset: 0, separator: "," },
+        { line: { type: "last" }, offset: 0 },
+      ],
+      name: "substitute",
+      pattern: "a",
+      replacement: "b",
+      flags: "g",
+      count: 3,
+      nextCommand: "echo",
+    });
+  });
+  it("parses the command names.", () => {
+    assertEquals(parseSubstitute("sno#x#y").name, "snomagic");
+    assertEquals(parseSubstitute("sm/x/y/").name, "smagic");
+    assertEquals(parseSubstitute("substitute/x/y/").name, "substitute");
+    assertEquals(parseSubstitute("&&"), { addresses: [], name: "&", flags: "&" });
+    assertEquals(parseSubstitute("~g"), { addresses: [], name: "~", flags: "g" });
+  });
+  it("parses the command without the pattern.", () => {
+    assertEquals(parseSubstitute("s"), { addresses: [], name: "substitute", flags: "" });
+    assertEquals(parseSubstitute("sgI"), { addresses: [], name: "substitute", flags: "gI" });
+    assertEquals(parseSubstitute("s 3"), {
+      addresses: [],
+      name: "substitute",
+      flags: "",
+      count: 3,
+    });
+  });
+  it("parses the pattern after blanks.", () => {
+    assertEquals(parseSubstitute("s /a/b/g"), {
+      addresses: [],
+      name: "substitute",
+      pattern: "a",
+      replacement: "b",
+      flags: "g",
+    });
+    assertEquals(parseSubstitute("sm \t#a#b").pattern, "a");
+    assertEquals(parseSubstitute("& g"), { addresses: [], name: "&", flags: "g" });
+  });
+  it("parses the previous patterns.", () => {
+    assertEquals(parseSubstitute("s\\/x/"), {
+      addresses: [],
+      name: "substitute",
+      previousPattern: "search",
+      replacement: "x",
+      flags: "",
+    });
+    assertEquals(parseSubstitute("s\\&x/").previousPattern, "substitute");
+    assertEquals(parseSubstitute("s\\&x/").replacement, "x/");
+  });
+  it("skips the delimiter in a collection and after a backslash.", () => {
+    assertEquals(parseSubstitute("s/a[/]b/x/").pattern, "a[/]b");
+    assertEquals(parseSubstitute("s/a\\/b/c\\/d/").replacement, "c\\/d");
+    assertEquals(parseSubstitute("s?a\\?b?x?").pattern, "a?b");
+    assertEquals(parseSubstitute("sno/\\[b/]/x/").pattern, "\\[b/]");
+    assertEquals(parseSubstitute("sno/[b/").pattern, "[b");
+  });
+  it("ignores the comment.", () => {
+    assertEquals(parseSubstitute('s/a/b/ "c').flags, "");
+  });
+  it("throws if the command is invalid.", () => {
+    assertThrows(
+      () => parseSubstitute("sa/x/y/"),
+      VimCommandError,
+      "E492: Not an editor command: sa/x/y/",
+    );
+    assertThrows(
+      () => parseSubstitute("s\\x"),
+      VimCommandError,
+      "E10: \\ should be followed by /, ? or &",
+    );
+    for (const command of ["s a b", "s\tx/y/", "sno  a"]) {
+      assertThrows(
+        () => parseSubstitute(command),
+        VimCommandError,
+        "E146: Regular expressions can't be delimited by letters",
+      );
+    }
+    assertThrows(
+      () => parseSubstitute("s/a/b/ x"),
+      VimCommandError,
+      "E488: Trailing characters: x",
+    );
+    assertThrows(
+      () => parseSubstitute("sno/[b/]/x/"),
+      VimCommandError,
+      "E488: Trailing characters: x/",
+    );
+  });
+});
+
+describe("executeSubstitute", () => {
+  const sub = (lines: string[], command: string, options: SubstituteOptions = {}) =>
+    executeSubstitute(lines, command, options).lines;
+
+  it("substitutes the first match in the cursor line.", () => {
+    assertEquals(executeSubstitute(["a a", "a", "b"], "s/a/b/"), {
+      lines: ["b a", "a", "b"],
+      count: 1,
+      lineCount: 1,
+    });
+  });
+  it("substitutes all matches in the range with 'g'.", () => {
+    assertEquals(executeSubstitute(["a a", "a", "b"], "%s/a/b/g"), {
+      lines: ["b b", "b", "b"],
+      count: 3,
+      lineCount: 2,
+    });
+    assertEquals(sub([" a a"], "s#a#/#g"), [" / /"]);
+    assertEquals(sub(["aaa"], "s/^a/b/g"), ["baa"]);
+  });
+  it("does not modify the buffer.", () => {
+    const lines = ["foo"];
+    assertEquals(sub(lines, "s/o/0/g"), ["f00"]);
+    assertEquals(lines, ["foo"]);
+  });
+  it("skips the empty match just after the previous match.", () => {
+    assertEquals(sub(["abc"], "s/b*/-/g"), ["-a-c"]);
+    assertEquals(sub(["foo"], "s/b*/-/g"), ["-f-o-o"]);
+    assertEquals(sub(["aaa"], "s/a*/-/g"), ["-"]);
+    assertEquals(sub(["a b c"], "s/\\s*/_/g"), ["_a_b_c"]);
+    assertEquals(sub(["abc"], "s/\\zs/-/g"), ["-a-b-c"]);
+    assertEquals(sub(["foo"], "s/o\\zs/-/g"), ["fo-o-"]);
+    assertEquals(sub(["foo"], "s/\\ze/!/g"), ["!f!o!o"]);
+    assertEquals(sub(["foo"], "s/$/!/g"), ["foo!"]);
+  });
+  it("expands the replacement string.", () => {
+    assertEquals(sub(["aXa"], "s/\\(a\\)X\\(a\\)/\\2\\1/"), ["aa"]);
+    assertEquals(sub(["one two"], "s/\\w\\+/\\u&/g"), ["One Two"]);
+    assertEquals(sub(["a\u00e9b\u00e9"], "s/\u00e9/\\u&/g"), ["a\u00c9b\u00c9"]);
+    assertEquals(sub(["a b"], "s/a\\|b"), [" b"]);
+  });
+  it("breaks the line with '\\r'.", () => {
+    assertEquals(sub(["a,b,c"], "s/,/\\r/g"), ["a", "b", "c"]);
+    assertEquals(sub(["axb"], "s/x/1\\n2/"), ["a1\x002b"]);
+    assertEquals(sub(["axb"], 's/x/\\="1\\n2"/'), ["a1", "2b"]);
+    assertEquals(sub(["axbxc", "x"], "%s/x/\\r/g"), ["a", "b", "c", "", ""]);
+    assertEquals(sub(["abc", "def"], "%s/$/\\r/"), ["abc", "", "def", ""]);
+  });
+  it("joins the lines with a multi-line match.", () => {
+    assertEquals(sub(["axb", "ayb"], "%s/b\\na/[&]/"), ["ax[b", "a]yb"]);
+    assertEquals(sub(["ab", "cd", "ef"], "%s/b\\n\\|d\\n/-/g"), ["a-c-ef"]);
+    assertEquals(sub(["ab", "cd", "ef"], "%s/c\\_.*/X/"), ["ab", "X"]);
+    assertEquals(sub(["a", "", "", "b"], "%s/\\n\\n\\zs/-/"), ["a", "", "-", "b"]);
+    assertEquals(sub(["x", "y", "z"], "1,2s/\\n\\zs/-/"), ["x", "-y", "-z"]);
+  });
+  it("matches the newline at the end of the last line like Vim.", () => {
+    assertEquals(sub(["a", "b", "c"], "%s/\\n/,/"), ["a,b,c,"]);
+    assertEquals(sub(["a", "b", ""], "%s/\\n\\n/X/"), ["a", "bX"]);
+    assertEquals(sub(["a", "b", "c"], "$s/\\n/X\\rY/"), ["a", "b", "cX", "Y"]);
+    assertEquals(sub(["a", "b", "c"], "%s/\\n\\zs/X/g"), ["a", "Xb", "Xc"]);
+    assertEquals(sub(["a ", "b  "], "%s/\\_s*$/!/"), ["a!", "b!"]);
+  });
+  it("joins the lines with ':s/\\n//' like Vim.", () => {
+    const cursor = { lnum: 1, col: 1 };
+    const marks: Record<string, VimPosition> = {};
+    assertEquals(executeSubstitute(["ab", "cd", "ef"], "%s/\\n//g", { cursor, marks }), {
+      lines: ["abcdef"],
+      count: 2,
+      lineCount: 1,
+    });
+    assertEquals(cursor, { lnum: 1, col: 5 });
+    assertEquals(marks, { "[": { lnum: 1, col: 3 }, "]": { lnum: 1, col: 7 } });
+    assertEquals(sub(["ab", "", "c", "d"], "1,2s/\\n//"), ["abc", "d"]);
+    assertEquals(executeSubstitute(["a", "b"], "2s/\\n//").count, 0);
+  });
+  it("counts the matches with 'n'.", () => {
+    assertEquals(executeSubstitute(["a a", "a", "b"], "%s/a/b/gn"), {
+      lines: ["a a", "a", "b"],
+      count: 3,
+      lineCount: 2,
+    });
+    assertEquals(executeSubstitute(["a a", "a", "b"], "%s/a/b/n").count, 2);
+    assertEquals(executeSubstitute(["a a", "a", "b"], "%s/a\\n/X/gn").count, 2);
+  });
+  it("substitutes the lines from the last line of the range with the count.", () => {
+    assertEquals(sub(["a", "a", "a", "a"], "s/a/b/ 2"), ["b", "b", "a", "a"]);
+    assertEquals(sub(["a", "a", "a", "a"], "2s/a/b/ 9"), ["a", "b", "b", "b"]);
+    assertThrows(
+      () => sub(["a"], "s/a/b/ 0"),
+      VimCommandError,
+      "E939: Positive count required",
+    );
+  });
+  it("swaps a backwards range.", () => {
+    assertEquals(sub(["a", "b", "c"], "2,1s/./x/"), ["x", "x", "c"]);
+  });
+  it("throws if the pattern is not found unless 'e'.", () => {
+    assertThrows(() => sub(["a"], "s/x/b/"), VimCommandError, "E486: Pattern not found: x");
+    assertEquals(executeSubstitute(["a"], "s/x/b/e"), { lines: ["a"], count: 0, lineCount: 0 });
+  });
+  it("throws if the range is invalid.", () => {
+    assertThrows(() => sub(["a"], "5s/./x/"), VimCommandError, "E16: Invalid range");
+  });
+  it("resolves the pattern addresses of the range.", () => {
+    assertEquals(sub(["a", "b", "c", "b"], "/b/;/b/s/./x/"), ["a", "x", "x", "x"]);
+    assertEquals(sub(["a", "b", "c", "b"], "/b/,/B/s/./x/", { ignorecase: true }), [
+      "a",
+      "x",
+      "c",
+      "b",
+    ]);
+    assertThrows(
+      () => sub(["a", "b"], "/a/s/./x/", { cursor: { lnum: 2, col: 1 }, wrapscan: false }),
+      VimCommandError,
+      "E385: Search hit BOTTOM without match for: a",
+    );
+  });
+  it("uses the flags for the case.", () => {
+    assertEquals(sub(["aXa", "AXA"], "%s/a/b/i"), ["bXa", "bXA"]);
+    assertEquals(sub(["aXa", "AXA"], "%s/a/b/I", { ignorecase: true }), ["bXa", "AXA"]);
+  });
+  it("inverts 'g' with the gdefault option.", () => {
+    assertEquals(sub(["aaa"], "s/a/b/", { gdefault: true }), ["bbb"]);
+    assertEquals(sub(["aaa"], "s/a/b/g", { gdefault: true }), ["baa"]);
+  });
+  it("uses the magic of the command.", () => {
+    assertEquals(sub(["a.c abc"], "sno/a.c/x/g"), ["x abc"]);
+    assertEquals(sub(["a.c abc"], "sm/a.c/&&/g", { magic: false }), ["a.ca.c abcabc"]);
+  });
+  it("moves the cursor to the first non-blank of the last substituted line.", () => {
+    const cursor = { lnum: 1, col: 1 };
+    const marks: Record<string, VimPosition> = {};
+    sub(["  axbxc", "x", "y"], "%s/x/-/", { cursor, marks });
+    assertEquals(cursor, { lnum: 2, col: 1 });
+    assertEquals(marks, {
+      "'": { lnum: 1, col: 1 },
+      "[": { lnum: 1, col: 1 },
+      "]": { lnum: 3, col: 1 },
+    });
+    Object.assign(cursor, { lnum: 1, col: 1 });
+    sub(["  abc"], "s/c/C/", { cursor });
+    assertEquals(cursor, { lnum: 1, col: 3 });
+    sub(["a,b,c"], "s/,/\\r/g", { cursor });
+    assertEquals(cursor, { lnum: 3, col: 1 });
+  });
+  it("does not move the cursor with 'n'.", () => {
+    const cursor = { lnum: 1, col: 2 };
+    sub(["a a", "a"], "%s/a/b/gn", { cursor });
+    assertEquals(cursor, { lnum: 1, col: 2 });
+  });
+
+  describe("with session", () => {
+    it("uses the last replacement string for '~'.", () => {
+      const session = new VimSearchSession();
+      let lines = sub(["aaa"], "s/a/~x/", { session });
+      lines = sub(lines, "s/a/~y/", { session });
+      assertEquals(lines, ["xxya"]);
+      assertEquals(sub(["a~b"], "s/\\~/[~]/", { session }), ["a[xy]b"]);
+    });
+    it("uses the last used pattern for the empty pattern.", () => {
+      const session = new VimSearchSession();
+      const lines = sub(["abc"], "s/./-/g", { session });
+      assertEquals(sub(lines, "s//+/g", { session }), ["+++"]);
+      session.setLastSearchPattern("X");
+      assertEquals(sub(["aXa"], "s//c/", { session }), ["aca"]);
+      assertEquals(sub(["a", "b", "c", "d"], "/b/,/d/s//X/", { session }), ["a", "b", "c", "X"]);
+    });
+    it("repeats the last substitute command.", () => {
+      const repeat = (command: string) => {
+        const session = new VimSearchSession();
+        const lines = sub(["aXaX"], "s/a/b/", { session });
+        session.setLastSearchPattern("X");
+        return sub(lines, command, { session });
+      };
+      assertEquals(repeat("s"), ["bXbX"]);
+      assertEquals(repeat("&&"), ["bXbX"]);
+      assertEquals(repeat("~"), ["bbaX"]);
+      assertEquals(repeat("~g"), ["bbab"]);
+      assertEquals(repeat("sr"), ["bbaX"]);
+      assertEquals(repeat("s\\/c/"), ["bcaX"]);
+      assertEquals(repeat("s\\?c/"), ["bc/aX"]);
+      assertEquals(repeat("s\\&c/"), ["bXc/X"]);
+    });
+    it("keeps the flags with '&'.", () => {
+      const repeat = (command: string) => {
+        const session = new VimSearchSession();
+        const lines = sub(["aXa", "aa"], "s/a/b/g", { session });
+        return sub(lines, command, { session });
+      };
+      assertEquals(repeat("2&"), ["bXb", "ba"]);
+      assertEquals(repeat("2&&"), ["bXb", "bb"]);
+    });
+    it("keeps 'g' and 'c' with the edcompatible option.", () => {
+      const session = new VimSearchSession();
+      const lines = sub(["aaa", "aaa"], "s/a/b/g", { session, edcompatible: true });
+      assertEquals(sub(lines, "2s/a/c/", { session, edcompatible: true }), ["bbb", "ccc"]);
+    });
+    it("throws if there is no previous pattern.", () => {
+      const session = new VimSearchSession();
+      for (const command of ["s", "~", "&&", "s\\&x/"]) {
+        assertThrows(
+          () => sub(["a"], command, { session }),
+          VimCommandError,
+          "E33: No previous substitute regular expression",
+        );
+      }
+      assertThrows(
+        () => sub(["a"], "s\\/x/", { session }),
+        VimCommandError,
+        "E35: No previous regular expression",
+      );
+    });
+  });
+
+  describe("with 'c'", () => {
+    const confirmWith = (...answers: SubstituteConfirmAnswer[]) => {
+      const calls: [VimBufferMatch, string[]][] = [];
+      const confirm = (match: VimBufferMatch, buffer: TextBuffer) => {
+        const lines = Array.from({ length: buffer.lineCount }, (_, i) => buffer.getLine(i + 1));
+        calls.push([match, lines]);
+        return answers.shift() ?? "y";
+      };
+      return { calls, confirm };
+    };
+
+    it("substitutes the match if the answer is 'y'.", () => {
+      const { calls, confirm } = confirmWith("y", "n", "y");
+      assertEquals(executeSubstitute(["a a", "a"], "%s/a/b/gc", { confirm }), {
+        lines: ["b a", "b"],
+        count: 2,
+        lineCount: 2,
+      });
+      assertEquals(calls.map(([{ lnum, col }]) => [lnum, col]), [[1, 1], [1, 3], [2, 1]]);
+    });
+    it("passes the buffer with the previous substitutions.", () => {
+      const { calls, confirm } = confirmWith();
+      sub(["aa", "a"], "%s/a/bb/gc", { confirm });
+      assertEquals(calls.map(([match, lines]) => [match.lnum, match.col, lines]), [
+        [1, 1, ["aa", "a"]],
+        [1, 3, ["bba", "a"]],
+        [2, 1, ["bbbb", "a"]],
+      ]);
+    });
+    it("substitutes all the rest if the answer is 'a'.", () => {
+      const { calls, confirm } = confirmWith("n", "a");
+      assertEquals(sub(["a a", "a"], "%s/a/b/gc", { confirm }), ["a b", "b"]);
+      assertEquals(calls.length, 2);
+    });
+    it("quits if the answer is 'q'.", () => {
+      const { confirm } = confirmWith("y", "q");
+      assertEquals(sub(["a a", "a"], "%s/a/b/gc", { confirm }), ["b a", "a"]);
+    });
+    it("substitutes the match and quits if the answer is 'l'.", () => {
+      const { confirm } = confirmWith("n", "l");
+      assertEquals(sub(["a a", "a"], "%s/a/b/gc", { confirm }), ["a b", "a"]);
+    });
+    it("substitutes all matches without the callback.", () => {
+      assertEquals(sub(["a a"], "s/a/b/gc"), ["b b"]);
+    });
+  });
+});